@@ -4,8 +4,12 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import ActionItems from "./pages/ActionItems";
+import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
 import ResetPassword from "./pages/ResetPassword";
+import SharedReport from "./pages/SharedReport";
+import Usage from "./pages/Usage";
 
 const queryClient = new QueryClient();
 
@@ -17,7 +21,11 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/auth" element={<Auth />} />
+          <Route path="/action-items" element={<ActionItems />} />
+          <Route path="/usage" element={<Usage />} />
           <Route path="/reset-password" element={<ResetPassword />} />
+          <Route path="/share/:token" element={<SharedReport />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,111 @@
+import React from 'react';
+import { AlertTriangle, ListChecks, Loader2, Plus, Trash2, Zap } from 'lucide-react';
+import { ActionItemStatus, TrackedActionItem } from '../types';
+import { ACTION_ITEM_STATUSES, ACTION_ITEM_STATUS_LABELS } from '@/lib/actionItems';
+import { ActionItemPatch } from '../services/actionItemService';
+
+interface ActionItemsTableProps {
+  items: TrackedActionItem[];
+  onUpdate: (id: string, patch: ActionItemPatch) => void;
+  onDelete: (id: string) => void;
+  onAdd: () => void;
+  onExtract: () => void;
+  isExtracting: boolean;
+  canExtract: boolean;
+}
+
+const CELL_INPUT_CLASS = 'w-full px-2 py-1.5 rounded-lg text-xs bg-transparent hover:bg-muted/60 focus:bg-card focus:outline-none focus:ring-1 focus:ring-primary/40 text-foreground placeholder:text-muted-foreground/40';
+
+/** Text cell that saves on blur, so typing does not write on every keystroke. */
+function TextCell({ value, placeholder, onCommit }: { value: string | null; placeholder: string; onCommit: (value: string | null) => void }) {
+  return (
+    <input type="text" defaultValue={value ?? ''} placeholder={placeholder} className={CELL_INPUT_CLASS}
+      onBlur={e => {
+        const next = e.target.value.trim() || null;
+        if (next !== value) onCommit(next);
+      }} />
+  );
+}
+
+function ActionItemsTable({ items, onUpdate, onDelete, onAdd, onExtract, isExtracting, canExtract }: ActionItemsTableProps) {
+  return (
+    <div className="border-t border-border">
+      <div className="px-5 py-3.5 flex items-center gap-2 bg-muted/20">
+        <ListChecks size={14} className="text-muted-foreground" />
+        <h4 className="text-[13px] font-semibold text-foreground">行動項目</h4>
+        <span className="text-[11px] text-muted-foreground">{items.length} 項</span>
+        <div className="ml-auto flex items-center gap-2">
+          <button onClick={onAdd} disabled={isExtracting}
+            className="flex items-center gap-1.5 text-[11px] font-semibold uppercase tracking-widest px-3.5 py-2 rounded-xl transition-all active:scale-95 disabled:opacity-30 ios-btn-secondary text-muted-foreground">
+            <Plus size={11} />新增
+          </button>
+          <button onClick={onExtract} disabled={isExtracting || !canExtract}
+            className="flex items-center gap-1.5 text-[11px] font-semibold uppercase tracking-widest px-3.5 py-2 rounded-xl transition-all active:scale-95 disabled:opacity-30 ios-btn-primary text-primary-foreground">
+            {isExtracting ? <Loader2 size={11} className="animate-spin" /> : <Zap size={11} />}
+            {items.length > 0 ? '重新擷取' : '擷取行動項目'}
+          </button>
+        </div>
+      </div>
+      {items.length === 0 ? (
+        <p className="px-5 py-6 text-xs text-muted-foreground">
+          {isExtracting ? '正在從逐字稿擷取交辦事項...' : '尚無行動項目。擷取後可直接在表格中修改並追蹤狀態。'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-[10px] font-semibold uppercase tracking-widest text-muted-foreground border-b border-border">
+                <th className="px-3 py-2 w-[34%]">任務／原文</th>
+                <th className="px-3 py-2">交辦人</th>
+                <th className="px-3 py-2">負責人</th>
+                <th className="px-3 py-2">期限</th>
+                <th className="px-3 py-2">狀態</th>
+                <th className="px-3 py-2" title="需人工確認">確認</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {items.map(item => (
+                <tr key={item.id} className={`border-b border-border align-top ${item.status === 'done' || item.status === 'cancelled' ? 'opacity-60' : ''}`}>
+                  <td className="px-3 py-2 space-y-1">
+                    <TextCell value={item.task} placeholder="任務內容" onCommit={task => task && onUpdate(item.id, { task })} />
+                    {item.sourceQuote && <p className="px-2 text-[11px] italic text-muted-foreground">「{item.sourceQuote}」</p>}
+                    {item.ambiguityNote && <p className="px-2 text-[11px] text-amber-700">⚠️ {item.ambiguityNote}</p>}
+                  </td>
+                  <td className="px-3 py-2"><TextCell value={item.assigner} placeholder="—" onCommit={assigner => onUpdate(item.id, { assigner })} /></td>
+                  <td className="px-3 py-2"><TextCell value={item.owner} placeholder="—" onCommit={owner => onUpdate(item.id, { owner })} /></td>
+                  <td className="px-3 py-2 space-y-1">
+                    <input type="date" value={item.dueDate ?? ''} onChange={e => onUpdate(item.id, { dueDate: e.target.value || null })}
+                      className={CELL_INPUT_CLASS} />
+                    {item.dueText && <p className="px-2 text-[11px] text-muted-foreground">{item.dueText}</p>}
+                  </td>
+                  <td className="px-3 py-2">
+                    <select value={item.status} onChange={e => onUpdate(item.id, { status: e.target.value as ActionItemStatus })}
+                      className={CELL_INPUT_CLASS}>
+                      {ACTION_ITEM_STATUSES.map(status => <option key={status} value={status}>{ACTION_ITEM_STATUS_LABELS[status]}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-3 py-2">
+                    <button onClick={() => onUpdate(item.id, { ambiguous: !item.ambiguous })}
+                      title={item.ambiguous ? '模糊訊號：需人工確認（點擊標記為已確認）' : '已確認'}
+                      className={`p-1.5 rounded-lg transition-colors ${item.ambiguous ? 'text-amber-600 bg-amber-500/10' : 'text-muted-foreground/40 hover:text-muted-foreground'}`}>
+                      <AlertTriangle size={13} />
+                    </button>
+                  </td>
+                  <td className="px-3 py-2">
+                    <button onClick={() => onDelete(item.id)} title="刪除"
+                      className="p-1.5 rounded-lg text-muted-foreground hover:text-destructive transition-colors">
+                      <Trash2 size={13} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ActionItemsTable;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { BookOpen, Plus, Trash2, Edit3, Check, Loader2 } from 'lucide-react';
+import { Glossary, GlossaryTerm } from '../types';
+import { parseGlossaryText, formatGlossaryText } from '@/lib/glossary';
+
+interface GlossaryPanelProps {
+  glossaries: Glossary[];
+  attachedIds: string[];
+  onToggle: (glossaryId: string, attached: boolean) => void;
+  onCreate: () => Promise<Glossary | null>;
+  onSave: (glossaryId: string, name: string, terms: GlossaryTerm[]) => Promise<void>;
+  onDelete: (glossaryId: string) => void;
+  /** Glossaries by other authors are listed read-only. */
+  userId: string;
+}
+
+interface Draft {
+  id: string;
+  name: string;
+  text: string;
+}
+
+function GlossaryPanel({ glossaries, attachedIds, onToggle, onCreate, onSave, onDelete, userId }: GlossaryPanelProps) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startEditing = (glossary: Glossary) =>
+    setDraft({ id: glossary.id, name: glossary.name, text: formatGlossaryText(glossary.terms) });
+
+  const create = async () => {
+    const glossary = await onCreate();
+    if (glossary) startEditing(glossary);
+  };
+
+  const save = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    try {
+      await onSave(draft.id, draft.name.trim() || '未命名詞彙表', parseGlossaryText(draft.text));
+      setDraft(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 px-0.5">
+        <BookOpen size={12} className="text-muted-foreground" />
+        <label className="text-[11px] font-semibold uppercase tracking-widest text-muted-foreground">詞彙表</label>
+        <button onClick={create}
+          className="ml-auto flex items-center gap-1 text-[11px] font-semibold px-2.5 py-1 rounded-lg transition-all active:scale-95 ios-btn-secondary text-muted-foreground">
+          <Plus size={11} />新增詞彙表
+        </button>
+      </div>
+      {glossaries.length === 0 && (
+        <p className="text-xs text-muted-foreground px-0.5">建立可跨會議共用的詞彙表；勾選後，已知的誤植會在校正前自動替換。</p>
+      )}
+      {glossaries.map(glossary => {
+        const attached = attachedIds.includes(glossary.id);
+        if (draft?.id === glossary.id) {
+          return (
+            <div key={glossary.id} className="p-3 rounded-xl border border-primary/20 bg-primary/5 space-y-2">
+              <input type="text" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })}
+                placeholder="詞彙表名稱" className="w-full p-2.5 rounded-xl text-sm ios-input text-foreground" />
+              <textarea value={draft.text} onChange={e => setDraft({ ...draft, text: e.target.value })}
+                placeholder={'每行一個詞：標準寫法：誤植1、誤植2 # 備註\n資遣：之前、知遣 # 勞動法用語'}
+                className="w-full h-40 p-3 rounded-xl text-sm font-mono leading-relaxed resize-y placeholder:text-muted-foreground/40 ios-input text-foreground" />
+              <div className="flex items-center gap-2">
+                <button onClick={() => { onDelete(glossary.id); setDraft(null); }}
+                  className="flex items-center gap-1 text-xs font-semibold px-3 py-2 rounded-xl text-destructive hover:bg-destructive/10 transition-colors">
+                  <Trash2 size={12} />刪除
+                </button>
+                <span className="ml-auto text-[11px] text-muted-foreground">{parseGlossaryText(draft.text).length} 個詞</span>
+                <button onClick={() => setDraft(null)} disabled={isSaving}
+                  className="px-3.5 py-2 rounded-xl text-xs font-semibold transition-all active:scale-95 disabled:opacity-30 ios-btn-secondary text-muted-foreground">
+                  取消
+                </button>
+                <button onClick={save} disabled={isSaving}
+                  className="flex items-center gap-1.5 px-3.5 py-2 rounded-xl text-xs font-semibold transition-all active:scale-95 disabled:opacity-30 ios-btn-primary text-primary-foreground">
+                  {isSaving ? <Loader2 size={12} className="animate-spin" /> : <Check size={12} />}儲存
+                </button>
+              </div>
+            </div>
+          );
+        }
+        return (
+          <div key={glossary.id} className="flex items-center gap-2.5 px-3 py-2 rounded-xl bg-muted/40">
+            <input type="checkbox" checked={attached} onChange={e => onToggle(glossary.id, e.target.checked)}
+              className="accent-primary" title="套用於此會議" />
+            <span className="text-sm text-foreground truncate">{glossary.name}</span>
+            <span className="text-[11px] text-muted-foreground">{glossary.terms.length} 個詞</span>
+            {glossary.ownerId && glossary.ownerId !== userId ? (
+              <span className="ml-auto text-[11px] text-muted-foreground">成員共用</span>
+            ) : (
+              <button onClick={() => startEditing(glossary)} title="編輯"
+                className="ml-auto p-1.5 rounded-lg text-muted-foreground hover:text-primary transition-colors">
+                <Edit3 size={12} />
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default GlossaryPanel;
@@ -3,13 +3,49 @@ import {
   Plus, Trash2, Edit3, ChevronRight, Clock,
   Upload, BrainCircuit, Settings, Menu, X, Copy, Check,
   Loader2, Sparkles, Send, LogOut,
-  ChevronLeft, History, Zap, AlertCircle
+  History, Zap, AlertCircle, AlertTriangle, FileUp, Square, GitCompare, ListChecks, FileDown, Search, Users, Eye, Share2, RefreshCw, BarChart3
 } from 'lucide-react';
-import { MeetingMetadata, ChatMessage } from '../types';
-import { INSIGHT_MODULE_CONFIGS } from '../constants';
+import { Link, useSearchParams } from 'react-router-dom';
+import {
+  MeetingMetadata, ChatMessage, SpeakerProfile, Glossary, GlossaryTerm, AnalysisModuleDefinition, TrackedActionItem, Folder, Tag, Workspace, AiJob,
+} from '../types';
+import { renderModuleIcon, tagColorClass } from '../constants';
 import { geminiService } from '../services/geminiService';
+import { glossaryService } from '../services/glossaryService';
+import { moduleService, ModuleDraft } from '../services/moduleService';
+import { actionItemService, ActionItemPatch } from '../services/actionItemService';
+import { searchService, SearchResult } from '../services/searchService';
+import { organizerService } from '../services/organizerService';
+import { workspaceService } from '../services/workspaceService';
+import { jobService } from '../services/jobService';
+import { parseTranscript, listSpeakers, countUncertainties, splitCorrectionOutput } from '@/lib/transcript';
+import {
+  importTranscript, formatDuration, TranscriptImportResult,
+  TRANSCRIPT_FILE_ACCEPT, TRANSCRIPT_FORMAT_LABELS, UNKNOWN_SPEAKER,
+} from '@/lib/transcriptImport';
+import { mergeGlossaryTerms } from '@/lib/glossary';
+import { BUILT_IN_MODULES, UNKNOWN_MODULE_ERROR } from '@/lib/modules';
+import { SEARCH_KIND_LABELS, cleanSnippet, highlightSegments } from '@/lib/search';
+import { EMPTY_RECORD_FILTER, RecordFilter, UNFILED, listParticipants, matchesFilter } from '@/lib/recordFilters';
+import { INVITE_PARAM, ROLE_LABELS, canDeleteMeeting, canEditMeetings, pickWorkspace } from '@/lib/workspaces';
+import { ModelChoice, ProviderInfo } from '@/lib/aiProviders';
+import { isRetryableError } from '@/lib/aiErrors';
+import { activeJobFor, isJobFinished, jobError, settledJobs, upsertJob } from '@/lib/aiJobs';
+import { BatchEntry, BUSY_MODULE_ERROR, batchEntryStatus, planModuleBatch, summarizeBatch } from '@/lib/moduleBatch';
+import { rosterOf, cleanRoster, formatRosterSummary, formatSpeakerProfile, mergeDetectedSpeakers } from '@/lib/roster';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import VersionPaginator from './VersionPaginator';
+import TranscriptDiffView from './TranscriptDiffView';
+import SpeakerRosterEditor from './SpeakerRosterEditor';
+import GlossaryPanel from './GlossaryPanel';
+import ModuleEditor from './ModuleEditor';
+import ActionItemsTable from './ActionItemsTable';
+import ReportExportDialog from './ReportExportDialog';
+import RecordFilterPanel from './RecordFilterPanel';
+import WorkspaceDialog from './WorkspaceDialog';
+import ShareLinkDialog from './ShareLinkDialog';
+import ModelSelect from './ModelSelect';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 interface MeetingRecord {
@@ -18,6 +54,14 @@ interface MeetingRecord {
   createdAt: number;
   rawTranscript: string;
   metadata: MeetingMetadata;
+  folderId: string | null;
+  tagIds: string[];
+  workspaceId: string;
+  /** Who created the meeting. */
+  userId: string;
+  /** AI provider and model picked for this meeting; null uses the workspace's. */
+  aiProvider: string | null;
+  aiModel: string | null;
 }
 
 interface TranscriptVersion {
@@ -26,6 +70,11 @@ interface TranscriptVersion {
   correctedTranscript: string;
   correctionLog?: string;
   createdAt: number;
+  source: 'ai' | 'manual';
+  authorId?: string;
+  basedOnVersionId?: string;
+  promptVersion?: string;
+  model?: string;
 }
 
 interface ModuleVersion {
@@ -34,6 +83,73 @@ interface ModuleVersion {
   versionNumber: number;
   createdAt: number;
   messages: ChatMessage[];
+  /** Transcript version the analysis was run against; unset for legacy rows. */
+  transcriptVersionId?: string;
+  /** Person modelled by module B. */
+  focusSpeaker?: SpeakerProfile;
+  promptVersion?: string;
+  model?: string;
+}
+
+/** Where to land inside a meeting, e.g. from a search result or a link. */
+interface MeetingLocation {
+  recordId: string;
+  step: 1 | 2 | 3;
+  transcriptVersion?: number;
+  moduleId?: string;
+  moduleVersion?: number;
+}
+
+/** Output received so far for the correction ('correction') or a module (its id). */
+interface StreamState {
+  target: string;
+  kind: 'correction' | 'analysis' | 'chat';
+  text: string;
+  progress?: { completed: number; total: number };
+  /** Set while the function retries a failed model call. */
+  retryAttempt?: number;
+  /** Set when the output comes from a background job rather than a request from this tab. */
+  jobId?: string;
+}
+
+// ─── Version Loading ──────────────────────────────────────────────────────────
+async function fetchTranscriptVersions(recordId: string): Promise<TranscriptVersion[]> {
+  const { data } = await supabase.from('transcript_versions').select('*').eq('record_id', recordId).order('version_number', { ascending: true });
+  return (data || []).map(v => {
+    // Versions saved before the log was stored separately still carry it inline
+    const split = v.correction_log ? null : splitCorrectionOutput(v.corrected_transcript);
+    return {
+      id: v.id, versionNumber: v.version_number,
+      correctedTranscript: split ? split.transcript : v.corrected_transcript,
+      correctionLog: (split ? split.correctionLog : v.correction_log) || undefined,
+      createdAt: new Date(v.created_at).getTime(),
+      source: v.source === 'manual' ? 'manual' : 'ai',
+      authorId: v.author_id || undefined,
+      basedOnVersionId: v.based_on_version_id || undefined,
+      promptVersion: v.prompt_version || undefined,
+      model: v.model || undefined,
+    };
+  });
+}
+
+/** Module versions with their conversations, keyed by module id. */
+async function fetchModuleVersions(recordId: string): Promise<Record<string, ModuleVersion[]>> {
+  const { data: mvData } = await supabase.from('module_versions').select('*, chat_messages(*)').eq('record_id', recordId).order('version_number', { ascending: true });
+  const map: Record<string, ModuleVersion[]> = {};
+  for (const mv of (mvData || [])) {
+    const msgs: ChatMessage[] = ((mv.chat_messages as any[]) || [])
+      .sort((a: any, b: any) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+      .map((m: any) => ({ role: m.role as 'user' | 'model', text: m.content, timestamp: new Date(m.created_at).getTime() }));
+    if (!map[mv.module_id]) map[mv.module_id] = [];
+    map[mv.module_id].push({
+      id: mv.id, moduleId: mv.module_id, versionNumber: mv.version_number, createdAt: new Date(mv.created_at).getTime(), messages: msgs,
+      transcriptVersionId: mv.transcript_version_id || undefined,
+      focusSpeaker: (mv.focus_speaker as unknown as SpeakerProfile) || undefined,
+      promptVersion: mv.prompt_version || undefined,
+      model: mv.model || undefined,
+    });
+  }
+  return map;
 }
 
 // ─── Inline Markdown Parser (bold, italic, inline code) ──────────────────────
@@ -141,64 +257,81 @@ const MarkdownRenderer = ({ text }: { text: string }) => {
   return <div className="markdown-content">{elements}</div>;
 };
 
-// ─── Version Paginator ────────────────────────────────────────────────────────
-function VersionPaginator({ total, current, onChange }: { total: number; current: number; onChange: (v: number) => void }) {
-  if (total <= 1) return null;
+// ─── Transcript View (speaker turns with uncertainty highlights) ──────────────
+const highlightUncertainties = (text: string): React.ReactNode[] =>
+  text.split(/(\[(?:文字存疑|語意存疑)[^\]]*\])/g).map((part, idx) =>
+    /^\[(?:文字存疑|語意存疑)/.test(part)
+      ? <mark key={idx} className="px-1 rounded bg-amber-500/15 text-amber-700">{part}</mark>
+      : part
+  );
+
+function TranscriptView({ text }: { text: string }) {
+  const transcript = parseTranscript(text);
+  if (transcript.turns.length === 0) return <>{text}</>;
   return (
-    <div className="flex items-center gap-1 ios-surface rounded-xl px-2 py-1">
-      <button onClick={() => onChange(current - 1)} disabled={current <= 1}
-        className="p-1.5 rounded-lg text-muted-foreground hover:text-primary disabled:opacity-30 transition-colors">
-        <ChevronLeft size={13} />
-      </button>
-      <div className="flex items-center gap-1">
-        {Array.from({ length: total }, (_, i) => i + 1).map(v => (
-          <button key={v} onClick={() => onChange(v)}
-            className={`w-6 h-6 rounded-lg text-[10px] font-semibold transition-all ${v === current ? 'bg-primary text-primary-foreground shadow-ios-sm' : 'text-muted-foreground hover:text-primary'}`}>
-            {v}
-          </button>
-        ))}
-      </div>
-      <button onClick={() => onChange(current + 1)} disabled={current >= total}
-        className="p-1.5 rounded-lg text-muted-foreground hover:text-primary disabled:opacity-30 transition-colors">
-        <ChevronRight size={13} />
-      </button>
+    <div className="space-y-4 whitespace-normal">
+      {transcript.preamble && <p className="whitespace-pre-wrap text-muted-foreground">{transcript.preamble}</p>}
+      {transcript.turns.map((turn, idx) => (
+        <div key={idx}>
+          <div className="flex items-center gap-2 mb-1">
+            <span className="font-semibold text-foreground">{turn.speaker}</span>
+            {turn.startTime && <span className="text-[11px] font-mono text-muted-foreground">{turn.startTime}</span>}
+          </div>
+          <p className="whitespace-pre-wrap">{highlightUncertainties(turn.text)}</p>
+        </div>
+      ))}
+      {transcript.appendix && <div className="pt-4 border-t border-border"><MarkdownRenderer text={transcript.appendix} /></div>}
     </div>
   );
 }
 
-// ─── Progress Steps ────────────────────────────────────────────────────────────
-function ProgressSteps({ step, label }: { step: 1 | 2 | 3; label: string }) {
-  const steps = [
-    { n: 1, label: '[1/3] 數據上傳' },
-    { n: 2, label: '[2/3] 核心解讀' },
-    { n: 3, label: '[3/3] 結果渲染' },
-  ];
+function TranscriptStats({ text }: { text: string }) {
+  const transcript = parseTranscript(text);
+  if (transcript.turns.length === 0) return null;
   return (
-    <div className="flex flex-col items-center gap-4">
-      <div className="flex items-center gap-3">
-        {steps.map((s, idx) => (
-          <React.Fragment key={s.n}>
-            <div className={`flex items-center gap-2 px-3 py-1.5 rounded-xl text-xs font-semibold transition-all ${s.n === step ? 'bg-primary/10 text-primary' : 'text-muted-foreground opacity-40'}`}>
-              {s.n === step && <Loader2 size={12} className="animate-spin" />}
-              {s.label}
-            </div>
-            {idx < 2 && <div className={`w-8 h-px transition-all ${s.n < step ? 'bg-primary' : 'bg-border'}`} />}
-          </React.Fragment>
-        ))}
-      </div>
-      <p className="text-sm font-medium text-muted-foreground">{label}</p>
+    <span>
+      {' · '}{transcript.turns.length} 個發言輪次 · {listSpeakers(transcript).length} 位說話者
+      {countUncertainties(transcript) > 0 && <> · <span className="text-amber-700">{countUncertainties(transcript)} 處存疑</span></>}
+    </span>
+  );
+}
+
+// ─── Stream Status ────────────────────────────────────────────────────────────
+function StreamStatus({ label, progress, retryAttempt, onCancel }: {
+  label: string;
+  progress?: { completed: number; total: number };
+  retryAttempt?: number;
+  onCancel: () => void;
+}) {
+  return (
+    <div className="flex items-center gap-2.5 py-2">
+      <Loader2 size={13} className="animate-spin text-primary shrink-0" />
+      <span className="text-[13px] text-muted-foreground">
+        {label}
+        {progress && ` · 已完成 ${progress.completed}/${progress.total} 段`}
+        {retryAttempt && ` · AI 服務暫時忙碌，第 ${retryAttempt} 次重試中`}
+      </span>
+      <button onClick={onCancel}
+        className="ml-auto flex items-center gap-1.5 text-[11px] font-semibold uppercase tracking-widest px-3 py-1.5 rounded-xl transition-all active:scale-95 ios-btn-secondary text-muted-foreground hover:text-destructive">
+        <Square size={10} />停止
+      </button>
     </div>
   );
 }
 
 // ─── Error Banner ─────────────────────────────────────────────────────────────
-function ErrorBanner({ message, onDismiss }: { message: string; onDismiss: () => void }) {
+function ErrorBanner({ message, onRetry, onDismiss }: { message: string; onRetry?: () => void; onDismiss: () => void }) {
   return (
     <div className="flex items-start gap-3 p-4 rounded-2xl bg-destructive/8 border border-destructive/20 text-destructive">
       <AlertCircle size={17} className="shrink-0 mt-0.5" />
       <div className="flex-1">
         <p className="text-sm font-semibold">發生錯誤</p>
         <p className="text-xs mt-1 opacity-75">{message}</p>
+        {onRetry && (
+          <button onClick={onRetry} className="mt-2 flex items-center gap-1.5 text-xs font-semibold hover:opacity-70 transition-opacity">
+            <RefreshCw size={12} />重試
+          </button>
+        )}
       </div>
       <button onClick={onDismiss} className="p-1 hover:opacity-60 transition-opacity"><X size={15} /></button>
     </div>
@@ -207,45 +340,195 @@ function ErrorBanner({ message, onDismiss }: { message: string; onDismiss: () =>
 
 // ─── Main Component ───────────────────────────────────────────────────────────
 const MeetingAssistant: React.FC = () => {
-  const { user, signOut } = useAuth();
+  const { user, signOut, isGuest } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [records, setRecords] = useState<MeetingRecord[]>([]);
   const [activeRecordId, setActiveRecordId] = useState<string | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(window.innerWidth > 1024);
   const [isLoading, setIsLoading] = useState(false);
-  const [loadingStep, setLoadingStep] = useState<1 | 2 | 3>(1);
-  const [loadingLabel, setLoadingLabel] = useState('');
+  // Chat replies streaming into this tab, by module; corrections and analyses run as background jobs
+  const [chatStreams, setChatStreams] = useState<Record<string, StreamState>>({});
+  const [jobs, setJobs] = useState<AiJob[]>([]);
+  // Modules with a request of their own in flight (queueing an analysis, a chat reply)
+  const [moduleRequests, setModuleRequests] = useState<string[]>([]);
+  // Failures are shown in the module's tab, so one module failing leaves the others alone
+  const [moduleErrors, setModuleErrors] = useState<Record<string, { message: string; retry?: () => void }>>({});
+  // The latest "run all modules" batch, by module id, and the custom modules it includes
+  const [batch, setBatch] = useState<Record<string, BatchEntry> | null>(null);
+  const [batchCustomIds, setBatchCustomIds] = useState<string[]>([]);
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [step, setStep] = useState<1 | 2 | 3>(1);
   const [chatInputs, setChatInputs] = useState<Record<string, string>>({});
-  const [errorMsg, setErrorMsg] = useState<string | null>(null);
-  const [activeModuleId, setActiveModuleId] = useState<string | null>(null);
+  // Roster name picked for module B
+  const [focusSpeakerName, setFocusSpeakerName] = useState('');
+  const [glossaries, setGlossaries] = useState<Glossary[]>([]);
+  const [attachedGlossaryIds, setAttachedGlossaryIds] = useState<string[]>([]);
+  const [customModules, setCustomModules] = useState<AnalysisModuleDefinition[]>([]);
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  // Module being edited in step 3; 'new' while creating one
+  const [editingModule, setEditingModule] = useState<AnalysisModuleDefinition | 'new' | null>(null);
+  const [actionItems, setActionItems] = useState<TrackedActionItem[]>([]);
+  const [isExtracting, setIsExtracting] = useState(false);
+  // `retry` is offered for transient AI failures
+  const [error, setError] = useState<{ message: string; retry?: () => void } | null>(null);
+  const errorMsg = error?.message ?? null;
+  const setErrorMsg = useCallback((message: string | null) => setError(message ? { message } : null), []);
   // Active tab in step 3 (which module tab is selected)
   const [activeModuleTab, setActiveModuleTab] = useState<string>('A');
+  const [showCorrectionLog, setShowCorrectionLog] = useState(false);
+  const [showDiff, setShowDiff] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  // Text being edited in step 2; null when not editing
+  const [editDraft, setEditDraft] = useState<string | null>(null);
 
   const [localMetadata, setLocalMetadata] = useState<MeetingMetadata>({ subject: '', keywords: '', speakers: '', terminology: '', length: '' });
   const [localTranscript, setLocalTranscript] = useState('');
+  const [importPreview, setImportPreview] = useState<(TranscriptImportResult & { fileName: string }) | null>(null);
 
   const [transcriptVersions, setTranscriptVersions] = useState<TranscriptVersion[]>([]);
   const [activeTranscriptVersion, setActiveTranscriptVersion] = useState(1);
   const [moduleVersionsMap, setModuleVersionsMap] = useState<Record<string, ModuleVersion[]>>({});
   const [activeModuleVersion, setActiveModuleVersion] = useState<Record<string, number>>({});
 
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(() => workspaceService.getStoredWorkspaceId());
+  const [showWorkspace, setShowWorkspace] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [recordFilter, setRecordFilter] = useState<RecordFilter>(EMPTY_RECORD_FILTER);
+  // Records ticked for bulk actions; null when not in selection mode
+  const [selectedIds, setSelectedIds] = useState<string[] | null>(null);
+  const [searchState, setSearchState] = useState<{ terms: string[]; results: SearchResult[]; loading: boolean }>({ terms: [], results: [], loading: false });
+
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Versions to show once the target record has loaded (search results, deep links)
+  const pendingLocationRef = useRef<MeetingLocation | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<Record<string, AbortController>>({});
+  // Unfinished jobs seen for the open meeting; each is settled once when it finishes
+  const watchedJobsRef = useRef<Set<string>>(new Set());
+  const settleJobRef = useRef<(job: AiJob) => void>(() => {});
+  // Invitation token already being accepted, so a re-render doesn't redeem it twice
+  const acceptedInviteRef = useRef<string | null>(null);
 
   // ── Load records ──────────────────────────────────────────────────────────
   const loadRecords = useCallback(async () => {
     if (!user) return;
-    const { data, error } = await supabase.from('meeting_records').select('*').order('created_at', { ascending: false });
+    const { data, error } = await supabase.from('meeting_records').select('*, meeting_tags(tag_id), meeting_folders(folder_id)').order('created_at', { ascending: false });
     if (error) { console.error(error); return; }
     setRecords((data || []).map(r => ({
       id: r.id, title: r.title,
       createdAt: new Date(r.created_at).getTime(),
       rawTranscript: r.raw_transcript,
       metadata: r.metadata as unknown as MeetingMetadata,
+      // Only the user's own filing is readable, so there is at most one
+      folderId: r.meeting_folders?.[0]?.folder_id ?? null,
+      tagIds: (r.meeting_tags || []).map(t => t.tag_id),
+      workspaceId: r.workspace_id,
+      userId: r.user_id,
+      aiProvider: r.ai_provider,
+      aiModel: r.ai_model,
     })));
   }, [user]);
 
   useEffect(() => { loadRecords(); }, [loadRecords]);
+
+  // ── Workspaces ────────────────────────────────────────────────────────────
+  const loadWorkspaces = useCallback(async (preferredId?: string) => {
+    if (!user) return;
+    try {
+      const list = await workspaceService.listWorkspaces(user.id);
+      setWorkspaces(list);
+      setActiveWorkspaceId(current => pickWorkspace(list, preferredId ?? current)?.id ?? null);
+    } catch (err) {
+      console.error(err);
+    }
+  }, [user]);
+
+  useEffect(() => { loadWorkspaces(); }, [loadWorkspaces]);
+  useEffect(() => { if (activeWorkspaceId) workspaceService.storeWorkspaceId(activeWorkspaceId); }, [activeWorkspaceId]);
+
+  // `/?invite=<token>` joins the workspace the link was created for
+  useEffect(() => {
+    const token = searchParams.get(INVITE_PARAM);
+    if (!user || !token || acceptedInviteRef.current === token) return;
+    acceptedInviteRef.current = token;
+    const next = new URLSearchParams(searchParams);
+    next.delete(INVITE_PARAM);
+    setSearchParams(next, { replace: true });
+    workspaceService.acceptInvitation(token)
+      .then(async workspaceId => {
+        await Promise.all([loadWorkspaces(workspaceId), loadRecords()]);
+        setActiveRecordId(null);
+      })
+      .catch(err => setErrorMsg(`加入工作區失敗：${err instanceof Error ? err.message : String(err)}`));
+  }, [user, searchParams, setSearchParams, loadWorkspaces, loadRecords, setErrorMsg]);
+
+  const switchWorkspace = (id: string) => {
+    setActiveWorkspaceId(id);
+    if (activeRecord && activeRecord.workspaceId !== id) setActiveRecordId(null);
+    setSelectedIds(null);
+  };
+
+  const createWorkspace = async () => {
+    const name = window.prompt('工作區名稱')?.trim();
+    if (!name) return;
+    try {
+      const workspace = await workspaceService.createWorkspace(name);
+      setWorkspaces(prev => [...prev, workspace]);
+      switchWorkspace(workspace.id);
+    } catch (err) {
+      setErrorMsg(`建立工作區失敗：${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleWorkspaceRemoved = async () => {
+    setShowWorkspace(false);
+    setActiveRecordId(null);
+    await Promise.all([loadWorkspaces(), loadRecords()]);
+  };
+
+  const loadOrganizer = useCallback(async () => {
+    if (!user) return;
+    try {
+      const [folderList, tagList] = await Promise.all([organizerService.listFolders(), organizerService.listTags()]);
+      setFolders(folderList);
+      setTags(tagList);
+    } catch (err) {
+      console.error(err);
+    }
+  }, [user]);
+
+  useEffect(() => { loadOrganizer(); }, [loadOrganizer]);
+
+  const loadGlossaries = useCallback(async () => {
+    if (!user) return;
+    try {
+      setGlossaries(await glossaryService.listGlossaries());
+    } catch (err) {
+      console.error(err);
+    }
+  }, [user]);
+
+  useEffect(() => { loadGlossaries(); }, [loadGlossaries]);
+
+  const loadCustomModules = useCallback(async () => {
+    if (!user) return;
+    try {
+      setCustomModules(await moduleService.listCustomModules(user.id, activeWorkspaceId));
+    } catch (err) {
+      console.error(err);
+    }
+  }, [user, activeWorkspaceId]);
+
+  useEffect(() => { loadCustomModules(); }, [loadCustomModules]);
+
+  useEffect(() => {
+    if (!user) return;
+    geminiService.listProviders().then(setProviders).catch(err => console.error(err));
+  }, [user]);
   useEffect(() => {
     const handleResize = () => setIsSidebarOpen(window.innerWidth > 1024);
     window.addEventListener('resize', handleResize);
@@ -256,49 +539,199 @@ const MeetingAssistant: React.FC = () => {
   const loadRecordData = useCallback(async (recordId: string) => {
     const rec = records.find(r => r.id === recordId);
     if (!rec) return;
-    setLocalMetadata(rec.metadata);
+    // Records from before the roster existed only have the free-text list
+    setLocalMetadata({ ...rec.metadata, roster: rec.metadata.roster ?? rosterOf(rec.metadata) });
     setLocalTranscript(rec.rawTranscript);
+    setImportPreview(null);
+    setEditDraft(null);
 
-    const { data: tvData } = await supabase.from('transcript_versions').select('*').eq('record_id', recordId).order('version_number', { ascending: true });
-    const tvs: TranscriptVersion[] = (tvData || []).map(v => ({
-      id: v.id, versionNumber: v.version_number,
-      correctedTranscript: v.corrected_transcript,
-      correctionLog: v.correction_log || undefined,
-      createdAt: new Date(v.created_at).getTime(),
-    }));
+    setAttachedGlossaryIds([]);
+    glossaryService.listAttached(recordId).then(setAttachedGlossaryIds).catch(err => console.error(err));
+    setActionItems([]);
+    actionItemService.listForRecord(recordId).then(setActionItems).catch(err => console.error(err));
+
+    const tvs = await fetchTranscriptVersions(recordId);
+    const pending = pendingLocationRef.current?.recordId === recordId ? pendingLocationRef.current : null;
+    pendingLocationRef.current = null;
     setTranscriptVersions(tvs);
-    setActiveTranscriptVersion(tvs.length > 0 ? tvs[tvs.length - 1].versionNumber : 1);
+    setActiveTranscriptVersion(pending?.transcriptVersion ?? (tvs.length > 0 ? tvs[tvs.length - 1].versionNumber : 1));
 
-    const { data: mvData } = await supabase.from('module_versions').select('*, chat_messages(*)').eq('record_id', recordId).order('version_number', { ascending: true });
-    const newMap: Record<string, ModuleVersion[]> = {};
-    for (const mv of (mvData || [])) {
-      const msgs: ChatMessage[] = ((mv.chat_messages as any[]) || [])
-        .sort((a: any, b: any) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
-        .map((m: any) => ({ role: m.role as 'user' | 'model', text: m.content, timestamp: new Date(m.created_at).getTime() }));
-      if (!newMap[mv.module_id]) newMap[mv.module_id] = [];
-      newMap[mv.module_id].push({ id: mv.id, moduleId: mv.module_id, versionNumber: mv.version_number, createdAt: new Date(mv.created_at).getTime(), messages: msgs });
-    }
+    const newMap = await fetchModuleVersions(recordId);
     setModuleVersionsMap(newMap);
     const initActive: Record<string, number> = {};
     for (const [modId, versions] of Object.entries(newMap)) {
       initActive[modId] = versions[versions.length - 1].versionNumber;
     }
+    if (pending?.moduleId && pending.moduleVersion) initActive[pending.moduleId] = pending.moduleVersion;
     setActiveModuleVersion(initActive);
   }, [records]);
 
   useEffect(() => { if (activeRecordId) loadRecordData(activeRecordId); }, [activeRecordId, loadRecordData]);
 
+  // ── Background jobs ───────────────────────────────────────────────────────
+  const refreshJobs = useCallback(async (recordId: string) => {
+    const list = await jobService.listForRecord(recordId);
+    setJobs(prev => list.reduce(upsertJob, prev));
+  }, []);
+
+  // Jobs keep running when the meeting is closed; they are followed while it is open
+  useEffect(() => {
+    setJobs([]);
+    setBatch(null);
+    setModuleErrors({});
+    watchedJobsRef.current = new Set();
+    if (!activeRecordId) return;
+    const unsubscribe = jobService.subscribe(activeRecordId, job => setJobs(prev => upsertJob(prev, job)));
+    refreshJobs(activeRecordId).catch(err => console.error(err));
+    return unsubscribe;
+  }, [activeRecordId, refreshJobs]);
+
+  useEffect(() => {
+    const watched = watchedJobsRef.current;
+    for (const job of settledJobs(jobs, watched)) {
+      watched.delete(job.id);
+      settleJobRef.current(job);
+    }
+    for (const job of jobs) if (!isJobFinished(job)) watched.add(job.id);
+  }, [jobs]);
+  const openLocation = useCallback((location: MeetingLocation) => {
+    // Search and links may point into another workspace
+    const target = records.find(r => r.id === location.recordId);
+    if (target) setActiveWorkspaceId(target.workspaceId);
+    if (location.recordId === activeRecordId) {
+      // Already loaded: switch versions directly
+      if (location.transcriptVersion) setActiveTranscriptVersion(location.transcriptVersion);
+      if (location.moduleId && location.moduleVersion) setActiveModuleVersion(prev => ({ ...prev, [location.moduleId!]: location.moduleVersion! }));
+    } else {
+      pendingLocationRef.current = location;
+      setActiveRecordId(location.recordId);
+    }
+    if (location.moduleId) setActiveModuleTab(location.moduleId);
+    setStep(location.step);
+    setErrorMsg(null);
+  }, [activeRecordId, records, setErrorMsg]);
+
+  // `/?record=<id>&step=2&version=3` or `/?record=<id>&module=<id>&moduleVersion=1` opens a meeting directly,
+  // e.g. from the action item tracker
+  useEffect(() => {
+    const recordId = searchParams.get('record');
+    if (!recordId || !records.some(r => r.id === recordId)) return;
+    const moduleId = searchParams.get('module') || undefined;
+    const step = Number(searchParams.get('step')) || (moduleId ? 3 : 1);
+    openLocation({
+      recordId,
+      step: step === 2 || step === 3 ? step : 1,
+      transcriptVersion: Number(searchParams.get('version')) || undefined,
+      moduleId,
+      moduleVersion: Number(searchParams.get('moduleVersion')) || undefined,
+    });
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams, records, openLocation]);
+
+  // ── Search ────────────────────────────────────────────────────────────────
+  useEffect(() => {
+    if (!searchQuery.trim()) {
+      setSearchState({ terms: [], results: [], loading: false });
+      return;
+    }
+    let cancelled = false;
+    setSearchState(prev => ({ ...prev, loading: true }));
+    const timer = setTimeout(async () => {
+      try {
+        const { terms, results } = await searchService.search(searchQuery);
+        if (!cancelled) setSearchState({ terms, results, loading: false });
+      } catch (err) {
+        console.error(err);
+        if (!cancelled) setSearchState({ terms: [], results: [], loading: false });
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery]);
+
+  const openSearchResult = (result: SearchResult) => {
+    openLocation(
+      result.kind === 'transcript' ? { recordId: result.recordId, step: 2, transcriptVersion: result.transcriptVersion ?? undefined }
+        : result.kind === 'chat' ? { recordId: result.recordId, step: 3, moduleId: result.moduleId ?? undefined, moduleVersion: result.moduleVersion ?? undefined }
+          : { recordId: result.recordId, step: 1 },
+    );
+    if (window.innerWidth < 1024) setIsSidebarOpen(false);
+  };
+
+  const describeSearchResult = (result: SearchResult) => {
+    if (result.kind === 'transcript') return `${SEARCH_KIND_LABELS.transcript} v${result.transcriptVersion}`;
+    if (result.kind === 'chat') {
+      const moduleName = modules.find(m => m.id === result.moduleId)?.name ?? result.moduleId;
+      return `${moduleName} v${result.moduleVersion}`;
+    }
+    return SEARCH_KIND_LABELS[result.kind];
+  };
+  // Switching records cancels chat replies still streaming for the previous one; background jobs carry on
+  useEffect(() => () => Object.values(abortRef.current).forEach(controller => controller.abort()), [activeRecordId]);
+
   const activeRecord = records.find(r => r.id === activeRecordId) || null;
   const currentTranscriptVersion = transcriptVersions.find(v => v.versionNumber === activeTranscriptVersion) || null;
+  const latestTranscriptVersion = transcriptVersions[transcriptVersions.length - 1] || null;
+  const roster = cleanRoster(localMetadata.roster || []);
+  const modules = [...BUILT_IN_MODULES, ...customModules];
+  const activeWorkspace = workspaces.find(w => w.id === activeWorkspaceId) || null;
+  const canEdit = canEditMeetings(activeWorkspace?.role);
+  const workspaceRecords = records.filter(r => r.workspaceId === activeWorkspaceId);
+  const visibleRecords = workspaceRecords.filter(r => matchesFilter(r, recordFilter));
+  const participants = listParticipants(workspaceRecords);
+  // A late answer for the previous meeting may still land in `jobs`
+  const recordJobs = jobs.filter(j => j.recordId === activeRecordId);
+
+  /** The chat reply streaming into this tab for the target, else the output of its running job. */
+  const streamFor = (target: string): StreamState | null => {
+    if (chatStreams[target]) return chatStreams[target];
+    const job = activeJobFor(recordJobs, target);
+    return job && {
+      target, kind: job.action === 'correctTranscript' ? 'correction' : 'analysis',
+      text: job.partialOutput, progress: job.progress, retryAttempt: job.retryAttempt, jobId: job.id,
+    };
+  };
+  const correctionStream = streamFor('correction');
+  const isModuleBusy = (moduleId: string) => moduleRequests.includes(moduleId) || !!streamFor(moduleId);
+  // Module B's subject, shared by its tab and the batch run
+  const focusPick = roster.find(p => p.name === focusSpeakerName);
+  const focusPicker = roster.length > 0 && (
+    <select value={focusSpeakerName} onChange={e => setFocusSpeakerName(e.target.value)}
+      className="px-3 py-2 rounded-xl text-xs ios-input text-foreground">
+      <option value="">選擇分析對象…</option>
+      {roster.map(p => <option key={p.name} value={p.name}>{formatSpeakerProfile(p)}</option>)}
+    </select>
+  );
+  const batchEntries = batch ? Object.values(batch) : [];
+  const batchSummary = batch && summarizeBatch(batchEntries, recordJobs);
+
+  /** Viewers can read everything but change nothing; the database refuses their writes too. */
+  const requireEdit = () => {
+    if (canEdit) return true;
+    setErrorMsg('你在此工作區是檢視者，無法修改會議內容');
+    return false;
+  };
+
+  /** A signed-out guest cannot sign back in, so their meetings would be lost. */
+  const handleSignOut = () => {
+    if (isGuest && !confirm('訪客帳號登出後將無法再存取目前的會議，建議先綁定 E-Mail。仍要登出嗎？')) return;
+    signOut();
+  };
 
   // ── CRUD ──────────────────────────────────────────────────────────────────
   const createNewRecord = async () => {
-    if (!user) return;
+    if (!user || !activeWorkspaceId || !requireEdit()) return;
     const { data, error } = await supabase.from('meeting_records').insert({
-      user_id: user.id, title: '未命名會議分析', raw_transcript: '',
-      metadata: { subject: '', keywords: '', speakers: '', terminology: '', length: '' },
+      user_id: user.id, workspace_id: activeWorkspaceId, title: '未命名會議分析', raw_transcript: '',
+      metadata: { subject: '', keywords: '', speakers: '', roster: [], terminology: '', length: '' },
     }).select().single();
     if (error || !data) { console.error(error); return; }
+    // New meetings land in the folder being viewed
+    if (recordFilter.folderId && recordFilter.folderId !== UNFILED) {
+      await organizerService.moveRecords(user.id, [data.id], recordFilter.folderId).catch(console.error);
+    }
     await loadRecords();
     setActiveRecordId(data.id);
     setStep(1);
@@ -330,33 +763,236 @@ const MeetingAssistant: React.FC = () => {
     await loadRecords();
   };
 
+  // ── Folders, tags & bulk actions ──────────────────────────────────────────
+  const runOrganizerAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (err) {
+      setErrorMsg(`整理會議失敗：${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const createFolder = () => runOrganizerAction(async () => {
+    const name = window.prompt('資料夾名稱')?.trim();
+    if (!name || !user) return;
+    const folder = await organizerService.createFolder(user.id, name);
+    setFolders(prev => [...prev, folder].sort((a, b) => a.name.localeCompare(b.name)));
+    setRecordFilter(prev => ({ ...prev, folderId: folder.id }));
+  });
+
+  const renameFolder = (folder: Folder) => runOrganizerAction(async () => {
+    const name = window.prompt('請輸入新名稱', folder.name)?.trim();
+    if (!name || name === folder.name) return;
+    await organizerService.renameFolder(folder.id, name);
+    setFolders(prev => prev.map(f => f.id === folder.id ? { ...f, name } : f).sort((a, b) => a.name.localeCompare(b.name)));
+  });
+
+  const deleteFolder = (folder: Folder) => runOrganizerAction(async () => {
+    if (!confirm(`確定要刪除資料夾「${folder.name}」嗎？其中的會議會移至未分類。`)) return;
+    await organizerService.deleteFolder(folder.id);
+    setFolders(prev => prev.filter(f => f.id !== folder.id));
+    setRecords(prev => prev.map(r => r.folderId === folder.id ? { ...r, folderId: null } : r));
+    setRecordFilter(prev => ({ ...prev, folderId: null }));
+  });
+
+  const createTag = (name: string, color: string) => runOrganizerAction(async () => {
+    if (!user) return;
+    const tag = await organizerService.createTag(user.id, name, color);
+    setTags(prev => [...prev, tag].sort((a, b) => a.name.localeCompare(b.name)));
+  });
+
+  const deleteTag = (tag: Tag) => runOrganizerAction(async () => {
+    if (!confirm(`確定要刪除標籤「${tag.name}」嗎？`)) return;
+    await organizerService.deleteTag(tag.id);
+    setTags(prev => prev.filter(t => t.id !== tag.id));
+    setRecords(prev => prev.map(r => ({ ...r, tagIds: r.tagIds.filter(id => id !== tag.id) })));
+    setRecordFilter(prev => ({ ...prev, tagIds: prev.tagIds.filter(id => id !== tag.id) }));
+  });
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds(prev => prev && (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+
+  /** Adds the tag to every selected meeting, or removes it when all of them already have it. */
+  const bulkTag = (tagId: string) => runOrganizerAction(async () => {
+    if (!selectedIds?.length) return;
+    const selected = records.filter(r => selectedIds.includes(r.id));
+    const remove = selected.every(r => r.tagIds.includes(tagId));
+    if (remove) await organizerService.untagRecords(selectedIds, tagId);
+    else await organizerService.tagRecords(selectedIds, tagId);
+    setRecords(prev => prev.map(r => !selectedIds.includes(r.id) ? r
+      : { ...r, tagIds: remove ? r.tagIds.filter(id => id !== tagId) : [...new Set([...r.tagIds, tagId])] }));
+  });
+
+  const bulkMove = (folderId: string | null) => runOrganizerAction(async () => {
+    if (!selectedIds?.length || !user) return;
+    await organizerService.moveRecords(user.id, selectedIds, folderId);
+    setRecords(prev => prev.map(r => selectedIds.includes(r.id) ? { ...r, folderId } : r));
+    setSelectedIds(null);
+  });
+
+  const bulkDelete = () => runOrganizerAction(async () => {
+    if (!selectedIds?.length || !confirm(`確定要刪除選取的 ${selectedIds.length} 筆記錄嗎？`)) return;
+    await organizerService.deleteRecords(selectedIds);
+    if (activeRecordId && selectedIds.includes(activeRecordId)) setActiveRecordId(null);
+    setSelectedIds(null);
+    await loadRecords();
+  });
+
   // ── Auto-save (debounced) ─────────────────────────────────────────────────
-  const saveRecordFields = useCallback(async (fields: Partial<{ metadata: MeetingMetadata; raw_transcript: string }>) => {
+  const saveRecordFields = useCallback(async (fields: Partial<{ metadata: MeetingMetadata; raw_transcript: string; ai_provider: string | null; ai_model: string | null }>) => {
     if (!activeRecordId) return;
     await supabase.from('meeting_records').update(fields as any).eq('id', activeRecordId);
   }, [activeRecordId]);
 
-  const handleMetadataChange = (field: keyof MeetingMetadata, value: string) => {
-    const updated = { ...localMetadata, [field]: value };
+  const handleMetadataChange = (field: 'subject' | 'keywords' | 'terminology' | 'length', value: string) =>
+    updateMetadata({ ...localMetadata, [field]: value });
+
+  // The free-text list is kept in sync for older deployments of the function
+  const handleRosterChange = (next: SpeakerProfile[]) =>
+    updateMetadata({ ...localMetadata, roster: next, speakers: formatRosterSummary(next) });
+
+  const updateMetadata = (updated: MeetingMetadata) => {
+    if (!requireEdit()) return;
     setLocalMetadata(updated);
     setRecords(prev => prev.map(r => r.id === activeRecordId ? { ...r, metadata: updated } : r));
     if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
     saveTimeoutRef.current = setTimeout(() => saveRecordFields({ metadata: updated }), 800);
   };
 
+  const handleModelChange = (choice: ModelChoice) => {
+    if (!requireEdit()) return;
+    setRecords(prev => prev.map(r => r.id === activeRecordId ? { ...r, aiProvider: choice.provider, aiModel: choice.model } : r));
+    saveRecordFields({ ai_provider: choice.provider, ai_model: choice.model });
+  };
+
   const handleTranscriptChange = (value: string) => {
+    if (!requireEdit()) return;
     setLocalTranscript(value);
     setRecords(prev => prev.map(r => r.id === activeRecordId ? { ...r, rawTranscript: value } : r));
     if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
     saveTimeoutRef.current = setTimeout(() => saveRecordFields({ raw_transcript: value }), 800);
   };
 
+  // ── Transcript file import ─────────────────────────────────────────────────
+  const handleTranscriptFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !activeRecordId || !requireEdit()) return;
+    try {
+      const result = importTranscript(file.name, await file.text());
+      const metadata = !localMetadata.length && result.durationSeconds !== null
+        ? { ...localMetadata, length: formatDuration(result.durationSeconds) }
+        : localMetadata;
+      if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+      setLocalTranscript(result.text);
+      setLocalMetadata(metadata);
+      setRecords(prev => prev.map(r => r.id === activeRecordId ? { ...r, rawTranscript: result.text, metadata } : r));
+      setImportPreview({ ...result, fileName: file.name });
+      setErrorMsg(null);
+      await saveRecordFields({ raw_transcript: result.text, metadata });
+    } catch (err) {
+      setErrorMsg(`匯入檔案失敗：${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  // ── Glossaries ────────────────────────────────────────────────────────────
+  const runGlossaryAction = async <T,>(action: () => Promise<T>): Promise<T | null> => {
+    try {
+      return await action();
+    } catch (err) {
+      setErrorMsg(`詞彙表操作失敗：${err instanceof Error ? err.message : String(err)}`);
+      return null;
+    }
+  };
+
+  const toggleGlossary = (glossaryId: string, attached: boolean) => runGlossaryAction(async () => {
+    if (!activeRecordId || !requireEdit()) return;
+    await glossaryService.setAttached(activeRecordId, glossaryId, attached);
+    setAttachedGlossaryIds(prev => attached ? [...prev, glossaryId] : prev.filter(id => id !== glossaryId));
+  });
+
+  const createGlossary = () => runGlossaryAction(async () => {
+    if (!user) return null;
+    const glossary = await glossaryService.createGlossary(user.id, '未命名詞彙表');
+    setGlossaries(prev => [...prev, glossary]);
+    return glossary;
+  });
+
+  const saveGlossary = async (glossaryId: string, name: string, terms: GlossaryTerm[]) => {
+    await runGlossaryAction(async () => {
+      await glossaryService.updateGlossary(glossaryId, { name });
+      await glossaryService.saveTerms(glossaryId, terms);
+      setGlossaries(prev => prev.map(g => g.id === glossaryId ? { ...g, name, terms } : g));
+    });
+  };
+
+  const deleteGlossary = (glossaryId: string) => runGlossaryAction(async () => {
+    if (!confirm('確定要刪除此詞彙表？所有會議都將不再套用。')) return;
+    await glossaryService.deleteGlossary(glossaryId);
+    setGlossaries(prev => prev.filter(g => g.id !== glossaryId));
+    setAttachedGlossaryIds(prev => prev.filter(id => id !== glossaryId));
+  });
+
   const copyToClipboard = (text: string, id: string) => {
     navigator.clipboard.writeText(text).then(() => { setCopiedId(id); setTimeout(() => setCopiedId(null), 2000); });
   };
 
   // ── AI: Correction ────────────────────────────────────────────────────────
+  const startStream = (target: string, kind: 'correction' | 'analysis' | 'chat') => {
+    const controller = new AbortController();
+    abortRef.current[target] = controller;
+    const update = (patch: Partial<StreamState>) =>
+      setChatStreams(prev => prev[target] ? { ...prev, [target]: { ...prev[target], ...patch } } : prev);
+    setChatStreams(prev => ({ ...prev, [target]: { target, kind, text: '' } }));
+    return {
+      signal: controller.signal,
+      onDelta: (_: string, text: string) => update({ text }),
+      onProgress: (completed: number, total: number) => update({ progress: { completed, total } }),
+      onRetry: (attempt: number) => update({ text: '', retryAttempt: attempt }),
+    };
+  };
+
+  /** Shows an AI failure; transient ones can be retried from the banner. */
+  const showAiError = (prefix: string, err: unknown, retry: () => void) => setError({
+    message: `${prefix}：${err instanceof Error ? err.message : String(err)}`,
+    retry: isRetryableError(err) ? () => { setErrorMsg(null); retry(); } : undefined,
+  });
+
+  const endStream = (target: string) => {
+    delete abortRef.current[target];
+    setChatStreams(prev => {
+      const { [target]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const setModuleError = (moduleId: string, error: { message: string; retry?: () => void } | null) =>
+    setModuleErrors(prev => {
+      const { [moduleId]: _, ...rest } = prev;
+      return error ? { ...rest, [moduleId]: error } : rest;
+    });
+
+  /** Like `showAiError`, but in the module's own tab. */
+  const showModuleError = (moduleId: string, prefix: string, err: unknown, retry: () => void) => setModuleError(moduleId, {
+    message: `${prefix}：${err instanceof Error ? err.message : String(err)}`,
+    retry: isRetryableError(err) ? () => { setModuleError(moduleId, null); retry(); } : undefined,
+  });
+
+  const setModuleRequest = (moduleId: string, active: boolean) =>
+    setModuleRequests(prev => active ? [...prev, moduleId] : prev.filter(id => id !== moduleId));
+
+  /** Stops a chat request from this tab, or cancels a background job for everyone. */
+  const cancelStream = (stream: StreamState) => {
+    if (!stream.jobId) {
+      abortRef.current[stream.target]?.abort();
+      return;
+    }
+    jobService.cancel(stream.jobId).catch(err => setErrorMsg(`停止發生錯誤：${err instanceof Error ? err.message : String(err)}`));
+  };
+
+  /** Runs as a background job; the new version is picked up in `settleJob`, even after leaving the page. */
   const runCorrection = async () => {
+    if (!requireEdit()) return;
     if (!activeRecordId || !localTranscript?.trim()) {
       setErrorMsg('請先輸入原始逐字稿內容');
       return;
@@ -365,91 +1001,165 @@ const MeetingAssistant: React.FC = () => {
     setIsLoading(true);
 
     try {
-      setLoadingStep(1); setLoadingLabel('正在上傳數據與會議參數...');
-      await new Promise(r => setTimeout(r, 300));
-
-      setLoadingStep(2); setLoadingLabel('AI 引擎正在重構文本脈絡...');
-      const result = await geminiService.correctTranscript(localTranscript, localMetadata);
-
-      if (!result?.trim()) throw new Error('AI 回傳空白結果，請稍後重試');
-
-      setLoadingStep(3); setLoadingLabel('正在渲染校正結果...');
-      await new Promise(r => setTimeout(r, 200));
-
-      const nextVersion = transcriptVersions.length + 1;
-      const { data } = await supabase.from('transcript_versions').insert({
-        record_id: activeRecordId, version_number: nextVersion, corrected_transcript: result,
-      }).select().single();
-      if (data) {
-        const newVer: TranscriptVersion = { id: data.id, versionNumber: nextVersion, correctedTranscript: result, createdAt: Date.now() };
-        setTranscriptVersions(prev => [...prev, newVer]);
-        setActiveTranscriptVersion(nextVersion);
-      }
+      const glossaryTerms = mergeGlossaryTerms(glossaries.filter(g => attachedGlossaryIds.includes(g.id)).map(g => g.terms));
+      await geminiService.queueCorrection(localTranscript, localMetadata, glossaryTerms, activeRecordId);
+      // Realtime announces the job too, but may lag behind the function's answer
+      await refreshJobs(activeRecordId);
       setStep(2);
-    } catch (err: any) {
-      setErrorMsg(`校正發生錯誤：${err.message}`);
+    } catch (err) {
+      showAiError('校正發生錯誤', err, runCorrection);
     } finally {
       setIsLoading(false);
     }
   };
 
-  // ── AI: Module Analysis ───────────────────────────────────────────────────
-  const runInitialAnalysis = async (moduleId: string) => {
-    if (!currentTranscriptVersion) {
-      setErrorMsg('請先完成逐字稿校正後再執行模組分析');
+  /** Shows the version a finished job saved, or why it failed. */
+  const settleJob = async (job: AiJob) => {
+    if (job.recordId !== activeRecordId) return;
+    const isCorrection = job.action === 'correctTranscript';
+    if (job.status === 'failed') {
+      // Whoever stopped the job already knows
+      if (job.errorKind === 'cancelled') return;
+      if (isCorrection) {
+        showAiError('校正發生錯誤', jobError(job), runCorrection);
+        if (transcriptVersions.length === 0) setStep(1);
+      } else {
+        showModuleError(job.moduleId!, '分析發生錯誤', jobError(job), () => runInitialAnalysis(job.moduleId!, job.focusSpeaker));
+      }
       return;
     }
-    const moduleConfig = INSIGHT_MODULE_CONFIGS[moduleId as keyof typeof INSIGHT_MODULE_CONFIGS];
-    if (!moduleConfig) return;
 
+    try {
+      if (isCorrection) {
+        const versions = await fetchTranscriptVersions(job.recordId);
+        setTranscriptVersions(versions);
+        const produced = versions.find(v => v.id === job.resultId);
+        if (produced) setActiveTranscriptVersion(produced.versionNumber);
+      } else {
+        const moduleId = job.moduleId!;
+        const versions = (await fetchModuleVersions(job.recordId))[moduleId] || [];
+        setModuleVersionsMap(prev => ({ ...prev, [moduleId]: versions }));
+        const produced = versions.find(v => v.id === job.resultId);
+        if (produced) setActiveModuleVersion(prev => ({ ...prev, [moduleId]: produced.versionNumber }));
+      }
+    } catch (err) {
+      setErrorMsg(`載入結果發生錯誤：${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+  settleJobRef.current = settleJob;
+
+  // ── Manual edit (saved as a new version) ─────────────────────────────────
+  const saveManualEdit = async () => {
+    if (!activeRecordId || !currentTranscriptVersion || editDraft === null || !user || !requireEdit()) return;
+    if (!editDraft.trim()) {
+      setErrorMsg('逐字稿內容不得為空');
+      return;
+    }
+    if (editDraft === currentTranscriptVersion.correctedTranscript) {
+      setEditDraft(null);
+      return;
+    }
     setErrorMsg(null);
     setIsLoading(true);
-    setActiveModuleId(moduleId);
-
     try {
-      setLoadingStep(1); setLoadingLabel(`正在初始化模組「${moduleConfig.name}」...`);
-      await new Promise(r => setTimeout(r, 200));
+      // The database assigns the number, so edits and background jobs never collide
+      const { data, error } = await supabase.from('transcript_versions').insert({
+        record_id: activeRecordId, corrected_transcript: editDraft,
+        source: 'manual', author_id: user.id, based_on_version_id: currentTranscriptVersion.id,
+      }).select().single();
+      if (error || !data) throw new Error(error?.message || '儲存失敗');
+      const newVer: TranscriptVersion = {
+        id: data.id, versionNumber: data.version_number, correctedTranscript: editDraft, createdAt: Date.now(),
+        source: 'manual', authorId: user.id, basedOnVersionId: currentTranscriptVersion.id,
+      };
+      setTranscriptVersions(prev => [...prev, newVer]);
+      setActiveTranscriptVersion(data.version_number);
+      setEditDraft(null);
+    } catch (err) {
+      setErrorMsg(`儲存編輯發生錯誤：${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const describeVersion = (v: TranscriptVersion) => {
+    if (v.source !== 'manual') return null;
+    const basedOn = transcriptVersions.find(tv => tv.id === v.basedOnVersionId);
+    const author = v.authorId === user?.id ? user?.email : '其他成員';
+    return `手動編輯${basedOn ? `（基於版本 ${basedOn.versionNumber}）` : ''}${author ? ` · ${author}` : ''}`;
+  };
 
-      setLoadingStep(2); setLoadingLabel(`AI 正在深度解讀「${moduleConfig.name}」...`);
-      const result = await geminiService.analyzeTranscript(
+  // ── AI: Module Analysis ───────────────────────────────────────────────────
+  /** Queues the module's analysis of the current transcript version; returns the job id. */
+  const queueModuleAnalysis = async (moduleId: string, focusSpeaker?: SpeakerProfile) => {
+    if (!modules.some(m => m.id === moduleId)) throw new Error(UNKNOWN_MODULE_ERROR);
+    if (!activeRecordId || !currentTranscriptVersion) throw new Error('找不到要分析的逐字稿');
+    setModuleError(moduleId, null);
+    setModuleRequest(moduleId, true);
+    try {
+      // The job records the transcript version it reads, for the stale-analysis warning
+      return await geminiService.queueAnalysis(
         currentTranscriptVersion.correctedTranscript,
         moduleId,
-        moduleConfig.name,
-        []
+        focusSpeaker,
+        activeRecordId,
+        currentTranscriptVersion.id
       );
+    } finally {
+      setModuleRequest(moduleId, false);
+    }
+  };
 
-      if (!result?.trim()) throw new Error('AI 回傳空白結果，請稍後重試');
-
-      setLoadingStep(3); setLoadingLabel('正在渲染分析結果...');
-      await new Promise(r => setTimeout(r, 200));
-
-      const existingVersions = moduleVersionsMap[moduleId] || [];
-      const nextVersion = existingVersions.length + 1;
-      const { data: mvData } = await supabase.from('module_versions').insert({
-        record_id: activeRecordId, module_id: moduleId, version_number: nextVersion,
-      }).select().single();
-      if (!mvData) throw new Error('儲存模組版本失敗');
-
-      const firstMsg: ChatMessage = { role: 'model', text: result, timestamp: Date.now() };
-      await supabase.from('chat_messages').insert({ module_version_id: mvData.id, role: 'model', content: result });
+  const runInitialAnalysis = async (moduleId: string, focusSpeaker?: SpeakerProfile) => {
+    if (!requireEdit()) return;
+    if (!activeRecordId || !currentTranscriptVersion) {
+      setErrorMsg('請先完成逐字稿校正後再執行模組分析');
+      return;
+    }
 
-      const newModVer: ModuleVersion = { id: mvData.id, moduleId, versionNumber: nextVersion, createdAt: Date.now(), messages: [firstMsg] };
-      setModuleVersionsMap(prev => ({ ...prev, [moduleId]: [...(prev[moduleId] || []), newModVer] }));
-      setActiveModuleVersion(prev => ({ ...prev, [moduleId]: nextVersion }));
+    try {
+      await queueModuleAnalysis(moduleId, focusSpeaker);
+      await refreshJobs(activeRecordId);
       setStep(3);
-    } catch (err: any) {
-      setErrorMsg(`分析發生錯誤：${err.message}`);
-    } finally {
-      setIsLoading(false);
-      setActiveModuleId(null);
+    } catch (err) {
+      showModuleError(moduleId, '分析發生錯誤', err, () => runInitialAnalysis(moduleId, focusSpeaker));
+    }
+  };
+
+  /** Queues every built-in module and the picked custom ones side by side; each succeeds or fails on its own. */
+  const runAllModules = async () => {
+    if (!requireEdit()) return;
+    if (!activeRecordId || !currentTranscriptVersion) {
+      setErrorMsg('請先完成逐字稿校正後再執行模組分析');
+      return;
     }
+    const { runs, skipped } = planModuleBatch(modules, batchCustomIds, roster, focusPick, isModuleBusy);
+    setErrorMsg(null);
+    setBatch(Object.fromEntries([...runs.map(run => ({ moduleId: run.moduleId })), ...skipped].map(entry => [entry.moduleId, entry])));
+    // A busy module's card keeps showing its running analysis
+    for (const entry of skipped) if (entry.error !== BUSY_MODULE_ERROR) setModuleError(entry.moduleId, { message: entry.error! });
+
+    await Promise.all(runs.map(async ({ moduleId, focusSpeaker }) => {
+      try {
+        const jobId = await queueModuleAnalysis(moduleId, focusSpeaker);
+        setBatch(prev => prev && { ...prev, [moduleId]: { moduleId, jobId } });
+      } catch (err) {
+        setBatch(prev => prev && { ...prev, [moduleId]: { moduleId, error: err instanceof Error ? err.message : String(err) } });
+        showModuleError(moduleId, '分析發生錯誤', err, () => runInitialAnalysis(moduleId, focusSpeaker));
+      }
+    }));
+    await refreshJobs(activeRecordId).catch(err => console.error(err));
   };
 
   // ── AI: Module Chat ────────────────────────────────────────────────────────
   const sendModuleChat = async (moduleId: string) => {
     const input = chatInputs[moduleId];
-    if (!input?.trim() || isLoading || !currentTranscriptVersion) return;
-    const moduleConfig = INSIGHT_MODULE_CONFIGS[moduleId as keyof typeof INSIGHT_MODULE_CONFIGS];
+    if (!input?.trim() || isModuleBusy(moduleId) || !currentTranscriptVersion || !requireEdit()) return;
+    const moduleConfig = modules.find(m => m.id === moduleId);
+    if (!moduleConfig) {
+      setModuleError(moduleId, { message: UNKNOWN_MODULE_ERROR });
+      return;
+    }
     const versions = moduleVersionsMap[moduleId] || [];
     const activeVerNum = activeModuleVersion[moduleId] || 1;
     const activeVer = versions.find(v => v.versionNumber === activeVerNum);
@@ -462,36 +1172,121 @@ const MeetingAssistant: React.FC = () => {
       [moduleId]: prev[moduleId].map(v => v.versionNumber === activeVerNum ? { ...v, messages: updatedMsgs } : v),
     }));
     setChatInputs(prev => ({ ...prev, [moduleId]: '' }));
-    setErrorMsg(null);
-    setIsLoading(true);
-    setActiveModuleId(moduleId);
-    setLoadingStep(2);
-    setLoadingLabel(`AI 正在針對「${moduleConfig.name}」進行深度回應...`);
+    await requestModuleReply(moduleConfig, activeVer, updatedMsgs, input);
+  };
+
+  /** Asks for the reply to the last message; `newInput` is saved first when the user just wrote it. */
+  const requestModuleReply = async (moduleConfig: AnalysisModuleDefinition, version: ModuleVersion, messages: ChatMessage[], newInput?: string) => {
+    if (!currentTranscriptVersion) return;
+    const moduleId = moduleConfig.id;
+    setModuleError(moduleId, null);
+    setModuleRequest(moduleId, true);
+    const stream = startStream(moduleId, 'chat');
 
     try {
-      await supabase.from('chat_messages').insert({ module_version_id: activeVer.id, role: 'user', content: input });
-      const response = await geminiService.analyzeTranscript(
+      if (newInput) await supabase.from('chat_messages').insert({ module_version_id: version.id, role: 'user', content: newInput });
+      const { text: response } = await geminiService.analyzeTranscript(
         currentTranscriptVersion.correctedTranscript,
         moduleId,
-        moduleConfig.name,
-        updatedMsgs
+        messages,
+        stream,
+        version.focusSpeaker,
+        activeRecordId
       );
       if (!response?.trim()) throw new Error('AI 回傳空白結果');
       const aiMsg: ChatMessage = { role: 'model', text: response, timestamp: Date.now() };
-      await supabase.from('chat_messages').insert({ module_version_id: activeVer.id, role: 'model', content: response });
+      await supabase.from('chat_messages').insert({ module_version_id: version.id, role: 'model', content: response });
       setModuleVersionsMap(prev => ({
         ...prev,
-        [moduleId]: prev[moduleId].map(v => v.versionNumber === activeVerNum ? { ...v, messages: [...updatedMsgs, aiMsg] } : v),
+        [moduleId]: prev[moduleId].map(v => v.id === version.id ? { ...v, messages: [...messages, aiMsg] } : v),
       }));
-    } catch (err: any) {
-      setErrorMsg(`對話分析發生錯誤：${err.message}`);
+    } catch (err) {
+      if (!stream.signal.aborted) showModuleError(moduleId, '對話分析發生錯誤', err, () => requestModuleReply(moduleConfig, version, messages));
     } finally {
-      setIsLoading(false);
-      setActiveModuleId(null);
+      setModuleRequest(moduleId, false);
+      endStream(moduleId);
+    }
+  };
+
+  // ── Action items (module E) ───────────────────────────────────────────────
+  const extractActionItems = async () => {
+    if (!activeRecordId || !currentTranscriptVersion || !requireEdit()) return;
+    if (actionItems.length > 0 && !confirm('重新擷取將取代此會議現有的行動項目（含已修改的狀態），確定嗎？')) return;
+    const recordId = activeRecordId;
+    const basis = currentTranscriptVersion;
+    setErrorMsg(null);
+    setIsExtracting(true);
+    try {
+      const { items, promptVersion, model } = await geminiService.extractActionItems(basis.correctedTranscript, undefined, recordId);
+      const saved = await actionItemService.replaceForRecord(recordId, items, { transcriptVersionId: basis.id, promptVersion, model });
+      setActionItems(saved);
+    } catch (err) {
+      showAiError('擷取行動項目發生錯誤', err, extractActionItems);
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const updateActionItem = async (id: string, patch: ActionItemPatch) => {
+    if (!requireEdit()) return;
+    setActionItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+    try {
+      await actionItemService.update(id, patch);
+    } catch (err) {
+      setErrorMsg(`更新行動項目失敗：${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const addActionItem = async () => {
+    if (!activeRecordId || !requireEdit()) return;
+    try {
+      const item = await actionItemService.create(activeRecordId, actionItems.length);
+      setActionItems(prev => [...prev, item]);
+    } catch (err) {
+      setErrorMsg(`新增行動項目失敗：${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const deleteActionItem = async (id: string) => {
+    if (!requireEdit()) return;
+    try {
+      await actionItemService.remove(id);
+      setActionItems(prev => prev.filter(item => item.id !== id));
+    } catch (err) {
+      setErrorMsg(`刪除行動項目失敗：${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  // ── Custom modules ────────────────────────────────────────────────────────
+  const saveModule = async (draft: ModuleDraft) => {
+    if (!user) return;
+    try {
+      if (editingModule && editingModule !== 'new') {
+        const updated = await moduleService.updateModule(editingModule, draft);
+        setCustomModules(prev => prev.map(m => m.id === updated.id ? updated : m));
+      } else {
+        const created = await moduleService.createModule(user.id, draft);
+        setCustomModules(prev => [...prev, created]);
+        setActiveModuleTab(created.id);
+      }
+      setEditingModule(null);
+    } catch (err) {
+      setErrorMsg(`儲存模組失敗：${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const deleteModule = async (module: AnalysisModuleDefinition) => {
+    if (!confirm(`確定要刪除「${module.name}」模組？已產生的分析將不再顯示。`)) return;
+    try {
+      await moduleService.deleteModule(module.id);
+      setCustomModules(prev => prev.filter(m => m.id !== module.id));
+      setEditingModule(null);
+      setActiveModuleTab('A');
+    } catch (err) {
+      setErrorMsg(`刪除模組失敗：${err instanceof Error ? err.message : String(err)}`);
     }
   };
 
-  const moduleIds = Object.keys(INSIGHT_MODULE_CONFIGS) as Array<keyof typeof INSIGHT_MODULE_CONFIGS>;
 
   // ── Render ────────────────────────────────────────────────────────────────
   return (
@@ -517,43 +1312,171 @@ const MeetingAssistant: React.FC = () => {
         </div>
 
         <div className="p-3">
-          <button onClick={createNewRecord}
-            className="w-full flex items-center justify-center gap-2 py-2.5 px-4 rounded-xl font-semibold text-sm transition-all active:scale-95 ios-btn-primary text-primary-foreground">
+          <div className="flex items-center gap-1 mb-2">
+            <select value={activeWorkspaceId ?? ''} onChange={e => switchWorkspace(e.target.value)}
+              className="flex-1 min-w-0 px-2.5 py-1.5 rounded-lg text-xs font-semibold ios-input text-foreground">
+              {workspaces.map(w => <option key={w.id} value={w.id}>{w.name}（{ROLE_LABELS[w.role]}）</option>)}
+            </select>
+            <button onClick={() => setShowWorkspace(true)} disabled={!activeWorkspace} title="成員與邀請"
+              className="p-1.5 rounded-lg transition-colors text-muted-foreground hover:text-foreground hover:bg-sidebar-accent disabled:opacity-30">
+              <Users size={13} />
+            </button>
+            <button onClick={createWorkspace} title="新增工作區"
+              className="p-1.5 rounded-lg transition-colors text-muted-foreground hover:text-foreground hover:bg-sidebar-accent">
+              <Plus size={13} />
+            </button>
+          </div>
+          <button onClick={createNewRecord} disabled={!canEdit} title={canEdit ? undefined : '檢視者無法新增會議'}
+            className="w-full flex items-center justify-center gap-2 py-2.5 px-4 rounded-xl font-semibold text-sm transition-all active:scale-95 disabled:opacity-40 ios-btn-primary text-primary-foreground">
             <Plus size={15} />新增會議
           </button>
+          <Link to="/action-items"
+            className="mt-2 w-full flex items-center justify-center gap-2 py-2.5 px-4 rounded-xl font-semibold text-sm transition-all active:scale-95 ios-btn-secondary text-muted-foreground">
+            <ListChecks size={15} />行動項目追蹤
+          </Link>
+          <Link to="/usage"
+            className="mt-2 w-full flex items-center justify-center gap-2 py-2.5 px-4 rounded-xl font-semibold text-sm transition-all active:scale-95 ios-btn-secondary text-muted-foreground">
+            <BarChart3 size={15} />AI 用量
+          </Link>
+          <div className="relative mt-2">
+            <Search size={13} className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <input type="text" value={searchQuery} onChange={e => setSearchQuery(e.target.value)} placeholder="搜尋會議、逐字稿、分析..."
+              className="w-full pl-8 pr-8 py-2 rounded-xl text-sm placeholder:text-muted-foreground/50 ios-input text-foreground" />
+            {searchQuery && (
+              <button onClick={() => setSearchQuery('')} className="absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded-lg text-muted-foreground hover:text-foreground">
+                <X size={12} />
+              </button>
+            )}
+          </div>
+          {!searchQuery.trim() && (
+            <div className="mt-2">
+              <RecordFilterPanel folders={folders} tags={tags} participants={participants} filter={recordFilter}
+                onChange={setRecordFilter} onCreateFolder={createFolder} onRenameFolder={renameFolder} onDeleteFolder={deleteFolder}
+                onCreateTag={createTag} onDeleteTag={deleteTag} />
+            </div>
+          )}
         </div>
 
         <div className="flex-1 overflow-y-auto px-2 pb-3">
-          <p className="text-[11px] font-semibold tracking-widest uppercase px-2 mb-2 mt-1 text-muted-foreground">歷史記錄</p>
-          {records.map(r => (
-            <div key={r.id}
-              onClick={() => { setActiveRecordId(r.id); setStep(1); setErrorMsg(null); if (window.innerWidth < 1024) setIsSidebarOpen(false); }}
-              className={`group flex items-center justify-between p-2.5 rounded-xl cursor-pointer transition-all duration-150 mb-0.5 ${activeRecordId === r.id ? 'bg-primary/10' : 'hover:bg-sidebar-accent'}`}>
-              <div className="flex flex-col min-w-0 flex-1">
-                <span className={`truncate font-medium text-sm ${activeRecordId === r.id ? 'text-primary' : 'text-sidebar-foreground'}`}>{r.title}</span>
-                <span className="text-[11px] flex items-center gap-1 mt-0.5 text-muted-foreground">
-                  <Clock size={9} /> {new Date(r.createdAt).toLocaleDateString()}
-                </span>
-              </div>
-              <div className="flex items-center gap-0.5 lg:opacity-0 group-hover:opacity-100 transition-opacity ml-1">
-                <button onClick={e => renameRecord(r.id, e)} className="p-1.5 hover:bg-sidebar-accent rounded-lg transition-colors text-muted-foreground">
-                  <Edit3 size={12} />
-                </button>
-                <button onClick={e => deleteRecord(r.id, e)} className="p-1.5 rounded-lg transition-colors text-muted-foreground hover:text-destructive">
-                  <Trash2 size={12} />
+          {searchQuery.trim() ? (
+            <>
+              <p className="text-[11px] font-semibold tracking-widest uppercase px-2 mb-2 mt-1 text-muted-foreground flex items-center gap-1.5">
+                搜尋結果{searchState.loading && <Loader2 size={10} className="animate-spin" />}
+              </p>
+              {searchState.results.map((result, idx) => (
+                <button key={idx} onClick={() => openSearchResult(result)}
+                  className="w-full text-left p-2.5 rounded-xl transition-all duration-150 mb-0.5 hover:bg-sidebar-accent">
+                  <span className="block truncate font-medium text-sm text-sidebar-foreground">{result.recordTitle}</span>
+                  <span className="block text-[11px] mt-0.5 text-muted-foreground">
+                    {describeSearchResult(result)} · {new Date(result.recordCreatedAt).toLocaleDateString()}
+                  </span>
+                  <span className="block text-xs mt-1 text-muted-foreground line-clamp-3">
+                    {highlightSegments(cleanSnippet(result.snippet), searchState.terms).map((seg, i) => seg.match
+                      ? <mark key={i} className="px-0.5 rounded bg-amber-500/20 text-foreground">{seg.text}</mark>
+                      : seg.text)}
+                  </span>
                 </button>
+              ))}
+              {!searchState.loading && searchState.results.length === 0 && (
+                <p className="text-xs text-center py-8 text-muted-foreground">找不到符合的內容</p>
+              )}
+            </>
+          ) : (
+            <>
+              <div className="flex items-center justify-between px-2 mb-2 mt-1">
+                <p className="text-[11px] font-semibold tracking-widest uppercase text-muted-foreground">
+                  歷史記錄{visibleRecords.length !== workspaceRecords.length && ` · ${visibleRecords.length}/${workspaceRecords.length}`}
+                </p>
+                {canEdit && (
+                  <button onClick={() => setSelectedIds(selectedIds ? null : [])}
+                    className={`text-[11px] font-semibold transition-colors ${selectedIds ? 'text-primary' : 'text-muted-foreground hover:text-foreground'}`}>
+                    {selectedIds ? '完成' : '選取'}
+                  </button>
+                )}
               </div>
-            </div>
-          ))}
-          {records.length === 0 && (
-            <p className="text-xs text-center py-8 text-muted-foreground">尚無會議記錄</p>
+              {visibleRecords.map(r => (
+                <div key={r.id}
+                  onClick={() => {
+                    if (selectedIds) { toggleSelected(r.id); return; }
+                    setActiveRecordId(r.id); setStep(1); setErrorMsg(null); if (window.innerWidth < 1024) setIsSidebarOpen(false);
+                  }}
+                  className={`group flex items-center justify-between p-2.5 rounded-xl cursor-pointer transition-all duration-150 mb-0.5 ${activeRecordId === r.id && !selectedIds ? 'bg-primary/10' : 'hover:bg-sidebar-accent'}`}>
+                  {selectedIds && (
+                    <input type="checkbox" checked={selectedIds.includes(r.id)} readOnly className="mr-2.5 accent-primary pointer-events-none" />
+                  )}
+                  <div className="flex flex-col min-w-0 flex-1">
+                    <span className={`truncate font-medium text-sm ${activeRecordId === r.id ? 'text-primary' : 'text-sidebar-foreground'}`}>{r.title}</span>
+                    <span className="text-[11px] flex items-center gap-1 mt-0.5 text-muted-foreground">
+                      <Clock size={9} /> {new Date(r.createdAt).toLocaleDateString()}
+                    </span>
+                    {r.tagIds.length > 0 && (
+                      <span className="flex flex-wrap gap-1 mt-1">
+                        {tags.filter(t => r.tagIds.includes(t.id)).map(t => (
+                          <span key={t.id} className={`px-1.5 rounded-full text-[10px] font-medium ${tagColorClass(t.color)}`}>{t.name}</span>
+                        ))}
+                      </span>
+                    )}
+                  </div>
+                  {!selectedIds && canEdit && <div className="flex items-center gap-0.5 lg:opacity-0 group-hover:opacity-100 transition-opacity ml-1">
+                    <button onClick={e => renameRecord(r.id, e)} className="p-1.5 hover:bg-sidebar-accent rounded-lg transition-colors text-muted-foreground">
+                      <Edit3 size={12} />
+                    </button>
+                    {canDeleteMeeting(activeWorkspace?.role, r.userId === user?.id) && (
+                      <button onClick={e => deleteRecord(r.id, e)} className="p-1.5 rounded-lg transition-colors text-muted-foreground hover:text-destructive">
+                        <Trash2 size={12} />
+                      </button>
+                    )}
+                  </div>}
+                </div>
+              ))}
+              {workspaceRecords.length === 0 && (
+                <p className="text-xs text-center py-8 text-muted-foreground">尚無會議記錄</p>
+              )}
+              {workspaceRecords.length > 0 && visibleRecords.length === 0 && (
+                <p className="text-xs text-center py-8 text-muted-foreground">沒有符合篩選條件的會議</p>
+              )}
+            </>
           )}
         </div>
 
+        {selectedIds && !searchQuery.trim() && (
+          <div className="p-3 border-t border-border space-y-2">
+            <div className="flex items-center justify-between px-1">
+              <span className="text-xs font-semibold text-foreground">已選取 {selectedIds.length} 筆</span>
+              <button onClick={() => setSelectedIds(selectedIds.length === visibleRecords.length ? [] : visibleRecords.map(r => r.id))}
+                className="text-[11px] font-semibold text-muted-foreground hover:text-foreground transition-colors">
+                {selectedIds.length === visibleRecords.length ? '取消全選' : '全選'}
+              </button>
+            </div>
+            <div className="flex items-center gap-1.5">
+              <select value="" disabled={selectedIds.length === 0 || tags.length === 0} onChange={e => e.target.value && bulkTag(e.target.value)}
+                className="flex-1 min-w-0 px-2 py-1.5 rounded-lg text-xs ios-input text-foreground disabled:opacity-40">
+                <option value="">標籤…</option>
+                {tags.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              </select>
+              <select value="" disabled={selectedIds.length === 0} onChange={e => e.target.value && bulkMove(e.target.value === UNFILED ? null : e.target.value)}
+                className="flex-1 min-w-0 px-2 py-1.5 rounded-lg text-xs ios-input text-foreground disabled:opacity-40">
+                <option value="">移至…</option>
+                <option value={UNFILED}>未分類</option>
+                {folders.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+              </select>
+              <button onClick={bulkDelete} disabled={selectedIds.length === 0} title="刪除選取的記錄"
+                className="p-2 rounded-lg transition-colors text-muted-foreground hover:text-destructive disabled:opacity-30">
+                <Trash2 size={13} />
+              </button>
+            </div>
+          </div>
+        )}
+
         <div className="p-3 border-t border-border">
+          {isGuest && (
+            <Link to="/auth?mode=link" className="mb-2 block px-3 py-2 rounded-xl text-[11px] font-medium bg-primary/10 text-primary hover:bg-primary/15 transition-colors">
+              綁定 E-Mail 保存會議
+            </Link>
+          )}
           <div className="flex items-center justify-between px-1">
-            <p className="text-xs truncate max-w-[160px] text-muted-foreground">{user?.email}</p>
-            <button onClick={signOut} className="p-1.5 rounded-lg transition-all hover:text-destructive text-muted-foreground hover:bg-muted" title="登出">
+            <p className="text-xs truncate max-w-[160px] text-muted-foreground">{isGuest ? '訪客帳號' : user?.email}</p>
+            <button onClick={handleSignOut} className="p-1.5 rounded-lg transition-all hover:text-destructive text-muted-foreground hover:bg-muted" title="登出">
               <LogOut size={14} />
             </button>
           </div>
@@ -573,17 +1496,32 @@ const MeetingAssistant: React.FC = () => {
             <h2 className="text-sm font-semibold truncate max-w-[160px] md:max-w-sm text-foreground">
               {activeRecord ? activeRecord.title : '智會洞察助理'}
             </h2>
+            {activeRecord && !canEdit && (
+              <span className="flex items-center gap-1 text-[11px] px-2 py-0.5 rounded-full bg-muted text-muted-foreground shrink-0">
+                <Eye size={11} />僅供檢視
+              </span>
+            )}
           </div>
           {activeRecord && (
-            <div className="flex items-center bg-muted rounded-xl p-1 gap-0.5">
-              {([1, 2, 3] as const).map(s => (
-                <button key={s}
-                  disabled={(s === 2 || s === 3) && transcriptVersions.length === 0}
-                  onClick={() => setStep(s)}
-                  className={`px-3.5 py-1.5 rounded-lg text-[11px] font-semibold tracking-wide transition-all duration-200 ${step === s ? 'ios-tab-active text-primary' : 'text-muted-foreground hover:text-foreground disabled:opacity-30'}`}>
-                  {s === 1 ? '輸入' : s === 2 ? '校正' : '解讀'}
-                </button>
-              ))}
+            <div className="flex items-center gap-2">
+              <button onClick={() => setShowExport(true)} disabled={transcriptVersions.length === 0} title="匯出報告"
+                className="p-2 rounded-xl transition-all active:scale-90 hover:bg-muted disabled:opacity-30 text-muted-foreground hover:text-foreground">
+                <FileDown size={16} />
+              </button>
+              <button onClick={() => setShowShare(true)} disabled={transcriptVersions.length === 0} title="分享唯讀報告"
+                className="p-2 rounded-xl transition-all active:scale-90 hover:bg-muted disabled:opacity-30 text-muted-foreground hover:text-foreground">
+                <Share2 size={16} />
+              </button>
+              <div className="flex items-center bg-muted rounded-xl p-1 gap-0.5">
+                {([1, 2, 3] as const).map(s => (
+                  <button key={s}
+                    disabled={(s === 2 || s === 3) && transcriptVersions.length === 0}
+                    onClick={() => setStep(s)}
+                    className={`px-3.5 py-1.5 rounded-lg text-[11px] font-semibold tracking-wide transition-all duration-200 ${step === s ? 'ios-tab-active text-primary' : 'text-muted-foreground hover:text-foreground disabled:opacity-30'}`}>
+                    {s === 1 ? '輸入' : s === 2 ? '校正' : '解讀'}
+                  </button>
+                ))}
+              </div>
             </div>
           )}
         </header>
@@ -608,7 +1546,7 @@ const MeetingAssistant: React.FC = () => {
           ) : (
             <div className="max-w-5xl mx-auto space-y-5">
               {/* Error Banner */}
-              {errorMsg && <ErrorBanner message={errorMsg} onDismiss={() => setErrorMsg(null)} />}
+              {error && <ErrorBanner message={error.message} onRetry={error.retry} onDismiss={() => setErrorMsg(null)} />}
 
               {/* ── Step 1: Input ── */}
               {step === 1 && (
@@ -618,16 +1556,30 @@ const MeetingAssistant: React.FC = () => {
                       <Settings size={14} className="text-muted-foreground" />
                       <h3 className="text-[13px] font-semibold uppercase tracking-widest text-muted-foreground">系統參數</h3>
                     </div>
-                    {(['subject', 'keywords', 'speakers', 'terminology'] as const).map(field => (
+                    {(['subject', 'keywords', 'terminology'] as const).map(field => (
                       <div key={field} className="space-y-1.5">
                         <label className="text-[11px] font-semibold uppercase tracking-widest text-muted-foreground px-0.5">
-                          {field === 'subject' ? '會議主題' : field === 'keywords' ? '核心關鍵字' : field === 'speakers' ? '出席名單' : '專業術語'}
+                          {field === 'subject' ? '會議主題' : field === 'keywords' ? '核心關鍵字' : '專業術語'}
                         </label>
                         <input type="text" value={localMetadata[field]} onChange={e => handleMetadataChange(field, e.target.value)}
                           placeholder="輸入參數..."
                           className="w-full p-3 rounded-xl text-sm placeholder:text-muted-foreground/40 transition-all ios-input text-foreground" />
                       </div>
                     ))}
+                    <div className="space-y-1.5">
+                      <label className="text-[11px] font-semibold uppercase tracking-widest text-muted-foreground px-0.5">AI 模型</label>
+                      <ModelSelect providers={providers} value={{ provider: activeRecord?.aiProvider ?? null, model: activeRecord?.aiModel ?? null }}
+                        inheritLabel={`沿用工作區設定${activeWorkspace?.aiProvider ? `（${activeWorkspace.aiProvider}${activeWorkspace.aiModel ? ` · ${activeWorkspace.aiModel}` : ''}）` : ''}`}
+                        onChange={handleModelChange} disabled={!canEdit}
+                        className="w-full p-3 rounded-xl text-sm transition-all ios-input text-foreground" />
+                    </div>
+                    <div className="md:col-span-2">
+                      <SpeakerRosterEditor roster={localMetadata.roster || []} onChange={handleRosterChange} />
+                    </div>
+                    <div className="md:col-span-2">
+                      <GlossaryPanel glossaries={glossaries} attachedIds={attachedGlossaryIds} onToggle={toggleGlossary}
+                        onCreate={createGlossary} onSave={saveGlossary} onDelete={deleteGlossary} userId={user?.id ?? ''} />
+                    </div>
                   </div>
 
                   <div className="ios-card p-5 md:p-6 rounded-2xl">
@@ -635,14 +1587,42 @@ const MeetingAssistant: React.FC = () => {
                       <Upload size={14} className="text-muted-foreground" />
                       <h3 className="text-[13px] font-semibold uppercase tracking-widest text-muted-foreground">原始逐字稿</h3>
                       <span className="text-[11px] ml-auto text-muted-foreground">{localTranscript.length.toLocaleString()} 字</span>
+                      <button onClick={() => fileInputRef.current?.click()} disabled={isLoading}
+                        className="flex items-center gap-1.5 text-[11px] font-semibold uppercase tracking-widest px-3 py-1.5 rounded-xl transition-all active:scale-95 disabled:opacity-30 ios-btn-secondary text-muted-foreground">
+                        <FileUp size={12} />匯入檔案
+                      </button>
+                      <input ref={fileInputRef} type="file" accept={TRANSCRIPT_FILE_ACCEPT} onChange={handleTranscriptFile} className="hidden" />
                     </div>
+                    {importPreview && (
+                      <div className="mb-4 p-3.5 rounded-xl bg-primary/5 border border-primary/15 text-xs space-y-2">
+                        <div className="flex items-center gap-2 flex-wrap text-muted-foreground">
+                          <span className="font-semibold text-foreground truncate max-w-[200px]">{importPreview.fileName}</span>
+                          <span className="px-2 py-0.5 rounded-full bg-primary/10 text-primary font-semibold">{TRANSCRIPT_FORMAT_LABELS[importPreview.format]}</span>
+                          <span>時長 {formatDuration(importPreview.durationSeconds)}</span>
+                          <span>· {importPreview.transcript.turns.length} 段</span>
+                          <button onClick={() => setImportPreview(null)} className="ml-auto p-1 hover:opacity-60 transition-opacity"><X size={12} /></button>
+                        </div>
+                        {importPreview.speakers.length > 0 && (
+                          <div className="flex items-center gap-1.5 flex-wrap">
+                            <span className="text-muted-foreground">偵測到的說話者：</span>
+                            {importPreview.speakers.map(sp => (
+                              <span key={sp} className="px-2 py-0.5 rounded-lg bg-card border border-border text-foreground">{sp}</span>
+                            ))}
+                            <button onClick={() => handleRosterChange(mergeDetectedSpeakers(localMetadata.roster || [], importPreview.speakers.filter(sp => sp !== UNKNOWN_SPEAKER)))}
+                              className="flex items-center gap-1 px-2 py-0.5 rounded-lg font-semibold text-primary hover:bg-primary/10 transition-colors">
+                              <Plus size={11} />加入出席名單
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    )}
                     <textarea value={localTranscript} onChange={e => handleTranscriptChange(e.target.value)}
                       placeholder="在此貼上您的會議逐字稿..."
                       className="w-full min-h-[260px] h-72 p-4 rounded-xl text-sm leading-relaxed resize-y placeholder:text-muted-foreground/30 ios-input text-foreground" />
                     <div className="mt-4 flex justify-end">
-                      <button disabled={isLoading || !localTranscript?.trim()} onClick={runCorrection}
+                      <button disabled={isLoading || !!correctionStream || !localTranscript?.trim()} onClick={runCorrection}
                         className="w-full md:w-auto px-8 py-3.5 rounded-2xl font-semibold text-sm transition-all flex items-center justify-center gap-2.5 disabled:opacity-30 active:scale-95 ios-btn-primary text-primary-foreground">
-                        {isLoading ? <><Loader2 size={15} className="animate-spin" />校正中...</> : <><Zap size={15} />啟動校正引擎</>}
+                        {isLoading || correctionStream ? <><Loader2 size={15} className="animate-spin" />校正中...</> : <><Zap size={15} />啟動校正引擎</>}
                       </button>
                     </div>
                   </div>
@@ -664,7 +1644,16 @@ const MeetingAssistant: React.FC = () => {
                         <div className="flex items-center gap-1.5 text-[11px] font-semibold uppercase tracking-widest text-muted-foreground">
                           <History size={10} /><span>版本歷史</span>
                         </div>
-                        <VersionPaginator total={transcriptVersions.length} current={activeTranscriptVersion} onChange={setActiveTranscriptVersion} />
+                        {!showDiff && editDraft === null && <VersionPaginator total={transcriptVersions.length} current={activeTranscriptVersion} onChange={setActiveTranscriptVersion} />}
+                        <button onClick={() => { setShowDiff(false); setEditDraft(currentTranscriptVersion?.correctedTranscript ?? null); }}
+                          disabled={!currentTranscriptVersion || !!correctionStream || editDraft !== null}
+                          className="flex items-center gap-1.5 text-[11px] font-semibold uppercase tracking-widest px-3.5 py-2 rounded-xl transition-all active:scale-95 disabled:opacity-30 ios-btn-secondary text-muted-foreground">
+                          <Edit3 size={12} />編輯
+                        </button>
+                        <button onClick={() => setShowDiff(v => !v)} disabled={transcriptVersions.length === 0 || !!correctionStream || editDraft !== null}
+                          className={`flex items-center gap-1.5 text-[11px] font-semibold uppercase tracking-widest px-3.5 py-2 rounded-xl transition-all active:scale-95 disabled:opacity-30 ${showDiff ? 'bg-primary text-primary-foreground shadow-ios-sm' : 'ios-btn-secondary text-muted-foreground'}`}>
+                          <GitCompare size={12} />差異比對
+                        </button>
                         <button onClick={() => copyToClipboard(currentTranscriptVersion?.correctedTranscript || '', 'corr')}
                           className="flex items-center gap-1.5 text-[11px] font-semibold uppercase tracking-widest px-3.5 py-2 rounded-xl transition-all active:scale-95 ios-btn-secondary text-muted-foreground">
                           {copiedId === 'corr' ? <Check size={12} /> : <Copy size={12} />}
@@ -675,13 +1664,55 @@ const MeetingAssistant: React.FC = () => {
                     {currentTranscriptVersion && (
                       <p className="text-[11px] mb-3 text-muted-foreground">
                         版本 {currentTranscriptVersion.versionNumber} · {new Date(currentTranscriptVersion.createdAt).toLocaleString()}
+                        {describeVersion(currentTranscriptVersion) && <> · {describeVersion(currentTranscriptVersion)}</>}
+                        {currentTranscriptVersion.promptVersion && <> · 提示詞 {currentTranscriptVersion.promptVersion}</>}
+                        {currentTranscriptVersion.model && <> · 模型 {currentTranscriptVersion.model}</>}
+                        <TranscriptStats text={currentTranscriptVersion.correctedTranscript} />
                       </p>
                     )}
-                    <div className="p-4 rounded-xl whitespace-pre-wrap text-sm leading-relaxed h-[460px] overflow-auto bg-muted/50 border border-border text-foreground">
-                      {currentTranscriptVersion?.correctedTranscript || '尚無校正版本'}
-                    </div>
+                    {correctionStream && (
+                      <StreamStatus label="AI 引擎正在重構文本脈絡..." progress={correctionStream.progress} retryAttempt={correctionStream.retryAttempt} onCancel={() => cancelStream(correctionStream)} />
+                    )}
+                    {editDraft !== null ? (
+                      <div className="space-y-3">
+                        <textarea value={editDraft} onChange={e => setEditDraft(e.target.value)}
+                          className="w-full h-[460px] p-4 rounded-xl text-sm leading-relaxed resize-y ios-input text-foreground" />
+                        <div className="flex items-center justify-end gap-2.5">
+                          <button onClick={() => setEditDraft(null)} disabled={isLoading}
+                            className="px-5 py-2.5 rounded-xl text-sm font-semibold transition-all active:scale-95 disabled:opacity-30 ios-btn-secondary text-muted-foreground">
+                            取消
+                          </button>
+                          <button onClick={saveManualEdit} disabled={isLoading || !editDraft.trim()}
+                            className="flex items-center gap-2 px-5 py-2.5 rounded-xl text-sm font-semibold transition-all active:scale-95 disabled:opacity-30 ios-btn-primary text-primary-foreground">
+                            {isLoading ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />}儲存為新版本
+                          </button>
+                        </div>
+                      </div>
+                    ) : showDiff && !correctionStream && transcriptVersions.length > 0 ? (
+                      <TranscriptDiffView key={activeRecordId} rawTranscript={localTranscript} versions={transcriptVersions} initialVersion={activeTranscriptVersion} />
+                    ) : (
+                      <div className="p-4 rounded-xl whitespace-pre-wrap text-sm leading-relaxed h-[460px] overflow-auto bg-muted/50 border border-border text-foreground">
+                        {correctionStream
+                          ? (correctionStream.text ? <TranscriptView text={correctionStream.text} /> : <span className="text-muted-foreground">等待 AI 回應...</span>)
+                          : currentTranscriptVersion ? <TranscriptView text={currentTranscriptVersion.correctedTranscript} /> : '尚無校正版本'}
+                      </div>
+                    )}
+                    {currentTranscriptVersion?.correctionLog && (
+                      <div className="mt-4 rounded-xl border border-border overflow-hidden">
+                        <button onClick={() => setShowCorrectionLog(v => !v)}
+                          className="w-full flex items-center gap-2 px-4 py-3 text-left text-[13px] font-semibold text-foreground bg-muted/40 hover:bg-muted/60 transition-colors">
+                          <ChevronRight size={14} className={`text-muted-foreground transition-transform ${showCorrectionLog ? 'rotate-90' : ''}`} />
+                          📝 重大修改記錄
+                        </button>
+                        {showCorrectionLog && (
+                          <div className="p-4 max-h-[360px] overflow-auto text-sm">
+                            <MarkdownRenderer text={currentTranscriptVersion.correctionLog} />
+                          </div>
+                        )}
+                      </div>
+                    )}
                     <div className="mt-4 flex flex-col md:flex-row items-center justify-between gap-3">
-                      <button onClick={runCorrection} disabled={isLoading || !localTranscript?.trim()}
+                      <button onClick={runCorrection} disabled={isLoading || !!correctionStream || !localTranscript?.trim()}
                         className="w-full md:w-auto flex items-center justify-center gap-2 px-5 py-2.5 rounded-xl text-sm font-semibold transition-all active:scale-95 disabled:opacity-30 ios-btn-secondary text-muted-foreground">
                         <Plus size={14} />重新校正（新版本）
                       </button>
@@ -702,24 +1733,65 @@ const MeetingAssistant: React.FC = () => {
                     <div className="flex items-center gap-3 ios-card p-3.5 rounded-xl">
                       <p className="text-[11px] font-semibold uppercase tracking-widest whitespace-nowrap text-muted-foreground">分析基底</p>
                       <VersionPaginator total={transcriptVersions.length} current={activeTranscriptVersion} onChange={setActiveTranscriptVersion} />
-                      <span className="text-[13px] text-muted-foreground">校正版本 {activeTranscriptVersion}</span>
+                      <span className="text-[13px] text-muted-foreground">
+                        校正版本 {activeTranscriptVersion}{currentTranscriptVersion?.source === 'manual' && '（手動編輯）'}
+                      </span>
                     </div>
                   )}
 
+                  {/* ── Batch run ── */}
+                  <div className="ios-card p-4 rounded-2xl flex flex-col md:flex-row md:items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-[13px] font-semibold text-foreground">
+                        一次執行所有模組
+                        {batchSummary && (
+                          <span className="ml-2 text-[11px] font-normal text-muted-foreground">
+                            已完成 {batchSummary.succeeded + batchSummary.failed}/{batchSummary.total}
+                            {batchSummary.failed > 0 && ` · ${batchSummary.failed} 個失敗`}
+                          </span>
+                        )}
+                      </p>
+                      <div className="mt-2 flex flex-wrap gap-1.5">
+                        {modules.map(m => {
+                          const entry = batch?.[m.id];
+                          const status = entry && batchEntryStatus(entry, recordJobs);
+                          const included = m.builtIn || batchCustomIds.includes(m.id);
+                          return (
+                            <button key={m.id} disabled={m.builtIn || (!!batchSummary && !batchSummary.finished)}
+                              onClick={() => setBatchCustomIds(prev => prev.includes(m.id) ? prev.filter(id => id !== m.id) : [...prev, m.id])}
+                              title={m.builtIn ? '內建模組一律執行' : included ? '點擊以排除' : '點擊以加入'}
+                              className={`flex items-center gap-1 px-2.5 py-1 rounded-lg text-[11px] font-semibold transition-all ${included ? 'bg-primary/10 text-primary' : 'bg-muted text-muted-foreground'}`}>
+                              {(status === 'queueing' || status === 'running') && <Loader2 size={10} className="animate-spin" />}
+                              {status === 'succeeded' && <Check size={10} />}
+                              {status === 'failed' && <AlertCircle size={10} className="text-destructive" />}
+                              {m.builtIn ? `${m.id} ${m.name}` : m.name}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                    {focusPicker}
+                    <button onClick={runAllModules}
+                      disabled={!currentTranscriptVersion || (!!batchSummary && !batchSummary.finished)}
+                      className="flex items-center justify-center gap-2 px-5 py-2.5 rounded-xl text-sm font-semibold transition-all active:scale-95 disabled:opacity-30 ios-btn-primary text-primary-foreground">
+                      {batchSummary && !batchSummary.finished ? <><Loader2 size={14} className="animate-spin" />分析中...</> : <><Zap size={14} />執行全部模組</>}
+                    </button>
+                  </div>
+
                   {/* ── Module Tabs ── */}
                   <div className="ios-card rounded-2xl overflow-hidden">
                     {/* Tab bar */}
                     <div className="flex border-b border-border bg-muted/40 overflow-x-auto">
-                      {moduleIds.map(mId => {
-                        const m = INSIGHT_MODULE_CONFIGS[mId];
+                      {modules.map(m => {
+                        const mId = m.id;
                         const versions = moduleVersionsMap[mId] || [];
                         const hasResult = versions.length > 0;
-                        const isActiveTab = activeModuleTab === mId;
-                        const isThisLoading = activeModuleId === mId && isLoading;
+                        const isActiveTab = activeModuleTab === mId && !editingModule;
+                        const isThisLoading = isModuleBusy(mId);
                         return (
                           <button
                             key={mId}
-                            onClick={() => setActiveModuleTab(mId)}
+                            onClick={() => { setActiveModuleTab(mId); setEditingModule(null); }}
                             className={`relative flex items-center gap-2 px-4 py-3.5 text-xs font-semibold whitespace-nowrap transition-all border-b-2 flex-shrink-0 ${
                               isActiveTab
                                 ? 'border-primary text-primary bg-card'
@@ -729,49 +1801,86 @@ const MeetingAssistant: React.FC = () => {
                             <span className="flex items-center gap-1.5">
                               {isThisLoading
                                 ? <Loader2 size={13} className="animate-spin text-primary" />
-                                : <span className={`w-5 h-5 rounded-md flex items-center justify-center text-[10px] font-bold ${hasResult ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground'}`}>{mId}</span>
+                                : <span className={`w-5 h-5 rounded-md flex items-center justify-center text-[10px] font-bold ${hasResult ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground'}`}>
+                                    {m.builtIn ? mId : renderModuleIcon(m.icon, 'w-3 h-3')}
+                                  </span>
                               }
                               {m.name}
                             </span>
                             {hasResult && !isThisLoading && (
                               <span className="ml-1 bg-primary/15 text-primary text-[9px] font-bold px-1.5 py-0.5 rounded-full">{versions.length}</span>
                             )}
+                            {moduleErrors[mId] && !isThisLoading && <AlertCircle size={12} className="text-destructive" />}
                           </button>
                         );
                       })}
+                      <button onClick={() => setEditingModule('new')}
+                        className={`flex items-center gap-1.5 px-4 py-3.5 text-xs font-semibold whitespace-nowrap transition-all border-b-2 flex-shrink-0 ${
+                          editingModule === 'new' ? 'border-primary text-primary bg-card' : 'border-transparent text-muted-foreground hover:text-foreground hover:bg-muted/60'
+                        }`}>
+                        <Plus size={13} />自訂模組
+                      </button>
                     </div>
 
+                    {editingModule && (
+                      <ModuleEditor
+                        key={editingModule === 'new' ? 'new' : editingModule.id}
+                        module={editingModule === 'new' ? undefined : editingModule}
+                        onSave={saveModule}
+                        onCancel={() => setEditingModule(null)}
+                        onDelete={editingModule === 'new' ? undefined : () => deleteModule(editingModule)} />
+                    )}
+
                     {/* Tab content */}
-                    {moduleIds.map(mId => {
+                    {!editingModule && modules.map(m => {
+                      const mId = m.id;
                       if (activeModuleTab !== mId) return null;
-                      const m = INSIGHT_MODULE_CONFIGS[mId];
                       const versions = moduleVersionsMap[mId] || [];
                       const hasResult = versions.length > 0;
                       const activeVerNum = activeModuleVersion[mId] || 1;
                       const activeVer = versions.find(v => v.versionNumber === activeVerNum);
+                      const basisVer = transcriptVersions.find(tv => tv.id === activeVer?.transcriptVersionId);
+                      const isStale = !!activeVer && !!latestTranscriptVersion && basisVer?.id !== latestTranscriptVersion.id;
+                      // Module B models one person from the roster, when there is one
+                      const needsFocus = mId === 'B' && roster.length > 0;
+                      const moduleFocus = needsFocus ? focusPick : undefined;
                       const chat = activeVer?.messages || [];
                       const lastAiResponse = chat.filter(msg => msg.role === 'model').slice(-1)[0]?.text || '';
                       const copyId = `chat-${mId}`;
-                      const isThisLoading = activeModuleId === mId && isLoading;
+                      const moduleStream = streamFor(mId);
+                      const isThisLoading = isModuleBusy(mId);
+                      const moduleError = moduleErrors[mId];
+                      // A new version streams on its own; chat replies stream below the conversation
+                      const visibleChat = moduleStream?.kind === 'analysis' ? [] : chat;
 
                       return (
                         <div key={mId}>
-                          {!hasResult ? (
+                          {moduleError && (
+                            <div className="p-4 border-b border-border">
+                              <ErrorBanner message={moduleError.message} onRetry={moduleError.retry} onDismiss={() => setModuleError(mId, null)} />
+                            </div>
+                          )}
+                          {!hasResult && !moduleStream ? (
                             // ── Empty state for this module ──
                             <div className="py-20 flex flex-col items-center text-center px-6">
-                              <div className="w-14 h-14 rounded-2xl flex items-center justify-center mx-auto mb-5 bg-muted">
-                                <Sparkles size={24} className="text-muted-foreground" />
+                              <div className="w-14 h-14 rounded-2xl flex items-center justify-center mx-auto mb-5 bg-muted text-muted-foreground">
+                                {m.builtIn ? <Sparkles size={24} /> : renderModuleIcon(m.icon, 'w-6 h-6')}
                               </div>
                               <h4 className="text-base font-semibold mb-2 text-foreground">{m.name}</h4>
-                              <p className="text-sm text-muted-foreground mb-6 max-w-xs">點擊下方按鈕，啟動 AI 對此模組的深度分析</p>
+                              <p className="text-sm text-muted-foreground mb-6 max-w-xs">
+                                {needsFocus ? '選擇要建模的人物後，啟動 AI 對此模組的深度分析'
+                                  : mId === 'B' ? '可於步驟一建立出席名單以直接選擇分析對象'
+                                  : '點擊下方按鈕，啟動 AI 對此模組的深度分析'}
+                              </p>
+                              {needsFocus && <div className="mb-4">{focusPicker}</div>}
                               <button
-                                onClick={() => runInitialAnalysis(mId)}
-                                disabled={isLoading || !currentTranscriptVersion}
+                                onClick={() => runInitialAnalysis(mId, moduleFocus)}
+                                disabled={isThisLoading || !currentTranscriptVersion || (needsFocus && !focusPick)}
                                 className="px-7 py-3 rounded-2xl font-semibold text-sm transition-all active:scale-95 disabled:opacity-30 flex items-center gap-2 ios-btn-primary text-primary-foreground"
                               >
                                 {isThisLoading
                                   ? <><Loader2 size={14} className="animate-spin" />分析中...</>
-                                  : <><Zap size={14} />啟動模組 {mId} 分析</>
+                                  : <><Zap size={14} />{m.builtIn ? `啟動模組 ${mId} 分析` : `啟動「${m.name}」分析`}</>
                                 }
                               </button>
                             </div>
@@ -780,7 +1889,15 @@ const MeetingAssistant: React.FC = () => {
                               {/* Module header */}
                               <div className="px-5 py-3.5 border-b border-border flex flex-col md:flex-row justify-between md:items-center gap-2.5 bg-muted/20">
                                 <div className="flex items-center gap-2">
-                                  {activeVer && <p className="text-[11px] text-muted-foreground">版本 {activeVer.versionNumber} · {new Date(activeVer.createdAt).toLocaleString()}</p>}
+                                  {activeVer && (
+                                    <p className="text-[11px] text-muted-foreground">
+                                      版本 {activeVer.versionNumber} · {new Date(activeVer.createdAt).toLocaleString()}
+                                      {' · '}{basisVer ? `基於逐字稿 v${basisVer.versionNumber}` : '逐字稿版本未記錄'}
+                                      {activeVer.focusSpeaker && <> · 對象：{formatSpeakerProfile(activeVer.focusSpeaker)}</>}
+                                      {activeVer.promptVersion && <> · 提示詞 {activeVer.promptVersion}</>}
+                                      {activeVer.model && <> · 模型 {activeVer.model}</>}
+                                    </p>
+                                  )}
                                 </div>
                                 <div className="flex items-center gap-2 flex-wrap">
                                   {versions.length > 1 && (
@@ -795,9 +1912,16 @@ const MeetingAssistant: React.FC = () => {
                                     {copiedId === copyId ? <Check size={11} /> : <Copy size={11} />}
                                     {copiedId === copyId ? '已複製' : 'Copy MD'}
                                   </button>
+                                  {!m.builtIn && (!m.ownerId || m.ownerId === user?.id) && (
+                                    <button onClick={() => setEditingModule(m)}
+                                      className="flex items-center gap-1.5 text-[11px] font-semibold uppercase tracking-widest px-3.5 py-2 rounded-xl transition-all active:scale-95 ios-btn-secondary text-muted-foreground">
+                                      <Settings size={11} />編輯模組
+                                    </button>
+                                  )}
+                                  {needsFocus && focusPicker}
                                   <button
-                                    onClick={() => runInitialAnalysis(mId)}
-                                    disabled={isLoading || !currentTranscriptVersion}
+                                    onClick={() => runInitialAnalysis(mId, moduleFocus)}
+                                    disabled={isThisLoading || !currentTranscriptVersion || (needsFocus && !focusPick)}
                                     className="flex items-center gap-1.5 text-[11px] font-semibold uppercase tracking-widest px-3.5 py-2 rounded-xl transition-all active:scale-95 disabled:opacity-30 ios-btn-secondary text-muted-foreground"
                                   >
                                     <Plus size={11} />新版本
@@ -805,9 +1929,24 @@ const MeetingAssistant: React.FC = () => {
                                 </div>
                               </div>
 
+                              {isStale && !moduleStream && (
+                                <div className="px-5 py-2.5 border-b border-border flex items-center gap-2 text-[12px] bg-amber-500/10 text-amber-700">
+                                  <AlertTriangle size={13} className="flex-shrink-0" />
+                                  <span className="flex-1">
+                                    此分析{basisVer ? `基於逐字稿 v${basisVer.versionNumber}` : '的逐字稿版本未記錄'}，最新逐字稿為 v{latestTranscriptVersion.versionNumber}，結果可能已過時。
+                                  </span>
+                                  {activeTranscriptVersion === latestTranscriptVersion.versionNumber && (
+                                    <button onClick={() => runInitialAnalysis(mId, activeVer?.focusSpeaker)} disabled={isThisLoading}
+                                      className="font-semibold underline underline-offset-2 disabled:opacity-30">
+                                      以最新版本重新分析
+                                    </button>
+                                  )}
+                                </div>
+                              )}
+
                               {/* Chat messages */}
                               <div className="p-5 md:p-6 space-y-5 max-h-[560px] overflow-auto">
-                                {chat.map((msg, index) => (
+                                {visibleChat.map((msg, index) => (
                                   <div key={index} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                                     <div className={`max-w-[90%] ${msg.role === 'user' ? 'px-4 py-3.5 rounded-2xl rounded-tr-none bg-primary text-primary-foreground' : 'w-full'}`}>
                                       {msg.role === 'user'
@@ -819,14 +1958,10 @@ const MeetingAssistant: React.FC = () => {
                                     </div>
                                   </div>
                                 ))}
-                                {isThisLoading && (
-                                  <div className="flex items-center gap-2.5 py-2">
-                                    <div className="flex gap-1">
-                                      {[0, 1, 2].map(i => (
-                                        <div key={i} className="w-1.5 h-1.5 rounded-full animate-bounce bg-primary" style={{ animationDelay: `${i * 0.2}s` }} />
-                                      ))}
-                                    </div>
-                                    <span className="text-[13px] text-muted-foreground">AI 思考中...</span>
+                                {moduleStream && (
+                                  <div className="w-full">
+                                    {moduleStream.text && <MarkdownRenderer text={moduleStream.text} />}
+                                    <StreamStatus label={moduleStream.text ? 'AI 回應中...' : 'AI 思考中...'} retryAttempt={moduleStream.retryAttempt} onCancel={() => cancelStream(moduleStream)} />
                                   </div>
                                 )}
                               </div>
@@ -838,14 +1973,19 @@ const MeetingAssistant: React.FC = () => {
                                     onKeyDown={e => e.key === 'Enter' && sendModuleChat(mId)}
                                     placeholder={`針對「${m.name}」深入探討...`}
                                     className="flex-1 p-3.5 rounded-xl text-sm ios-input placeholder:text-muted-foreground/40 text-foreground" />
-                                  <button onClick={() => sendModuleChat(mId)} disabled={isLoading || !chatInputs[mId]?.trim()}
+                                  <button onClick={() => sendModuleChat(mId)} disabled={isThisLoading || !chatInputs[mId]?.trim()}
                                     className="p-3.5 rounded-xl transition-all disabled:opacity-25 active:scale-95 ios-btn-primary text-primary-foreground">
-                                    {isLoading && activeModuleId === mId ? <Loader2 className="animate-spin" size={15} /> : <Send size={15} />}
+                                    {moduleRequests.includes(mId) ? <Loader2 className="animate-spin" size={15} /> : <Send size={15} />}
                                   </button>
                                 </div>
                               </div>
                             </>
                           )}
+                          {mId === 'E' && (
+                            <ActionItemsTable items={actionItems} onUpdate={updateActionItem} onDelete={deleteActionItem}
+                              onAdd={addActionItem} onExtract={extractActionItems}
+                              isExtracting={isExtracting} canExtract={!!currentTranscriptVersion} />
+                          )}
                         </div>
                       );
                     })}
@@ -857,13 +1997,42 @@ const MeetingAssistant: React.FC = () => {
         </div>
       </main>
 
-      {/* ── Global Loading Overlay ── */}
-      {isLoading && (
-        <div className="fixed inset-0 z-[100] flex items-center justify-center" style={{ background: 'rgba(0,0,0,0.25)', backdropFilter: 'blur(6px)' }}>
-          <div className="ios-card p-8 rounded-3xl flex flex-col items-center max-w-sm w-full mx-4 shadow-ios-lg">
-            <ProgressSteps step={loadingStep} label={loadingLabel} />
-          </div>
-        </div>
+      {showExport && activeRecord && (
+        <ReportExportDialog
+          title={activeRecord.title}
+          metadata={{ ...localMetadata, roster }}
+          meetingDate={activeRecord.createdAt}
+          transcriptVersions={transcriptVersions}
+          activeTranscriptVersion={activeTranscriptVersion}
+          modules={modules}
+          moduleVersionsMap={moduleVersionsMap}
+          activeModuleVersion={activeModuleVersion}
+          onClose={() => setShowExport(false)} />
+      )}
+
+      {showShare && activeRecord && user && (
+        <ShareLinkDialog
+          recordId={activeRecord.id}
+          userId={user.id}
+          canEdit={canEdit}
+          transcriptVersions={transcriptVersions}
+          activeTranscriptVersion={activeTranscriptVersion}
+          modules={modules}
+          moduleVersionsMap={moduleVersionsMap}
+          activeModuleVersion={activeModuleVersion}
+          onClose={() => setShowShare(false)} />
+      )}
+
+      {showWorkspace && activeWorkspace && user && (
+        <WorkspaceDialog
+          key={activeWorkspace.id}
+          workspace={activeWorkspace}
+          currentUserId={user.id}
+          onClose={() => setShowWorkspace(false)}
+          providers={providers}
+          onRenamed={name => setWorkspaces(prev => prev.map(w => w.id === activeWorkspace.id ? { ...w, name } : w))}
+          onModelChanged={choice => setWorkspaces(prev => prev.map(w => w.id === activeWorkspace.id ? { ...w, aiProvider: choice.provider, aiModel: choice.model } : w))}
+          onRemoved={handleWorkspaceRemoved} />
       )}
     </div>
   );
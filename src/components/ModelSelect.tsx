@@ -0,0 +1,35 @@
+import React from 'react';
+import { ModelChoice, ProviderInfo, modelTag, parseModelTag } from '@/lib/aiProviders';
+
+interface ModelSelectProps {
+  providers: ProviderInfo[];
+  value: ModelChoice;
+  /** Label of the empty choice, which inherits the workspace or default model. */
+  inheritLabel: string;
+  onChange: (choice: ModelChoice) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/** Picks a provider and model; models are grouped under their provider. */
+function ModelSelect({ providers, value, inheritLabel, onChange, disabled, className }: ModelSelectProps) {
+  const current = value.provider ? modelTag(value.provider, value.model || '') : '';
+  const provider = providers.find(p => p.id === value.provider);
+  // A provider removed from the function's configuration still shows what is set
+  const isMissing = !!value.provider && (!provider || (!!value.model && !provider.models.includes(value.model)));
+
+  return (
+    <select value={current} disabled={disabled} onChange={e => onChange(parseModelTag(e.target.value))} className={className}>
+      <option value="">{inheritLabel}</option>
+      {isMissing && <option value={current}>{value.provider}{value.model ? ` · ${value.model}` : ''}（已停用）</option>}
+      {providers.map(p => (
+        <optgroup key={p.id} label={p.label}>
+          <option value={modelTag(p.id, '')}>{p.label} · 預設（{p.models[0]}）</option>
+          {p.models.map(model => <option key={model} value={modelTag(p.id, model)}>{model}</option>)}
+        </optgroup>
+      ))}
+    </select>
+  );
+}
+
+export default ModelSelect;
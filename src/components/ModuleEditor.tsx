@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Check, Loader2, Trash2 } from 'lucide-react';
+import { AnalysisModuleDefinition } from '../types';
+import { MODULE_ICONS, renderModuleIcon } from '../constants';
+import { ModuleDraft } from '../services/moduleService';
+
+interface ModuleEditorProps {
+  /** The module being edited; omitted when creating one. */
+  module?: AnalysisModuleDefinition;
+  onSave: (draft: ModuleDraft) => Promise<void>;
+  onCancel: () => void;
+  onDelete?: () => void;
+}
+
+const LABEL_CLASS = 'text-[11px] font-semibold uppercase tracking-widest text-muted-foreground px-0.5';
+const FIELD_CLASS = 'w-full p-3 rounded-xl text-sm placeholder:text-muted-foreground/40 transition-all ios-input text-foreground';
+
+function ModuleEditor({ module, onSave, onCancel, onDelete }: ModuleEditorProps) {
+  const [draft, setDraft] = useState<ModuleDraft>({
+    name: module?.name ?? '',
+    icon: module?.icon ?? 'Sparkles',
+    prompt: module?.prompt ?? '',
+    outputFormat: module?.outputFormat ?? '',
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      await onSave({ ...draft, name: draft.name.trim() });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-5 md:p-6 space-y-4">
+      <h4 className="text-base font-semibold text-foreground">{module ? '編輯自訂模組' : '新增自訂模組'}</h4>
+      <div className="space-y-1.5">
+        <label className={LABEL_CLASS}>模組名稱</label>
+        <input type="text" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })}
+          placeholder="例：業務異議分析" className={FIELD_CLASS} />
+      </div>
+      <div className="space-y-1.5">
+        <label className={LABEL_CLASS}>圖示</label>
+        <div className="flex flex-wrap gap-1.5">
+          {Object.keys(MODULE_ICONS).map(icon => (
+            <button key={icon} onClick={() => setDraft({ ...draft, icon })} title={icon}
+              className={`p-2 rounded-xl transition-all ${draft.icon === icon ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground hover:text-foreground'}`}>
+              {renderModuleIcon(icon, 'w-4 h-4')}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-1.5">
+        <label className={LABEL_CLASS}>分析指引</label>
+        <textarea value={draft.prompt} onChange={e => setDraft({ ...draft, prompt: e.target.value })}
+          placeholder={'- 找出客戶提出的所有異議與其背後顧慮\n- 評估業務的回應是否化解異議'}
+          className={`${FIELD_CLASS} h-36 leading-relaxed resize-y`} />
+      </div>
+      <div className="space-y-1.5">
+        <label className={LABEL_CLASS}>輸出格式</label>
+        <textarea value={draft.outputFormat} onChange={e => setDraft({ ...draft, outputFormat: e.target.value })}
+          placeholder={'1. 異議清單（原文摘錄、類型、是否化解）\n2. 改善建議'}
+          className={`${FIELD_CLASS} h-28 leading-relaxed resize-y`} />
+      </div>
+      <div className="flex items-center gap-2.5">
+        {onDelete && (
+          <button onClick={onDelete}
+            className="flex items-center gap-1.5 text-sm font-semibold px-4 py-2.5 rounded-xl text-destructive hover:bg-destructive/10 transition-colors">
+            <Trash2 size={14} />刪除模組
+          </button>
+        )}
+        <button onClick={onCancel} disabled={isSaving}
+          className="ml-auto px-5 py-2.5 rounded-xl text-sm font-semibold transition-all active:scale-95 disabled:opacity-30 ios-btn-secondary text-muted-foreground">
+          取消
+        </button>
+        <button onClick={save} disabled={isSaving || !draft.name.trim() || !draft.prompt.trim()}
+          className="flex items-center gap-2 px-5 py-2.5 rounded-xl text-sm font-semibold transition-all active:scale-95 disabled:opacity-30 ios-btn-primary text-primary-foreground">
+          {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />}儲存模組
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ModuleEditor;
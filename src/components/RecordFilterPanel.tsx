@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Edit3, FolderPlus, Plus, SlidersHorizontal, Trash2, X } from 'lucide-react';
+import { Folder, Tag } from '../types';
+import { TAG_COLORS, tagColorClass } from '../constants';
+import { RecordFilter, UNFILED, EMPTY_RECORD_FILTER, countActiveFilters } from '@/lib/recordFilters';
+
+interface RecordFilterPanelProps {
+  folders: Folder[];
+  tags: Tag[];
+  participants: string[];
+  filter: RecordFilter;
+  onChange: (filter: RecordFilter) => void;
+  onCreateFolder: () => void;
+  onRenameFolder: (folder: Folder) => void;
+  onDeleteFolder: (folder: Folder) => void;
+  onCreateTag: (name: string, color: string) => void;
+  onDeleteTag: (tag: Tag) => void;
+}
+
+const FIELD_CLASS = 'w-full px-2.5 py-1.5 rounded-lg text-xs ios-input text-foreground';
+const ICON_BUTTON_CLASS = 'p-1.5 rounded-lg transition-colors text-muted-foreground hover:text-foreground hover:bg-sidebar-accent disabled:opacity-30';
+
+function RecordFilterPanel({
+  folders, tags, participants, filter, onChange, onCreateFolder, onRenameFolder, onDeleteFolder, onCreateTag, onDeleteTag,
+}: RecordFilterPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [tagDraft, setTagDraft] = useState('');
+  const activeFolder = folders.find(f => f.id === filter.folderId);
+  const activeCount = countActiveFilters(filter);
+  const colorKeys = Object.keys(TAG_COLORS);
+
+  const toggleTag = (id: string) =>
+    onChange({ ...filter, tagIds: filter.tagIds.includes(id) ? filter.tagIds.filter(t => t !== id) : [...filter.tagIds, id] });
+
+  const submitTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tagDraft.trim()) return;
+    onCreateTag(tagDraft.trim(), colorKeys[tags.length % colorKeys.length]);
+    setTagDraft('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1">
+        <select value={filter.folderId ?? ''} onChange={e => onChange({ ...filter, folderId: e.target.value || null })}
+          className={`${FIELD_CLASS} flex-1 min-w-0`}>
+          <option value="">全部會議</option>
+          <option value={UNFILED}>未分類</option>
+          {folders.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+        </select>
+        <button onClick={onCreateFolder} className={ICON_BUTTON_CLASS} title="新增資料夾"><FolderPlus size={13} /></button>
+        <button onClick={() => activeFolder && onRenameFolder(activeFolder)} disabled={!activeFolder} className={ICON_BUTTON_CLASS} title="重新命名資料夾">
+          <Edit3 size={13} />
+        </button>
+        <button onClick={() => activeFolder && onDeleteFolder(activeFolder)} disabled={!activeFolder} className={ICON_BUTTON_CLASS} title="刪除資料夾">
+          <Trash2 size={13} />
+        </button>
+        <button onClick={() => setIsOpen(!isOpen)} title="篩選"
+          className={`relative ${ICON_BUTTON_CLASS} ${isOpen || activeCount > 0 ? 'text-primary' : ''}`}>
+          <SlidersHorizontal size={13} />
+          {activeCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[14px] h-[14px] px-0.5 rounded-full bg-primary text-primary-foreground text-[9px] font-bold leading-[14px] text-center">
+              {activeCount}
+            </span>
+          )}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="p-2.5 rounded-xl bg-card border border-border space-y-3">
+          <div className="space-y-1.5">
+            <p className="text-[10px] font-semibold uppercase tracking-widest text-muted-foreground">標籤</p>
+            <div className="flex flex-wrap gap-1">
+              {tags.map(tag => (
+                <span key={tag.id} className={`group inline-flex items-center rounded-full text-[11px] font-medium transition-all ${tagColorClass(tag.color)} ${filter.tagIds.includes(tag.id) ? 'ring-1 ring-current' : 'opacity-70 hover:opacity-100'}`}>
+                  <button onClick={() => toggleTag(tag.id)} className="pl-2 pr-1 py-0.5">{tag.name}</button>
+                  <button onClick={() => onDeleteTag(tag)} title="刪除標籤" className="pr-1.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <X size={9} />
+                  </button>
+                </span>
+              ))}
+            </div>
+            <form onSubmit={submitTag} className="flex items-center gap-1">
+              <input type="text" value={tagDraft} onChange={e => setTagDraft(e.target.value)} placeholder="新增標籤" className={FIELD_CLASS} />
+              <button type="submit" disabled={!tagDraft.trim()} className={ICON_BUTTON_CLASS} title="新增標籤"><Plus size={13} /></button>
+            </form>
+          </div>
+          <div className="space-y-1.5">
+            <p className="text-[10px] font-semibold uppercase tracking-widest text-muted-foreground">會議日期</p>
+            <div className="flex items-center gap-1">
+              <input type="date" value={filter.from} max={filter.to || undefined} onChange={e => onChange({ ...filter, from: e.target.value })} className={FIELD_CLASS} />
+              <span className="text-xs text-muted-foreground">–</span>
+              <input type="date" value={filter.to} min={filter.from || undefined} onChange={e => onChange({ ...filter, to: e.target.value })} className={FIELD_CLASS} />
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <p className="text-[10px] font-semibold uppercase tracking-widest text-muted-foreground">與會者</p>
+            <select value={filter.participant} onChange={e => onChange({ ...filter, participant: e.target.value })} className={FIELD_CLASS}>
+              <option value="">不限</option>
+              {participants.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </div>
+          {activeCount > 0 && (
+            <button onClick={() => onChange({ ...EMPTY_RECORD_FILTER, folderId: filter.folderId })}
+              className="w-full py-1.5 rounded-lg text-[11px] font-semibold text-muted-foreground hover:text-foreground hover:bg-sidebar-accent transition-colors">
+              清除篩選
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RecordFilterPanel;
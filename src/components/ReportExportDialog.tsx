@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { FileDown, FileText, Loader2, Printer, X } from 'lucide-react';
+import { AnalysisModuleDefinition, ChatMessage, MeetingMetadata, SpeakerProfile } from '../types';
+import { MeetingReport, moduleSection, transcriptSection } from '@/lib/report';
+import { reportService } from '../services/reportService';
+
+interface ExportTranscriptVersion {
+  versionNumber: number;
+  correctedTranscript: string;
+  source: 'ai' | 'manual';
+  promptVersion?: string;
+}
+
+interface ExportModuleVersion {
+  versionNumber: number;
+  messages: ChatMessage[];
+  promptVersion?: string;
+  focusSpeaker?: SpeakerProfile;
+}
+
+interface ReportExportDialogProps {
+  title: string;
+  metadata: MeetingMetadata;
+  meetingDate: number;
+  transcriptVersions: ExportTranscriptVersion[];
+  /** Version selected on screen; preselected for export. */
+  activeTranscriptVersion: number;
+  modules: AnalysisModuleDefinition[];
+  moduleVersionsMap: Record<string, ExportModuleVersion[]>;
+  activeModuleVersion: Record<string, number>;
+  onClose: () => void;
+}
+
+type Format = 'md' | 'docx' | 'pdf';
+
+const SELECT_CLASS = 'px-2.5 py-1.5 rounded-lg text-xs ios-input text-foreground';
+
+function ReportExportDialog({
+  title, metadata, meetingDate, transcriptVersions, activeTranscriptVersion, modules, moduleVersionsMap, activeModuleVersion, onClose,
+}: ReportExportDialogProps) {
+  // 0 leaves the transcript or module out of the report
+  const [transcriptChoice, setTranscriptChoice] = useState(activeTranscriptVersion);
+  const [moduleChoices, setModuleChoices] = useState<Record<string, number>>(() => Object.fromEntries(
+    modules.filter(m => moduleVersionsMap[m.id]?.length).map(m => [m.id, activeModuleVersion[m.id] || moduleVersionsMap[m.id].length]),
+  ));
+  const [exporting, setExporting] = useState<Format | null>(null);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const buildReport = (): MeetingReport => {
+    const sections = [];
+    const transcript = transcriptVersions.find(v => v.versionNumber === transcriptChoice);
+    if (transcript) sections.push(transcriptSection(transcript));
+    for (const m of modules) {
+      const version = moduleVersionsMap[m.id]?.find(v => v.versionNumber === moduleChoices[m.id]);
+      if (version) sections.push(moduleSection(m, version));
+    }
+    return { title, metadata, meetingDate, generatedAt: Date.now(), sections };
+  };
+
+  const exportAs = async (format: Format) => {
+    setExporting(format);
+    setErrorMsg(null);
+    try {
+      const report = buildReport();
+      if (format === 'md') reportService.downloadMarkdown(report);
+      else if (format === 'docx') await reportService.downloadDocx(report);
+      else reportService.printPdf(report);
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : String(err));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const modulesWithResults = modules.filter(m => moduleVersionsMap[m.id]?.length);
+  const hasContent = transcriptChoice > 0 || Object.values(moduleChoices).some(v => v > 0);
+
+  const formatButton = (format: Format, label: string, icon: React.ReactNode) => (
+    <button key={format} onClick={() => exportAs(format)} disabled={!!exporting || !hasContent}
+      className="flex-1 flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl text-sm font-semibold transition-all active:scale-95 disabled:opacity-30 ios-btn-secondary text-foreground">
+      {exporting === format ? <Loader2 size={14} className="animate-spin" /> : icon}{label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/30 backdrop-blur-sm" onClick={onClose}>
+      <div className="w-full max-w-lg rounded-3xl bg-card border border-border shadow-ios-md overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="px-5 py-4 flex items-center justify-between border-b border-border">
+          <h3 className="text-base font-semibold text-foreground">匯出會議報告</h3>
+          <button onClick={onClose} className="p-1 rounded-lg text-muted-foreground hover:text-foreground transition-colors"><X size={16} /></button>
+        </div>
+
+        <div className="p-5 space-y-4 max-h-[60vh] overflow-y-auto">
+          <p className="text-xs text-muted-foreground">報告包含以會議資訊製作的封面與目錄，請選擇要收錄的版本。</p>
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-sm font-medium text-foreground">校正逐字稿</span>
+            <select value={transcriptChoice} onChange={e => setTranscriptChoice(Number(e.target.value))} className={SELECT_CLASS}>
+              <option value={0}>不收錄</option>
+              {transcriptVersions.map(v => (
+                <option key={v.versionNumber} value={v.versionNumber}>版本 {v.versionNumber}{v.source === 'manual' ? '（人工編輯）' : ''}</option>
+              ))}
+            </select>
+          </div>
+          {modulesWithResults.map(m => (
+            <div key={m.id} className="flex items-center justify-between gap-3">
+              <span className="text-sm font-medium text-foreground truncate">{m.name}</span>
+              <select value={moduleChoices[m.id] ?? 0} onChange={e => setModuleChoices(prev => ({ ...prev, [m.id]: Number(e.target.value) }))}
+                className={SELECT_CLASS}>
+                <option value={0}>不收錄</option>
+                {moduleVersionsMap[m.id].map(v => <option key={v.versionNumber} value={v.versionNumber}>版本 {v.versionNumber}</option>)}
+              </select>
+            </div>
+          ))}
+          {modulesWithResults.length === 0 && <p className="text-xs text-muted-foreground">尚無模組分析結果。</p>}
+          {errorMsg && <p className="text-xs text-destructive">{errorMsg}</p>}
+        </div>
+
+        <div className="px-5 py-4 flex gap-2 border-t border-border bg-muted/20">
+          {formatButton('md', 'Markdown', <FileText size={14} />)}
+          {formatButton('docx', 'Word', <FileDown size={14} />)}
+          {formatButton('pdf', 'PDF', <Printer size={14} />)}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ReportExportDialog;
@@ -0,0 +1,196 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Check, Copy, Eye, Link2, Loader2, Share2, X } from 'lucide-react';
+import { AnalysisModuleDefinition } from '../types';
+import { shareService, ShareLink } from '../services/shareService';
+import { SHARE_EXPIRY_OPTIONS, shareExpiry, shareLinkStatus, shareLinkUrl } from '@/lib/shareLinks';
+
+interface ShareVersion {
+  id: string;
+  versionNumber: number;
+}
+
+interface ShareLinkDialogProps {
+  recordId: string;
+  userId: string;
+  /** Viewers can see existing links but not create or revoke them. */
+  canEdit: boolean;
+  transcriptVersions: (ShareVersion & { source: 'ai' | 'manual' })[];
+  activeTranscriptVersion: number;
+  modules: AnalysisModuleDefinition[];
+  moduleVersionsMap: Record<string, ShareVersion[]>;
+  activeModuleVersion: Record<string, number>;
+  onClose: () => void;
+}
+
+const SELECT_CLASS = 'px-2.5 py-1.5 rounded-lg text-xs ios-input text-foreground';
+const STATUS_LABELS = { active: '有效', expired: '已過期', revoked: '已撤銷' };
+
+function ShareLinkDialog({
+  recordId, userId, canEdit, transcriptVersions, activeTranscriptVersion, modules, moduleVersionsMap, activeModuleVersion, onClose,
+}: ShareLinkDialogProps) {
+  // 0 leaves the transcript or module off the shared page
+  const [transcriptChoice, setTranscriptChoice] = useState(activeTranscriptVersion);
+  const [moduleChoices, setModuleChoices] = useState<Record<string, number>>(() => Object.fromEntries(
+    modules.filter(m => moduleVersionsMap[m.id]?.length).map(m => [m.id, activeModuleVersion[m.id] || moduleVersionsMap[m.id].length]),
+  ));
+  const [expiryDays, setExpiryDays] = useState(7);
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setLinks(await shareService.listForRecord(recordId));
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [recordId]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const modulesWithResults = modules.filter(m => moduleVersionsMap[m.id]?.length);
+  const selectedTranscript = transcriptVersions.find(v => v.versionNumber === transcriptChoice) || null;
+  const selectedModuleVersions = modulesWithResults
+    .map(m => moduleVersionsMap[m.id].find(v => v.versionNumber === moduleChoices[m.id]))
+    .filter((v): v is ShareVersion => !!v);
+  const hasContent = !!selectedTranscript || selectedModuleVersions.length > 0;
+
+  const copyLink = (link: ShareLink) => {
+    navigator.clipboard.writeText(shareLinkUrl(link.token, window.location.origin)).then(() => {
+      setCopiedId(link.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    });
+  };
+
+  const create = async () => {
+    setIsCreating(true);
+    setErrorMsg(null);
+    try {
+      const link = await shareService.create(recordId, userId, {
+        transcriptVersionId: selectedTranscript?.id ?? null,
+        moduleVersionIds: selectedModuleVersions.map(v => v.id),
+        expiresAt: shareExpiry(expiryDays),
+      });
+      setLinks(prev => [link, ...prev]);
+      copyLink(link);
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const revoke = async (link: ShareLink) => {
+    if (!confirm('撤銷後此連結將立即失效，確定嗎？')) return;
+    setErrorMsg(null);
+    try {
+      await shareService.revoke(link.id);
+      setLinks(prev => prev.map(l => l.id === link.id ? { ...l, revokedAt: Date.now() } : l));
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const describeContent = (link: ShareLink) => {
+    const transcript = transcriptVersions.find(v => v.id === link.transcriptVersionId);
+    const moduleNames = modules
+      .filter(m => moduleVersionsMap[m.id]?.some(v => link.moduleVersionIds.includes(v.id)))
+      .map(m => m.name);
+    return [transcript && `逐字稿 v${transcript.versionNumber}`, ...moduleNames].filter(Boolean).join('、') || '（內容已刪除）';
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/30 backdrop-blur-sm" onClick={onClose}>
+      <div className="w-full max-w-lg rounded-3xl bg-card border border-border shadow-ios-md overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="px-5 py-4 flex items-center justify-between border-b border-border">
+          <h3 className="text-base font-semibold text-foreground">分享唯讀報告</h3>
+          <button onClick={onClose} className="p-1 rounded-lg text-muted-foreground hover:text-foreground transition-colors"><X size={16} /></button>
+        </div>
+
+        <div className="p-5 space-y-5 max-h-[65vh] overflow-y-auto">
+          {canEdit && (
+            <div className="space-y-3">
+              <p className="text-xs text-muted-foreground">取得連結的任何人都能檢視所選內容，無須登入。連結可隨時撤銷，每次檢視都會留下紀錄。</p>
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-sm font-medium text-foreground">校正逐字稿</span>
+                <select value={transcriptChoice} onChange={e => setTranscriptChoice(Number(e.target.value))} className={SELECT_CLASS}>
+                  <option value={0}>不分享</option>
+                  {transcriptVersions.map(v => (
+                    <option key={v.versionNumber} value={v.versionNumber}>版本 {v.versionNumber}{v.source === 'manual' ? '（人工編輯）' : ''}</option>
+                  ))}
+                </select>
+              </div>
+              {modulesWithResults.map(m => (
+                <div key={m.id} className="flex items-center justify-between gap-3">
+                  <span className="text-sm font-medium text-foreground truncate">{m.name}</span>
+                  <select value={moduleChoices[m.id] ?? 0} onChange={e => setModuleChoices(prev => ({ ...prev, [m.id]: Number(e.target.value) }))}
+                    className={SELECT_CLASS}>
+                    <option value={0}>不分享</option>
+                    {moduleVersionsMap[m.id].map(v => <option key={v.versionNumber} value={v.versionNumber}>版本 {v.versionNumber}</option>)}
+                  </select>
+                </div>
+              ))}
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-sm font-medium text-foreground">有效期限</span>
+                <select value={expiryDays} onChange={e => setExpiryDays(Number(e.target.value))} className={SELECT_CLASS}>
+                  {SHARE_EXPIRY_OPTIONS.map(option => <option key={option.days} value={option.days}>{option.label}</option>)}
+                </select>
+              </div>
+              <button onClick={create} disabled={isCreating || !hasContent}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl text-sm font-semibold transition-all active:scale-95 disabled:opacity-30 ios-btn-primary text-primary-foreground">
+                {isCreating ? <Loader2 size={14} className="animate-spin" /> : <Share2 size={14} />}建立並複製連結
+              </button>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <p className="text-[11px] font-semibold uppercase tracking-widest text-muted-foreground">已建立的連結</p>
+            {isLoading && <Loader2 size={14} className="animate-spin text-muted-foreground" />}
+            {!isLoading && links.length === 0 && <p className="text-xs text-muted-foreground">尚未分享此會議。</p>}
+            {links.map(link => {
+              const status = shareLinkStatus(link);
+              return (
+                <div key={link.id} className={`p-3 rounded-xl border border-border space-y-1 ${status === 'active' ? '' : 'opacity-60'}`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="flex items-center gap-1.5 text-xs font-medium text-foreground min-w-0">
+                      <Link2 size={12} className="text-muted-foreground shrink-0" />
+                      <span className="truncate">{describeContent(link)}</span>
+                    </span>
+                    <div className="flex items-center gap-0.5 shrink-0">
+                      <span className="text-[11px] text-muted-foreground mr-1">{STATUS_LABELS[status]}</span>
+                      {status === 'active' && (
+                        <button onClick={() => copyLink(link)} title="複製連結" className="p-1.5 rounded-lg text-muted-foreground hover:text-foreground transition-colors">
+                          {copiedId === link.id ? <Check size={13} className="text-green-600" /> : <Copy size={13} />}
+                        </button>
+                      )}
+                      {status === 'active' && canEdit && (
+                        <button onClick={() => revoke(link)} className="px-2 py-1 rounded-lg text-[11px] font-semibold text-muted-foreground hover:text-destructive transition-colors">
+                          撤銷
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <p className="flex items-center gap-1 text-[11px] text-muted-foreground">
+                    建立於 {new Date(link.createdAt).toLocaleDateString()}
+                    {link.expiresAt !== null && ` · 到期 ${new Date(link.expiresAt).toLocaleString()}`}
+                    {' · '}<Eye size={10} /> {link.viewCount} 次檢視
+                    {link.lastViewedAt !== null && `（最近 ${new Date(link.lastViewedAt).toLocaleString()}）`}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+
+          {errorMsg && <p className="text-xs text-destructive">{errorMsg}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ShareLinkDialog;
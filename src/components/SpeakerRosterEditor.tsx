@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Users } from 'lucide-react';
+import { SpeakerProfile } from '../types';
+import { createSpeakerProfile, parseAliases } from '@/lib/roster';
+
+interface SpeakerRosterEditorProps {
+  roster: SpeakerProfile[];
+  onChange: (roster: SpeakerProfile[]) => void;
+}
+
+const FIELD_CLASS = 'w-full p-2.5 rounded-xl text-sm placeholder:text-muted-foreground/40 transition-all ios-input text-foreground';
+
+function SpeakerRosterEditor({ roster, onChange }: SpeakerRosterEditorProps) {
+  // Raw alias text per row while typing, so separators are not swallowed
+  const [aliasDrafts, setAliasDrafts] = useState<Record<number, string>>({});
+
+  const update = (index: number, patch: Partial<SpeakerProfile>) =>
+    onChange(roster.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+
+  const remove = (index: number) => {
+    setAliasDrafts({});
+    onChange(roster.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 px-0.5">
+        <Users size={12} className="text-muted-foreground" />
+        <label className="text-[11px] font-semibold uppercase tracking-widest text-muted-foreground">出席名單</label>
+        <button onClick={() => onChange([...roster, createSpeakerProfile()])}
+          className="ml-auto flex items-center gap-1 text-[11px] font-semibold px-2.5 py-1 rounded-lg transition-all active:scale-95 ios-btn-secondary text-muted-foreground">
+          <Plus size={11} />新增說話者
+        </button>
+      </div>
+      {roster.length === 0 ? (
+        <p className="text-xs text-muted-foreground px-0.5">尚未建立名單。校正時會依名單統一說話者名稱與別名。</p>
+      ) : (
+        <>
+          <div className="hidden md:grid grid-cols-[1fr_1.4fr_1fr_1fr_auto] gap-2 px-0.5 text-[10px] font-semibold uppercase tracking-widest text-muted-foreground/70">
+            <span>標準名稱</span><span>別名／辨識錯誤（以逗號分隔）</span><span>職稱／角色</span><span>單位</span><span className="w-8" />
+          </div>
+          {roster.map((person, index) => (
+            <div key={index} className="grid grid-cols-2 md:grid-cols-[1fr_1.4fr_1fr_1fr_auto] gap-2 items-center">
+              <input type="text" value={person.name} onChange={e => update(index, { name: e.target.value })}
+                placeholder="王大明" className={FIELD_CLASS} />
+              <input type="text" value={aliasDrafts[index] ?? person.aliases.join('、')}
+                onChange={e => {
+                  const text = e.target.value;
+                  setAliasDrafts(prev => ({ ...prev, [index]: text }));
+                  update(index, { aliases: parseAliases(text) });
+                }}
+                onBlur={() => setAliasDrafts(prev => { const next = { ...prev }; delete next[index]; return next; })}
+                placeholder="王大名、Wang" className={FIELD_CLASS} />
+              <input type="text" value={person.role || ''} onChange={e => update(index, { role: e.target.value })}
+                placeholder="經理" className={FIELD_CLASS} />
+              <input type="text" value={person.organization || ''} onChange={e => update(index, { organization: e.target.value })}
+                placeholder="ABC 公司" className={FIELD_CLASS} />
+              <button onClick={() => remove(index)} title="移除"
+                className="justify-self-end p-2 rounded-lg text-muted-foreground hover:text-destructive transition-colors">
+                <Trash2 size={13} />
+              </button>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default SpeakerRosterEditor;
@@ -0,0 +1,126 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronUp, ChevronDown, GitCompare } from 'lucide-react';
+import { diffTexts, DiffResult } from '@/lib/diff';
+import VersionPaginator from './VersionPaginator';
+
+interface DiffSource {
+  versionNumber: number;
+  correctedTranscript: string;
+  source?: 'ai' | 'manual';
+  promptVersion?: string;
+}
+
+interface TranscriptDiffViewProps {
+  rawTranscript: string;
+  versions: DiffSource[];
+  initialVersion: number;
+}
+
+// Version 0 stands for the raw transcript
+const RAW = 0;
+
+function DiffPane({ diff, side, current, paneRef }: {
+  diff: DiffResult;
+  side: 'before' | 'after';
+  current: number;
+  paneRef: React.RefObject<HTMLDivElement>;
+}) {
+  const shown = side === 'before' ? 'delete' : 'insert';
+  const shownText = (change: number) => (side === 'before' ? diff.changes[change].deleted : diff.changes[change].inserted);
+
+  return (
+    <div ref={paneRef} className="p-4 rounded-xl whitespace-pre-wrap text-sm leading-relaxed h-[460px] overflow-auto bg-muted/50 border border-border text-foreground">
+      {diff.segments.map((seg, idx) => {
+        if (seg.op === 'equal') return <span key={idx}>{seg.text}</span>;
+        const change = seg.change!;
+        const isCurrent = change === current;
+        if (seg.op !== shown) {
+          // Pure insertions/deletions leave a caret here so both panes can scroll to the change
+          return shownText(change)
+            ? null
+            : <span key={idx} data-change={change} className={`inline-block w-1 h-4 align-middle rounded-sm ${isCurrent ? 'bg-primary' : 'bg-muted-foreground/30'}`} />;
+        }
+        return (
+          <span key={idx} data-change={change}
+            className={`rounded px-0.5 ${shown === 'delete' ? 'bg-destructive/15 text-destructive line-through' : 'bg-emerald-500/15 text-emerald-700'} ${isCurrent ? 'ring-2 ring-primary' : ''}`}>
+            {seg.text}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
+const TranscriptDiffView: React.FC<TranscriptDiffViewProps> = ({ rawTranscript, versions, initialVersion }) => {
+  const [before, setBefore] = useState(RAW);
+  const [after, setAfter] = useState(initialVersion);
+  const [current, setCurrent] = useState(0);
+  const beforeRef = useRef<HTMLDivElement>(null);
+  const afterRef = useRef<HTMLDivElement>(null);
+
+  const textOf = (v: number) => (v === RAW ? rawTranscript : versions.find(tv => tv.versionNumber === v)?.correctedTranscript || '');
+  const beforeText = textOf(before);
+  const afterText = textOf(after);
+  const diff = useMemo(() => diffTexts(beforeText, afterText), [beforeText, afterText]);
+
+  useEffect(() => { setCurrent(0); }, [diff]);
+  useEffect(() => {
+    for (const pane of [beforeRef.current, afterRef.current]) {
+      pane?.querySelector(`[data-change="${current}"]`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+  }, [current, diff]);
+
+  const total = diff.changes.length;
+  const label = (v: number) => (v === RAW ? '原始逐字稿' : `校正版本 ${v}`);
+  const sourceOf = (v: number) => versions.find(tv => tv.versionNumber === v);
+  const promptOf = (v: number) => sourceOf(v)?.promptVersion;
+  // Differences between two AI versions may come from a prompt change rather than the model
+  const promptChanged = before !== RAW && sourceOf(before)?.source !== 'manual' && sourceOf(after)?.source !== 'manual'
+    && promptOf(before) !== promptOf(after);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col md:flex-row md:items-center gap-3 justify-between">
+        <div className="flex items-center gap-2 flex-wrap">
+          <button onClick={() => setBefore(RAW)}
+            className={`px-3 py-1.5 rounded-xl text-[11px] font-semibold transition-all ${before === RAW ? 'bg-primary text-primary-foreground shadow-ios-sm' : 'ios-btn-secondary text-muted-foreground'}`}>
+            原始
+          </button>
+          <VersionPaginator total={versions.length} current={before} onChange={setBefore} />
+          <GitCompare size={14} className="text-muted-foreground" />
+          <VersionPaginator total={versions.length} current={after} onChange={setAfter} />
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-[11px] text-muted-foreground">
+            {total === 0 ? '無差異' : `第 ${current + 1} / ${total} 處修改`}
+          </span>
+          <button onClick={() => setCurrent(c => (c - 1 + total) % total)} disabled={total === 0}
+            className="p-1.5 rounded-lg ios-btn-secondary text-muted-foreground disabled:opacity-30 transition-colors">
+            <ChevronUp size={13} />
+          </button>
+          <button onClick={() => setCurrent(c => (c + 1) % total)} disabled={total === 0}
+            className="p-1.5 rounded-lg ios-btn-secondary text-muted-foreground disabled:opacity-30 transition-colors">
+            <ChevronDown size={13} />
+          </button>
+        </div>
+      </div>
+      {promptChanged && (
+        <p className="text-[11px] px-3 py-2 rounded-xl bg-amber-500/10 text-amber-700">
+          兩個版本使用不同的提示詞：{promptOf(before) || '未記錄'} → {promptOf(after) || '未記錄'}
+        </p>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <p className="text-[11px] font-semibold uppercase tracking-widest text-muted-foreground px-0.5">{label(before)}</p>
+          <DiffPane diff={diff} side="before" current={current} paneRef={beforeRef} />
+        </div>
+        <div className="space-y-1.5">
+          <p className="text-[11px] font-semibold uppercase tracking-widest text-muted-foreground px-0.5">{label(after)}</p>
+          <DiffPane diff={diff} side="after" current={current} paneRef={afterRef} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptDiffView;
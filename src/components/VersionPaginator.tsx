@@ -0,0 +1,27 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+function VersionPaginator({ total, current, onChange }: { total: number; current: number; onChange: (v: number) => void }) {
+  if (total <= 1) return null;
+  return (
+    <div className="flex items-center gap-1 ios-surface rounded-xl px-2 py-1">
+      <button onClick={() => onChange(current - 1)} disabled={current <= 1}
+        className="p-1.5 rounded-lg text-muted-foreground hover:text-primary disabled:opacity-30 transition-colors">
+        <ChevronLeft size={13} />
+      </button>
+      <div className="flex items-center gap-1">
+        {Array.from({ length: total }, (_, i) => i + 1).map(v => (
+          <button key={v} onClick={() => onChange(v)}
+            className={`w-6 h-6 rounded-lg text-[10px] font-semibold transition-all ${v === current ? 'bg-primary text-primary-foreground shadow-ios-sm' : 'text-muted-foreground hover:text-primary'}`}>
+            {v}
+          </button>
+        ))}
+      </div>
+      <button onClick={() => onChange(current + 1)} disabled={current >= total}
+        className="p-1.5 rounded-lg text-muted-foreground hover:text-primary disabled:opacity-30 transition-colors">
+        <ChevronRight size={13} />
+      </button>
+    </div>
+  );
+}
+
+export default VersionPaginator;
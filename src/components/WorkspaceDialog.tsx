@@ -0,0 +1,228 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Check, Copy, Edit3, Link2, Loader2, LogOut, Trash2, UserPlus, X } from 'lucide-react';
+import { Workspace, WorkspaceInvitation, WorkspaceMember, WorkspaceRole } from '../types';
+import { workspaceService } from '../services/workspaceService';
+import { ROLE_DESCRIPTIONS, ROLE_LABELS, canManageMembers, invitationStatus, inviteLink } from '@/lib/workspaces';
+import { ModelChoice, ProviderInfo } from '@/lib/aiProviders';
+import ModelSelect from './ModelSelect';
+
+interface WorkspaceDialogProps {
+  workspace: Workspace;
+  currentUserId: string;
+  onClose: () => void;
+  /** Providers the AI function offers, for the workspace's default model. */
+  providers: ProviderInfo[];
+  onRenamed: (name: string) => void;
+  onModelChanged: (choice: ModelChoice) => void;
+  /** Called after the user left or deleted the workspace. */
+  onRemoved: () => void;
+}
+
+const SELECT_CLASS = 'px-2.5 py-1.5 rounded-lg text-xs ios-input text-foreground';
+const INVITATION_STATUS_LABELS = { pending: '等待加入', accepted: '已加入', expired: '已過期' };
+
+function WorkspaceDialog({ workspace, currentUserId, providers, onClose, onRenamed, onModelChanged, onRemoved }: WorkspaceDialogProps) {
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<WorkspaceInvitation['role']>('editor');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const isOwner = canManageMembers(workspace.role);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [memberList, invitationList] = await Promise.all([
+        workspaceService.listMembers(workspace.id),
+        isOwner ? workspaceService.listInvitations(workspace.id) : Promise.resolve([]),
+      ]);
+      setMembers(memberList);
+      setInvitations(invitationList);
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workspace.id, isOwner]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const run = async (action: () => Promise<void>) => {
+    setErrorMsg(null);
+    try {
+      await action();
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const rename = () => run(async () => {
+    const name = window.prompt('請輸入工作區名稱', workspace.name)?.trim();
+    if (!name || name === workspace.name) return;
+    await workspaceService.renameWorkspace(workspace.id, name);
+    onRenamed(name);
+  });
+
+  const changeModel = (choice: ModelChoice) => run(async () => {
+    await workspaceService.updateModel(workspace.id, choice);
+    onModelChanged(choice);
+  });
+
+  const changeRole = (member: WorkspaceMember, role: WorkspaceRole) => run(async () => {
+    await workspaceService.updateMemberRole(workspace.id, member.userId, role);
+    setMembers(prev => prev.map(m => m.userId === member.userId ? { ...m, role } : m));
+  });
+
+  const removeMember = (member: WorkspaceMember) => run(async () => {
+    if (!confirm(`確定要將「${member.displayName || '此成員'}」移出工作區嗎？`)) return;
+    await workspaceService.removeMember(workspace.id, member.userId);
+    setMembers(prev => prev.filter(m => m.userId !== member.userId));
+  });
+
+  const leave = () => run(async () => {
+    if (!confirm(`確定要離開「${workspace.name}」嗎？離開後將無法再存取其中的會議。`)) return;
+    await workspaceService.removeMember(workspace.id, currentUserId);
+    onRemoved();
+  });
+
+  const deleteWorkspace = () => run(async () => {
+    if (!confirm(`確定要刪除「${workspace.name}」嗎？其中所有會議與分析都會一併刪除，且無法復原。`)) return;
+    await workspaceService.deleteWorkspace(workspace.id);
+    onRemoved();
+  });
+
+  const invite = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const invitation = await workspaceService.createInvitation(workspace.id, currentUserId, inviteRole, inviteEmail.trim() || null);
+      setInvitations(prev => [invitation, ...prev]);
+      setInviteEmail('');
+      copyLink(invitation);
+    });
+  };
+
+  const revoke = (invitation: WorkspaceInvitation) => run(async () => {
+    await workspaceService.revokeInvitation(invitation.id);
+    setInvitations(prev => prev.filter(i => i.id !== invitation.id));
+  });
+
+  const copyLink = (invitation: WorkspaceInvitation) => {
+    navigator.clipboard.writeText(inviteLink(invitation.token, window.location.origin)).then(() => {
+      setCopiedId(invitation.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/30 backdrop-blur-sm" onClick={onClose}>
+      <div className="w-full max-w-lg rounded-3xl bg-card border border-border shadow-ios-md overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="px-5 py-4 flex items-center justify-between border-b border-border">
+          <div className="flex items-center gap-2 min-w-0">
+            <h3 className="text-base font-semibold text-foreground truncate">{workspace.name}</h3>
+            <span className="text-[11px] px-2 py-0.5 rounded-full bg-muted text-muted-foreground shrink-0">{ROLE_LABELS[workspace.role]}</span>
+            {isOwner && (
+              <button onClick={rename} title="重新命名" className="p-1 rounded-lg text-muted-foreground hover:text-foreground transition-colors">
+                <Edit3 size={13} />
+              </button>
+            )}
+          </div>
+          <button onClick={onClose} className="p-1 rounded-lg text-muted-foreground hover:text-foreground transition-colors"><X size={16} /></button>
+        </div>
+
+        <div className="p-5 space-y-5 max-h-[65vh] overflow-y-auto">
+          <div className="space-y-2">
+            <p className="text-[11px] font-semibold uppercase tracking-widest text-muted-foreground">成員</p>
+            {isLoading && <Loader2 size={14} className="animate-spin text-muted-foreground" />}
+            {members.map(member => (
+              <div key={member.userId} className="flex items-center justify-between gap-3">
+                <span className="text-sm text-foreground truncate">
+                  {member.displayName || '未命名成員'}
+                  {member.userId === currentUserId && <span className="text-muted-foreground">（你）</span>}
+                </span>
+                <div className="flex items-center gap-1 shrink-0">
+                  {isOwner && member.userId !== currentUserId ? (
+                    <>
+                      <select value={member.role} onChange={e => changeRole(member, e.target.value as WorkspaceRole)} className={SELECT_CLASS}>
+                        {(Object.keys(ROLE_LABELS) as WorkspaceRole[]).map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                      </select>
+                      <button onClick={() => removeMember(member)} title="移出工作區" className="p-1.5 rounded-lg text-muted-foreground hover:text-destructive transition-colors">
+                        <Trash2 size={13} />
+                      </button>
+                    </>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">{ROLE_LABELS[member.role]}</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-[11px] font-semibold uppercase tracking-widest text-muted-foreground">AI 模型</p>
+            <ModelSelect providers={providers} value={{ provider: workspace.aiProvider ?? null, model: workspace.aiModel ?? null }}
+              inheritLabel={providers[0] ? `系統預設（${providers[0].label}）` : '系統預設'} onChange={changeModel} disabled={!isOwner}
+              className={`w-full ${SELECT_CLASS}`} />
+            <p className="text-[11px] text-muted-foreground">工作區內的會議預設使用此模型，個別會議可另行指定。選擇內部部署的模型可讓會議內容不離開公司網路。</p>
+          </div>
+
+          {isOwner && (
+            <div className="space-y-2">
+              <p className="text-[11px] font-semibold uppercase tracking-widest text-muted-foreground">邀請成員</p>
+              <form onSubmit={invite} className="flex items-center gap-1.5">
+                <input type="email" value={inviteEmail} onChange={e => setInviteEmail(e.target.value)} placeholder="對象 E-Mail（選填）"
+                  className="flex-1 min-w-0 px-2.5 py-1.5 rounded-lg text-xs ios-input text-foreground" />
+                <select value={inviteRole} onChange={e => setInviteRole(e.target.value as WorkspaceInvitation['role'])} className={SELECT_CLASS}>
+                  <option value="editor">{ROLE_LABELS.editor}</option>
+                  <option value="viewer">{ROLE_LABELS.viewer}</option>
+                </select>
+                <button type="submit" className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-semibold ios-btn-primary text-primary-foreground">
+                  <UserPlus size={12} />建立連結
+                </button>
+              </form>
+              <p className="text-[11px] text-muted-foreground">{ROLE_DESCRIPTIONS[inviteRole]}。邀請連結僅能使用一次，7 天後失效。</p>
+              {invitations.map(invitation => {
+                const status = invitationStatus(invitation);
+                return (
+                  <div key={invitation.id} className="flex items-center justify-between gap-3 py-1">
+                    <span className="flex items-center gap-1.5 text-xs text-foreground min-w-0">
+                      <Link2 size={12} className="text-muted-foreground shrink-0" />
+                      <span className="truncate">{invitation.email || '邀請連結'}</span>
+                      <span className="text-muted-foreground shrink-0">· {ROLE_LABELS[invitation.role]} · {INVITATION_STATUS_LABELS[status]}</span>
+                    </span>
+                    <div className="flex items-center gap-0.5 shrink-0">
+                      {status === 'pending' && (
+                        <button onClick={() => copyLink(invitation)} title="複製連結" className="p-1.5 rounded-lg text-muted-foreground hover:text-foreground transition-colors">
+                          {copiedId === invitation.id ? <Check size={13} className="text-green-600" /> : <Copy size={13} />}
+                        </button>
+                      )}
+                      <button onClick={() => revoke(invitation)} title={status === 'pending' ? '撤銷邀請' : '移除'} className="p-1.5 rounded-lg text-muted-foreground hover:text-destructive transition-colors">
+                        <Trash2 size={13} />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {errorMsg && <p className="text-xs text-destructive">{errorMsg}</p>}
+        </div>
+
+        <div className="px-5 py-4 flex justify-between gap-2 border-t border-border bg-muted/20">
+          <button onClick={leave} className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-semibold transition-all active:scale-95 ios-btn-secondary text-muted-foreground hover:text-destructive">
+            <LogOut size={13} />離開工作區
+          </button>
+          {isOwner && (
+            <button onClick={deleteWorkspace} className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-semibold transition-all active:scale-95 ios-btn-secondary text-destructive">
+              <Trash2 size={13} />刪除工作區
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default WorkspaceDialog;
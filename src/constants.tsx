@@ -1,96 +1,30 @@
 import React from 'react';
-import { LayoutDashboard, Users, MessageSquare, ShieldAlert, FileText } from 'lucide-react';
+import {
+  LayoutDashboard, Users, MessageSquare, ShieldAlert, FileText,
+  Sparkles, Target, Scale, TrendingUp, Lightbulb, ListChecks, AlertTriangle, Handshake, Search,
+  type LucideIcon,
+} from 'lucide-react';
 
-export const CORRECTION_RULES = `
-你是一位專業的「錄音逐字稿校正員」。你的任務是將原始、碎片化且充滿錯誤的逐字稿轉化為清晰、準確、可讀的完整記錄。
-
-【核心原則】
-1. 完整性優先：不刪除任何有意義的內容。
-2. 準確性為王：修正文字辨識錯誤（如同音異字、錯別字）。
-3. 可讀性至上：優化斷句和結構，移除口吃。
-4. 保留口語感：不過度書面化，保留自然節奏。
-5. 透明化標註：若不確定，請保留原文並標註 [文字存疑/語意存疑]。
-
-【五大優先級引擎】
-- 優先級 1：文字辨識錯誤修正。參考領域特定詞彙（法律/商務/技術等）。
-- 優先級 2：說話者整合與辨識。合併連續發話，確保歸屬正確。
-- 優先級 3：斷句優化。根據語意邏輯重新斷句。
-- 優先級 4：口語贅字處理。移除無意義重複、口吃，但保留關鍵語氣詞。
-- 優先級 5：時間戳記精簡。以「說話輪次」為單位標記起始時間。
+// Icons offered for analysis modules, keyed by the name stored in the definition
+export const MODULE_ICONS: Record<string, LucideIcon> = {
+  LayoutDashboard, Users, MessageSquare, ShieldAlert, FileText,
+  Sparkles, Target, Scale, TrendingUp, Lightbulb, ListChecks, AlertTriangle, Handshake, Search,
+};
 
-【輸出格式】
-1. 主輸出：校正後的 Markdown 逐字稿。
-   格式：**說話者 HH:MM:SS** (空行) 內容...
-2. 附加輸出：### 📝 重大修改記錄。
-   包含：文字辨識修正統計、專有名詞統一、說話者更正、斷句優化說明、不確定項。
-`;
+export const renderModuleIcon = (name: string, className = 'w-5 h-5') => {
+  const Icon = MODULE_ICONS[name] || Sparkles;
+  return <Icon className={className} />;
+};
 
-export const INSIGHT_MODULE_CONFIGS = {
-  A: {
-    id: 'A',
-    name: '氛圍與張力走勢分析',
-    icon: <LayoutDashboard className="w-5 h-5" />,
-    prompt: `
-      執行「模組 A：氛圍與張力走勢分析」。
-      請描述整場會議的情緒波動與張力變化（例：冷場、衝突、轉折點）。
-      輸出要求：
-      1. 張力起伏簡圖（用文字或簡單 ASCII 符號表示時間軸）。
-      2. 識別會議能量消長與主導氣場轉移。
-      3. 參考知識庫 KB-01：會議情緒與張力觀察指標表。
-    `
-  },
-  B: {
-    id: 'B',
-    name: '指定人物建模',
-    icon: <Users className="w-5 h-5" />,
-    prompt: `
-      執行「模組 B：指定人物建模（行為/決策/語用風格）」。
-      套用九大觀察維度（性格傾向/決策風格/對話慣性等）。
-      輸出要求：
-      1. 每項須明示：顯性觀察（逐字稿依據）與潛在假設（有無信度佐證）。
-      2. 使用標籤：關係取向、操控傾向、語言斷裂等。
-      3. 如資料不足，須明確提示：「此面向資料不足，建議補充觀察」。
-      4. 產出「角色設定背景資料 (Profile)」。
-      5. 參考知識庫 KB-02 決策風格建模範式 與 KB-07 人格模組庫。
-    `
-  },
-  C: {
-    id: 'C',
-    name: '潛台詞與結論解析',
-    icon: <MessageSquare className="w-5 h-5" />,
-    prompt: `
-      執行「模組 C：潛台詞 / QBQ / 結論與行動點解析」。
-      輸出要求：
-      1. 抽取未明說的策略、問題背後的問題 (QBQ) 與態度暗示。
-      2. 分析結論是否明確、具體交辦、是否有模糊責任。
-      3. 提供結論歸納、交辦項目分層整理。
-      4. 參考知識庫 KB-03 潛台詞與 QBQ 解構框架。
-    `
-  },
-  D: {
-    id: 'D',
-    name: '權力結構流轉觀察',
-    icon: <ShieldAlert className="w-5 h-5" />,
-    prompt: `
-      執行「模組 D：權力結構與角色流轉觀察」。
-      輸出要求：
-      1. 評估誰在會議中主導話語與議題轉折。
-      2. 抽取「誰與誰結盟」、「誰在帶風向」、「誰被邊緣化」。
-      3. 整理發言權轉移圖與話語攻防節點。
-      4. 參考知識庫 KB-04 權力結構觀察模板。
-    `
-  },
-  E: {
-    id: 'E',
-    name: '會議摘要與結論重構',
-    icon: <FileText className="w-5 h-5" />,
-    prompt: `
-      執行「模組 E：會議摘要與結論重構」。
-      限制：僅產出「事實整理、原句摘錄、任務交辦分層」，不得編造結論或評論。
-      輸出要求：
-      1. 每段摘要須對應來源語句，包含：【原文摘錄】、【內容歸類】、【任務分層】。
-      2. 無法判讀時標記「⚠️ 模糊訊號：需人工確認」。
-      3. 參考知識庫 KB-05 輸出格式範例集。
-    `
-  }
+/** Tag colour keys stored in `tags.color`, with their chip classes. */
+export const TAG_COLORS: Record<string, string> = {
+  slate: 'bg-slate-500/15 text-slate-700',
+  red: 'bg-red-500/15 text-red-700',
+  amber: 'bg-amber-500/15 text-amber-700',
+  green: 'bg-emerald-500/15 text-emerald-700',
+  blue: 'bg-sky-500/15 text-sky-700',
+  violet: 'bg-violet-500/15 text-violet-700',
+  pink: 'bg-pink-500/15 text-pink-700',
 };
+
+export const tagColorClass = (color: string) => TAG_COLORS[color] || TAG_COLORS.slate;
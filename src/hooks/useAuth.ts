@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { isGuestAccount } from '@/lib/accounts';
 
 export function useAuth() {
   const [user, setUser] = useState<User | null>(null);
@@ -25,5 +26,5 @@ export function useAuth() {
 
   const signOut = () => supabase.auth.signOut();
 
-  return { user, session, loading, signOut };
+  return { user, session, loading, signOut, isGuest: isGuestAccount(user) };
 }
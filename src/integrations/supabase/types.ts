@@ -14,6 +14,274 @@ export type Database = {
   }
   public: {
     Tables: {
+      action_items: {
+        Row: {
+          ambiguity_note: string | null
+          ambiguous: boolean
+          assigner: string | null
+          created_at: string
+          due_date: string | null
+          due_text: string | null
+          id: string
+          model: string | null
+          owner: string | null
+          position: number
+          prompt_version: string | null
+          record_id: string
+          source_quote: string
+          status: string
+          task: string
+          transcript_version_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          ambiguity_note?: string | null
+          ambiguous?: boolean
+          assigner?: string | null
+          created_at?: string
+          due_date?: string | null
+          due_text?: string | null
+          id?: string
+          model?: string | null
+          owner?: string | null
+          position?: number
+          prompt_version?: string | null
+          record_id: string
+          source_quote?: string
+          status?: string
+          task: string
+          transcript_version_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          ambiguity_note?: string | null
+          ambiguous?: boolean
+          assigner?: string | null
+          created_at?: string
+          due_date?: string | null
+          due_text?: string | null
+          id?: string
+          model?: string | null
+          owner?: string | null
+          position?: number
+          prompt_version?: string | null
+          record_id?: string
+          source_quote?: string
+          status?: string
+          task?: string
+          transcript_version_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "action_items_record_id_fkey"
+            columns: ["record_id"]
+            isOneToOne: false
+            referencedRelation: "meeting_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "action_items_transcript_version_id_fkey"
+            columns: ["transcript_version_id"]
+            isOneToOne: false
+            referencedRelation: "transcript_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ai_jobs: {
+        Row: {
+          action: string
+          created_at: string
+          created_by: string
+          error: string | null
+          error_kind: string | null
+          finished_at: string | null
+          focus_speaker: Json | null
+          id: string
+          model: string | null
+          module_id: string | null
+          partial_output: string | null
+          progress: Json | null
+          record_id: string
+          result_id: string | null
+          retry_attempt: number | null
+          started_at: string | null
+          status: string
+          transcript_version_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          created_by?: string
+          error?: string | null
+          error_kind?: string | null
+          finished_at?: string | null
+          focus_speaker?: Json | null
+          id?: string
+          model?: string | null
+          module_id?: string | null
+          partial_output?: string | null
+          progress?: Json | null
+          record_id: string
+          result_id?: string | null
+          retry_attempt?: number | null
+          started_at?: string | null
+          status?: string
+          transcript_version_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          created_by?: string
+          error?: string | null
+          error_kind?: string | null
+          finished_at?: string | null
+          focus_speaker?: Json | null
+          id?: string
+          model?: string | null
+          module_id?: string | null
+          partial_output?: string | null
+          progress?: Json | null
+          record_id?: string
+          result_id?: string | null
+          retry_attempt?: number | null
+          started_at?: string | null
+          status?: string
+          transcript_version_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_jobs_record_id_fkey"
+            columns: ["record_id"]
+            isOneToOne: false
+            referencedRelation: "meeting_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_jobs_transcript_version_id_fkey"
+            columns: ["transcript_version_id"]
+            isOneToOne: false
+            referencedRelation: "transcript_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ai_usage: {
+        Row: {
+          action: string
+          calls: number
+          completion_tokens: number
+          cost: number | null
+          created_at: string
+          estimated: boolean
+          id: string
+          job_id: string | null
+          model: string
+          pending: boolean
+          prompt_tokens: number
+          record_id: string | null
+          total_tokens: number
+          user_id: string
+          workspace_id: string | null
+        }
+        Insert: {
+          action: string
+          calls?: number
+          completion_tokens?: number
+          cost?: number | null
+          created_at?: string
+          estimated?: boolean
+          id?: string
+          job_id?: string | null
+          model: string
+          pending?: boolean
+          prompt_tokens?: number
+          record_id?: string | null
+          total_tokens?: number
+          user_id: string
+          workspace_id?: string | null
+        }
+        Update: {
+          action?: string
+          calls?: number
+          completion_tokens?: number
+          cost?: number | null
+          created_at?: string
+          estimated?: boolean
+          id?: string
+          job_id?: string | null
+          model?: string
+          pending?: boolean
+          prompt_tokens?: number
+          record_id?: string | null
+          total_tokens?: number
+          user_id?: string
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_usage_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "ai_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_usage_record_id_fkey"
+            columns: ["record_id"]
+            isOneToOne: false
+            referencedRelation: "meeting_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_usage_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      analysis_modules: {
+        Row: {
+          created_at: string
+          icon: string
+          id: string
+          name: string
+          output_format: string
+          prompt: string
+          revision: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          icon?: string
+          id?: string
+          name: string
+          output_format?: string
+          prompt?: string
+          revision?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          icon?: string
+          id?: string
+          name?: string
+          output_format?: string
+          prompt?: string
+          revision?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       chat_messages: {
         Row: {
           content: string
@@ -46,8 +314,165 @@ export type Database = {
           },
         ]
       }
+      folders: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      glossaries: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      glossary_terms: {
+        Row: {
+          created_at: string
+          glossary_id: string
+          id: string
+          note: string | null
+          term: string
+          variants: string[]
+        }
+        Insert: {
+          created_at?: string
+          glossary_id: string
+          id?: string
+          note?: string | null
+          term: string
+          variants?: string[]
+        }
+        Update: {
+          created_at?: string
+          glossary_id?: string
+          id?: string
+          note?: string | null
+          term?: string
+          variants?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "glossary_terms_glossary_id_fkey"
+            columns: ["glossary_id"]
+            isOneToOne: false
+            referencedRelation: "glossaries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      meeting_folders: {
+        Row: {
+          created_at: string
+          folder_id: string
+          record_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          folder_id: string
+          record_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          folder_id?: string
+          record_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meeting_folders_folder_id_fkey"
+            columns: ["folder_id"]
+            isOneToOne: false
+            referencedRelation: "folders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meeting_folders_record_id_fkey"
+            columns: ["record_id"]
+            isOneToOne: false
+            referencedRelation: "meeting_records"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      meeting_glossaries: {
+        Row: {
+          created_at: string
+          glossary_id: string
+          record_id: string
+        }
+        Insert: {
+          created_at?: string
+          glossary_id: string
+          record_id: string
+        }
+        Update: {
+          created_at?: string
+          glossary_id?: string
+          record_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meeting_glossaries_glossary_id_fkey"
+            columns: ["glossary_id"]
+            isOneToOne: false
+            referencedRelation: "glossaries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meeting_glossaries_record_id_fkey"
+            columns: ["record_id"]
+            isOneToOne: false
+            referencedRelation: "meeting_records"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       meeting_records: {
         Row: {
+          ai_model: string | null
+          ai_provider: string | null
           created_at: string
           id: string
           metadata: Json
@@ -55,8 +480,11 @@ export type Database = {
           title: string
           updated_at: string
           user_id: string
+          workspace_id: string
         }
         Insert: {
+          ai_model?: string | null
+          ai_provider?: string | null
           created_at?: string
           id?: string
           metadata?: Json
@@ -64,8 +492,11 @@ export type Database = {
           title?: string
           updated_at?: string
           user_id: string
+          workspace_id: string
         }
         Update: {
+          ai_model?: string | null
+          ai_provider?: string | null
           created_at?: string
           id?: string
           metadata?: Json
@@ -73,29 +504,83 @@ export type Database = {
           title?: string
           updated_at?: string
           user_id?: string
+          workspace_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "meeting_records_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      meeting_tags: {
+        Row: {
+          created_at: string
+          record_id: string
+          tag_id: string
+        }
+        Insert: {
+          created_at?: string
+          record_id: string
+          tag_id: string
+        }
+        Update: {
+          created_at?: string
+          record_id?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meeting_tags_record_id_fkey"
+            columns: ["record_id"]
+            isOneToOne: false
+            referencedRelation: "meeting_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meeting_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       module_versions: {
         Row: {
           created_at: string
+          focus_speaker: Json | null
           id: string
+          model: string | null
           module_id: string
+          prompt_version: string | null
           record_id: string
+          transcript_version_id: string | null
           version_number: number
         }
         Insert: {
           created_at?: string
+          focus_speaker?: Json | null
           id?: string
+          model?: string | null
           module_id: string
+          prompt_version?: string | null
           record_id: string
+          transcript_version_id?: string | null
           version_number?: number
         }
         Update: {
           created_at?: string
+          focus_speaker?: Json | null
           id?: string
+          model?: string | null
           module_id?: string
+          prompt_version?: string | null
           record_id?: string
+          transcript_version_id?: string | null
           version_number?: number
         }
         Relationships: [
@@ -106,6 +591,13 @@ export type Database = {
             referencedRelation: "meeting_records"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "module_versions_transcript_version_id_fkey"
+            columns: ["transcript_version_id"]
+            isOneToOne: false
+            referencedRelation: "transcript_versions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       profiles: {
@@ -132,32 +624,161 @@ export type Database = {
         }
         Relationships: []
       }
+      share_link_views: {
+        Row: {
+          id: string
+          ip_address: string | null
+          share_link_id: string
+          user_agent: string | null
+          viewed_at: string
+        }
+        Insert: {
+          id?: string
+          ip_address?: string | null
+          share_link_id: string
+          user_agent?: string | null
+          viewed_at?: string
+        }
+        Update: {
+          id?: string
+          ip_address?: string | null
+          share_link_id?: string
+          user_agent?: string | null
+          viewed_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "share_link_views_share_link_id_fkey"
+            columns: ["share_link_id"]
+            isOneToOne: false
+            referencedRelation: "share_links"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      share_links: {
+        Row: {
+          created_at: string
+          created_by: string
+          expires_at: string | null
+          id: string
+          module_version_ids: string[]
+          record_id: string
+          revoked_at: string | null
+          token: string
+          transcript_version_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string
+          expires_at?: string | null
+          id?: string
+          module_version_ids?: string[]
+          record_id: string
+          revoked_at?: string | null
+          token?: string
+          transcript_version_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          expires_at?: string | null
+          id?: string
+          module_version_ids?: string[]
+          record_id?: string
+          revoked_at?: string | null
+          token?: string
+          transcript_version_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "share_links_record_id_fkey"
+            columns: ["record_id"]
+            isOneToOne: false
+            referencedRelation: "meeting_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "share_links_transcript_version_id_fkey"
+            columns: ["transcript_version_id"]
+            isOneToOne: false
+            referencedRelation: "transcript_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tags: {
+        Row: {
+          color: string
+          created_at: string
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       transcript_versions: {
         Row: {
+          author_id: string | null
+          based_on_version_id: string | null
           corrected_transcript: string
           correction_log: string | null
           created_at: string
           id: string
+          model: string | null
+          prompt_version: string | null
           record_id: string
+          source: string
           version_number: number
         }
         Insert: {
+          author_id?: string | null
+          based_on_version_id?: string | null
           corrected_transcript: string
           correction_log?: string | null
           created_at?: string
           id?: string
+          model?: string | null
+          prompt_version?: string | null
           record_id: string
+          source?: string
           version_number?: number
         }
         Update: {
+          author_id?: string | null
+          based_on_version_id?: string | null
           corrected_transcript?: string
           correction_log?: string | null
           created_at?: string
           id?: string
+          model?: string | null
+          prompt_version?: string | null
           record_id?: string
+          source?: string
           version_number?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "transcript_versions_based_on_version_id_fkey"
+            columns: ["based_on_version_id"]
+            isOneToOne: false
+            referencedRelation: "transcript_versions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "transcript_versions_record_id_fkey"
             columns: ["record_id"]
@@ -167,12 +788,210 @@ export type Database = {
           },
         ]
       }
+      workspace_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          email: string | null
+          expires_at: string
+          id: string
+          invited_by: string
+          role: string
+          token: string
+          workspace_id: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string | null
+          expires_at?: string
+          id?: string
+          invited_by?: string
+          role?: string
+          token?: string
+          workspace_id: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string | null
+          expires_at?: string
+          id?: string
+          invited_by?: string
+          role?: string
+          token?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_invitations_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_members: {
+        Row: {
+          created_at: string
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          role?: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          ai_model: string | null
+          ai_provider: string | null
+          created_at: string
+          created_by: string
+          id: string
+          member_monthly_token_quota: number | null
+          monthly_token_quota: number | null
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          ai_model?: string | null
+          ai_provider?: string | null
+          created_at?: string
+          created_by?: string
+          id?: string
+          member_monthly_token_quota?: number | null
+          monthly_token_quota?: number | null
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          ai_model?: string | null
+          ai_provider?: string | null
+          created_at?: string
+          created_by?: string
+          id?: string
+          member_monthly_token_quota?: number | null
+          monthly_token_quota?: number | null
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_workspace_invitation: {
+        Args: { invite_token: string }
+        Returns: string
+      }
+      can_edit_record: {
+        Args: { target_record: string }
+        Returns: boolean
+      }
+      can_edit_workspace: {
+        Args: { target_workspace: string }
+        Returns: boolean
+      }
+      can_view_record: {
+        Args: { target_record: string }
+        Returns: boolean
+      }
+      cancel_ai_job: {
+        Args: { job_id: string }
+        Returns: undefined
+      }
+      create_workspace: {
+        Args: { workspace_name: string }
+        Returns: string
+      }
+      follow_up_transcripts: {
+        Args: { source_records: string[] }
+        Returns: {
+          corrected_transcript: string
+          record_created_at: string
+          record_id: string
+          record_title: string
+        }[]
+      }
+      meeting_metadata_text: {
+        Args: { metadata: Json }
+        Returns: string
+      }
+      monthly_token_usage: {
+        Args: { target_user?: string; target_workspace: string }
+        Returns: number
+      }
+      replace_action_items: {
+        Args: {
+          items: Json
+          source_model: string | null
+          source_prompt_version: string | null
+          source_version: string
+          target_record: string
+        }
+        Returns: Database["public"]["Tables"]["action_items"]["Row"][]
+      }
+      reserve_ai_usage: {
+        Args: {
+          reserved_tokens: number
+          target_record: string
+          target_user: string
+          target_workspace: string
+          usage_action: string
+          usage_model: string
+        }
+        Returns: {
+          exceeded_quota: string | null
+          usage_id: string | null
+        }[]
+      }
+      search_meetings: {
+        Args: { max_results?: number; search_terms: string[] }
+        Returns: {
+          match_kind: string
+          matched_at: string
+          module_id: string | null
+          module_version_number: number | null
+          record_created_at: string
+          record_id: string
+          record_title: string
+          snippet: string
+          transcript_version_number: number | null
+        }[]
+      }
+      shares_workspace: {
+        Args: { target_user: string }
+        Returns: boolean
+      }
+      workspace_role: {
+        Args: { target_workspace: string }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,44 @@
+// Guest and registered accounts. Guests are Supabase anonymous users; older
+// guests were throwaway `u-…@local.app` accounts whose password was kept in
+// localStorage. Both keep their meetings when linked to a real email, because
+// linking changes the account's email rather than creating a new user.
+
+/** localStorage key of the throwaway credentials older versions generated. */
+export const LEGACY_CREDENTIALS_KEY = 'auto_auth_creds';
+
+const LEGACY_EMAIL_RE = /^u-[a-z0-9]+-[a-z0-9]+@local\.app$/i;
+
+export interface StoredCredentials {
+  email: string;
+  password: string;
+}
+
+/** Credentials saved by the old automatic sign-up, or null if missing or unreadable. */
+export function parseStoredCredentials(raw: string | null): StoredCredentials | null {
+  if (!raw) return null;
+  try {
+    const value = JSON.parse(raw);
+    return typeof value?.email === 'string' && typeof value?.password === 'string' ? { email: value.email, password: value.password } : null;
+  } catch {
+    return null;
+  }
+}
+
+export const isLegacyGuestEmail = (email: string | null | undefined) => !!email && LEGACY_EMAIL_RE.test(email);
+
+/** Guests lose their meetings when they sign out or clear browser data. */
+export const isGuestAccount = (user: { email?: string | null; is_anonymous?: boolean } | null | undefined) =>
+  !!user && (!!user.is_anonymous || !user.email || isLegacyGuestEmail(user.email));
+
+/** Only in-app paths are followed after signing in, never other origins. */
+export const safeRedirect = (value: string | null) =>
+  value && value.startsWith('/') && !value.startsWith('//') ? value : '/';
+
+/** Supabase auth errors in the wording the sign-in page uses. */
+export function authErrorMessage(message: string): string {
+  if (message.includes('Invalid login credentials')) return '帳號或密碼錯誤，請確認後重試';
+  if (message.includes('Email not confirmed')) return '請先驗證您的電子郵件後再登入';
+  if (message.includes('User already registered') || message.includes('already been registered')) return '此電子郵件已被使用';
+  if (message.includes('Anonymous sign-ins are disabled')) return '目前未開放訪客使用，請登入或建立帳號';
+  return message || '操作失敗，請稍後再試';
+}
@@ -0,0 +1,92 @@
+// Parsing and validation of the action items returned by the
+// `extractActionItems` proxy action. Shared with the gemini-proxy edge
+// function, which validates before answering.
+import type { ActionItem, ActionItemStatus, TrackedActionItem } from '../types.ts';
+
+export const ACTION_ITEM_STATUSES: ActionItemStatus[] = ['open', 'in_progress', 'done', 'cancelled'];
+
+export const ACTION_ITEM_STATUS_LABELS: Record<ActionItemStatus, string> = {
+  open: '待辦',
+  in_progress: '進行中',
+  done: '已完成',
+  cancelled: '已取消',
+};
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+const optionalString = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed && trimmed.toLowerCase() !== 'null' ? trimmed : null;
+};
+
+const isValidDate = (value: string) => DATE_RE.test(value) && !Number.isNaN(new Date(`${value}T00:00:00Z`).getTime());
+
+/** Takes the JSON payload out of a model reply that may be fenced or wrapped in prose. */
+export function extractJson(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = (fenced ? fenced[1] : text).trim();
+  const start = body.search(/[[{]/);
+  if (start < 0) throw new Error('回傳內容不是 JSON');
+  const end = Math.max(body.lastIndexOf('}'), body.lastIndexOf(']'));
+  return body.slice(start, end + 1);
+}
+
+/** Validates one raw item; throws with the item's position when a required field is missing. */
+export function validateActionItem(raw: unknown, index: number): ActionItem {
+  if (!raw || typeof raw !== 'object') throw new Error(`第 ${index + 1} 筆行動項目不是物件`);
+  const item = raw as Record<string, unknown>;
+  const task = optionalString(item.task);
+  const sourceQuote = optionalString(item.source_quote ?? item.sourceQuote);
+  if (!task) throw new Error(`第 ${index + 1} 筆行動項目缺少 task`);
+  if (!sourceQuote) throw new Error(`第 ${index + 1} 筆行動項目缺少 source_quote`);
+
+  const rawDue = optionalString(item.due_date ?? item.dueDate);
+  const dueDate = rawDue && isValidDate(rawDue) ? rawDue : null;
+  const dueText = optionalString(item.due_text ?? item.dueText) ?? (rawDue && !dueDate ? rawDue : null);
+  const assigner = optionalString(item.assigner);
+  const owner = optionalString(item.owner);
+  const ambiguityNote = optionalString(item.ambiguity_note ?? item.ambiguityNote);
+  return {
+    task,
+    assigner,
+    owner,
+    dueDate,
+    dueText,
+    sourceQuote,
+    // A missing owner is always worth a human look, whatever the model said
+    ambiguous: item.ambiguous === true || !owner || !!ambiguityNote,
+    ambiguityNote,
+  };
+}
+
+/** Parses `{"items": [...]}` (or a bare array) into validated action items. */
+export function parseActionItems(text: string): ActionItem[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(extractJson(text));
+  } catch (err) {
+    throw new Error(`行動項目 JSON 解析失敗：${err instanceof Error ? err.message : String(err)}`);
+  }
+  const items = Array.isArray(data) ? data : (data as { items?: unknown })?.items;
+  if (!Array.isArray(items)) throw new Error('行動項目 JSON 缺少 items 陣列');
+  return items.map(validateActionItem);
+}
+
+/** Same task for the same person, ignoring case and spacing. */
+const itemKey = (item: Pick<ActionItem, 'task' | 'owner'>) =>
+  `${item.task.replace(/\s+/g, ' ').trim().toLowerCase()}\u0000${(item.owner ?? '').trim().toLowerCase()}`;
+
+/**
+ * Statuses for a fresh extraction, taken from the tracked items it re-finds,
+ * so re-extracting keeps what users marked done or in progress. Each tracked
+ * item is matched at most once; new items start open.
+ */
+export function carryOverStatuses(previous: Pick<TrackedActionItem, 'task' | 'owner' | 'status'>[], items: ActionItem[]): ActionItemStatus[] {
+  const remaining = new Map<string, ActionItemStatus[]>();
+  for (const item of previous) {
+    const key = itemKey(item);
+    remaining.set(key, [...(remaining.get(key) ?? []), item.status]);
+  }
+  return items.map(item => remaining.get(itemKey(item))?.shift() ?? 'open');
+}
@@ -0,0 +1,151 @@
+// Cross-meeting view of action items: overdue checks, grouping by owner and
+// spotting later meetings whose transcript brings an open item up again.
+import type { ActionItemStatus, TrackedActionItem, TranscriptTurn } from '../types.ts';
+import { parseTranscript } from './transcript.ts';
+import { speakerKey } from './chunking.ts';
+
+export const UNASSIGNED_OWNER = '未指定';
+
+export const isClosed = (status: ActionItemStatus) => status === 'done' || status === 'cancelled';
+
+/** Local calendar date as YYYY-MM-DD, the format `dueDate` is stored in. */
+export function todayString(now = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+export function isOverdue(item: Pick<TrackedActionItem, 'dueDate' | 'status'>, today: string): boolean {
+  return !!item.dueDate && item.dueDate < today && !isClosed(item.status);
+}
+
+export interface OwnerGroup<T extends TrackedActionItem> {
+  owner: string;
+  items: T[];
+}
+
+/**
+ * Groups items by owner, matching names the way speakers are matched
+ * (ignoring spacing and parenthesised titles). Larger groups come first;
+ * items without an owner are collected last under 未指定.
+ */
+export function groupByOwner<T extends TrackedActionItem>(items: T[]): OwnerGroup<T>[] {
+  const groups = new Map<string, OwnerGroup<T>>();
+  const unassigned: T[] = [];
+  for (const item of items) {
+    const key = item.owner ? speakerKey(item.owner) : '';
+    if (!key) {
+      unassigned.push(item);
+      continue;
+    }
+    const group = groups.get(key);
+    if (group) group.items.push(item);
+    else groups.set(key, { owner: item.owner!.trim(), items: [item] });
+  }
+  const sorted = [...groups.values()].sort((a, b) => b.items.length - a.items.length || a.owner.localeCompare(b.owner));
+  return unassigned.length > 0 ? [...sorted, { owner: UNASSIGNED_OWNER, items: unassigned }] : sorted;
+}
+
+// ─── Follow-up detection ─────────────────────────────────────────────────────
+
+export interface FollowUpMeeting {
+  recordId: string;
+  createdAt: number;
+  /** Latest transcript of the meeting; empty when it has none yet. */
+  transcript: string;
+}
+
+export interface FollowUpSuggestion {
+  itemId: string;
+  /** The later meeting that mentions the item. */
+  recordId: string;
+  speaker: string;
+  startTime: string | null;
+  quote: string;
+  suggestedStatus: ActionItemStatus;
+}
+
+// Checked in this order: "還沒完成" must read as in progress, not done
+const STATUS_CUES: [ActionItemStatus, string[]][] = [
+  ['cancelled', ['取消', '不用做', '不需要了', '先不做', '作廢']],
+  ['in_progress', ['還沒', '尚未', '進行中', '正在', '還在', '處理中', '快好了', '延後']],
+  ['done', ['完成', '做完', '做好了', '搞定', '寄出', '寄給', '交了', '交出', '處理好', '結案', 'done']],
+];
+
+const MIN_MATCH_SHARE = 0.5;
+const MAX_QUOTE_LENGTH = 120;
+
+/** Latin words and CJK character pairs of a task, used to recognise it in later turns. */
+export function taskTerms(task: string): string[] {
+  const terms = new Set<string>();
+  const text = task.toLowerCase();
+  for (const word of text.match(/[a-z0-9]{2,}/g) || []) terms.add(word);
+  for (const run of text.match(/[\u3400-\u9fff]+/g) || []) {
+    if (run.length === 1) terms.add(run);
+    for (let i = 0; i + 1 < run.length; i++) terms.add(run.slice(i, i + 2));
+  }
+  return [...terms];
+}
+
+/** Share of the task's terms that appear in `text`, or 0 below the two-term floor. */
+export function mentionScore(terms: string[], text: string): number {
+  if (terms.length === 0) return 0;
+  const haystack = text.toLowerCase();
+  const matched = terms.filter(term => haystack.includes(term)).length;
+  return matched >= Math.min(2, terms.length) ? matched / terms.length : 0;
+}
+
+export function statusCue(text: string): ActionItemStatus | null {
+  const haystack = text.toLowerCase();
+  for (const [status, cues] of STATUS_CUES) {
+    if (cues.some(cue => haystack.includes(cue))) return status;
+  }
+  return null;
+}
+
+/**
+ * Looks for open items that come up again in meetings held after the one they
+ * were assigned in. When the best-matching turn carries a status cue that
+ * differs from the item's status, a suggestion is returned; for each item the
+ * most recent meeting wins.
+ */
+export function findFollowUps(items: TrackedActionItem[], meetings: FollowUpMeeting[]): FollowUpSuggestion[] {
+  const createdAt = new Map(meetings.map(m => [m.recordId, m.createdAt]));
+  const turnsByRecord = new Map<string, TranscriptTurn[]>();
+  const turnsOf = (meeting: FollowUpMeeting) => {
+    if (!turnsByRecord.has(meeting.recordId)) turnsByRecord.set(meeting.recordId, parseTranscript(meeting.transcript).turns);
+    return turnsByRecord.get(meeting.recordId)!;
+  };
+  const newestFirst = [...meetings].filter(m => m.transcript.trim()).sort((a, b) => b.createdAt - a.createdAt);
+  const suggestions: FollowUpSuggestion[] = [];
+
+  for (const item of items) {
+    if (isClosed(item.status)) continue;
+    const assignedAt = createdAt.get(item.recordId);
+    if (assignedAt === undefined) continue;
+    const terms = taskTerms(item.task);
+
+    for (const meeting of newestFirst) {
+      if (meeting.createdAt <= assignedAt) break;
+      let best: { score: number; turn: TranscriptTurn } | null = null;
+      for (const turn of turnsOf(meeting)) {
+        const score = mentionScore(terms, turn.text);
+        if (score >= MIN_MATCH_SHARE && (!best || score > best.score)) best = { score, turn };
+      }
+      if (!best) continue;
+      const suggestedStatus = statusCue(best.turn.text);
+      if (suggestedStatus && suggestedStatus !== item.status) {
+        suggestions.push({
+          itemId: item.id,
+          recordId: meeting.recordId,
+          speaker: best.turn.speaker,
+          startTime: best.turn.startTime,
+          quote: best.turn.text.length > MAX_QUOTE_LENGTH ? `${best.turn.text.slice(0, MAX_QUOTE_LENGTH)}…` : best.turn.text,
+          suggestedStatus,
+        });
+      }
+      // The newest mention decides, even when it brings no status change
+      break;
+    }
+  }
+  return suggestions;
+}
@@ -0,0 +1,171 @@
+// Classified model errors. Providers turn failed responses into an `AiError`;
+// the gemini-proxy edge function retries the transient kinds with exponential
+// backoff and sends the kind along, so the client can show a localized
+// message and offer to retry.
+
+export type AiErrorKind =
+  | 'rate_limit'
+  | 'quota'
+  | 'content_filter'
+  | 'timeout'
+  | 'upstream'
+  | 'cancelled'
+  | 'invalid_request'
+  | 'usage_limit';
+
+export const AI_ERROR_MESSAGES: Record<AiErrorKind, string> = {
+  rate_limit: 'AI 服務目前請求過多，請稍候再試',
+  quota: 'AI 服務額度已用完，請聯絡管理員',
+  content_filter: '內容被 AI 服務的安全機制攔截，請調整逐字稿或提問內容後再試',
+  timeout: 'AI 服務回應逾時，請稍後再試',
+  upstream: 'AI 服務暫時無法使用，請稍後再試',
+  cancelled: '請求已取消',
+  invalid_request: 'AI 服務拒絕了這次請求，請確認模型設定',
+  usage_limit: '本月 AI 用量已達上限，請聯絡工作區擁有者調整額度',
+};
+
+/** Kinds worth another attempt, on the server and from the client's retry button. */
+const RETRYABLE_KINDS: AiErrorKind[] = ['rate_limit', 'timeout', 'upstream'];
+
+/** HTTP status the proxy answers with for each kind. */
+const STATUS_BY_KIND: Record<AiErrorKind, number> = {
+  rate_limit: 429,
+  quota: 402,
+  content_filter: 422,
+  timeout: 504,
+  upstream: 502,
+  cancelled: 499,
+  invalid_request: 400,
+  usage_limit: 403,
+};
+
+export class AiError extends Error {
+  readonly kind: AiErrorKind;
+  /** The provider's own message, for logs; never shown to users. */
+  readonly detail: string | null;
+  /** How long the provider asked us to wait, from `Retry-After`. */
+  readonly retryAfterMs: number | null;
+  /** Status and body of the failed provider response, for logs. */
+  readonly response: ProviderErrorResponse | null;
+
+  constructor(kind: AiErrorKind, detail: string | null = null, retryAfterMs: number | null = null, response: ProviderErrorResponse | null = null) {
+    super(AI_ERROR_MESSAGES[kind]);
+    this.name = 'AiError';
+    this.kind = kind;
+    this.detail = detail;
+    this.retryAfterMs = retryAfterMs;
+    this.response = response;
+  }
+
+  get retryable() {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+
+  get status() {
+    return STATUS_BY_KIND[this.kind];
+  }
+
+  /** Body of the proxy's error responses and stream `error` events. */
+  toPayload(): AiErrorPayload {
+    return { error: this.message, kind: this.kind, retryable: this.retryable, retryAfterMs: this.retryAfterMs };
+  }
+}
+
+export interface ProviderErrorResponse {
+  status: number;
+  body: unknown;
+}
+
+export interface AiErrorPayload {
+  error: string;
+  kind?: AiErrorKind;
+  retryable?: boolean;
+  retryAfterMs?: number | null;
+}
+
+/** Rebuilds the error on the client; payloads from older deployments carry only a message. */
+export function aiErrorFromPayload(payload: AiErrorPayload): Error {
+  if (payload.kind && payload.kind in AI_ERROR_MESSAGES) return new AiError(payload.kind, null, payload.retryAfterMs ?? null);
+  return new Error(payload.error);
+}
+
+export const isRetryableError = (err: unknown) => err instanceof AiError && err.retryable;
+
+/** `Retry-After` as milliseconds; accepts delay-seconds or an HTTP date. */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/** Sorts a failed provider response into a kind from its status and error body. */
+export function classifyProviderError(status: number, body: unknown, retryAfter?: string | null): AiError {
+  const error = (body as { error?: { message?: string; code?: string; type?: string } | string } | null)?.error;
+  const detail = typeof error === 'string' ? error : error?.message ?? null;
+  const code = typeof error === 'object' && error ? `${error.code ?? ''} ${error.type ?? ''}` : '';
+  const text = `${code} ${detail ?? ''}`.toLowerCase();
+  const retryAfterMs = parseRetryAfter(retryAfter);
+  const response = { status, body };
+
+  if (status === 402 || /insufficient_quota|credit|billing/.test(text)) return new AiError('quota', detail, null, response);
+  if (status === 429) return new AiError('rate_limit', detail, retryAfterMs, response);
+  if (/content[_ ]?filter|content_policy|safety|blocked/.test(text)) return new AiError('content_filter', detail, null, response);
+  if (status === 408 || status === 504) return new AiError('timeout', detail, retryAfterMs, response);
+  if (status >= 500) return new AiError('upstream', detail ?? `HTTP ${status}`, retryAfterMs, response);
+  return new AiError('invalid_request', detail ?? `HTTP ${status}`, null, response);
+}
+
+// ─── Backoff ──────────────────────────────────────────────────────────────────
+
+export interface RetryOptions {
+  /** Total attempts including the first. */
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  /** Longest wait between attempts; a longer `Retry-After` gives up instead. */
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  /** Called before waiting for the next attempt. */
+  onRetry?: (error: AiError, attempt: number, delayMs: number) => void;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+  random?: () => number;
+}
+
+/** Exponential backoff with jitter, never shorter than the provider's `Retry-After`. */
+export function backoffDelay(attempt: number, retryAfterMs: number | null, baseDelayMs: number, maxDelayMs: number, random = Math.random): number {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  const jittered = Math.round(exponential / 2 + random() * exponential / 2);
+  return Math.max(jittered, retryAfterMs ?? 0);
+}
+
+const abortableSleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new AiError('cancelled'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  if (signal?.aborted) onAbort();
+  else signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/** Runs `task` again after retryable failures; other errors are thrown at once. */
+export async function withRetry<T>(task: (attempt: number) => Promise<T>, {
+  maxAttempts = 4, baseDelayMs = 2000, maxDelayMs = 30000, signal, onRetry, sleep = abortableSleep, random = Math.random,
+}: RetryOptions = {}): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (err) {
+      if (!isRetryableError(err) || attempt >= maxAttempts || signal?.aborted) throw err;
+      const error = err as AiError;
+      if ((error.retryAfterMs ?? 0) > maxDelayMs) throw err;
+      const delayMs = backoffDelay(attempt, error.retryAfterMs, baseDelayMs, maxDelayMs, random);
+      onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+}
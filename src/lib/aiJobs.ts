@@ -0,0 +1,53 @@
+// Background AI jobs. The gemini-proxy edge function works through an
+// `ai_jobs` row after answering the request, saving progress as it goes; the
+// client follows the rows through Realtime and picks up the stored result.
+import type { AiJob } from '../types.ts';
+import { aiErrorFromPayload, type AiErrorKind } from './aiErrors.ts';
+
+/** How often a running job saves its output so far. */
+export const JOB_FLUSH_INTERVAL_MS = 1000;
+/** A running job touches its row at least this often, even without new output. */
+export const JOB_HEARTBEAT_MS = 30000;
+/**
+ * An unfinished job not heard from for this long is treated as dead, e.g. the
+ * worker crashed before it could record the failure; the client stops waiting
+ * and allows a rerun.
+ */
+export const JOB_STALL_MS = 10 * 60 * 1000;
+
+/** 'correction' or the module id; the same keys the client uses for its streams. */
+export const jobTarget = (job: Pick<AiJob, 'action' | 'moduleId'>) =>
+  job.action === 'correctTranscript' ? 'correction' : job.moduleId ?? '';
+
+export const isJobFinished = (job: Pick<AiJob, 'status'>) => job.status === 'succeeded' || job.status === 'failed';
+
+export const isJobStalled = (job: Pick<AiJob, 'status' | 'updatedAt'>, now = Date.now()) =>
+  !isJobFinished(job) && now - job.updatedAt > JOB_STALL_MS;
+
+/** Queued or running, and still alive. */
+export const isJobActive = (job: Pick<AiJob, 'status' | 'updatedAt'>, now = Date.now()) =>
+  !isJobFinished(job) && !isJobStalled(job, now);
+
+/** The newest active job for a target, if any. */
+export function activeJobFor(jobs: AiJob[], target: string, now = Date.now()): AiJob | null {
+  return jobs
+    .filter(job => jobTarget(job) === target && isJobActive(job, now))
+    .reduce<AiJob | null>((latest, job) => (!latest || job.createdAt > latest.createdAt ? job : latest), null);
+}
+
+/** Applies an inserted or updated row, keeping the list in creation order. */
+export function upsertJob(jobs: AiJob[], job: AiJob): AiJob[] {
+  const existing = jobs.find(j => j.id === job.id);
+  // Realtime may deliver an older update after a newer one was fetched
+  if (existing && existing.updatedAt > job.updatedAt) return jobs;
+  return [...jobs.filter(j => j.id !== job.id), job].sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/** Jobs among `watched`, the ids seen unfinished, that have since finished. */
+export function settledJobs(jobs: AiJob[], watched: Set<string>): AiJob[] {
+  return jobs.filter(job => watched.has(job.id) && isJobFinished(job));
+}
+
+/** The failure a job recorded, classified again so the client can offer a retry. */
+export const jobError = (job: Pick<AiJob, 'error' | 'errorKind'>): Error =>
+  aiErrorFromPayload({ error: job.error || '背景工作失敗', kind: job.errorKind as AiErrorKind | undefined });
@@ -0,0 +1,285 @@
+// Model providers for the gemini-proxy edge function. Any OpenAI-compatible
+// chat completions endpoint works, so a local Ollama or vLLM server can keep a
+// meeting inside the company network. Extra providers come from the
+// AI_PROVIDERS secret, a JSON array such as
+//   [{ "id": "ollama", "label": "內部 Ollama", "baseUrl": "http://10.0.0.5:11434/v1",
+//      "models": ["llama3.1:70b"], "apiKeyEnv": "OLLAMA_API_KEY" }]
+// Workspaces and meetings pick a provider and model; results record which
+// model produced them as a `provider:model` tag. An optional `pricing` map,
+// e.g. { "llama3.1:70b": { "input": 0.5, "output": 1.5 } } in USD per million
+// tokens, prices the usage ledger. `maxTokens` caps each reply; without it the
+// server's own limit applies, which suits local models with small contexts.
+import { readSseData } from './sse.ts';
+import { AiError, classifyProviderError } from './aiErrors.ts';
+import { estimateTokens, parseUsage, type ModelPrice, type TokenUsage } from './usage.ts';
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  model: string;
+  system: string;
+  messages: ChatTurn[];
+  temperature: number;
+}
+
+export interface CompletionOptions {
+  /** When set, the provider streams and each token is passed here. */
+  onDelta?: (text: string) => void;
+  /** Aborted when the browser cancels the request. */
+  signal?: AbortSignal;
+  /** Called once per successful completion with the tokens it used. */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface AiProvider {
+  id: string;
+  complete(request: CompletionRequest, options?: CompletionOptions): Promise<string>;
+}
+
+export interface ProviderConfig {
+  /** Stored on workspaces and meetings; lowercase letters, digits, `-` and `_`. */
+  id: string;
+  label: string;
+  type: 'openai' | 'mock';
+  /** Base URL of the OpenAI-compatible API, without `/chat/completions`. */
+  baseUrl?: string;
+  /** Name of the secret holding the API key; local servers often need none. */
+  apiKeyEnv?: string;
+  /** Models that may be selected; the first is the default. */
+  models: string[];
+  /** Price per model; models without one are recorded with no cost. */
+  pricing?: Record<string, ModelPrice>;
+  /** Sent as `max_tokens`; left out when unset. */
+  maxTokens?: number;
+}
+
+/** What the client is told about a provider; URLs and keys stay on the server. */
+export interface ProviderInfo {
+  id: string;
+  label: string;
+  models: string[];
+}
+
+/** A provider and model picked on a meeting or workspace; null inherits. */
+export interface ModelChoice {
+  provider: string | null;
+  model: string | null;
+}
+
+export const DEFAULT_PROVIDER: ProviderConfig = {
+  id: 'lovable',
+  label: 'Lovable AI Gateway',
+  type: 'openai',
+  baseUrl: 'https://ai.gateway.lovable.dev/v1',
+  apiKeyEnv: 'LOVABLE_API_KEY',
+  models: ['google/gemini-3-flash-preview'],
+  maxTokens: 65536,
+};
+
+const PROVIDER_ID_RE = /^[a-z0-9_-]+$/;
+
+/**
+ * The providers configured in AI_PROVIDERS, preceded by the built-in gateway
+ * unless the list redefines `lovable`. The first provider is the default.
+ */
+export function parseProviderConfigs(raw: string | null | undefined): ProviderConfig[] {
+  if (!raw?.trim()) return [DEFAULT_PROVIDER];
+  let entries: unknown;
+  try {
+    entries = JSON.parse(raw);
+  } catch {
+    throw new Error('AI_PROVIDERS 不是有效的 JSON');
+  }
+  if (!Array.isArray(entries)) throw new Error('AI_PROVIDERS 必須是陣列');
+  const configs = entries.map((entry, index): ProviderConfig => {
+    const { id, label, type = 'openai', baseUrl, apiKeyEnv, models, pricing, maxTokens } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof id !== 'string' || !PROVIDER_ID_RE.test(id)) throw new Error(`AI_PROVIDERS[${index}] 的 id 無效`);
+    if (entries.slice(0, index).some(other => (other as Record<string, unknown>)?.id === id)) throw new Error(`AI 供應商「${id}」重複設定`);
+    if (type !== 'openai' && type !== 'mock') throw new Error(`AI 供應商「${id}」的 type 無效`);
+    if (type === 'openai' && typeof baseUrl !== 'string') throw new Error(`AI 供應商「${id}」缺少 baseUrl`);
+    if (!Array.isArray(models) || models.length === 0 || !models.every(m => typeof m === 'string' && m)) {
+      throw new Error(`AI 供應商「${id}」至少需要一個模型`);
+    }
+    if (pricing !== undefined && !isPricing(pricing)) throw new Error(`AI 供應商「${id}」的 pricing 無效`);
+    if (maxTokens !== undefined && !(Number.isInteger(maxTokens) && (maxTokens as number) > 0)) throw new Error(`AI 供應商「${id}」的 maxTokens 無效`);
+    return {
+      id,
+      label: typeof label === 'string' && label ? label : id,
+      type,
+      baseUrl: typeof baseUrl === 'string' ? baseUrl.replace(/\/+$/, '') : undefined,
+      apiKeyEnv: typeof apiKeyEnv === 'string' ? apiKeyEnv : undefined,
+      models: models as string[],
+      ...(pricing ? { pricing: pricing as Record<string, ModelPrice> } : {}),
+      ...(maxTokens !== undefined ? { maxTokens: maxTokens as number } : {}),
+    };
+  });
+  return configs.some(c => c.id === DEFAULT_PROVIDER.id) ? configs : [DEFAULT_PROVIDER, ...configs];
+}
+
+const isPrice = (value: unknown): value is ModelPrice => {
+  const { input, output } = (value ?? {}) as Record<string, unknown>;
+  return typeof input === 'number' && input >= 0 && typeof output === 'number' && output >= 0;
+};
+
+const isPricing = (value: unknown): value is Record<string, ModelPrice> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && Object.values(value).every(isPrice);
+
+export const providerInfo = (configs: ProviderConfig[]): ProviderInfo[] =>
+  configs.map(({ id, label, models }) => ({ id, label, models }));
+
+/**
+ * Picks the provider and model from the first choice that names a provider,
+ * e.g. the meeting's, then the workspace's. A provider or model that is no
+ * longer configured is an error rather than a silent fallback, so a meeting
+ * pinned to a local server never ends up at a cloud provider.
+ */
+export function resolveModelChoice(configs: ProviderConfig[], ...choices: (ModelChoice | null | undefined)[]): { config: ProviderConfig; model: string } {
+  const choice = choices.find(c => c?.provider);
+  if (!choice) return { config: configs[0], model: configs[0].models[0] };
+  const config = configs.find(c => c.id === choice.provider);
+  if (!config) throw new Error(`找不到 AI 供應商「${choice.provider}」，請聯絡管理員或改選其他模型`);
+  if (choice.model && !config.models.includes(choice.model)) {
+    throw new Error(`AI 供應商「${config.label}」未提供模型「${choice.model}」`);
+  }
+  return { config, model: choice.model || config.models[0] };
+}
+
+/** How results record the model that produced them, e.g. `ollama:llama3.1:70b`. */
+export const modelTag = (providerId: string, model: string) => `${providerId}:${model}`;
+
+/** Inverse of `modelTag`; model names may themselves contain colons. */
+export function parseModelTag(tag: string | null | undefined): ModelChoice {
+  if (!tag) return { provider: null, model: null };
+  const separator = tag.indexOf(':');
+  return separator < 0
+    ? { provider: tag, model: null }
+    : { provider: tag.slice(0, separator), model: tag.slice(separator + 1) || null };
+}
+
+// ─── OpenAI-compatible provider ───────────────────────────────────────────────
+
+interface OpenAiProviderOptions {
+  id: string;
+  baseUrl: string;
+  apiKey?: string;
+  maxTokens?: number;
+  /** Aborts after this long without any data; streaming resets it on every token. */
+  idleTimeoutMs?: number;
+  fetch?: typeof fetch;
+}
+
+export function createOpenAiProvider({ id, baseUrl, apiKey, maxTokens, idleTimeoutMs = 300000, fetch: fetchImpl = fetch }: OpenAiProviderOptions): AiProvider {
+  return {
+    id,
+    async complete({ model, system, messages, temperature }, { onDelta, signal, onUsage } = {}) {
+      const controller = new AbortController();
+      let timeoutId = setTimeout(() => controller.abort(), idleTimeoutMs);
+      const resetTimeout = () => {
+        clearTimeout(timeoutId);
+        timeoutId = setTimeout(() => controller.abort(), idleTimeoutMs);
+      };
+      const onCancel = () => controller.abort();
+      signal?.addEventListener('abort', onCancel);
+
+      try {
+        const response = await fetchImpl(`${baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model,
+            messages: [{ role: 'system', content: system }, ...messages],
+            temperature,
+            ...(maxTokens ? { max_tokens: maxTokens } : {}),
+            stream: !!onDelta,
+            // Servers that ignore this report no usage and get an estimate instead
+            ...(onDelta ? { stream_options: { include_usage: true } } : {}),
+          }),
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          const errData = await response.json().catch(() => ({}));
+          throw classifyProviderError(response.status, errData, response.headers.get('Retry-After'));
+        }
+
+        let text = '';
+        let finishReason: string | null = null;
+        let usage: TokenUsage | null = null;
+        if (onDelta && response.body) {
+          for await (const data of readSseData(response.body)) {
+            if (data === '[DONE]') break;
+            const chunk = JSON.parse(data);
+            // With include_usage the last chunk has no choices, only usage
+            usage = parseUsage(chunk.usage) ?? usage;
+            const choice = chunk.choices?.[0];
+            const delta = choice?.delta?.content;
+            if (delta) {
+              text += delta;
+              onDelta(delta);
+            }
+            finishReason = choice?.finish_reason ?? finishReason;
+            resetTimeout();
+          }
+        } else {
+          const data = await response.json();
+          text = data.choices?.[0]?.message?.content || '';
+          finishReason = data.choices?.[0]?.finish_reason ?? null;
+          usage = parseUsage(data.usage);
+        }
+
+        if (finishReason === 'content_filter') throw new AiError('content_filter', `finish_reason from ${id}`);
+        if (!text) throw new AiError('upstream', `empty completion from ${id}`);
+        onUsage?.(usage ?? estimateUsage(system, messages, text));
+        return text;
+      } catch (err) {
+        if (signal?.aborted) throw new AiError('cancelled');
+        if (err instanceof AiError) throw err;
+        if (err instanceof Error && err.name === 'AbortError') {
+          throw new AiError('timeout', `no data from ${id} for ${Math.round(idleTimeoutMs / 1000)} s`);
+        }
+        // fetch rejects with a TypeError when the server cannot be reached
+        if (err instanceof TypeError) throw new AiError('upstream', err.message);
+        throw err;
+      } finally {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onCancel);
+      }
+    },
+  };
+}
+
+function estimateUsage(system: string, messages: ChatTurn[], reply: string): TokenUsage {
+  const promptTokens = estimateTokens(system) + messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+  const completionTokens = estimateTokens(reply);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, estimated: true };
+}
+
+// ─── Mock provider ────────────────────────────────────────────────────────────
+
+export interface MockProvider extends AiProvider {
+  /** Every request received, in order. */
+  calls: CompletionRequest[];
+}
+
+/** Answers without any network call; streams the reply word by word. */
+export function createMockProvider(reply: string | ((request: CompletionRequest) => string), id = 'mock'): MockProvider {
+  const calls: CompletionRequest[] = [];
+  return {
+    id,
+    calls,
+    async complete(request, { onDelta, signal, onUsage } = {}) {
+      calls.push(request);
+      if (signal?.aborted) throw new AiError('cancelled');
+      const text = typeof reply === 'function' ? reply(request) : reply;
+      if (onDelta) for (const piece of text.match(/\S+\s*|\s+/g) ?? []) onDelta(piece);
+      onUsage?.(estimateUsage(request.system, request.messages, text));
+      return text;
+    },
+  };
+}
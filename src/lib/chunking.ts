@@ -0,0 +1,239 @@
+// Splits long transcripts for the correction engine and stitches the corrected
+// chunks back together. Shared with the gemini-proxy edge function.
+import type { TranscriptTurn } from '../types.ts';
+import { parseTranscript, serializeTurn, listSpeakers, createTurn } from './transcript.ts';
+
+export interface TranscriptChunk {
+  index: number;
+  /** The part of the transcript this chunk is responsible for correcting. */
+  text: string;
+  /** Trailing turns of the previous chunk, sent as read-only context. */
+  context: string;
+  /** The same turns or paragraphs one by one, for dropping them when the model repeats them. */
+  contextUnits: string[];
+  /** Start time of the first turn in `text`, when known. */
+  startSeconds: number | null;
+}
+
+export interface ChunkOptions {
+  maxChars: number;
+  overlapUnits: number;
+}
+
+interface Unit {
+  text: string;
+  startSeconds: number | null;
+}
+
+function toUnits(transcript: string): Unit[] {
+  const parsed = parseTranscript(transcript);
+  if (parsed.turns.length > 0) {
+    const units: Unit[] = parsed.turns.map(t => ({ text: serializeTurn(t), startSeconds: t.startSeconds }));
+    if (parsed.preamble) units.unshift({ text: parsed.preamble, startSeconds: null });
+    if (parsed.appendix) units.push({ text: parsed.appendix, startSeconds: null });
+    return units;
+  }
+  // Free text: fall back to paragraph, then line boundaries
+  const paragraphs = transcript.split(/\n\s*\n/).filter(p => p.trim());
+  const pieces = paragraphs.length > 1 ? paragraphs : transcript.split('\n').filter(l => l.trim());
+  return pieces.map(p => ({ text: p.trim(), startSeconds: null }));
+}
+
+/**
+ * Splits a transcript at speaker-turn boundaries into chunks of at most
+ * `maxChars` (a single oversized turn becomes its own chunk). Each chunk after
+ * the first carries the previous `overlapUnits` turns as context.
+ */
+export function chunkTranscript(transcript: string, { maxChars, overlapUnits }: ChunkOptions): TranscriptChunk[] {
+  if (transcript.length <= maxChars) {
+    return [{ index: 0, text: transcript, context: '', contextUnits: [], startSeconds: null }];
+  }
+
+  const units = toUnits(transcript);
+  const groups: Unit[][] = [];
+  let current: Unit[] = [];
+  let size = 0;
+  for (const unit of units) {
+    if (current.length > 0 && size + unit.text.length + 2 > maxChars) {
+      groups.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(unit);
+    size += unit.text.length + 2;
+  }
+  if (current.length > 0) groups.push(current);
+
+  return groups.map((group, index) => {
+    const contextUnits = index === 0 ? [] : groups[index - 1].slice(-overlapUnits).map(u => u.text);
+    return {
+      index,
+      text: group.map(u => u.text).join('\n\n'),
+      context: contextUnits.join('\n\n'),
+      contextUnits,
+      startSeconds: group.find(u => u.startSeconds !== null)?.startSeconds ?? null,
+    };
+  });
+}
+
+/** Runs `fn` over `items` with at most `limit` calls in flight, preserving order. */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i], i);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// ─── Stitching ────────────────────────────────────────────────────────────────
+
+/** Comparison key for speaker labels: ignores parenthesised roles, spacing and case. */
+export const speakerKey = (name: string) => name.replace(/[（(][^）)]*[）)]/g, '').replace(/\s+/g, '').toLowerCase();
+
+/**
+ * Maps speaker labels that differ only by spacing, case or a parenthesised
+ * role (e.g. 「王經理（主持人）」) onto the first spelling seen in `canonical`
+ * or, failing that, in the turns themselves.
+ */
+export function harmonizeSpeakers(turns: TranscriptTurn[], canonical: string[] = []): TranscriptTurn[] {
+  const names = new Map<string, string>();
+  for (const name of canonical) if (!names.has(speakerKey(name))) names.set(speakerKey(name), name);
+  return turns.map(turn => {
+    const key = speakerKey(turn.speaker);
+    if (!names.has(key)) names.set(key, turn.speaker);
+    return { ...turn, speaker: names.get(key)! };
+  });
+}
+
+/** Content without speaker headers, spacing or punctuation, so corrected text still compares equal. */
+const contentKey = (text: string) => text.replace(/^\*\*[^*\n]+\*\*$/gm, '').replace(/[\s\p{P}\p{S}]/gu, '');
+
+/** Dice coefficient over character bigrams: 1 for identical text, 0 for nothing in common. */
+export function textSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) bigrams.set(a.slice(i, i + 2), (bigrams.get(a.slice(i, i + 2)) ?? 0) + 1);
+  let shared = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const count = bigrams.get(b.slice(i, i + 2));
+    if (count) {
+      shared++;
+      bigrams.set(b.slice(i, i + 2), count - 1);
+    }
+  }
+  return (2 * shared) / (a.length + b.length - 2);
+}
+
+/** How close a repeated context turn must stay to its original after correction. */
+const REPEAT_SIMILARITY = 0.8;
+
+/** Keys of the context's turns or paragraphs and of their single lines. */
+const contextKeysOf = (chunk: TranscriptChunk) =>
+  chunk.contextUnits.flatMap(unit => [unit, ...unit.split('\n')]).map(contentKey).filter(Boolean);
+
+const repeatsContext = (text: string, contextKeys: string[]) => {
+  const key = contentKey(text);
+  return !key || contextKeys.some(c => textSimilarity(key, c) >= REPEAT_SIMILARITY);
+};
+
+/** Drops the leading lines of `text` that repeat the context. */
+function dropRepeatedLines(text: string, contextKeys: string[]): string {
+  const lines = text.split('\n');
+  let skip = 0;
+  while (skip < lines.length && repeatsContext(lines[skip], contextKeys)) skip++;
+  return lines.slice(skip).join('\n').trim();
+}
+
+/**
+ * Drops the turns a chunk's output opens with that repeat its context, by
+ * content rather than timestamp, so untimed turns are caught too; a turn
+ * stamped at or after the chunk's start is always its own. A turn stamped
+ * before the start that is clearly longer than any context turn is the
+ * chunk's opening merged into a context turn: it is kept, minus the repeated
+ * lines, at the chunk's start time.
+ */
+function dropRepeatedTurns(turns: TranscriptTurn[], chunk: TranscriptChunk): TranscriptTurn[] {
+  const contextKeys = contextKeysOf(chunk);
+  const start = chunk.startSeconds;
+  const longestContext = Math.max(0, ...contextKeys.map(k => k.length));
+  const isRepeat = (turn: TranscriptTurn) => {
+    if (turn.startSeconds === null || start === null) return repeatsContext(turn.text, contextKeys);
+    if (turn.startSeconds >= start) return false;
+    return repeatsContext(turn.text, contextKeys) || contentKey(turn.text).length <= longestContext * 1.2;
+  };
+  let skip = 0;
+  while (skip < turns.length && isRepeat(turns[skip])) skip++;
+  const kept = turns.slice(skip);
+  const first = kept[0];
+  if (first && chunk.startSeconds !== null && first.startSeconds !== null && first.startSeconds < chunk.startSeconds) {
+    kept[0] = createTurn(first.speaker, chunk.startSeconds, dropRepeatedLines(first.text, contextKeys) || first.text);
+  }
+  return kept;
+}
+
+/**
+ * Concatenates corrected chunks, dropping whatever the model repeated from
+ * each chunk's context window before its own text.
+ */
+export function stitchCorrectedChunks(chunks: TranscriptChunk[], outputs: string[], canonicalSpeakers: string[] = []): string {
+  const parsed = outputs.map(o => parseTranscript(o));
+  const kept = parsed.map((p, i) => (i === 0 || !chunks[i] ? p.turns : dropRepeatedTurns(p.turns, chunks[i])));
+  const harmonized = harmonizeSpeakers(kept.flat(), canonicalSpeakers);
+
+  const parts: string[] = [];
+  let cursor = 0;
+  parsed.forEach((p, i) => {
+    if (p.turns.length === 0) {
+      parts.push(i === 0 || !chunks[i] ? outputs[i].trim() : dropRepeatedLines(outputs[i], contextKeysOf(chunks[i])));
+      return;
+    }
+    if (i === 0 && p.preamble) parts.push(p.preamble);
+    parts.push(...harmonized.slice(cursor, cursor + kept[i].length).map(serializeTurn));
+    cursor += kept[i].length;
+  });
+  return parts.filter(Boolean).join('\n\n');
+}
+
+export const speakersOf = (text: string) => listSpeakers(parseTranscript(text));
+
+// ─── Correction logs ──────────────────────────────────────────────────────────
+
+const LOG_TITLE_RE = /^(?:#{1,6}\s+(.+?)|(?:\d+[.、]\s*)?\*\*(.+?)\*\*[:：]?)\s*$/;
+
+/**
+ * Merges per-chunk correction logs into one: lines under the same section
+ * title are combined and exact duplicates dropped.
+ */
+export function mergeCorrectionLogs(logs: (string | null)[]): string | null {
+  const present = logs.filter((l): l is string => !!l?.trim());
+  if (present.length <= 1) return present[0] ?? null;
+
+  const sections = new Map<string, string[]>();
+  const untitled: string[] = [];
+  for (const log of present) {
+    let title: string | null = null;
+    for (const line of log.split('\n')) {
+      if (!line.trim()) continue;
+      const heading = line.trim().match(LOG_TITLE_RE);
+      if (heading) {
+        title = (heading[1] || heading[2]).replace(/[:：]$/, '').trim();
+        if (!sections.has(title)) sections.set(title, []);
+        continue;
+      }
+      const target = title ? sections.get(title)! : untitled;
+      if (!target.some(existing => existing.trim() === line.trim())) target.push(line);
+    }
+  }
+
+  const parts = untitled.length > 0 ? [untitled.join('\n')] : [];
+  for (const [title, lines] of sections) {
+    parts.push(`#### ${title}\n${lines.length > 0 ? lines.join('\n') : '- 無'}`);
+  }
+  return parts.join('\n\n');
+}
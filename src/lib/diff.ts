@@ -0,0 +1,71 @@
+import DiffMatchPatch from 'diff-match-patch';
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  op: DiffOp;
+  text: string;
+  /** Index into `DiffResult.changes` for insert/delete segments. */
+  change?: number;
+}
+
+export interface DiffChange {
+  deleted: string;
+  inserted: string;
+}
+
+export interface DiffResult {
+  segments: DiffSegment[];
+  changes: DiffChange[];
+}
+
+// One token per CJK character (Han, kana, hangul), whole runs for Latin words
+// and digits, whitespace runs, and any other single symbol. This gives a
+// word-level diff for English and a character-level one for CJK.
+const TOKEN_RE = /[\u3400-\u9fff\uf900-\ufaff\u3040-\u30ff\uac00-\ud7af]|[A-Za-z0-9_]+(?:['’][A-Za-z]+)*|\s+|[^\s]/gu;
+
+export function tokenize(text: string): string[] {
+  return text.match(TOKEN_RE) || [];
+}
+
+/**
+ * Diffs two texts token by token. Tokens are mapped to single characters so
+ * diff-match-patch (time-bounded, linear space) can run on long transcripts.
+ */
+export function diffTexts(before: string, after: string, timeoutSeconds = 2): DiffResult {
+  const tokenIds = new Map<string, string>();
+  const tokens: string[] = [''];
+  const encode = (text: string) =>
+    tokenize(text).map(token => {
+      let id = tokenIds.get(token);
+      if (id === undefined) {
+        id = String.fromCharCode(tokens.length);
+        tokenIds.set(token, id);
+        tokens.push(token);
+      }
+      return id;
+    }).join('');
+
+  const dmp = new DiffMatchPatch();
+  dmp.Diff_Timeout = timeoutSeconds;
+  const diffs = dmp.diff_main(encode(before), encode(after), false);
+  dmp.diff_cleanupSemantic(diffs);
+
+  const segments: DiffSegment[] = [];
+  const changes: DiffChange[] = [];
+  for (const [code, encoded] of diffs) {
+    const text = encoded.split('').map(ch => tokens[ch.charCodeAt(0)]).join('');
+    const op: DiffOp = code === DiffMatchPatch.DIFF_INSERT ? 'insert' : code === DiffMatchPatch.DIFF_DELETE ? 'delete' : 'equal';
+    if (op === 'equal') {
+      segments.push({ op, text });
+      continue;
+    }
+    // Adjacent delete + insert form one navigable change
+    const previous = segments[segments.length - 1];
+    if (!previous || previous.op === 'equal') changes.push({ deleted: '', inserted: '' });
+    const change = changes.length - 1;
+    changes[change][op === 'insert' ? 'inserted' : 'deleted'] += text;
+    segments.push({ op, text, change });
+  }
+  return { segments, changes };
+}
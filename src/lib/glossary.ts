@@ -0,0 +1,107 @@
+// Terminology glossaries: the deterministic pre-pass applied before the
+// correction model runs, plus the text formats used by the editor and prompt.
+// Shared with the gemini-proxy edge function.
+import type { GlossaryTerm } from '../types.ts';
+
+export interface GlossaryReplacement {
+  from: string;
+  to: string;
+  count: number;
+}
+
+export interface GlossaryPrepassResult {
+  text: string;
+  replacements: GlossaryReplacement[];
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const isWordLike = (text: string) => /^[A-Za-z0-9_]/.test(text) && /[A-Za-z0-9_]$/.test(text);
+
+/** Combines glossaries; later entries for the same term add variants. */
+export function mergeGlossaryTerms(lists: GlossaryTerm[][]): GlossaryTerm[] {
+  const byTerm = new Map<string, GlossaryTerm>();
+  for (const entry of lists.flat()) {
+    const term = entry.term.trim();
+    if (!term) continue;
+    const existing = byTerm.get(term);
+    const variants = entry.variants.map(v => v.trim()).filter(v => v && v !== term);
+    if (existing) {
+      existing.variants = Array.from(new Set([...existing.variants, ...variants]));
+      if (!existing.note && entry.note) existing.note = entry.note;
+    } else {
+      byTerm.set(term, { term, variants: Array.from(new Set(variants)), ...(entry.note ? { note: entry.note } : {}) });
+    }
+  }
+  return Array.from(byTerm.values());
+}
+
+/**
+ * Replaces every exact occurrence of a known wrong variant with its preferred
+ * term in a single left-to-right pass. Longer matches win, and correct terms
+ * are matched too so a variant inside one (勞基 in 勞基法) is left alone.
+ * Latin variants only match whole words.
+ */
+export function applyGlossary(text: string, terms: GlossaryTerm[]): GlossaryPrepassResult {
+  const targets = new Map<string, string>();
+  for (const { term, variants } of mergeGlossaryTerms([terms])) {
+    targets.set(term, term);
+    // A variant listed under two terms is ambiguous; the first glossary wins
+    for (const variant of variants) if (!targets.has(variant)) targets.set(variant, term);
+  }
+  const keys = Array.from(targets.keys()).sort((a, b) => b.length - a.length);
+  if (!keys.some(k => targets.get(k) !== k)) return { text, replacements: [] };
+
+  const pattern = keys
+    .map(k => (isWordLike(k) ? `(?<![A-Za-z0-9_])${escapeRegExp(k)}(?![A-Za-z0-9_])` : escapeRegExp(k)))
+    .join('|');
+  const counts = new Map<string, number>();
+  const replaced = text.replace(new RegExp(pattern, 'g'), match => {
+    const to = targets.get(match) ?? match;
+    if (to !== match) counts.set(match, (counts.get(match) ?? 0) + 1);
+    return to;
+  });
+  return {
+    text: replaced,
+    replacements: Array.from(counts, ([from, count]) => ({ from, to: targets.get(from)!, count })),
+  };
+}
+
+/** Correction-log section describing the pre-pass, or null when nothing changed. */
+export function formatReplacementLog(replacements: GlossaryReplacement[]): string | null {
+  if (replacements.length === 0) return null;
+  return `#### 詞彙表自動替換\n${replacements.map(r => `- ${r.from} → ${r.to}（${r.count} 處）`).join('\n')}`;
+}
+
+export function formatGlossaryForPrompt(terms: GlossaryTerm[]): string {
+  return mergeGlossaryTerms([terms])
+    .map(t => {
+      const details = [t.variants.length > 0 ? `常見誤植：${t.variants.join('、')}` : '', t.note || ''].filter(Boolean).join('；');
+      return `- ${t.term}${details ? `（${details}）` : ''}`;
+    })
+    .join('\n');
+}
+
+// ─── Editor text format ───────────────────────────────────────────────────────
+// One term per line: 「資遣：之前、知遣 # 勞動法用語」
+
+export function parseGlossaryText(text: string): GlossaryTerm[] {
+  const terms: GlossaryTerm[] = [];
+  for (const raw of text.split('\n')) {
+    const [body, ...noteParts] = raw.split('#');
+    const note = noteParts.join('#').trim();
+    const [term, variants = ''] = body.split(/[:：]/, 2);
+    if (!term.trim()) continue;
+    terms.push({
+      term: term.trim(),
+      variants: variants.split(/[,，、]/).map(v => v.trim()).filter(Boolean),
+      ...(note ? { note } : {}),
+    });
+  }
+  return mergeGlossaryTerms([terms]);
+}
+
+export function formatGlossaryText(terms: GlossaryTerm[]): string {
+  return terms
+    .map(t => `${t.term}${t.variants.length > 0 ? `：${t.variants.join('、')}` : ''}${t.note ? ` # ${t.note}` : ''}`)
+    .join('\n');
+}
@@ -0,0 +1,66 @@
+// "Run all modules": every built-in module plus the custom ones picked, each
+// queued as its own background job so a failing module never holds up or
+// discards the others.
+import type { AiJob, AnalysisModuleDefinition, SpeakerProfile } from '../types.ts';
+import { isJobStalled } from './aiJobs.ts';
+
+export type BatchModuleStatus = 'queueing' | 'running' | 'succeeded' | 'failed';
+
+/** One module of a batch; `jobId` is set once its job is queued. */
+export interface BatchEntry {
+  moduleId: string;
+  jobId?: string;
+  /** Why the module could not be queued. */
+  error?: string;
+}
+
+export const BUSY_MODULE_ERROR = '此模組正在分析中，未重複執行';
+
+export interface BatchRun {
+  moduleId: string;
+  focusSpeaker?: SpeakerProfile;
+}
+
+/**
+ * Splits a batch into the modules to queue and the ones that cannot run.
+ * Module B models one person when the meeting has a roster, so without a
+ * picked subject it is skipped rather than analysing the wrong person.
+ * Modules already being analysed are skipped too, so a second job never races
+ * the running one.
+ */
+export function planModuleBatch(
+  modules: AnalysisModuleDefinition[],
+  customIds: string[],
+  roster: SpeakerProfile[],
+  focusSpeaker?: SpeakerProfile,
+  isBusy: (moduleId: string) => boolean = () => false,
+): { runs: BatchRun[]; skipped: BatchEntry[] } {
+  const runs: BatchRun[] = [];
+  const skipped: BatchEntry[] = [];
+  for (const module of modules) {
+    if (!module.builtIn && !customIds.includes(module.id)) continue;
+    if (isBusy(module.id)) skipped.push({ moduleId: module.id, error: BUSY_MODULE_ERROR });
+    else if (module.id !== 'B') runs.push({ moduleId: module.id });
+    else if (roster.length === 0) runs.push({ moduleId: 'B' });
+    else if (focusSpeaker) runs.push({ moduleId: 'B', focusSpeaker });
+    else skipped.push({ moduleId: 'B', error: '請先選擇模組 B 的分析對象' });
+  }
+  return { runs, skipped };
+}
+
+export function batchEntryStatus(entry: BatchEntry, jobs: AiJob[], now = Date.now()): BatchModuleStatus {
+  if (entry.error) return 'failed';
+  if (!entry.jobId) return 'queueing';
+  const job = jobs.find(j => j.id === entry.jobId);
+  // Queued, but the row has not reached this client yet
+  if (!job) return 'running';
+  if (job.status === 'succeeded') return 'succeeded';
+  return job.status === 'failed' || isJobStalled(job, now) ? 'failed' : 'running';
+}
+
+export function summarizeBatch(entries: BatchEntry[], jobs: AiJob[], now = Date.now()) {
+  const statuses = entries.map(entry => batchEntryStatus(entry, jobs, now));
+  const succeeded = statuses.filter(s => s === 'succeeded').length;
+  const failed = statuses.filter(s => s === 'failed').length;
+  return { total: entries.length, succeeded, failed, finished: succeeded + failed === entries.length };
+}
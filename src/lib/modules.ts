@@ -0,0 +1,113 @@
+// Analysis module definitions. The built-in modules A–E live here so the web
+// app and the gemini-proxy edge function read the same text; user-defined
+// modules are stored in `analysis_modules` and resolved the same way.
+import type { AnalysisModuleDefinition } from '../types.ts';
+import { MODULE_BASE_PROMPT } from './prompts.ts';
+
+// Bump a module's `version` whenever its text changes (see prompts.ts)
+export const BUILT_IN_MODULES: AnalysisModuleDefinition[] = [
+  {
+    id: 'A',
+    name: '氛圍與張力走勢分析',
+    icon: 'LayoutDashboard',
+    task: '執行「模組 A：氛圍與張力走勢分析」',
+    prompt: `- 描述整場會議的情緒波動與張力變化（冷場、衝突、轉折點）。
+- 識別會議能量消長與主導氣場轉移。
+- 標註衝突節點或冷場節點的具體時間點。
+- 參考知識庫 KB-01：會議情緒與張力觀察指標表。`,
+    outputFormat: `1. 張力起伏時間軸（用 ASCII 符號表示）。
+2. 能量消長與主導氣場轉移說明。`,
+    builtIn: true,
+    version: 1,
+  },
+  {
+    id: 'B',
+    name: '指定人物建模',
+    icon: 'Users',
+    task: '執行「模組 B：指定人物建模（行為/決策/語用風格）」',
+    prompt: `- 套用九大觀察維度：性格傾向/決策風格/對話慣性/語用習慣/情緒管理/衝突處理/關係取向/操控傾向/語言斷裂。
+- 每項須明示：顯性觀察（逐字稿依據）與潛在假設（有無信度佐證）。
+- 如資料不足，須明確提示「此面向資料不足，建議補充觀察」。
+- 參考知識庫 KB-02 決策風格建模範式 與 KB-07 人格模組庫。`,
+    outputFormat: `1. 九大維度逐項分析，使用標籤：關係取向、操控傾向、語言斷裂等。
+2. 「角色設定背景資料 (Profile)」。`,
+    builtIn: true,
+    version: 1,
+  },
+  {
+    id: 'C',
+    name: '潛台詞與結論解析',
+    icon: 'MessageSquare',
+    task: '執行「模組 C：潛台詞 / QBQ / 結論與行動點解析」',
+    prompt: `- 抽取未明說的策略、問題背後的問題（QBQ）與態度暗示。
+- 分析結論是否明確、具體交辦、是否有模糊責任。
+- 參考知識庫 KB-03 潛台詞與 QBQ 解構框架。`,
+    outputFormat: `1. 潛台詞與 QBQ 解析。
+2. 結論歸納與交辦項目分層整理。`,
+    builtIn: true,
+    version: 1,
+  },
+  {
+    id: 'D',
+    name: '權力結構流轉觀察',
+    icon: 'ShieldAlert',
+    task: '執行「模組 D：權力結構與角色流轉觀察」',
+    prompt: `- 評估誰在會議中主導話語與議題轉折。
+- 抽取「誰與誰結盟」「誰在帶風向」「誰被邊緣化」。
+- 參考知識庫 KB-04 權力結構觀察模板。`,
+    outputFormat: `1. 話語主導與議題轉折分析。
+2. 發言權轉移圖與話語攻防節點。`,
+    builtIn: true,
+    version: 1,
+  },
+  {
+    id: 'E',
+    name: '會議摘要與結論重構',
+    icon: 'FileText',
+    task: '執行「模組 E：會議摘要與結論重構」',
+    prompt: `- 限制：僅產出「事實整理、原句摘錄、任務交辦分層」，嚴禁編造結論或評論。
+- 無法判讀時標記「⚠️ 模糊訊號：需人工確認」。
+- 參考知識庫 KB-05 輸出格式範例集。`,
+    outputFormat: `每段摘要須對應來源語句，包含：【原文摘錄】【內容歸類】【任務分層（交辦人→負責人→時程）】。`,
+    builtIn: true,
+    version: 1,
+  },
+];
+
+export const findBuiltInModule = (id: string) => BUILT_IN_MODULES.find(m => m.id === id) ?? null;
+
+/**
+ * Module ids that resolve to nothing, e.g. a deleted custom module, are
+ * refused: a result without its module's prompt could not be explained later.
+ */
+export const UNKNOWN_MODULE_ERROR = '找不到此分析模組，可能已被刪除';
+
+/** Shown for results of custom modules that have since been deleted. */
+export const DELETED_MODULE_NAME = '已刪除的模組';
+
+export function buildModuleSystemPrompt(module: AnalysisModuleDefinition): string {
+  const sections = [MODULE_BASE_PROMPT.text];
+  if (module.prompt.trim()) sections.push(`【模組規範：${module.name}】\n${module.prompt.trim()}`);
+  if (module.outputFormat.trim()) sections.push(`【輸出格式】\n${module.outputFormat.trim()}`);
+  return sections.join('\n\n');
+}
+
+/** Task line for custom modules, which have no hand-written `task`. */
+export const customModuleTask = (name: string) => `執行「自訂模組：${name}」`;
+
+/** Maps an `analysis_modules` row onto a module definition. */
+export function customModuleFromRow(row: {
+  id: string; name: string; icon: string; prompt: string; output_format: string; revision: number; user_id?: string;
+}): AnalysisModuleDefinition {
+  return {
+    id: row.id,
+    name: row.name,
+    icon: row.icon,
+    task: customModuleTask(row.name),
+    prompt: row.prompt,
+    outputFormat: row.output_format,
+    builtIn: false,
+    version: row.revision,
+    ...(row.user_id ? { ownerId: row.user_id } : {}),
+  };
+}
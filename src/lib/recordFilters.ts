@@ -0,0 +1,66 @@
+// Sidebar filtering of meeting records by folder, tags, date range and
+// participant. Participants come from each meeting's roster, so aliases match.
+import type { MeetingMetadata } from '../types.ts';
+import { resolveSpeaker, rosterOf } from './roster.ts';
+import { speakerKey } from './chunking.ts';
+
+/** Folder filter value for meetings that are not in any folder. */
+export const UNFILED = 'unfiled';
+
+export interface RecordFilter {
+  /** A folder id, UNFILED, or null for every meeting. */
+  folderId: string | null;
+  /** Meetings must carry all of these tags. */
+  tagIds: string[];
+  /** Inclusive YYYY-MM-DD bounds on the meeting date; empty leaves that side open. */
+  from: string;
+  to: string;
+  participant: string;
+}
+
+export const EMPTY_RECORD_FILTER: RecordFilter = { folderId: null, tagIds: [], from: '', to: '', participant: '' };
+
+export interface FilterableRecord {
+  createdAt: number;
+  metadata: MeetingMetadata;
+  folderId: string | null;
+  tagIds: string[];
+}
+
+const localDate = (time: number) => {
+  const date = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/** Number of filters set besides the folder, for the filter button badge. */
+export const countActiveFilters = (filter: RecordFilter) =>
+  filter.tagIds.length + (filter.from ? 1 : 0) + (filter.to ? 1 : 0) + (filter.participant ? 1 : 0);
+
+export function matchesFilter(record: FilterableRecord, filter: RecordFilter): boolean {
+  if (filter.folderId === UNFILED) {
+    if (record.folderId) return false;
+  } else if (filter.folderId && record.folderId !== filter.folderId) {
+    return false;
+  }
+  if (!filter.tagIds.every(id => record.tagIds.includes(id))) return false;
+  const date = localDate(record.createdAt);
+  if (filter.from && date < filter.from) return false;
+  if (filter.to && date > filter.to) return false;
+  if (filter.participant && !resolveSpeaker(rosterOf(record.metadata), filter.participant)) return false;
+  return true;
+}
+
+/** Everyone on the records' rosters, most frequent first, for the participant picker. */
+export function listParticipants(records: FilterableRecord[]): string[] {
+  const counts = new Map<string, { name: string; count: number }>();
+  for (const record of records) {
+    for (const person of rosterOf(record.metadata)) {
+      const key = speakerKey(person.name);
+      const entry = counts.get(key);
+      if (entry) entry.count++;
+      else counts.set(key, { name: person.name, count: 1 });
+    }
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name)).map(entry => entry.name);
+}
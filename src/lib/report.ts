@@ -0,0 +1,266 @@
+// Meeting report assembly for export. A report is a cover (from the meeting
+// metadata), a table of contents and one section per exported result. The
+// Markdown, DOCX and print renderers all walk the same section bodies through
+// `parseMarkdownBlocks`, so the three formats keep the same structure.
+import type { ChatMessage, MeetingMetadata, SpeakerProfile } from '../types.ts';
+import { formatRosterSummary, formatSpeakerProfile, rosterOf } from './roster.ts';
+
+export interface ReportSection {
+  /** Anchor used by the table of contents; unique within a report. */
+  id: string;
+  title: string;
+  /** Provenance line under the heading (version, prompt). */
+  caption?: string;
+  /** Markdown body; its headings are nested under the section heading. */
+  body: string;
+}
+
+export interface MeetingReport {
+  title: string;
+  metadata: MeetingMetadata;
+  meetingDate: number;
+  generatedAt: number;
+  sections: ReportSection[];
+}
+
+/** Traditional Chinese fonts: Word's standard UI font, and a print stack where the first installed font wins. */
+export const REPORT_FONTS = {
+  docx: 'Microsoft JhengHei',
+  css: '"Noto Sans TC", "Noto Sans CJK TC", "PingFang TC", "Microsoft JhengHei", "Heiti TC", sans-serif',
+};
+
+const formatDate = (time: number) => new Date(time).toLocaleDateString('zh-TW', { year: 'numeric', month: 'long', day: 'numeric' });
+
+// ─── Sections ─────────────────────────────────────────────────────────────────
+
+export function transcriptSection(version: { versionNumber: number; correctedTranscript: string; source: 'ai' | 'manual'; promptVersion?: string }): ReportSection {
+  const origin = version.source === 'manual' ? '人工編輯' : `AI 校正${version.promptVersion ? `（提示詞 ${version.promptVersion}）` : ''}`;
+  return {
+    id: 'transcript',
+    title: '校正逐字稿',
+    caption: `版本 ${version.versionNumber} · ${origin}`,
+    body: version.correctedTranscript,
+  };
+}
+
+/** A module result: the analysis, followed by any follow-up questions asked in its chat. */
+export function moduleSection(
+  module: { id: string; name: string },
+  version: { versionNumber: number; messages: ChatMessage[]; promptVersion?: string; focusSpeaker?: SpeakerProfile },
+): ReportSection {
+  const [analysis, ...followUps] = version.messages;
+  const parts = [analysis?.text ?? ''];
+  for (const msg of followUps) {
+    parts.push(msg.role === 'user' ? `### 追問：${msg.text.trim()}` : msg.text);
+  }
+  const caption = [
+    `版本 ${version.versionNumber}`,
+    version.focusSpeaker && `對象：${formatSpeakerProfile(version.focusSpeaker)}`,
+    version.promptVersion && `提示詞 ${version.promptVersion}`,
+  ].filter(Boolean).join(' · ');
+  return { id: `module-${module.id}`, title: module.name, caption, body: parts.join('\n\n') };
+}
+
+/** Label/value rows of the cover page; empty fields are left out. */
+export function coverFields(report: MeetingReport): [string, string][] {
+  const { metadata } = report;
+  const fields: [string, string][] = [
+    ['會議主題', metadata.subject],
+    ['會議日期', formatDate(report.meetingDate)],
+    ['與會者', formatRosterSummary(metadata.roster ?? rosterOf(metadata)) || metadata.speakers],
+    ['關鍵字', metadata.keywords],
+    ['專有名詞', metadata.terminology],
+    ['會議長度', metadata.length],
+    ['匯出時間', new Date(report.generatedAt).toLocaleString('zh-TW')],
+  ];
+  return fields.filter(([, value]) => value?.trim());
+}
+
+export function reportFileName(report: MeetingReport, extension: string): string {
+  const safeTitle = (report.title.trim() || '會議報告').replace(/[\\/:*?"<>|]+/g, '_');
+  const date = new Date(report.meetingDate).toISOString().slice(0, 10);
+  return `${safeTitle}_${date}.${extension}`;
+}
+
+// ─── Markdown blocks ──────────────────────────────────────────────────────────
+
+export interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+}
+
+export type ReportBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: { text: string; depth: number }[] }
+  | { type: 'quote'; text: string }
+  | { type: 'table'; header: string[]; rows: string[][] }
+  | { type: 'rule' };
+
+/** Splits bold, italic and inline code the same way the on-screen renderer does. */
+export function parseInlineRuns(text: string): InlineRun[] {
+  return text.split(/(\*\*\*.*?\*\*\*|\*\*.*?\*\*|\*.*?\*|`.*?`)/g)
+    .filter(token => token !== '')
+    .map(token => {
+      if (token.startsWith('***') && token.endsWith('***') && token.length > 6) return { text: token.slice(3, -3), bold: true, italic: true };
+      if (token.startsWith('**') && token.endsWith('**') && token.length > 4) return { text: token.slice(2, -2), bold: true };
+      if (token.startsWith('*') && token.endsWith('*') && token.length > 2) return { text: token.slice(1, -1), italic: true };
+      if (token.startsWith('`') && token.endsWith('`') && token.length > 2) return { text: token.slice(1, -1), code: true };
+      return { text: token };
+    });
+}
+
+export const plainText = (text: string) => parseInlineRuns(text).map(run => run.text).join('');
+
+const TABLE_SEPARATOR_RE = /^\|[-| :]+\|$/;
+const LIST_RE = /^(\s*)([-*+]|\d+\.) (.*)$/;
+
+const parseRow = (row: string) => row.trim().split('|').slice(1, -1).map(cell => cell.trim());
+
+/** Line-based block parser covering the Markdown the analysis modules produce. */
+export function parseMarkdownBlocks(markdown: string): ReportBlock[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: ReportBlock[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith('|') && TABLE_SEPARATOR_RE.test(lines[i + 1]?.trim() ?? '')) {
+      const header = parseRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim().startsWith('|')) rows.push(parseRow(lines[i++]));
+      blocks.push({ type: 'table', header, rows });
+      continue;
+    }
+
+    const list = line.match(LIST_RE);
+    if (list) {
+      const ordered = /\d/.test(list[2]);
+      const items: { text: string; depth: number }[] = [];
+      let match: RegExpMatchArray | null;
+      while (i < lines.length && (match = lines[i].match(LIST_RE)) && /\d/.test(match[2]) === ordered) {
+        items.push({ text: match[3], depth: Math.min(Math.floor(match[1].length / 2), 3) });
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    const heading = trimmed.match(/^(#{1,6}) (.*)$/);
+    if (heading) blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+    else if (trimmed.startsWith('>')) blocks.push({ type: 'quote', text: trimmed.replace(/^>\s?/, '') });
+    else if (/^---+$/.test(trimmed)) blocks.push({ type: 'rule' });
+    else if (trimmed) blocks.push({ type: 'paragraph', text: trimmed });
+    i++;
+  }
+  return blocks;
+}
+
+/**
+ * Pushes a section body's headings below the section heading so module output
+ * that starts at `#` does not compete with the report's own structure.
+ */
+export const nestHeadings = (blocks: ReportBlock[], sectionLevel: number): ReportBlock[] =>
+  blocks.map(block => block.type === 'heading' ? { ...block, level: Math.min(block.level + sectionLevel, 6) } : block);
+
+// ─── Markdown export ──────────────────────────────────────────────────────────
+
+const escapeTableCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\n+/g, ' ');
+
+export function buildReportMarkdown(report: MeetingReport): string {
+  const lines: string[] = [`# ${report.title}`, '', '| 項目 | 內容 |', '| --- | --- |'];
+  for (const [label, value] of coverFields(report)) lines.push(`| ${label} | ${escapeTableCell(value)} |`);
+  lines.push('', '## 目錄', '');
+  report.sections.forEach((section, idx) => lines.push(`${idx + 1}. [${section.title}](#${section.id})`));
+
+  report.sections.forEach((section, idx) => {
+    lines.push('', '---', '', `<a id="${section.id}"></a>`, '', `## ${idx + 1}. ${section.title}`, '');
+    if (section.caption) lines.push(`*${section.caption}*`, '');
+    // Demote body headings below the section's `##`
+    lines.push(section.body.trim().replace(/^(#{1,6}) /gm, (_, hashes: string) => `${'#'.repeat(Math.min(hashes.length + 2, 6))} `));
+  });
+  return `${lines.join('\n')}\n`;
+}
+
+// ─── Print (PDF) export ───────────────────────────────────────────────────────
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const inlineHtml = (text: string) =>
+  parseInlineRuns(text).map(run => {
+    let html = escapeHtml(run.text);
+    if (run.code) html = `<code>${html}</code>`;
+    if (run.italic) html = `<em>${html}</em>`;
+    if (run.bold) html = `<strong>${html}</strong>`;
+    return html;
+  }).join('');
+
+function blocksHtml(blocks: ReportBlock[]): string {
+  return blocks.map(block => {
+    switch (block.type) {
+      case 'heading': return `<h${block.level}>${inlineHtml(block.text)}</h${block.level}>`;
+      case 'paragraph': return `<p>${inlineHtml(block.text)}</p>`;
+      case 'quote': return `<blockquote>${inlineHtml(block.text)}</blockquote>`;
+      case 'rule': return '<hr>';
+      case 'list': {
+        const tag = block.ordered ? 'ol' : 'ul';
+        const items = block.items.map(item => `<li style="margin-left:${item.depth * 1.5}em">${inlineHtml(item.text)}</li>`).join('');
+        return `<${tag}>${items}</${tag}>`;
+      }
+      case 'table': {
+        const head = block.header.map(cell => `<th>${inlineHtml(cell)}</th>`).join('');
+        const body = block.rows.map(row => `<tr>${row.map(cell => `<td>${inlineHtml(cell)}</td>`).join('')}</tr>`).join('');
+        return `<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`;
+      }
+    }
+  }).join('\n');
+}
+
+const PRINT_CSS = `
+@page { size: A4; margin: 20mm 18mm; }
+body { font-family: ${REPORT_FONTS.css}; font-size: 10.5pt; line-height: 1.7; color: #1a1a1a; margin: 0; }
+.cover { page-break-after: always; padding-top: 30vh; }
+.cover h1 { font-size: 26pt; margin: 0 0 1.5em; }
+.cover table { border: none; }
+.cover th, .cover td { border: none; padding: 0.3em 1em 0.3em 0; vertical-align: top; }
+.cover th { color: #666; font-weight: 600; white-space: nowrap; }
+.toc { page-break-after: always; }
+.toc ol { padding-left: 1.5em; }
+.toc a { color: inherit; text-decoration: none; }
+section { page-break-before: always; }
+section:first-of-type { page-break-before: auto; }
+.caption { color: #666; font-size: 9pt; margin-top: -0.5em; }
+h1, h2, h3, h4, h5, h6 { page-break-after: avoid; line-height: 1.4; }
+h2 { font-size: 18pt; border-bottom: 1px solid #ddd; padding-bottom: 0.2em; }
+table { border-collapse: collapse; width: 100%; margin: 0.8em 0; page-break-inside: avoid; }
+th, td { border: 1px solid #ccc; padding: 0.35em 0.6em; text-align: left; }
+blockquote { border-left: 3px solid #bbb; margin: 0.6em 0; padding-left: 1em; color: #555; font-style: italic; }
+code { font-family: ui-monospace, monospace; font-size: 0.9em; background: #f3f3f3; padding: 0 0.25em; }
+`;
+
+/** Self-contained HTML document laid out for the browser's print-to-PDF. */
+export function buildReportHtml(report: MeetingReport): string {
+  const cover = coverFields(report).map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('');
+  const toc = report.sections.map(section => `<li><a href="#${section.id}">${escapeHtml(section.title)}</a></li>`).join('');
+  const sections = report.sections.map((section, idx) => `
+<section id="${section.id}">
+<h2>${idx + 1}. ${escapeHtml(section.title)}</h2>
+${section.caption ? `<p class="caption">${escapeHtml(section.caption)}</p>` : ''}
+${blocksHtml(nestHeadings(parseMarkdownBlocks(section.body), 2))}
+</section>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="zh-Hant">
+<head><meta charset="utf-8"><title>${escapeHtml(report.title)}</title><style>${PRINT_CSS}</style></head>
+<body>
+<div class="cover"><h1>${escapeHtml(report.title)}</h1><table>${cover}</table></div>
+<nav class="toc"><h2>目錄</h2><ol>${toc}</ol></nav>
+${sections}
+</body>
+</html>`;
+}
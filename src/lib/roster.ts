@@ -0,0 +1,89 @@
+// Structured speaker roster of a meeting: canonical names, aliases (including
+// ASR misspellings), roles and organizations. Shared with the gemini-proxy
+// edge function.
+import type { SpeakerProfile } from '../types.ts';
+import { parseTranscript, serializeTranscript } from './transcript.ts';
+import { speakerKey } from './chunking.ts';
+
+const LIST_SEPARATOR_RE = /[,，、;；\n]+/;
+
+export const createSpeakerProfile = (name = ''): SpeakerProfile => ({ name, aliases: [] });
+
+/** Splits a comma-separated alias field into trimmed, de-duplicated names. */
+export function parseAliases(text: string): string[] {
+  return Array.from(new Set(text.split(LIST_SEPARATOR_RE).map(a => a.trim()).filter(Boolean)));
+}
+
+/**
+ * Reads the legacy free-text attendee list, e.g. 「王經理（主持人）、李律師」.
+ * A parenthesised suffix becomes the role.
+ */
+export function parseSpeakerList(text: string): SpeakerProfile[] {
+  return parseAliases(text).map(entry => {
+    const match = entry.match(/^(.+?)\s*[（(]([^）)]+)[）)]$/);
+    return match ? { name: match[1].trim(), aliases: [], role: match[2].trim() } : createSpeakerProfile(entry);
+  });
+}
+
+/** Drops rows without a name and aliases that repeat the name. */
+export function cleanRoster(roster: SpeakerProfile[]): SpeakerProfile[] {
+  return roster
+    .map(p => ({
+      ...p,
+      name: p.name.trim(),
+      aliases: p.aliases.map(a => a.trim()).filter(a => a && speakerKey(a) !== speakerKey(p.name)),
+      role: p.role?.trim() || undefined,
+      organization: p.organization?.trim() || undefined,
+    }))
+    .filter(p => p.name);
+}
+
+/** The roster of a meeting, falling back to the legacy free-text list. */
+export function rosterOf(metadata: { speakers?: string; roster?: SpeakerProfile[] } | undefined): SpeakerProfile[] {
+  if (metadata?.roster?.length) return cleanRoster(metadata.roster);
+  return parseSpeakerList(metadata?.speakers || '');
+}
+
+/** 「王大明（經理，ABC 公司）」 */
+export function formatSpeakerProfile(profile: SpeakerProfile): string {
+  const details = [profile.role, profile.organization].filter(Boolean).join('，');
+  return details ? `${profile.name}（${details}）` : profile.name;
+}
+
+/** Free-text form stored in `MeetingMetadata.speakers`. */
+export const formatRosterSummary = (roster: SpeakerProfile[]) => cleanRoster(roster).map(formatSpeakerProfile).join('、');
+
+/** One line per person mapping every alias onto the canonical name, for the correction prompt. */
+export function formatRosterForPrompt(roster: SpeakerProfile[]): string {
+  return cleanRoster(roster)
+    .map(p => {
+      const aliases = p.aliases.length > 0 ? `；逐字稿中的「${p.aliases.join('」「')}」皆指此人` : '';
+      return `- ${p.name}${p.role || p.organization ? `：${[p.role, p.organization].filter(Boolean).join('，')}` : ''}${aliases}`;
+    })
+    .join('\n');
+}
+
+/** Finds the person a speaker label refers to, by name or alias. */
+export function resolveSpeaker(roster: SpeakerProfile[], label: string): SpeakerProfile | null {
+  const key = speakerKey(label);
+  return roster.find(p => speakerKey(p.name) === key || p.aliases.some(a => speakerKey(a) === key)) ?? null;
+}
+
+/** Renames turns whose speaker matches a roster alias to the canonical name. */
+export function applyRoster(text: string, roster: SpeakerProfile[]): string {
+  const people = cleanRoster(roster);
+  const parsed = parseTranscript(text);
+  if (people.length === 0 || parsed.turns.length === 0) return text;
+  return serializeTranscript({
+    ...parsed,
+    turns: parsed.turns.map(turn => ({ ...turn, speaker: resolveSpeaker(people, turn.speaker)?.name ?? turn.speaker })),
+  });
+}
+
+/** Adds detected transcript speakers that the roster does not cover yet. */
+export function mergeDetectedSpeakers(roster: SpeakerProfile[], detected: string[]): SpeakerProfile[] {
+  return detected.reduce(
+    (merged, name) => (name.trim() && !resolveSpeaker(merged, name) ? [...merged, createSpeakerProfile(name.trim())] : merged),
+    roster,
+  );
+}
@@ -0,0 +1,66 @@
+// Query parsing and snippet highlighting for meeting search. Matching itself
+// happens in the `search_meetings` database function (substring matching over
+// trigram indexes), so terms only need splitting, not word segmentation.
+
+export type SearchMatchKind = 'title' | 'metadata' | 'raw' | 'transcript' | 'chat';
+
+export const SEARCH_KIND_LABELS: Record<SearchMatchKind, string> = {
+  title: '會議名稱',
+  metadata: '會議資訊',
+  raw: '原始逐字稿',
+  transcript: '校正逐字稿',
+  chat: '模組分析',
+};
+
+const CJK_RE = /[\u3400-\u9fff\uf900-\ufaff]/;
+
+/**
+ * Splits a query into terms that must all match. Besides whitespace, a switch
+ * between Chinese and Latin text starts a new term, so 「法務討論NDA條款」 finds
+ * text that writes "NDA" with spaces around it.
+ */
+export function parseSearchQuery(query: string): string[] {
+  const terms: string[] = [];
+  for (const word of query.trim().split(/\s+/)) {
+    let current = '';
+    let currentIsCjk: boolean | null = null;
+    for (const char of word) {
+      const isCjk = CJK_RE.test(char);
+      if (current && isCjk !== currentIsCjk) {
+        terms.push(current);
+        current = '';
+      }
+      current += char;
+      currentIsCjk = isCjk;
+    }
+    if (current) terms.push(current);
+  }
+  const seen = new Set<string>();
+  return terms.filter(term => {
+    const key = term.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Splits `text` into plain and matching segments, case-insensitively, longest terms first. */
+export function highlightSegments(text: string, terms: string[]): HighlightSegment[] {
+  const usable = terms.filter(Boolean).sort((a, b) => b.length - a.length);
+  if (usable.length === 0) return [{ text, match: false }];
+  const re = new RegExp(`(${usable.map(escapeRegExp).join('|')})`, 'gi');
+  return text.split(re)
+    .filter(part => part !== '')
+    .map(part => ({ text: part, match: usable.some(term => term.toLowerCase() === part.toLowerCase()) }));
+}
+
+/** Collapses line breaks and Markdown markers so a snippet reads as one line. */
+export const cleanSnippet = (snippet: string) =>
+  snippet.replace(/\*\*|`|^#+\s*/gm, '').replace(/\s+/g, ' ').trim();
@@ -0,0 +1,53 @@
+// Read-only share links for a meeting report. The share-link edge function
+// returns a `SharedReportPayload`; the public page turns it into the same
+// report sections the exporters use.
+import type { ChatMessage, MeetingMetadata, SpeakerProfile } from '../types.ts';
+import { MeetingReport, ReportSection, moduleSection, transcriptSection } from './report.ts';
+
+export interface SharedReportPayload {
+  title: string;
+  metadata: MeetingMetadata;
+  meetingDate: number;
+  transcript: { versionNumber: number; correctedTranscript: string; source: 'ai' | 'manual'; promptVersion?: string } | null;
+  modules: {
+    moduleId: string;
+    name: string;
+    versionNumber: number;
+    messages: ChatMessage[];
+    promptVersion?: string;
+    focusSpeaker?: SpeakerProfile;
+  }[];
+  /** When the link stops working; null if it never expires. */
+  expiresAt: number | null;
+}
+
+/** Link lifetimes offered when sharing; 0 never expires. */
+export const SHARE_EXPIRY_OPTIONS: { days: number; label: string }[] = [
+  { days: 0, label: '永不過期' },
+  { days: 1, label: '1 天' },
+  { days: 7, label: '7 天' },
+  { days: 30, label: '30 天' },
+];
+
+export function shareExpiry(days: number, now = Date.now()): string | null {
+  return days > 0 ? new Date(now + days * 24 * 60 * 60 * 1000).toISOString() : null;
+}
+
+export const shareLinkUrl = (token: string, origin: string) => `${origin}/share/${encodeURIComponent(token)}`;
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+export function shareLinkStatus(link: { expiresAt: number | null; revokedAt: number | null }, now = Date.now()): ShareLinkStatus {
+  if (link.revokedAt !== null) return 'revoked';
+  return link.expiresAt !== null && link.expiresAt <= now ? 'expired' : 'active';
+}
+
+/** The shared transcript first, then the modules in the order they were picked. */
+export function sharedReport(payload: SharedReportPayload, generatedAt = Date.now()): MeetingReport {
+  const sections: ReportSection[] = [];
+  if (payload.transcript) sections.push(transcriptSection(payload.transcript));
+  for (const module of payload.modules) {
+    sections.push(moduleSection({ id: module.moduleId, name: module.name }, module));
+  }
+  return { title: payload.title, metadata: payload.metadata, meetingDate: payload.meetingDate, generatedAt, sections };
+}
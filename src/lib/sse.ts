@@ -0,0 +1,41 @@
+// Server-sent event helpers shared by the gemini-proxy edge function (reading
+// the gateway stream, writing its own) and the web client (reading the proxy).
+
+import type { AiErrorPayload } from './aiErrors.ts';
+
+/** Events the gemini-proxy emits when called with `stream: true`. */
+export type ProxyStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'progress'; completed: number; total: number }
+  /** A model call failed and is retried after `delayMs`; text streamed by the failed attempt is void. */
+  | { type: 'retry'; attempt: number; delayMs: number; error: string }
+  | { type: 'done'; text: string; correctionLog?: string | null; promptVersion?: string; model?: string }
+  | ({ type: 'error' } & AiErrorPayload);
+
+export const encodeSseEvent = (event: ProxyStreamEvent) => `data: ${JSON.stringify(event)}\n\n`;
+
+/** Yields the `data:` payload of every event in an SSE byte stream. */
+export async function* readSseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? '' : events.pop() ?? '';
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).replace(/^ /, ''))
+          .join('\n');
+        if (data) yield data;
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,150 @@
+// Structured transcript model shared by the web app and the gemini-proxy edge
+// function. Keep this module free of path aliases and browser APIs so Deno can
+// import it directly (hence the explicit `.ts` extensions).
+import type { Transcript, TranscriptTurn, UncertaintyKind, UncertaintyMarker } from '../types.ts';
+
+// **說話者 HH:MM:SS** — the format requested by the correction prompt.
+const TIMED_HEADER_RE = /^\*\*(.+?)\s+(\d{1,2}:\d{2}(?::\d{2})?)\*\*\s*$/;
+// **說話者** HH:MM:SS — a common variant the model falls back to.
+const SPLIT_HEADER_RE = /^\*\*(.+?)\*\*\s+(\d{1,2}:\d{2}(?::\d{2})?)\s*$/;
+// **說話者** — turns without a timestamp.
+const BARE_HEADER_RE = /^\*\*([^*。，！？,.!?:：]{1,40})\*\*\s*$/;
+const HEADING_RE = /^#{1,6}\s/;
+const UNCERTAINTY_RE = /\[(文字存疑|語意存疑)(?:\s*[/／]\s*(文字存疑|語意存疑))?(?:\s*[:：]\s*([^\]]*))?\]/g;
+
+// ─── Timestamps ───────────────────────────────────────────────────────────────
+
+export function parseTimestamp(value: string): number | null {
+  const parts = value.trim().split(':').map(p => Number(p));
+  if (parts.length < 2 || parts.length > 3 || parts.some(p => !Number.isFinite(p) || p < 0)) return null;
+  const [h, m, s] = parts.length === 3 ? parts : [0, parts[0], parts[1]];
+  if (m >= 60 || s >= 60) return null;
+  return h * 3600 + m * 60 + s;
+}
+
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(total / 3600))}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+}
+
+// ─── Uncertainty markers ──────────────────────────────────────────────────────
+
+export function findUncertainties(text: string): UncertaintyMarker[] {
+  const markers: UncertaintyMarker[] = [];
+  for (const match of text.matchAll(UNCERTAINTY_RE)) {
+    const kinds = [match[1], match[2]].filter(Boolean) as UncertaintyKind[];
+    const note = match[3]?.trim();
+    markers.push({ kinds, offset: match.index ?? 0, raw: match[0], ...(note ? { note } : {}) });
+  }
+  return markers;
+}
+
+// ─── Parser ───────────────────────────────────────────────────────────────────
+
+function matchHeader(line: string): { speaker: string; time: string | null } | null {
+  const trimmed = line.trim();
+  const timed = trimmed.match(TIMED_HEADER_RE) || trimmed.match(SPLIT_HEADER_RE);
+  if (timed) return { speaker: timed[1].trim(), time: timed[2] };
+  const bare = trimmed.match(BARE_HEADER_RE);
+  if (bare) return { speaker: bare[1].trim(), time: null };
+  return null;
+}
+
+export function createTurn(speaker: string, startSeconds: number | null, text: string): TranscriptTurn {
+  const body = text.trim();
+  return {
+    speaker,
+    startTime: startSeconds === null ? null : formatTimestamp(startSeconds),
+    startSeconds,
+    text: body,
+    uncertainties: findUncertainties(body),
+  };
+}
+
+/**
+ * Parses corrected-transcript Markdown (`**說話者 HH:MM:SS**` followed by the
+ * turn text) into speaker turns. Text before the first turn is kept as the
+ * preamble; the first Markdown heading after a turn starts the appendix
+ * (e.g. the correction log).
+ */
+export function parseTranscript(text: string): Transcript {
+  const lines = (text || '').replace(/\r\n?/g, '\n').split('\n');
+  const preamble: string[] = [];
+  const appendix: string[] = [];
+  const turns: TranscriptTurn[] = [];
+  let current: { speaker: string; seconds: number | null; lines: string[] } | null = null;
+
+  const flush = () => {
+    if (current) turns.push(createTurn(current.speaker, current.seconds, current.lines.join('\n')));
+    current = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (turns.length > 0 || current) {
+      if (HEADING_RE.test(line.trim())) {
+        flush();
+        appendix.push(...lines.slice(i));
+        break;
+      }
+    }
+    const header = matchHeader(line);
+    if (header) {
+      flush();
+      current = { speaker: header.speaker, seconds: header.time ? parseTimestamp(header.time) : null, lines: [] };
+    } else if (current) {
+      current.lines.push(line);
+    } else {
+      preamble.push(line);
+    }
+  }
+  flush();
+
+  return { preamble: preamble.join('\n').trim(), turns, appendix: appendix.join('\n').trim() };
+}
+
+// ─── Serializer ───────────────────────────────────────────────────────────────
+
+export function serializeTurn(turn: TranscriptTurn): string {
+  const header = turn.startTime ? `**${turn.speaker} ${turn.startTime}**` : `**${turn.speaker}**`;
+  return `${header}\n\n${turn.text}`;
+}
+
+export function serializeTranscript(transcript: Transcript): string {
+  return [transcript.preamble, ...transcript.turns.map(serializeTurn), transcript.appendix]
+    .filter(part => part && part.trim())
+    .join('\n\n');
+}
+
+/** Re-emits model output in the canonical turn format; text without turns is returned unchanged. */
+export function normalizeTranscript(text: string): string {
+  const parsed = parseTranscript(text);
+  return parsed.turns.length > 0 ? serializeTranscript(parsed) : text;
+}
+
+// ─── Queries ──────────────────────────────────────────────────────────────────
+
+export function listSpeakers(transcript: Transcript): string[] {
+  return Array.from(new Set(transcript.turns.map(t => t.speaker)));
+}
+
+export function countUncertainties(transcript: Transcript): number {
+  return transcript.turns.reduce((sum, t) => sum + t.uncertainties.length, 0);
+}
+
+// ─── Correction output ────────────────────────────────────────────────────────
+
+const CORRECTION_LOG_HEADING_RE = /^#{1,6}\s*(?:📝\s*)?重大修改記錄.*$/m;
+
+/**
+ * Splits correction-engine output into the corrected transcript and the
+ * `### 📝 重大修改記錄` change log (returned without its heading).
+ */
+export function splitCorrectionOutput(text: string): { transcript: string; correctionLog: string | null } {
+  const match = CORRECTION_LOG_HEADING_RE.exec(text || '');
+  if (!match) return { transcript: (text || '').trim(), correctionLog: null };
+  const transcript = text.slice(0, match.index).replace(/\n-{3,}\s*$/, '').trim();
+  const correctionLog = text.slice(match.index + match[0].length).trim();
+  return { transcript, correctionLog: correctionLog || null };
+}
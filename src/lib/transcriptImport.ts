@@ -0,0 +1,224 @@
+// Normalizes ASR exports (SRT, WebVTT, timestamped text, Whisper-style JSON)
+// into the canonical **說話者 HH:MM:SS** raw-transcript format.
+import type { Transcript } from '../types.ts';
+import { createTurn, formatTimestamp, parseTimestamp, parseTranscript, serializeTranscript, listSpeakers } from './transcript.ts';
+
+export type TranscriptFormat = 'srt' | 'vtt' | 'json' | 'timestamped' | 'markdown' | 'plain';
+
+export interface ImportedSegment {
+  speaker: string | null;
+  start: number | null;
+  end: number | null;
+  text: string;
+}
+
+export interface TranscriptImportResult {
+  format: TranscriptFormat;
+  text: string;
+  transcript: Transcript;
+  speakers: string[];
+  durationSeconds: number | null;
+}
+
+export const UNKNOWN_SPEAKER = '未標示說話者';
+
+export const TRANSCRIPT_FILE_ACCEPT = '.srt,.vtt,.txt,.json,.md';
+
+export const TRANSCRIPT_FORMAT_LABELS: Record<TranscriptFormat, string> = {
+  srt: 'SRT 字幕',
+  vtt: 'WebVTT 字幕',
+  json: 'ASR JSON',
+  timestamped: '時間戳文字',
+  markdown: '標準逐字稿',
+  plain: '純文字',
+};
+
+const CUE_TIME_RE = /^\s*((?:\d{1,2}:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\s*-->\s*((?:\d{1,2}:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)/;
+const TIMESTAMPED_LINE_RE = /^\s*\[?(\d{1,2}:\d{2}(?::\d{2})?)\]?\s+(.*)$/;
+const SPEAKER_PREFIX_RE = /^([^:：\s][^:：\n]{0,29})[:：]\s*(.+)$/s;
+// Sentence punctuation never appears inside a name ("Dr. Smith" keeps its period)
+const LABEL_PUNCTUATION_RE = /[，。、！？；,!?;「」『』（）()【】[\]"“”…]/;
+const CJK_RE = /[\u3400-\u9fff]/;
+/** Field labels in notes and slides that look like `Speaker: text` but are not people. */
+const NON_SPEAKER_LABELS = new Set([
+  '注意', '提醒', '備註', '附註', '說明', '時間', '日期', '地點', '主題', '議題', '議程', '結論', '決議', '重點',
+  '摘要', '問題', '答案', '回答', '例如', '舉例', '原因', '結果', '目的', '背景', '待辦', '行動', '參考', '網址',
+  'note', 'notes', 'time', 'date', 'location', 'topic', 'agenda', 'summary', 'question', 'answer', 'e.g', 'example', 'url',
+]);
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function parseCueTime(value: string): number | null {
+  const [clock, fraction = '0'] = value.trim().split(/[.,]/);
+  const seconds = parseTimestamp(clock);
+  if (seconds === null) return null;
+  return seconds + Number(`0.${fraction}`);
+}
+
+/**
+ * Whether the text before a colon reads as a speaker: short, free of sentence
+ * punctuation and not a common field label such as 注意 or 時間.
+ */
+export function isSpeakerLabel(label: string): boolean {
+  const name = label.trim();
+  if (!name || /^\d+$/.test(name) || LABEL_PUNCTUATION_RE.test(name)) return false;
+  if (NON_SPEAKER_LABELS.has(name.toLowerCase())) return false;
+  return CJK_RE.test(name) ? name.length <= 8 : name.split(/\s+/).length <= 4;
+}
+
+function splitSpeaker(text: string): { speaker: string | null; text: string } {
+  const voice = text.match(/^<v(?:\.[^\s>]+)*\s+([^>]+)>([\s\S]*?)(?:<\/v>)?$/);
+  if (voice) return { speaker: voice[1].trim(), text: voice[2].trim() };
+  const prefixed = text.match(SPEAKER_PREFIX_RE);
+  if (prefixed && isSpeakerLabel(prefixed[1])) return { speaker: prefixed[1].trim(), text: prefixed[2].trim() };
+  return { speaker: null, text };
+}
+
+const stripTags = (text: string) => text.replace(/<\/?(?!v[\s.>])[^>]+>/g, '').trim();
+
+// ─── Format parsers ───────────────────────────────────────────────────────────
+
+/** Parses SRT and WebVTT cues; both use `start --> end` timing lines. */
+export function parseSubtitleCues(content: string): ImportedSegment[] {
+  const blocks = content.replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+  const segments: ImportedSegment[] = [];
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(l => l.trim());
+    const timingIdx = lines.findIndex(l => CUE_TIME_RE.test(l));
+    if (timingIdx === -1) continue;
+    const timing = lines[timingIdx].match(CUE_TIME_RE)!;
+    const body = stripTags(lines.slice(timingIdx + 1).join('\n'));
+    if (!body) continue;
+    const { speaker, text } = splitSpeaker(body);
+    segments.push({ speaker, start: parseCueTime(timing[1]), end: parseCueTime(timing[2]), text: stripTags(text) });
+  }
+  return segments;
+}
+
+/** Parses `[00:01:02] Speaker: text` lines; untimed lines continue the previous segment. */
+export function parseTimestampedText(content: string): ImportedSegment[] {
+  const segments: ImportedSegment[] = [];
+  for (const line of content.replace(/\r\n?/g, '\n').split('\n')) {
+    if (!line.trim()) continue;
+    const match = line.match(TIMESTAMPED_LINE_RE);
+    if (match) {
+      const { speaker, text } = splitSpeaker(match[2].trim());
+      segments.push({ speaker, start: parseTimestamp(match[1]), end: null, text });
+    } else if (segments.length > 0) {
+      const last = segments[segments.length - 1];
+      last.text = `${last.text}\n${line.trim()}`.trim();
+    }
+  }
+  return segments;
+}
+
+interface AsrJsonSegment {
+  start?: number;
+  end?: number;
+  text?: string;
+  speaker?: string | number;
+}
+
+/**
+ * Parses Whisper-style JSON (`segments[]` with seconds, optionally WhisperX
+ * speaker labels) and AssemblyAI-style `utterances[]` with milliseconds.
+ */
+export function parseAsrJson(content: string): ImportedSegment[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('JSON 逐字稿格式錯誤，無法解析');
+  }
+  const toSegments = (items: AsrJsonSegment[], scale: number): ImportedSegment[] =>
+    items
+      .filter(item => typeof item?.text === 'string' && item.text.trim())
+      .map(item => ({
+        speaker: item.speaker === undefined || item.speaker === null ? null : String(item.speaker),
+        start: typeof item.start === 'number' ? item.start / scale : null,
+        end: typeof item.end === 'number' ? item.end / scale : null,
+        text: item.text!.trim(),
+      }));
+
+  const body = data as { utterances?: unknown; segments?: unknown; text?: unknown } | null;
+  if (Array.isArray(data)) return toSegments(data, 1);
+  if (Array.isArray(body?.utterances)) return toSegments(body.utterances, 1000);
+  if (Array.isArray(body?.segments)) return toSegments(body.segments, 1);
+  if (typeof body?.text === 'string') return [{ speaker: null, start: null, end: null, text: body.text.trim() }];
+  throw new Error('無法辨識的 JSON 逐字稿格式');
+}
+
+// ─── Detection & normalization ────────────────────────────────────────────────
+
+export function detectTranscriptFormat(fileName: string, content: string): TranscriptFormat {
+  const ext = fileName.toLowerCase().split('.').pop() || '';
+  const head = content.trimStart().slice(0, 2000);
+  if (ext === 'vtt' || head.startsWith('WEBVTT')) return 'vtt';
+  if (ext === 'srt') return 'srt';
+  if (ext === 'json' || /^(\{|\[\s*[{\]])/.test(head)) return 'json';
+  if (/^\d+\s*\n\s*\d{1,2}:\d{2}:\d{2},\d{3}\s*-->/m.test(head)) return 'srt';
+  if (parseTranscript(head).turns.length > 0) return 'markdown';
+  const lines = head.split('\n').filter(l => l.trim());
+  const timed = lines.filter(l => TIMESTAMPED_LINE_RE.test(l)).length;
+  if (timed > 0 && timed >= lines.length / 2) return 'timestamped';
+  return 'plain';
+}
+
+/** Joins consecutive segments of the same speaker, so a subtitle file yields turns rather than one per cue. */
+export function mergeSpeakerSegments(segments: ImportedSegment[]): ImportedSegment[] {
+  const merged: ImportedSegment[] = [];
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.text = `${last.text}\n${segment.text}`;
+      last.end = segment.end ?? segment.start ?? last.end;
+      last.start ??= segment.start;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+}
+
+export function segmentsToTranscript(segments: ImportedSegment[]): Transcript {
+  return {
+    preamble: '',
+    turns: mergeSpeakerSegments(segments).map(s => createTurn(s.speaker || UNKNOWN_SPEAKER, s.start === null ? null : Math.floor(s.start), s.text)),
+    appendix: '',
+  };
+}
+
+export function importTranscript(fileName: string, content: string): TranscriptImportResult {
+  const format = detectTranscriptFormat(fileName, content);
+  let transcript: Transcript;
+  let durationSeconds: number | null = null;
+
+  if (format === 'plain') {
+    transcript = { preamble: content.trim(), turns: [], appendix: '' };
+  } else if (format === 'markdown') {
+    transcript = parseTranscript(content);
+  } else {
+    const segments = format === 'json' ? parseAsrJson(content)
+      : format === 'timestamped' ? parseTimestampedText(content)
+      : parseSubtitleCues(content);
+    if (segments.length === 0) throw new Error('檔案中找不到任何逐字稿段落');
+    transcript = segmentsToTranscript(segments);
+    const ends = segments.map(s => s.end ?? s.start).filter((v): v is number => v !== null);
+    durationSeconds = ends.length > 0 ? Math.max(...ends) : null;
+  }
+
+  if (durationSeconds === null) {
+    const starts = transcript.turns.map(t => t.startSeconds).filter((v): v is number => v !== null);
+    durationSeconds = starts.length > 0 ? Math.max(...starts) : null;
+  }
+
+  return {
+    format,
+    text: transcript.turns.length > 0 ? serializeTranscript(transcript) : content.trim(),
+    transcript,
+    speakers: listSpeakers(transcript),
+    durationSeconds,
+  };
+}
+
+export const formatDuration = (seconds: number | null) => (seconds === null ? '未知' : formatTimestamp(seconds));
@@ -0,0 +1,112 @@
+// Token and cost accounting. Providers report the tokens of every model call;
+// the gemini-proxy edge function adds them up per request, prices them with the
+// provider's configured rates and settles the request's `ai_usage` row.
+// Workspace owners can cap the tokens a workspace, or each member, may use per
+// calendar month.
+import type { UsageRecord } from '../types.ts';
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Set when the provider reported nothing and the counts come from `estimateTokens`. */
+  estimated?: boolean;
+}
+
+/** USD per million tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export const EMPTY_USAGE: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    ...(a.estimated || b.estimated ? { estimated: true } : {}),
+  };
+}
+
+/** Rough count for providers that report no usage: one token per CJK character, four characters per token otherwise. */
+export function estimateTokens(text: string): number {
+  const cjk = text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+/** The OpenAI `usage` object as `TokenUsage`, or null when it is missing. */
+export function parseUsage(raw: unknown): TokenUsage | null {
+  const usage = raw as { prompt_tokens?: unknown; completion_tokens?: unknown; total_tokens?: unknown } | null | undefined;
+  if (typeof usage?.prompt_tokens !== 'number' || typeof usage?.completion_tokens !== 'number') return null;
+  const total = typeof usage.total_tokens === 'number' ? usage.total_tokens : usage.prompt_tokens + usage.completion_tokens;
+  return { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens, totalTokens: total };
+}
+
+/** Estimated USD cost; null when the model has no configured price. */
+export function costOf(usage: TokenUsage, price: ModelPrice | null | undefined): number | null {
+  if (!price) return null;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+// ─── Quotas ───────────────────────────────────────────────────────────────────
+
+/**
+ * Tokens held against the caps while a request runs: the input once as prompt
+ * and about once more as output. Replaced by the real counts when it ends.
+ */
+export const reservedTokens = (input: string) => 2 * estimateTokens(input);
+
+// ─── Dashboards ───────────────────────────────────────────────────────────────
+
+/** `YYYY-MM` of the date in UTC, the calendar the database bills quotas by. */
+export const monthKey = (date: Date | number = Date.now()) => new Date(date).toISOString().slice(0, 7);
+
+/** Start and end (exclusive) of a `YYYY-MM` month, as ISO timestamps. */
+export function monthBounds(month: string): { start: string; end: string } {
+  const [year, index] = month.split('-').map(Number);
+  return {
+    start: new Date(Date.UTC(year, index - 1, 1)).toISOString(),
+    end: new Date(Date.UTC(year, index, 1)).toISOString(),
+  };
+}
+
+export interface UsageSummary {
+  key: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Sum of the priced rows; `unpriced` counts the rest. */
+  cost: number;
+  unpriced: number;
+  estimated: boolean;
+}
+
+/** Totals per key (meeting, member, model…), largest first. */
+export function summarizeUsage(records: UsageRecord[], keyOf: (record: UsageRecord) => string): UsageSummary[] {
+  const groups = new Map<string, UsageSummary>();
+  for (const record of records) {
+    const key = keyOf(record);
+    const group = groups.get(key) ?? { key, calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0, unpriced: 0, estimated: false };
+    group.calls += record.calls;
+    group.promptTokens += record.promptTokens;
+    group.completionTokens += record.completionTokens;
+    group.totalTokens += record.totalTokens;
+    if (record.cost === null) group.unpriced++;
+    else group.cost += record.cost;
+    group.estimated ||= record.estimated;
+    groups.set(key, group);
+  }
+  return Array.from(groups.values()).sort((a, b) => b.totalTokens - a.totalTokens);
+}
+
+/** e.g. 950, 12.3K, 4.1M */
+export function formatTokens(tokens: number): string {
+  if (tokens < 1000) return String(tokens);
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(tokens < 10_000 ? 1 : 0)}K`;
+  return `${(tokens / 1_000_000).toFixed(1)}M`;
+}
+
+export const formatCost = (cost: number) => `US$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
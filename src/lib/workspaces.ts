@@ -0,0 +1,39 @@
+// Workspace roles as the client sees them. The database enforces the same
+// rules through row level security; these only decide what the UI offers.
+import type { Workspace, WorkspaceInvitation, WorkspaceRole } from '../types.ts';
+
+export const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: '擁有者',
+  editor: '編輯者',
+  viewer: '檢視者',
+};
+
+export const ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  owner: '管理成員與邀請，並可刪除任何會議',
+  editor: '新增、編輯與分析會議',
+  viewer: '只能閱讀會議與分析結果',
+};
+
+/** Query parameter that carries an invitation token, e.g. `/?invite=<token>`. */
+export const INVITE_PARAM = 'invite';
+
+export const canEditMeetings = (role: WorkspaceRole | null | undefined) => role === 'owner' || role === 'editor';
+
+export const canManageMembers = (role: WorkspaceRole | null | undefined) => role === 'owner';
+
+/** Owners may delete any meeting in the workspace, editors only their own. */
+export const canDeleteMeeting = (role: WorkspaceRole | null | undefined, isAuthor: boolean) =>
+  role === 'owner' || (role === 'editor' && isAuthor);
+
+export const inviteLink = (token: string, origin: string) => `${origin}/?${INVITE_PARAM}=${encodeURIComponent(token)}`;
+
+export type InvitationStatus = 'pending' | 'accepted' | 'expired';
+
+export function invitationStatus(invitation: Pick<WorkspaceInvitation, 'expiresAt' | 'acceptedAt'>, now = Date.now()): InvitationStatus {
+  if (invitation.acceptedAt !== null) return 'accepted';
+  return invitation.expiresAt < now ? 'expired' : 'pending';
+}
+
+/** The remembered workspace if the user still belongs to it, else the first one. */
+export const pickWorkspace = (workspaces: Workspace[], preferredId: string | null): Workspace | null =>
+  workspaces.find(w => w.id === preferredId) ?? workspaces[0] ?? null;
@@ -0,0 +1,210 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { AlertCircle, ArrowLeft, CalendarClock, Check, Clock, ListChecks, Loader2, MessageSquareQuote, X } from 'lucide-react';
+import { ActionItemStatus } from '../types';
+import { actionItemService, ActionItemPatch, ActionItemWithMeeting } from '../services/actionItemService';
+import { ACTION_ITEM_STATUSES, ACTION_ITEM_STATUS_LABELS } from '@/lib/actionItems';
+import { FollowUpSuggestion, findFollowUps, groupByOwner, isClosed, isOverdue, todayString } from '@/lib/actionTracker';
+import { splitCorrectionOutput } from '@/lib/transcript';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+type View = 'owner' | 'overdue' | 'all';
+
+const VIEW_LABELS: Record<View, string> = { owner: '依負責人', overdue: '已逾期', all: '全部' };
+
+/** Latest transcript of every later meeting in the workspaces of `recordIds`, for follow-up detection. */
+async function loadLaterTranscripts(recordIds: string[]) {
+  const { data, error } = await supabase.rpc('follow_up_transcripts', { source_records: recordIds });
+  if (error) throw new Error(error.message);
+  return (data || []).map(row => ({
+    recordId: row.record_id,
+    title: row.record_title,
+    createdAt: new Date(row.record_created_at).getTime(),
+    transcript: splitCorrectionOutput(row.corrected_transcript).transcript,
+  }));
+}
+
+// ─── Item Card ────────────────────────────────────────────────────────────────
+function TrackerItem({ item, today, suggestion, suggestionMeeting, onUpdate, onDismiss }: {
+  item: ActionItemWithMeeting;
+  today: string;
+  suggestion?: FollowUpSuggestion;
+  suggestionMeeting?: string;
+  onUpdate: (id: string, patch: ActionItemPatch) => void;
+  onDismiss: (id: string) => void;
+}) {
+  const overdue = isOverdue(item, today);
+  return (
+    <div className={`p-4 rounded-2xl bg-card border border-border space-y-2.5 ${isClosed(item.status) ? 'opacity-60' : ''}`}>
+      <div className="flex items-start gap-3">
+        <div className="flex-1 min-w-0 space-y-1">
+          <p className="text-sm font-semibold text-foreground">{item.task}</p>
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-[11px] text-muted-foreground">
+            <span>負責人：{item.owner || '未指定'}</span>
+            {item.assigner && <span>交辦人：{item.assigner}</span>}
+            {(item.dueDate || item.dueText) && (
+              <span className={`flex items-center gap-1 ${overdue ? 'text-destructive font-semibold' : ''}`}>
+                <CalendarClock size={10} />{item.dueDate || item.dueText}{overdue && '（已逾期）'}
+              </span>
+            )}
+          </div>
+        </div>
+        <select value={item.status} onChange={e => onUpdate(item.id, { status: e.target.value as ActionItemStatus })}
+          className="px-2 py-1.5 rounded-lg text-xs ios-input text-foreground">
+          {ACTION_ITEM_STATUSES.map(status => <option key={status} value={status}>{ACTION_ITEM_STATUS_LABELS[status]}</option>)}
+        </select>
+      </div>
+      {item.sourceQuote && <p className="text-[11px] italic text-muted-foreground">「{item.sourceQuote}」</p>}
+      <Link to={`/?record=${item.recordId}&module=E`} className="inline-flex items-center gap-1 text-[11px] font-medium text-primary hover:underline">
+        <Clock size={10} />{item.meetingTitle || '未命名會議'} · {new Date(item.meetingCreatedAt).toLocaleDateString()}
+      </Link>
+      {suggestion && (
+        <div className="flex items-start gap-2.5 p-3 rounded-xl bg-primary/5 border border-primary/15">
+          <MessageSquareQuote size={14} className="shrink-0 mt-0.5 text-primary" />
+          <div className="flex-1 min-w-0 space-y-1">
+            <p className="text-[11px] text-muted-foreground">
+              於「<Link to={`/?record=${suggestion.recordId}`} className="text-primary hover:underline">{suggestionMeeting || '後續會議'}</Link>」再次提及
+              （{suggestion.speaker}{suggestion.startTime ? ` ${suggestion.startTime}` : ''}）
+            </p>
+            <p className="text-xs italic text-foreground">「{suggestion.quote}」</p>
+            <p className="text-[11px] font-semibold text-primary">建議將狀態更新為「{ACTION_ITEM_STATUS_LABELS[suggestion.suggestedStatus]}」</p>
+          </div>
+          <button onClick={() => onUpdate(item.id, { status: suggestion.suggestedStatus })} title="套用建議"
+            className="p-1.5 rounded-lg text-primary hover:bg-primary/10 transition-colors"><Check size={13} /></button>
+          <button onClick={() => onDismiss(item.id)} title="忽略"
+            className="p-1.5 rounded-lg text-muted-foreground hover:text-foreground transition-colors"><X size={13} /></button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+const ActionItems = () => {
+  const { user, loading } = useAuth();
+  const [items, setItems] = useState<ActionItemWithMeeting[]>([]);
+  const [suggestions, setSuggestions] = useState<FollowUpSuggestion[]>([]);
+  const [meetingTitles, setMeetingTitles] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [view, setView] = useState<View>('owner');
+  const today = todayString();
+
+  const load = useCallback(async () => {
+    if (!user) return;
+    setIsLoading(true);
+    try {
+      const all = await actionItemService.listAll();
+      setItems(all);
+      const open = all.filter(item => !isClosed(item.status));
+      if (open.length > 0) {
+        const later = await loadLaterTranscripts([...new Set(open.map(item => item.recordId))]);
+        const sources = open.map(item => ({ recordId: item.recordId, createdAt: item.meetingCreatedAt, transcript: '' }));
+        setSuggestions(findFollowUps(open, [...sources, ...later]));
+        setMeetingTitles(Object.fromEntries(later.map(m => [m.recordId, m.title])));
+      } else {
+        setSuggestions([]);
+      }
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const updateItem = async (id: string, patch: ActionItemPatch) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+    if (patch.status) setSuggestions(prev => prev.filter(s => s.itemId !== id));
+    try {
+      await actionItemService.update(id, patch);
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const dismissSuggestion = (id: string) => setSuggestions(prev => prev.filter(s => s.itemId !== id));
+
+  const openItems = useMemo(() => items.filter(item => !isClosed(item.status)), [items]);
+  const overdueItems = useMemo(() => items.filter(item => isOverdue(item, today)), [items, today]);
+  const ownerGroups = useMemo(() => groupByOwner(openItems), [openItems]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="animate-spin text-muted-foreground" size={32} />
+      </div>
+    );
+  }
+  if (!user) return <Navigate to="/" replace />;
+
+  const renderItem = (item: ActionItemWithMeeting) => {
+    const suggestion = suggestions.find(s => s.itemId === item.id);
+    return (
+      <TrackerItem key={item.id} item={item} today={today} suggestion={suggestion}
+        suggestionMeeting={suggestion ? meetingTitles[suggestion.recordId] : undefined}
+        onUpdate={updateItem} onDismiss={dismissSuggestion} />
+    );
+  };
+
+  const counts: Record<View, number> = { owner: openItems.length, overdue: overdueItems.length, all: items.length };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="h-14 flex items-center gap-3 px-4 md:px-6 sticky top-0 z-30 border-b border-border ios-glass">
+        <Link to="/" className="p-2 rounded-xl transition-all active:scale-90 hover:bg-muted" title="返回會議">
+          <ArrowLeft size={17} className="text-foreground" />
+        </Link>
+        <ListChecks size={16} className="text-primary" />
+        <h2 className="text-sm font-semibold text-foreground">行動項目追蹤</h2>
+        <div className="ml-auto flex items-center bg-muted rounded-xl p-1 gap-0.5">
+          {(Object.keys(VIEW_LABELS) as View[]).map(v => (
+            <button key={v} onClick={() => setView(v)}
+              className={`px-3.5 py-1.5 rounded-lg text-[11px] font-semibold tracking-wide transition-all duration-200 ${view === v ? 'ios-tab-active text-primary' : 'text-muted-foreground hover:text-foreground'}`}>
+              {VIEW_LABELS[v]} {counts[v]}
+            </button>
+          ))}
+        </div>
+      </header>
+
+      <div className="max-w-3xl mx-auto p-4 md:p-6 space-y-5">
+        {errorMsg && (
+          <div className="flex items-start gap-3 p-4 rounded-2xl bg-destructive/8 border border-destructive/20 text-destructive">
+            <AlertCircle size={17} className="shrink-0 mt-0.5" />
+            <p className="flex-1 text-sm">{errorMsg}</p>
+            <button onClick={() => setErrorMsg(null)} className="p-1 hover:opacity-60 transition-opacity"><X size={15} /></button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-16"><Loader2 className="animate-spin text-muted-foreground" size={24} /></div>
+        ) : (
+          <>
+            {suggestions.length > 0 && (
+              <p className="text-xs text-muted-foreground">後續會議中有 {suggestions.length} 項待辦被再次提及，請確認是否更新狀態。</p>
+            )}
+            {view === 'owner' && ownerGroups.map(group => (
+              <section key={group.owner} className="space-y-2.5">
+                <h3 className="text-[11px] font-semibold uppercase tracking-widest text-muted-foreground px-1">
+                  {group.owner}（{group.items.length}）
+                </h3>
+                {group.items.map(renderItem)}
+              </section>
+            ))}
+            {view === 'overdue' && overdueItems.map(renderItem)}
+            {view === 'all' && items.map(renderItem)}
+            {counts[view] === 0 && (
+              <p className="text-xs text-center py-16 text-muted-foreground">
+                {view === 'overdue' ? '沒有逾期的行動項目' : view === 'owner' ? '沒有未完成的行動項目' : '尚無行動項目，請先在會議的「行動項目」模組中擷取。'}
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ActionItems;
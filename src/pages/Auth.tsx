@@ -1,11 +1,28 @@
 import React, { useState } from 'react';
+import { Navigate, useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { authService } from '../services/authService';
+import { authErrorMessage, safeRedirect } from '@/lib/accounts';
 import { BrainCircuit, Loader2, AlertCircle, CheckCircle, Mail } from 'lucide-react';
 
-type Mode = 'login' | 'signup' | 'forgot';
+// 'link' attaches an email to the current guest account; 'password' sets the
+// password once that email is confirmed
+type Mode = 'login' | 'signup' | 'forgot' | 'link' | 'password';
+
+const MODE_LABELS: Record<Mode, string> = {
+  login: '登入', signup: '建立帳號', forgot: '忘記密碼', link: '保留會議並建立帳號', password: '設定密碼',
+};
+
+const initialMode = (value: string | null): Mode =>
+  value === 'signup' || value === 'link' || value === 'password' ? value : 'login';
 
 const Auth: React.FC = () => {
-  const [mode, setMode] = useState<Mode>('login');
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const redirectTo = safeRedirect(searchParams.get('redirect'));
+  const { user, loading, isGuest } = useAuth();
+  const [mode, setMode] = useState<Mode>(() => initialMode(searchParams.get('mode')));
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [displayName, setDisplayName] = useState('');
@@ -38,21 +55,37 @@ const Auth: React.FC = () => {
         });
         if (error) throw error;
         setMessage({ type: 'success', text: '帳號建立成功！請至信箱確認驗證信件後登入。' });
+      } else if (mode === 'link') {
+        await authService.linkEmail(email, displayName);
+        setMessage({ type: 'success', text: `驗證信已寄至 ${email}，點擊信中連結後即可設定密碼，目前所有會議都會保留。` });
+      } else if (mode === 'password') {
+        await authService.setPassword(password);
+        navigate(redirectTo, { replace: true });
       } else {
         const { error } = await supabase.auth.signInWithPassword({ email, password });
         if (error) throw error;
+        navigate(redirectTo, { replace: true });
       }
-    } catch (err: any) {
-      const msg = err.message || '操作失敗，請稍後再試';
-      if (msg.includes('Invalid login credentials')) setMessage({ type: 'error', text: '帳號或密碼錯誤，請確認後重試' });
-      else if (msg.includes('Email not confirmed')) setMessage({ type: 'error', text: '請先驗證您的電子郵件後再登入' });
-      else if (msg.includes('User already registered')) setMessage({ type: 'error', text: '此電子郵件已被使用' });
-      else setMessage({ type: 'error', text: msg });
+    } catch (err) {
+      setMessage({ type: 'error', text: authErrorMessage(err instanceof Error ? err.message : String(err)) });
     } finally {
       setIsLoading(false);
     }
   };
 
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="animate-spin text-muted-foreground" size={32} />
+      </div>
+    );
+  }
+  // Registered users have nothing to do here except set a password after linking
+  if (user && !isGuest && mode !== 'password') return <Navigate to={redirectTo} replace />;
+  if (!user && (mode === 'link' || mode === 'password')) return <Navigate to={`/auth?redirect=${encodeURIComponent(redirectTo)}`} replace />;
+
+  const tabs: Mode[] = isGuest ? ['login', 'link'] : ['login', 'signup'];
+
   return (
     <div className="min-h-screen flex items-center justify-center p-4 bg-background">
       <div className="w-full max-w-sm">
@@ -123,17 +156,27 @@ const Auth: React.FC = () => {
           <>
             {/* Mode toggle */}
             <div className="flex mb-6 p-1 rounded-2xl bg-muted gap-1">
-              {(['login', 'signup'] as Mode[]).map(m => (
+              {(mode === 'password' ? ['password' as Mode] : tabs).map(m => (
                 <button key={m} onClick={() => switchMode(m)}
                   className={`flex-1 py-2.5 rounded-xl text-sm font-semibold tracking-wide transition-all duration-200 ${mode === m ? 'bg-card shadow-ios-sm text-primary' : 'text-muted-foreground hover:text-foreground'}`}>
-                  {m === 'login' ? '登入' : '建立帳號'}
+                  {MODE_LABELS[m]}
                 </button>
               ))}
             </div>
 
+            {isGuest && mode === 'login' && (
+              <p className="mb-4 text-[13px] text-muted-foreground">您目前以訪客身分使用。登入其他帳號後將無法再存取訪客的會議；若要保留，請改選「{MODE_LABELS.link}」。</p>
+            )}
+            {mode === 'link' && (
+              <p className="mb-4 text-[13px] text-muted-foreground">為目前的訪客帳號綁定 E-Mail，驗證後設定密碼即可在任何裝置登入，現有會議會完整保留。</p>
+            )}
+            {mode === 'password' && (
+              <p className="mb-4 text-[13px] text-muted-foreground">E-Mail {user?.email} 已綁定，請設定登入密碼。</p>
+            )}
+
             {/* Form */}
             <form onSubmit={handleSubmit} className="space-y-3.5">
-              {mode === 'signup' && (
+              {(mode === 'signup' || mode === 'link') && (
                 <div className="space-y-1.5">
                   <label className="text-[11px] font-semibold uppercase tracking-widest text-muted-foreground px-0.5">顯示名稱</label>
                   <input type="text" value={displayName} onChange={e => setDisplayName(e.target.value)}
@@ -141,13 +184,15 @@ const Auth: React.FC = () => {
                     className="w-full p-3.5 rounded-xl text-sm ios-input text-foreground placeholder:text-muted-foreground/40" />
                 </div>
               )}
-              <div className="space-y-1.5">
-                <label className="text-[11px] font-semibold uppercase tracking-widest text-muted-foreground px-0.5">電子郵件</label>
-                <input type="email" required value={email} onChange={e => setEmail(e.target.value)}
-                  placeholder="your@email.com"
-                  className="w-full p-3.5 rounded-xl text-sm ios-input text-foreground placeholder:text-muted-foreground/40" />
-              </div>
-              <div className="space-y-1.5">
+              {mode !== 'password' && (
+                <div className="space-y-1.5">
+                  <label className="text-[11px] font-semibold uppercase tracking-widest text-muted-foreground px-0.5">電子郵件</label>
+                  <input type="email" required value={email} onChange={e => setEmail(e.target.value)}
+                    placeholder="your@email.com"
+                    className="w-full p-3.5 rounded-xl text-sm ios-input text-foreground placeholder:text-muted-foreground/40" />
+                </div>
+              )}
+              {mode !== 'link' && <div className="space-y-1.5">
                 <div className="flex items-center justify-between px-0.5">
                   <label className="text-[11px] font-semibold uppercase tracking-widest text-muted-foreground">密碼</label>
                   {mode === 'login' && (
@@ -160,7 +205,7 @@ const Auth: React.FC = () => {
                 <input type="password" required value={password} onChange={e => setPassword(e.target.value)}
                   placeholder="至少 6 位字元" minLength={6}
                   className="w-full p-3.5 rounded-xl text-sm ios-input text-foreground placeholder:text-muted-foreground/40" />
-              </div>
+              </div>}
 
               {message && (
                 <div className={`flex items-start gap-2.5 p-3.5 rounded-xl text-sm font-medium border ${message.type === 'error' ? 'bg-destructive/8 border-destructive/20 text-destructive' : 'bg-primary/8 border-primary/20 text-primary'}`}>
@@ -171,7 +216,8 @@ const Auth: React.FC = () => {
 
               <button type="submit" disabled={isLoading}
                 className="w-full py-3.5 rounded-2xl font-semibold text-sm tracking-tight transition-all active:scale-95 disabled:opacity-40 flex items-center justify-center gap-2 mt-1 ios-btn-primary text-primary-foreground">
-                {isLoading ? <><Loader2 size={15} className="animate-spin" />處理中...</> : mode === 'login' ? '登入系統' : '建立帳號'}
+                {isLoading ? <><Loader2 size={15} className="animate-spin" />處理中...</>
+                  : mode === 'login' ? '登入系統' : mode === 'link' ? '寄送驗證信' : mode === 'password' ? '設定密碼並進入' : '建立帳號'}
               </button>
             </form>
           </>
@@ -1,78 +1,43 @@
 import { useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import MeetingAssistant from '../components/MeetingAssistant';
-import { Loader2, BrainCircuit, ArrowRight, AlertCircle } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
-
-const AUTO_AUTH_KEY = 'auto_auth_creds';
-
-const generateCredentials = () => {
-  const rand = () => Math.random().toString(36).slice(2);
-  return {
-    email: `u-${rand().slice(0, 8)}-${Date.now().toString(36)}@local.app`,
-    password: rand() + rand() + rand() + rand(),
-  };
-};
+import { Loader2, BrainCircuit, ArrowRight, AlertCircle, LogIn } from 'lucide-react';
+import { authService } from '../services/authService';
 
 const Index = () => {
   const { user, loading } = useAuth();
-  const [entered, setEntered] = useState(false);
-  const [autoLoginError, setAutoLoginError] = useState<string | null>(null);
+  const location = useLocation();
+  const [guestError, setGuestError] = useState<string | null>(null);
+  // The guest credentials saved in this browser were rejected
+  const [staleGuest, setStaleGuest] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  // Signing in comes back here with any deep link or invitation intact
+  const authLink = `/auth?redirect=${encodeURIComponent(location.pathname + location.search)}`;
 
-  const handleEnter = async () => {
+  const runGuestAction = async (action: () => Promise<void>) => {
     if (isProcessing) return;
     setIsProcessing(true);
-    setEntered(true);
-    setAutoLoginError(null);
-
+    setGuestError(null);
     try {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (session?.user) {
-        setIsProcessing(false);
-        return;
-      }
-
-      let creds = null;
-      const stored = localStorage.getItem(AUTO_AUTH_KEY);
-      if (stored) {
-        try {
-          creds = JSON.parse(stored);
-        } catch {
-          localStorage.removeItem(AUTO_AUTH_KEY);
-        }
-      }
-
-      if (creds) {
-        const { error } = await supabase.auth.signInWithPassword({
-          email: creds.email,
-          password: creds.password,
-        });
-        if (!error) {
-          setIsProcessing(false);
-          return;
-        }
-      }
-
-      const newCreds = generateCredentials();
-      const { error: signUpError } = await supabase.auth.signUp({
-        email: newCreds.email,
-        password: newCreds.password,
-      });
-
-      if (signUpError) {
-        setAutoLoginError(signUpError.message || '自動登入失敗');
-      } else {
-        localStorage.setItem(AUTO_AUTH_KEY, JSON.stringify(newCreds));
-      }
-    } catch (err: any) {
-      setAutoLoginError(err.message || '發生未知錯誤');
+      await action();
+    } catch (err) {
+      setGuestError(err instanceof Error ? err.message : String(err));
     } finally {
       setIsProcessing(false);
     }
   };
 
-  if (loading || (entered && !user && !autoLoginError)) {
+  const enterAsGuest = () => runGuestAction(async () => {
+    setStaleGuest(await authService.signInAsGuest() === 'stale-credentials');
+  });
+
+  const startNewGuest = () => runGuestAction(async () => {
+    await authService.startGuestSession();
+    setStaleGuest(false);
+  });
+
+  if (loading || (isProcessing && !user)) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <Loader2 className="animate-spin text-muted-foreground" size={32} />
@@ -80,53 +45,62 @@ const Index = () => {
     );
   }
 
-  if (!entered) {
-    return (
-      <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-background">
-        <div className="flex flex-col items-center text-center max-w-md">
-          <div className="p-5 rounded-3xl mb-6 bg-primary/10 shadow-ios-md">
-            <BrainCircuit size={48} className="text-primary" />
-          </div>
-          <h1 className="text-3xl font-bold tracking-tight text-foreground mb-3">智會洞察</h1>
-          <p className="text-base text-muted-foreground leading-relaxed mb-8">
-            AI 驅動的會議深度分析系統<br />
-            自動校正逐字稿、洞察核心議題、產出策略建議
-          </p>
-          <button
-            onClick={handleEnter}
-            disabled={isProcessing}
-            className="group inline-flex items-center gap-2.5 px-8 py-4 rounded-2xl font-semibold text-base tracking-tight transition-all active:scale-95 disabled:opacity-40 ios-btn-primary text-primary-foreground"
-          >
-            進入系統
-            <ArrowRight size={18} className="transition-transform group-hover:translate-x-0.5" />
-          </button>
-        </div>
-      </div>
-    );
-  }
+  if (user) return <MeetingAssistant />;
 
-  if (autoLoginError) {
+  if (staleGuest || guestError) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center p-6">
         <div className="flex flex-col items-center gap-4 max-w-sm text-center">
           <AlertCircle size={40} className="text-destructive" />
-          <p className="text-destructive font-medium">自動登入失敗</p>
-          <p className="text-sm text-muted-foreground">{autoLoginError}</p>
-          <button
-            onClick={() => {
-              setAutoLoginError(null);
-              setEntered(false);
-            }}
-            className="mt-2 px-6 py-3 rounded-2xl text-sm font-semibold ios-btn-primary text-primary-foreground"
-          >
-            返回首頁重試
-          </button>
+          <p className="text-destructive font-medium">{staleGuest ? '無法登入此瀏覽器先前的訪客帳號' : '訪客登入失敗'}</p>
+          <p className="text-sm text-muted-foreground">
+            {staleGuest
+              ? '儲存在此瀏覽器的訪客帳號已失效。若您曾為它綁定 E-Mail，請改用該 E-Mail 登入；否則可以建立新的訪客工作階段（先前的會議將無法存取）。'
+              : guestError}
+          </p>
+          <Link to={authLink}
+            className="mt-2 w-full px-6 py-3 rounded-2xl text-sm font-semibold ios-btn-primary text-primary-foreground">
+            登入帳號
+          </Link>
+          {staleGuest ? (
+            <button onClick={startNewGuest} className="w-full px-6 py-3 rounded-2xl text-sm font-semibold ios-btn-secondary text-foreground">
+              建立新的訪客工作階段
+            </button>
+          ) : (
+            <button onClick={() => setGuestError(null)} className="w-full px-6 py-3 rounded-2xl text-sm font-semibold ios-btn-secondary text-foreground">
+              返回首頁重試
+            </button>
+          )}
         </div>
       </div>
     );
   }
 
-  return <MeetingAssistant />;
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-background">
+      <div className="flex flex-col items-center text-center max-w-md">
+        <div className="p-5 rounded-3xl mb-6 bg-primary/10 shadow-ios-md">
+          <BrainCircuit size={48} className="text-primary" />
+        </div>
+        <h1 className="text-3xl font-bold tracking-tight text-foreground mb-3">智會洞察</h1>
+        <p className="text-base text-muted-foreground leading-relaxed mb-8">
+          AI 驅動的會議深度分析系統<br />
+          自動校正逐字稿、洞察核心議題、產出策略建議
+        </p>
+        <Link to={authLink}
+          className="group inline-flex items-center gap-2.5 px-8 py-4 rounded-2xl font-semibold text-base tracking-tight transition-all active:scale-95 ios-btn-primary text-primary-foreground">
+          <LogIn size={18} />
+          登入或建立帳號
+        </Link>
+        <button onClick={enterAsGuest} disabled={isProcessing}
+          className="group mt-3 inline-flex items-center gap-1.5 px-4 py-2 rounded-xl text-sm font-medium transition-colors disabled:opacity-40 text-muted-foreground hover:text-foreground">
+          {authService.hasLegacyCredentials() ? '繼續使用訪客帳號' : '先以訪客身分試用'}
+          <ArrowRight size={14} className="transition-transform group-hover:translate-x-0.5" />
+        </button>
+        <p className="mt-2 text-xs text-muted-foreground/70 max-w-xs">訪客的會議只保存在此瀏覽器的登入狀態中，之後可隨時綁定 E-Mail 保留。</p>
+      </div>
+    </div>
+  );
 };
 
 export default Index;
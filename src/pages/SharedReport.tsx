@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { AlertCircle, BrainCircuit, Loader2 } from 'lucide-react';
+import { shareService } from '../services/shareService';
+import { InlineRun, MeetingReport, ReportBlock, coverFields, nestHeadings, parseInlineRuns, parseMarkdownBlocks } from '@/lib/report';
+import { sharedReport } from '@/lib/shareLinks';
+
+// ─── Block Renderer ───────────────────────────────────────────────────────────
+const renderRuns = (text: string) => parseInlineRuns(text).map((run: InlineRun, idx) => {
+  if (run.code) return <code key={idx} className="px-1.5 py-0.5 rounded bg-muted text-foreground font-mono text-[0.85em]">{run.text}</code>;
+  if (run.bold && run.italic) return <strong key={idx}><em>{run.text}</em></strong>;
+  if (run.bold) return <strong key={idx}>{run.text}</strong>;
+  if (run.italic) return <em key={idx}>{run.text}</em>;
+  return <React.Fragment key={idx}>{run.text}</React.Fragment>;
+});
+
+function ReportBlocks({ blocks }: { blocks: ReportBlock[] }) {
+  return (
+    <div className="markdown-content">
+      {blocks.map((block, idx) => {
+        if (block.type === 'heading') {
+          const Heading = `h${Math.min(block.level, 3)}` as 'h1' | 'h2' | 'h3';
+          return <Heading key={idx}>{renderRuns(block.text)}</Heading>;
+        }
+        if (block.type === 'paragraph') return <p key={idx} className="whitespace-pre-wrap">{renderRuns(block.text)}</p>;
+        if (block.type === 'quote') return <blockquote key={idx} className="pl-4 border-l-2 border-border italic text-muted-foreground my-2">{renderRuns(block.text)}</blockquote>;
+        if (block.type === 'rule') return <hr key={idx} className="my-4 border-border" />;
+        if (block.type === 'list') {
+          const List = block.ordered ? 'ol' : 'ul';
+          return (
+            <List key={idx}>
+              {block.items.map((item, i) => <li key={i} style={{ marginLeft: `${item.depth * 1.25}rem` }}>{renderRuns(item.text)}</li>)}
+            </List>
+          );
+        }
+        return (
+          <div key={idx} className="table-wrapper">
+            <table>
+              <thead><tr>{block.header.map((cell, i) => <th key={i}>{renderRuns(cell)}</th>)}</tr></thead>
+              <tbody>{block.rows.map((row, r) => <tr key={r}>{row.map((cell, c) => <td key={c}>{renderRuns(cell)}</td>)}</tr>)}</tbody>
+            </table>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+/** Public, read-only view of a shared meeting report; needs no account. */
+const SharedReport = () => {
+  const { token } = useParams<{ token: string }>();
+  const [report, setReport] = useState<MeetingReport | null>(null);
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    shareService.fetchShared(token)
+      .then(payload => {
+        if (cancelled) return;
+        setReport(sharedReport(payload));
+        setExpiresAt(payload.expiresAt);
+      })
+      .catch(err => { if (!cancelled) setErrorMsg(err instanceof Error ? err.message : String(err)); });
+    return () => { cancelled = true; };
+  }, [token]);
+
+  if (errorMsg) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <div className="flex flex-col items-center gap-4 max-w-sm text-center">
+          <AlertCircle size={40} className="text-destructive" />
+          <p className="text-destructive font-medium">無法開啟分享的報告</p>
+          <p className="text-sm text-muted-foreground">{errorMsg}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!report) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="animate-spin text-muted-foreground" size={32} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="h-14 flex items-center gap-3 px-4 md:px-6 sticky top-0 z-30 border-b border-border ios-glass">
+        <BrainCircuit size={16} className="text-primary" />
+        <h2 className="text-sm font-semibold text-foreground truncate">{report.title}</h2>
+        <span className="ml-auto text-[11px] text-muted-foreground shrink-0">
+          唯讀分享{expiresAt !== null && ` · ${new Date(expiresAt).toLocaleString()} 到期`}
+        </span>
+      </header>
+
+      <div className="max-w-3xl mx-auto p-4 md:p-6 space-y-6">
+        <div className="p-5 rounded-2xl bg-card border border-border">
+          <h1 className="text-xl font-bold tracking-tight text-foreground mb-3">{report.title}</h1>
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1.5 text-sm">
+            {coverFields(report).filter(([label]) => label !== '匯出時間').map(([label, value]) => (
+              <React.Fragment key={label}>
+                <dt className="text-muted-foreground">{label}</dt>
+                <dd className="text-foreground">{value}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        </div>
+
+        {report.sections.map(section => (
+          <section key={section.id} id={section.id} className="p-5 rounded-2xl bg-card border border-border">
+            <h2 className="text-base font-semibold text-foreground">{section.title}</h2>
+            {section.caption && <p className="text-[11px] mt-0.5 mb-4 text-muted-foreground">{section.caption}</p>}
+            <ReportBlocks blocks={nestHeadings(parseMarkdownBlocks(section.body), 1)} />
+          </section>
+        ))}
+        {report.sections.length === 0 && <p className="text-xs text-center py-16 text-muted-foreground">分享的內容已被刪除。</p>}
+      </div>
+    </div>
+  );
+};
+
+export default SharedReport;
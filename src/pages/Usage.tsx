@@ -0,0 +1,277 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { AlertCircle, ArrowLeft, BarChart3, Loader2, Save, X } from 'lucide-react';
+import { Workspace, WorkspaceMember } from '../types';
+import { usageService, UsageWithMeeting } from '../services/usageService';
+import { workspaceService } from '../services/workspaceService';
+import { UsageSummary, formatCost, formatTokens, monthBounds, monthKey, summarizeUsage } from '@/lib/usage';
+import { useAuth } from '@/hooks/useAuth';
+
+type View = 'meeting' | 'member';
+
+const VIEW_LABELS: Record<View, string> = { meeting: '依會議', member: '依成員' };
+
+const DELETED_MEETING = 'deleted';
+
+const parseQuota = (value: string) => {
+  const quota = Math.round(Number(value));
+  return value.trim() && quota > 0 ? quota : null;
+};
+
+// ─── Quota Bar ────────────────────────────────────────────────────────────────
+function QuotaBar({ label, used, quota }: { label: string; used: number; quota: number | null | undefined }) {
+  const ratio = quota ? Math.min(used / quota, 1) : 0;
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-baseline justify-between text-xs">
+        <span className="font-semibold text-foreground">{label}</span>
+        <span className="text-muted-foreground">{formatTokens(used)} / {quota ? formatTokens(quota) : '不限'}</span>
+      </div>
+      {quota ? (
+        <div className="h-2 rounded-full bg-muted overflow-hidden">
+          <div className={`h-full rounded-full transition-all ${ratio >= 1 ? 'bg-destructive' : ratio >= 0.8 ? 'bg-amber-500' : 'bg-primary'}`}
+            style={{ width: `${ratio * 100}%` }} />
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+// ─── Summary Table ────────────────────────────────────────────────────────────
+function UsageTable({ rows, labelOf, linkOf }: {
+  rows: UsageSummary[];
+  labelOf: (key: string) => string;
+  linkOf?: (key: string) => string | null;
+}) {
+  return (
+    <div className="rounded-2xl bg-card border border-border overflow-hidden">
+      <table className="w-full text-xs">
+        <thead className="bg-muted/50 text-muted-foreground">
+          <tr>
+            <th className="text-left font-semibold px-4 py-2.5">名稱</th>
+            <th className="text-right font-semibold px-3 py-2.5">請求</th>
+            <th className="text-right font-semibold px-3 py-2.5">輸入</th>
+            <th className="text-right font-semibold px-3 py-2.5">輸出</th>
+            <th className="text-right font-semibold px-3 py-2.5">合計</th>
+            <th className="text-right font-semibold px-4 py-2.5">估計費用</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => {
+            const link = linkOf?.(row.key);
+            return (
+              <tr key={row.key} className="border-t border-border">
+                <td className="px-4 py-2.5 text-foreground max-w-[14rem] truncate">
+                  {link ? <Link to={link} className="text-primary hover:underline">{labelOf(row.key)}</Link> : labelOf(row.key)}
+                </td>
+                <td className="px-3 py-2.5 text-right text-muted-foreground">{row.calls}</td>
+                <td className="px-3 py-2.5 text-right text-muted-foreground">{formatTokens(row.promptTokens)}</td>
+                <td className="px-3 py-2.5 text-right text-muted-foreground">{formatTokens(row.completionTokens)}</td>
+                <td className="px-3 py-2.5 text-right font-semibold text-foreground">
+                  {formatTokens(row.totalTokens)}{row.estimated && <span title="部分用量為估計值">*</span>}
+                </td>
+                <td className="px-4 py-2.5 text-right text-muted-foreground">
+                  {row.unpriced > 0 && row.cost === 0 ? '—' : formatCost(row.cost)}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+const Usage = () => {
+  const { user, loading } = useAuth();
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [records, setRecords] = useState<UsageWithMeeting[]>([]);
+  const [month, setMonth] = useState(monthKey());
+  const [view, setView] = useState<View>('meeting');
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [quotaDraft, setQuotaDraft] = useState({ workspace: '', member: '' });
+  const [isSavingQuota, setIsSavingQuota] = useState(false);
+
+  const workspace = workspaces.find(w => w.id === workspaceId) ?? null;
+
+  useEffect(() => {
+    if (!user) return;
+    workspaceService.listWorkspaces(user.id).then(list => {
+      setWorkspaces(list);
+      const stored = workspaceService.getStoredWorkspaceId();
+      setWorkspaceId(list.find(w => w.id === stored)?.id ?? list[0]?.id ?? null);
+      if (list.length === 0) setIsLoading(false);
+    }).catch(err => {
+      setErrorMsg(err instanceof Error ? err.message : String(err));
+      setIsLoading(false);
+    });
+  }, [user]);
+
+  useEffect(() => {
+    setQuotaDraft({
+      workspace: workspace?.monthlyTokenQuota ? String(workspace.monthlyTokenQuota) : '',
+      member: workspace?.memberMonthlyTokenQuota ? String(workspace.memberMonthlyTokenQuota) : '',
+    });
+  }, [workspace?.monthlyTokenQuota, workspace?.memberMonthlyTokenQuota]);
+
+  const load = useCallback(async () => {
+    if (!workspaceId) return;
+    setIsLoading(true);
+    try {
+      const { start, end } = monthBounds(month);
+      const [usage, memberList] = await Promise.all([
+        usageService.listForWorkspace(workspaceId, start, end),
+        workspaceService.listMembers(workspaceId),
+      ]);
+      setRecords(usage);
+      setMembers(memberList);
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workspaceId, month]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const saveQuotas = async () => {
+    if (!workspace) return;
+    const quotas = { monthlyTokenQuota: parseQuota(quotaDraft.workspace), memberMonthlyTokenQuota: parseQuota(quotaDraft.member) };
+    setIsSavingQuota(true);
+    try {
+      await workspaceService.updateQuotas(workspace.id, quotas);
+      setWorkspaces(prev => prev.map(w => w.id === workspace.id ? { ...w, ...quotas } : w));
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSavingQuota(false);
+    }
+  };
+
+  const total = useMemo(() => summarizeUsage(records, () => 'total')[0] ?? null, [records]);
+  const byMeeting = useMemo(() => summarizeUsage(records, r => r.recordId ?? DELETED_MEETING), [records]);
+  const byMember = useMemo(() => summarizeUsage(records, r => r.userId), [records]);
+  const myTokens = useMemo(() => byMember.find(s => s.key === user?.id)?.totalTokens ?? 0, [byMember, user]);
+  const meetingTitles = useMemo(() => new Map(records.map(r => [r.recordId ?? DELETED_MEETING, r.meetingTitle])), [records]);
+  const memberNames = useMemo(() => new Map(members.map(m => [m.userId, m.displayName])), [members]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="animate-spin text-muted-foreground" size={32} />
+      </div>
+    );
+  }
+  if (!user) return <Navigate to="/" replace />;
+
+  const isOwner = workspace?.role === 'owner';
+  const isCurrentMonth = month === monthKey();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="h-14 flex items-center gap-3 px-4 md:px-6 sticky top-0 z-30 border-b border-border ios-glass">
+        <Link to="/" className="p-2 rounded-xl transition-all active:scale-90 hover:bg-muted" title="返回會議">
+          <ArrowLeft size={17} className="text-foreground" />
+        </Link>
+        <BarChart3 size={16} className="text-primary" />
+        <h2 className="text-sm font-semibold text-foreground">AI 用量</h2>
+        <div className="ml-auto flex items-center bg-muted rounded-xl p-1 gap-0.5">
+          {(Object.keys(VIEW_LABELS) as View[]).map(v => (
+            <button key={v} onClick={() => setView(v)}
+              className={`px-3.5 py-1.5 rounded-lg text-[11px] font-semibold tracking-wide transition-all duration-200 ${view === v ? 'ios-tab-active text-primary' : 'text-muted-foreground hover:text-foreground'}`}>
+              {VIEW_LABELS[v]}
+            </button>
+          ))}
+        </div>
+      </header>
+
+      <div className="max-w-3xl mx-auto p-4 md:p-6 space-y-5">
+        {errorMsg && (
+          <div className="flex items-start gap-3 p-4 rounded-2xl bg-destructive/8 border border-destructive/20 text-destructive">
+            <AlertCircle size={17} className="shrink-0 mt-0.5" />
+            <p className="flex-1 text-sm">{errorMsg}</p>
+            <button onClick={() => setErrorMsg(null)} className="p-1 hover:opacity-60 transition-opacity"><X size={15} /></button>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          {workspaces.length > 1 && (
+            <select value={workspaceId ?? ''} onChange={e => setWorkspaceId(e.target.value)}
+              className="px-3 py-2 rounded-xl text-xs ios-input text-foreground">
+              {workspaces.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+            </select>
+          )}
+          <input type="month" value={month} max={monthKey()} onChange={e => e.target.value && setMonth(e.target.value)}
+            className="px-3 py-2 rounded-xl text-xs ios-input text-foreground" />
+          {!isOwner && <span className="text-[11px] text-muted-foreground">僅顯示您本人及可檢視會議的用量</span>}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-16"><Loader2 className="animate-spin text-muted-foreground" size={24} /></div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="p-4 rounded-2xl bg-card border border-border">
+                <p className="text-[11px] text-muted-foreground">本月 tokens</p>
+                <p className="text-xl font-bold text-foreground">{formatTokens(total?.totalTokens ?? 0)}</p>
+                <p className="text-[11px] text-muted-foreground">{total?.calls ?? 0} 次模型呼叫</p>
+              </div>
+              <div className="p-4 rounded-2xl bg-card border border-border">
+                <p className="text-[11px] text-muted-foreground">估計費用</p>
+                <p className="text-xl font-bold text-foreground">{total && !(total.unpriced > 0 && total.cost === 0) ? formatCost(total.cost) : '—'}</p>
+                {total && total.unpriced > 0 && <p className="text-[11px] text-muted-foreground">{total.unpriced} 筆請求的模型未設定價格</p>}
+              </div>
+            </div>
+
+            {isCurrentMonth && workspace && (
+              <div className="p-4 rounded-2xl bg-card border border-border space-y-3">
+                <QuotaBar label="工作區本月用量" used={total?.totalTokens ?? 0} quota={workspace.monthlyTokenQuota} />
+                <QuotaBar label="我的本月用量" used={myTokens} quota={workspace.memberMonthlyTokenQuota} />
+                {isOwner && (
+                  <div className="flex flex-wrap items-end gap-2 pt-2 border-t border-border">
+                    <label className="flex-1 min-w-[8rem] space-y-1">
+                      <span className="text-[11px] text-muted-foreground">工作區每月上限（tokens）</span>
+                      <input type="number" min={1} value={quotaDraft.workspace} placeholder="不限"
+                        onChange={e => setQuotaDraft(prev => ({ ...prev, workspace: e.target.value }))}
+                        className="w-full px-3 py-2 rounded-xl text-xs ios-input text-foreground" />
+                    </label>
+                    <label className="flex-1 min-w-[8rem] space-y-1">
+                      <span className="text-[11px] text-muted-foreground">每位成員每月上限（tokens）</span>
+                      <input type="number" min={1} value={quotaDraft.member} placeholder="不限"
+                        onChange={e => setQuotaDraft(prev => ({ ...prev, member: e.target.value }))}
+                        className="w-full px-3 py-2 rounded-xl text-xs ios-input text-foreground" />
+                    </label>
+                    <button onClick={saveQuotas} disabled={isSavingQuota}
+                      className="flex items-center gap-1.5 px-4 py-2 rounded-xl text-xs font-semibold transition-all active:scale-95 disabled:opacity-30 ios-btn-primary text-primary-foreground">
+                      {isSavingQuota ? <Loader2 size={12} className="animate-spin" /> : <Save size={12} />}儲存上限
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {records.length === 0 ? (
+              <p className="text-xs text-center py-16 text-muted-foreground">這個月份沒有 AI 用量紀錄</p>
+            ) : view === 'meeting' ? (
+              <UsageTable rows={byMeeting}
+                labelOf={key => key === DELETED_MEETING ? '已刪除的會議' : meetingTitles.get(key) || '未命名會議'}
+                linkOf={key => key === DELETED_MEETING ? null : `/?record=${key}`} />
+            ) : (
+              <UsageTable rows={byMember}
+                labelOf={key => key === user.id ? '我' : memberNames.get(key) || '已離開的成員'} />
+            )}
+            {records.some(r => r.estimated) && (
+              <p className="text-[11px] text-muted-foreground">* 部分模型未回報用量，tokens 依字數估計。</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Usage;
@@ -0,0 +1,110 @@
+import { ActionItem, ActionItemStatus, TrackedActionItem } from '../types';
+import { supabase } from '@/integrations/supabase/client';
+import { carryOverStatuses } from '@/lib/actionItems';
+import type { Database } from '@/integrations/supabase/types';
+
+type ActionItemRow = Database['public']['Tables']['action_items']['Row'];
+
+export type ActionItemPatch = Partial<ActionItem & { status: ActionItemStatus }>;
+
+/** An item together with the meeting it was assigned in, for the cross-meeting tracker. */
+export interface ActionItemWithMeeting extends TrackedActionItem {
+  meetingTitle: string;
+  meetingCreatedAt: number;
+}
+
+export const toTrackedActionItem = (row: ActionItemRow): TrackedActionItem => ({
+  id: row.id,
+  recordId: row.record_id,
+  task: row.task,
+  assigner: row.assigner,
+  owner: row.owner,
+  dueDate: row.due_date,
+  dueText: row.due_text,
+  sourceQuote: row.source_quote,
+  ambiguous: row.ambiguous,
+  ambiguityNote: row.ambiguity_note,
+  status: row.status as ActionItemStatus,
+  updatedAt: new Date(row.updated_at).getTime(),
+});
+
+const toColumns = (patch: ActionItemPatch) => ({
+  ...(patch.task !== undefined && { task: patch.task }),
+  ...(patch.assigner !== undefined && { assigner: patch.assigner }),
+  ...(patch.owner !== undefined && { owner: patch.owner }),
+  ...(patch.dueDate !== undefined && { due_date: patch.dueDate }),
+  ...(patch.dueText !== undefined && { due_text: patch.dueText }),
+  ...(patch.sourceQuote !== undefined && { source_quote: patch.sourceQuote }),
+  ...(patch.ambiguous !== undefined && { ambiguous: patch.ambiguous }),
+  ...(patch.ambiguityNote !== undefined && { ambiguity_note: patch.ambiguityNote }),
+  ...(patch.status !== undefined && { status: patch.status }),
+});
+
+export class ActionItemService {
+  async listForRecord(recordId: string): Promise<TrackedActionItem[]> {
+    const { data, error } = await supabase.from('action_items').select('*').eq('record_id', recordId).order('position', { ascending: true });
+    if (error) throw new Error(error.message);
+    return (data || []).map(toTrackedActionItem);
+  }
+
+  async listAll(): Promise<ActionItemWithMeeting[]> {
+    const { data, error } = await supabase.from('action_items')
+      .select('*, meeting_records(title, created_at)')
+      .order('due_date', { ascending: true, nullsFirst: false });
+    if (error) throw new Error(error.message);
+    return (data || []).map(row => ({
+      ...toTrackedActionItem(row),
+      meetingTitle: row.meeting_records?.title ?? '',
+      meetingCreatedAt: row.meeting_records ? new Date(row.meeting_records.created_at).getTime() : 0,
+    }));
+  }
+
+  /** Replaces a meeting's action items with a fresh extraction, atomically; re-found items keep their status. */
+  async replaceForRecord(
+    recordId: string,
+    items: ActionItem[],
+    source: { transcriptVersionId: string; promptVersion: string | null; model: string | null },
+  ): Promise<TrackedActionItem[]> {
+    const statuses = carryOverStatuses(await this.listForRecord(recordId), items);
+    const { data, error } = await supabase.rpc('replace_action_items', {
+      target_record: recordId,
+      items: items.map((item, position) => ({
+        position,
+        task: item.task,
+        assigner: item.assigner,
+        owner: item.owner,
+        due_date: item.dueDate,
+        due_text: item.dueText,
+        source_quote: item.sourceQuote,
+        ambiguous: item.ambiguous,
+        ambiguity_note: item.ambiguityNote,
+        status: statuses[position],
+      })),
+      source_version: source.transcriptVersionId,
+      source_prompt_version: source.promptVersion,
+      source_model: source.model,
+    });
+    if (error) throw new Error(error.message);
+    return [...(data || [])].sort((a, b) => a.position - b.position).map(toTrackedActionItem);
+  }
+
+  async create(recordId: string, position: number): Promise<TrackedActionItem> {
+    const { data, error } = await supabase.from('action_items')
+      .insert({ record_id: recordId, position, task: '新任務', ambiguous: true })
+      .select().single();
+    if (error || !data) throw new Error(error?.message || '新增行動項目失敗');
+    return toTrackedActionItem(data);
+  }
+
+  async update(id: string, patch: ActionItemPatch): Promise<void> {
+    const { error } = await supabase.from('action_items').update(toColumns(patch)).eq('id', id);
+    if (error) throw new Error(error.message);
+  }
+
+  async remove(id: string): Promise<void> {
+    const { error } = await supabase.from('action_items').delete().eq('id', id);
+    if (error) throw new Error(error.message);
+  }
+}
+
+export const actionItemService = new ActionItemService();
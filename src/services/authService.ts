@@ -0,0 +1,74 @@
+import { supabase } from '@/integrations/supabase/client';
+import { LEGACY_CREDENTIALS_KEY, authErrorMessage, isLegacyGuestEmail, parseStoredCredentials } from '@/lib/accounts';
+
+export type GuestSignInResult =
+  /** Signed in, either as the returning legacy guest or as a new anonymous user. */
+  | 'signed-in'
+  /** This browser has legacy credentials that no longer work; nothing was created. */
+  | 'stale-credentials';
+
+/** Guest sessions and linking a guest account to a real email. */
+export class AuthService {
+  hasLegacyCredentials(): boolean {
+    return parseStoredCredentials(localStorage.getItem(LEGACY_CREDENTIALS_KEY)) !== null;
+  }
+
+  /**
+   * Resumes the legacy guest account stored in this browser, or starts an
+   * anonymous session when there is none. Stale credentials are reported
+   * instead of silently replaced, so the user can still sign in elsewhere.
+   */
+  async signInAsGuest(): Promise<GuestSignInResult> {
+    const stored = parseStoredCredentials(localStorage.getItem(LEGACY_CREDENTIALS_KEY));
+    if (stored) {
+      const { error } = await supabase.auth.signInWithPassword(stored);
+      return error ? 'stale-credentials' : 'signed-in';
+    }
+    await this.startGuestSession();
+    return 'signed-in';
+  }
+
+  /** Forgets any legacy credentials and starts a fresh anonymous session. */
+  async startGuestSession(): Promise<void> {
+    localStorage.removeItem(LEGACY_CREDENTIALS_KEY);
+    const { error } = await supabase.auth.signInAnonymously();
+    if (error) throw new Error(authErrorMessage(error.message));
+  }
+
+  /**
+   * Attaches an email to the current guest account. The user id stays the
+   * same, so every meeting stays with it; the password is set once the email
+   * is confirmed through the link, which lands on `/auth?mode=password`.
+   * Legacy guests cannot confirm from their placeholder address, so the
+   * link-guest-email function swaps theirs in.
+   */
+  async linkEmail(email: string, displayName: string): Promise<void> {
+    const emailRedirectTo = `${window.location.origin}/auth?mode=password`;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (isLegacyGuestEmail(user?.email)) {
+      const { data, error } = await supabase.functions.invoke('link-guest-email', {
+        body: { email, displayName, redirectTo: emailRedirectTo },
+      });
+      const payload = error?.context instanceof Response ? await error.context.json().catch(() => null) : data;
+      if (error || payload?.error) throw new Error(authErrorMessage(payload?.error ?? error?.message ?? ''));
+      return;
+    }
+
+    const { data, error } = await supabase.auth.updateUser(
+      { email, data: { display_name: displayName || email } },
+      { emailRedirectTo },
+    );
+    if (error || !data.user) throw new Error(authErrorMessage(error?.message ?? ''));
+    const { error: profileError } = await supabase.from('profiles').update({ display_name: displayName || email }).eq('user_id', data.user.id);
+    if (profileError) throw new Error(profileError.message);
+  }
+
+  /** Sets the password of the signed-in account; the legacy credentials are no longer needed after this. */
+  async setPassword(password: string): Promise<void> {
+    const { error } = await supabase.auth.updateUser({ password });
+    if (error) throw new Error(authErrorMessage(error.message));
+    localStorage.removeItem(LEGACY_CREDENTIALS_KEY);
+  }
+}
+
+export const authService = new AuthService();
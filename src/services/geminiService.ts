@@ -1,31 +1,177 @@
-import { ChatMessage } from '../types';
+import { ChatMessage, MeetingMetadata, CorrectionResult, AnalysisResult, GlossaryTerm, SpeakerProfile, ActionItem } from '../types';
 import { supabase } from '@/integrations/supabase/client';
+import { splitCorrectionOutput } from '@/lib/transcript';
+import { readSseData, ProxyStreamEvent } from '@/lib/sse';
+import { parseActionItems } from '@/lib/actionItems';
+import { ProviderInfo } from '@/lib/aiProviders';
+import { AiError, aiErrorFromPayload } from '@/lib/aiErrors';
 
-async function callProxy(action: string, payload: object): Promise<string> {
+const FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/gemini-proxy`;
+const PUBLISHABLE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+interface ProxyResponse {
+  text: string;
+  correctionLog?: string | null;
+  promptVersion?: string;
+  model?: string;
+}
+
+export interface StreamHandlers {
+  /** Called for every token with the delta and the text received so far. */
+  onDelta?: (delta: string, text: string) => void;
+  /** Called as chunks of a long correction finish. */
+  onProgress?: (completed: number, total: number) => void;
+  /** Called when the function retries a failed model call; text streamed so far is discarded. */
+  onRetry?: (attempt: number, delayMs: number) => void;
+  /** Aborting stops the stream and the upstream model call. */
+  signal?: AbortSignal;
+}
+
+/** Turns a failed function response into the classified error it carries, when it carries one. */
+async function invokeError(error: { message?: string; context?: unknown }): Promise<Error> {
+  const payload = error.context instanceof Response ? await error.context.json().catch(() => null) : null;
+  return payload?.error ? aiErrorFromPayload(payload) : new Error(error.message || 'Backend function error');
+}
+
+async function callProxy(action: string, payload: object): Promise<ProxyResponse> {
   const { data, error } = await supabase.functions.invoke('gemini-proxy', {
     body: { action, payload }
   });
 
-  if (error) throw new Error(error.message || 'Backend function error');
-  if (data?.error) throw new Error(data.error);
+  if (error) throw await invokeError(error);
+  if (data?.error) throw aiErrorFromPayload(data);
   if (!data?.text) throw new Error('API 回傳空白結果，請稍後重試');
-  return data.text;
+  return data;
+}
+
+/** Queues the work as a background job; the function answers with the job id straight away. */
+async function queueProxyJob(action: string, payload: object): Promise<string> {
+  const { data, error } = await supabase.functions.invoke('gemini-proxy', {
+    body: { action, payload, background: true }
+  });
+
+  if (error) throw await invokeError(error);
+  if (data?.error) throw aiErrorFromPayload(data);
+  if (!data?.jobId) throw new Error('無法建立背景工作，請稍後重試');
+  return data.jobId;
+}
+
+/**
+ * Calls the proxy in streaming mode and yields its events. `functions.invoke`
+ * buffers the whole body, so this goes through fetch directly.
+ */
+export async function* streamProxy(action: string, payload: object, signal?: AbortSignal): AsyncGenerator<ProxyStreamEvent> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const response = await fetch(FUNCTION_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'apikey': PUBLISHABLE_KEY,
+      'Authorization': `Bearer ${session?.access_token ?? PUBLISHABLE_KEY}`,
+    },
+    body: JSON.stringify({ action, payload, stream: true }),
+    signal,
+  }).catch(err => {
+    // fetch only rejects when the request never got an answer
+    throw signal?.aborted ? err : new AiError('upstream', err instanceof Error ? err.message : String(err));
+  });
+
+  if (!response.ok || !response.body) {
+    const errData = await response.json().catch(() => ({}));
+    throw errData?.error ? aiErrorFromPayload(errData) : new Error(`Backend function error ${response.status}`);
+  }
+  for await (const data of readSseData(response.body)) {
+    yield JSON.parse(data) as ProxyStreamEvent;
+  }
+}
+
+async function callProxyStream(action: string, payload: object, handlers: StreamHandlers): Promise<ProxyResponse> {
+  let text = '';
+  for await (const event of streamProxy(action, payload, handlers.signal)) {
+    if (event.type === 'delta') {
+      text += event.text;
+      handlers.onDelta?.(event.text, text);
+    } else if (event.type === 'progress') {
+      handlers.onProgress?.(event.completed, event.total);
+    } else if (event.type === 'retry') {
+      text = '';
+      handlers.onRetry?.(event.attempt, event.delayMs);
+    } else if (event.type === 'error') {
+      throw aiErrorFromPayload(event);
+    } else if (event.type === 'done') {
+      if (!event.text) throw new Error('API 回傳空白結果，請稍後重試');
+      return { text: event.text, correctionLog: event.correctionLog, promptVersion: event.promptVersion, model: event.model };
+    }
+  }
+  throw new AiError('upstream', 'stream ended without a result');
 }
 
 export class GeminiService {
-  async correctTranscript(transcript: string, metadata: any): Promise<string> {
+  /** Providers and models the function is configured with; the first is the default. */
+  async listProviders(): Promise<ProviderInfo[]> {
+    const { data, error } = await supabase.functions.invoke('gemini-proxy', { body: { action: 'listProviders' } });
+    if (error) throw new Error(error.message || 'Backend function error');
+    if (data?.error) throw new Error(data.error);
+    return data?.providers ?? [];
+  }
+
+  // `recordId` lets the function use the meeting's (or its workspace's) provider and model,
+  // and bills the usage to that workspace; the function refuses requests without one
+  async correctTranscript(transcript: string, metadata: any, handlers?: StreamHandlers, glossary: GlossaryTerm[] = [], recordId?: string): Promise<CorrectionResult> {
     if (!transcript?.trim()) throw new Error('逐字稿內容不得為空');
-    return callProxy('correctTranscript', { transcript, metadata });
+    const payload = { transcript, metadata, glossary, recordId };
+    const data = handlers ? await callProxyStream('correctTranscript', payload, handlers) : await callProxy('correctTranscript', payload);
+    // Older function deployments return the change log inline
+    const promptVersion = data.promptVersion ?? null;
+    const model = data.model ?? null;
+    if (data.correctionLog === undefined) return { ...splitCorrectionOutput(data.text), promptVersion, model };
+    return { transcript: data.text, correctionLog: data.correctionLog, promptVersion, model };
   }
 
   async analyzeTranscript(
     transcript: string,
     moduleId: string,
-    moduleName: string,
-    history: ChatMessage[] = []
+    history: ChatMessage[] = [],
+    handlers?: StreamHandlers,
+    focusSpeaker?: SpeakerProfile,
+    recordId?: string
+  ): Promise<AnalysisResult> {
+    if (!transcript?.trim()) throw new Error('逐字稿內容不得為空');
+    const payload = { transcript, moduleId, history, focusSpeaker, recordId };
+    const data = handlers ? await callProxyStream('analyzeTranscript', payload, handlers) : await callProxy('analyzeTranscript', payload);
+    return { text: data.text, promptVersion: data.promptVersion ?? null, model: data.model ?? null };
+  }
+
+  /**
+   * Runs the correction as a background job that saves a new transcript
+   * version when done, even if the page is closed meanwhile. Returns the job id.
+   */
+  async queueCorrection(transcript: string, metadata: MeetingMetadata, glossary: GlossaryTerm[], recordId: string): Promise<string> {
+    if (!transcript?.trim()) throw new Error('逐字稿內容不得為空');
+    return queueProxyJob('correctTranscript', { transcript, metadata, glossary, recordId });
+  }
+
+  /** Runs a module's first analysis of `transcriptVersionId` as a background job; returns the job id. */
+  async queueAnalysis(
+    transcript: string,
+    moduleId: string,
+    focusSpeaker: SpeakerProfile | undefined,
+    recordId: string,
+    transcriptVersionId: string
   ): Promise<string> {
     if (!transcript?.trim()) throw new Error('逐字稿內容不得為空');
-    return callProxy('analyzeTranscript', { transcript, moduleId, moduleName, history });
+    return queueProxyJob('analyzeTranscript', { transcript, moduleId, focusSpeaker, recordId, transcriptVersionId });
+  }
+
+  async extractActionItems(
+    transcript: string,
+    handlers?: StreamHandlers,
+    recordId?: string
+  ): Promise<{ items: ActionItem[]; promptVersion: string | null; model: string | null }> {
+    if (!transcript?.trim()) throw new Error('逐字稿內容不得為空');
+    const payload = { transcript, recordId };
+    const data = handlers ? await callProxyStream('extractActionItems', payload, handlers) : await callProxy('extractActionItems', payload);
+    return { items: parseActionItems(data.text), promptVersion: data.promptVersion ?? null, model: data.model ?? null };
   }
 }
 
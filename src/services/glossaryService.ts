@@ -0,0 +1,69 @@
+import { Glossary, GlossaryTerm } from '../types';
+import { supabase } from '@/integrations/supabase/client';
+
+const toTerm = (row: { term: string; variants: string[]; note: string | null }): GlossaryTerm => ({
+  term: row.term,
+  variants: row.variants || [],
+  ...(row.note ? { note: row.note } : {}),
+});
+
+export class GlossaryService {
+  async listGlossaries(): Promise<Glossary[]> {
+    const { data, error } = await supabase
+      .from('glossaries')
+      .select('*, glossary_terms(*)')
+      .order('created_at', { ascending: true });
+    if (error) throw new Error(error.message);
+    return (data || []).map(g => ({
+      id: g.id,
+      name: g.name,
+      description: g.description || undefined,
+      ownerId: g.user_id,
+      terms: [...(g.glossary_terms || [])]
+        .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+        .map(toTerm),
+    }));
+  }
+
+  async createGlossary(userId: string, name: string): Promise<Glossary> {
+    const { data, error } = await supabase.from('glossaries').insert({ user_id: userId, name }).select().single();
+    if (error || !data) throw new Error(error?.message || '建立詞彙表失敗');
+    return { id: data.id, name: data.name, terms: [], ownerId: data.user_id };
+  }
+
+  async updateGlossary(id: string, fields: { name?: string; description?: string | null }): Promise<void> {
+    const { error } = await supabase.from('glossaries').update(fields).eq('id', id);
+    if (error) throw new Error(error.message);
+  }
+
+  async deleteGlossary(id: string): Promise<void> {
+    const { error } = await supabase.from('glossaries').delete().eq('id', id);
+    if (error) throw new Error(error.message);
+  }
+
+  /** Replaces the glossary's terms with `terms`. */
+  async saveTerms(glossaryId: string, terms: GlossaryTerm[]): Promise<void> {
+    const { error: deleteError } = await supabase.from('glossary_terms').delete().eq('glossary_id', glossaryId);
+    if (deleteError) throw new Error(deleteError.message);
+    if (terms.length === 0) return;
+    const { error } = await supabase.from('glossary_terms').insert(
+      terms.map(t => ({ glossary_id: glossaryId, term: t.term, variants: t.variants, note: t.note || null })),
+    );
+    if (error) throw new Error(error.message);
+  }
+
+  async listAttached(recordId: string): Promise<string[]> {
+    const { data, error } = await supabase.from('meeting_glossaries').select('glossary_id').eq('record_id', recordId);
+    if (error) throw new Error(error.message);
+    return (data || []).map(row => row.glossary_id);
+  }
+
+  async setAttached(recordId: string, glossaryId: string, attached: boolean): Promise<void> {
+    const { error } = attached
+      ? await supabase.from('meeting_glossaries').insert({ record_id: recordId, glossary_id: glossaryId })
+      : await supabase.from('meeting_glossaries').delete().eq('record_id', recordId).eq('glossary_id', glossaryId);
+    if (error) throw new Error(error.message);
+  }
+}
+
+export const glossaryService = new GlossaryService();
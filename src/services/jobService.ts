@@ -0,0 +1,53 @@
+import { AiJob, AiJobStatus, SpeakerProfile } from '../types';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+type AiJobRow = Database['public']['Tables']['ai_jobs']['Row'];
+
+export const toAiJob = (row: AiJobRow): AiJob => ({
+  id: row.id,
+  recordId: row.record_id,
+  action: row.action as AiJob['action'],
+  moduleId: row.module_id || undefined,
+  transcriptVersionId: row.transcript_version_id || undefined,
+  focusSpeaker: (row.focus_speaker as unknown as SpeakerProfile) || undefined,
+  status: row.status as AiJobStatus,
+  partialOutput: row.partial_output || '',
+  progress: (row.progress as AiJob['progress']) || undefined,
+  retryAttempt: row.retry_attempt || undefined,
+  error: row.error || undefined,
+  errorKind: row.error_kind || undefined,
+  resultId: row.result_id || undefined,
+  createdAt: new Date(row.created_at).getTime(),
+  updatedAt: new Date(row.updated_at).getTime(),
+});
+
+/** Background AI jobs of a meeting; they are queued through `geminiService`. */
+export class JobService {
+  async listForRecord(recordId: string): Promise<AiJob[]> {
+    const { data, error } = await supabase.from('ai_jobs')
+      .select('*')
+      .eq('record_id', recordId)
+      .order('created_at', { ascending: true });
+    if (error) throw new Error(error.message);
+    return (data || []).map(toAiJob);
+  }
+
+  /** Calls `onChange` whenever one of the meeting's jobs is queued or updated; returns the unsubscribe. */
+  subscribe(recordId: string, onChange: (job: AiJob) => void): () => void {
+    const channel = supabase.channel(`ai_jobs:${recordId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'ai_jobs', filter: `record_id=eq.${recordId}` }, payload => {
+        if (payload.eventType !== 'DELETE') onChange(toAiJob(payload.new as AiJobRow));
+      })
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }
+
+  /** Marks the job failed; the function notices and stops the model call. */
+  async cancel(jobId: string): Promise<void> {
+    const { error } = await supabase.rpc('cancel_ai_job', { job_id: jobId });
+    if (error) throw new Error(error.message);
+  }
+}
+
+export const jobService = new JobService();
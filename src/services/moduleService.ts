@@ -0,0 +1,54 @@
+import { AnalysisModuleDefinition } from '../types';
+import { supabase } from '@/integrations/supabase/client';
+import { customModuleFromRow } from '@/lib/modules';
+
+export interface ModuleDraft {
+  name: string;
+  icon: string;
+  prompt: string;
+  outputFormat: string;
+}
+
+const toRow = (draft: ModuleDraft) => ({
+  name: draft.name,
+  icon: draft.icon,
+  prompt: draft.prompt,
+  output_format: draft.outputFormat,
+});
+
+export class ModuleService {
+  /** The caller's modules plus those written by members of the workspace. */
+  async listCustomModules(userId: string, workspaceId?: string | null): Promise<AnalysisModuleDefinition[]> {
+    const { data, error } = await supabase.from('analysis_modules').select('*').order('created_at', { ascending: true });
+    if (error) throw new Error(error.message);
+    let authors = new Set([userId]);
+    if (workspaceId) {
+      const { data: members, error: membersError } = await supabase.from('workspace_members').select('user_id').eq('workspace_id', workspaceId);
+      if (membersError) throw new Error(membersError.message);
+      authors = new Set([userId, ...(members || []).map(m => m.user_id)]);
+    }
+    return (data || []).filter(row => authors.has(row.user_id)).map(customModuleFromRow);
+  }
+
+  async createModule(userId: string, draft: ModuleDraft): Promise<AnalysisModuleDefinition> {
+    const { data, error } = await supabase.from('analysis_modules').insert({ user_id: userId, ...toRow(draft) }).select().single();
+    if (error || !data) throw new Error(error?.message || '建立模組失敗');
+    return customModuleFromRow(data);
+  }
+
+  /** Saves an edit; changing the text bumps the revision recorded with results. */
+  async updateModule(module: AnalysisModuleDefinition, draft: ModuleDraft): Promise<AnalysisModuleDefinition> {
+    const textChanged = draft.name !== module.name || draft.prompt !== module.prompt || draft.outputFormat !== module.outputFormat;
+    const revision = textChanged ? module.version + 1 : module.version;
+    const { data, error } = await supabase.from('analysis_modules').update({ ...toRow(draft), revision }).eq('id', module.id).select().single();
+    if (error || !data) throw new Error(error?.message || '更新模組失敗');
+    return customModuleFromRow(data);
+  }
+
+  async deleteModule(id: string): Promise<void> {
+    const { error } = await supabase.from('analysis_modules').delete().eq('id', id);
+    if (error) throw new Error(error.message);
+  }
+}
+
+export const moduleService = new ModuleService();
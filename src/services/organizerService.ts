@@ -0,0 +1,75 @@
+import { Folder, Tag } from '../types';
+import { supabase } from '@/integrations/supabase/client';
+
+/** Folders, tags and the bulk actions the sidebar applies to selected meetings. */
+export class OrganizerService {
+  async listFolders(): Promise<Folder[]> {
+    const { data, error } = await supabase.from('folders').select('id, name').order('name', { ascending: true });
+    if (error) throw new Error(error.message);
+    return data || [];
+  }
+
+  async createFolder(userId: string, name: string): Promise<Folder> {
+    const { data, error } = await supabase.from('folders').insert({ user_id: userId, name }).select('id, name').single();
+    if (error || !data) throw new Error(error?.code === '23505' ? '已有同名資料夾' : error?.message || '建立資料夾失敗');
+    return data;
+  }
+
+  async renameFolder(id: string, name: string): Promise<void> {
+    const { error } = await supabase.from('folders').update({ name }).eq('id', id);
+    if (error) throw new Error(error.code === '23505' ? '已有同名資料夾' : error.message);
+  }
+
+  /** Meetings in the folder stay; they become unfiled. */
+  async deleteFolder(id: string): Promise<void> {
+    const { error } = await supabase.from('folders').delete().eq('id', id);
+    if (error) throw new Error(error.message);
+  }
+
+  async listTags(): Promise<Tag[]> {
+    const { data, error } = await supabase.from('tags').select('id, name, color').order('name', { ascending: true });
+    if (error) throw new Error(error.message);
+    return data || [];
+  }
+
+  async createTag(userId: string, name: string, color: string): Promise<Tag> {
+    const { data, error } = await supabase.from('tags').insert({ user_id: userId, name, color }).select('id, name, color').single();
+    if (error || !data) throw new Error(error?.code === '23505' ? '已有同名標籤' : error?.message || '建立標籤失敗');
+    return data;
+  }
+
+  async deleteTag(id: string): Promise<void> {
+    const { error } = await supabase.from('tags').delete().eq('id', id);
+    if (error) throw new Error(error.message);
+  }
+
+  async tagRecords(recordIds: string[], tagId: string): Promise<void> {
+    const { error } = await supabase.from('meeting_tags')
+      .upsert(recordIds.map(recordId => ({ record_id: recordId, tag_id: tagId })), { ignoreDuplicates: true });
+    if (error) throw new Error(error.message);
+  }
+
+  async untagRecords(recordIds: string[], tagId: string): Promise<void> {
+    const { error } = await supabase.from('meeting_tags').delete().in('record_id', recordIds).eq('tag_id', tagId);
+    if (error) throw new Error(error.message);
+  }
+
+  /**
+   * Files meetings under one of the user's folders; `null` takes them out of
+   * any folder. Other members' filing of the same meetings is untouched.
+   */
+  async moveRecords(userId: string, recordIds: string[], folderId: string | null): Promise<void> {
+    const { error } = folderId
+      ? await supabase.from('meeting_folders')
+        .upsert(recordIds.map(recordId => ({ user_id: userId, record_id: recordId, folder_id: folderId })), { onConflict: 'user_id,record_id' })
+      : await supabase.from('meeting_folders').delete().eq('user_id', userId).in('record_id', recordIds);
+    if (error) throw new Error(error.message);
+  }
+
+  async deleteRecords(recordIds: string[]): Promise<void> {
+    const { error } = await supabase.from('meeting_records').delete().in('id', recordIds);
+    if (error) throw new Error(error.message);
+  }
+}
+
+export const organizerService = new OrganizerService();
@@ -0,0 +1,162 @@
+import type { Paragraph as DocxParagraph, Table as DocxTable } from 'docx';
+import {
+  MeetingReport, ReportBlock, REPORT_FONTS, buildReportHtml, buildReportMarkdown, coverFields,
+  nestHeadings, parseInlineRuns, parseMarkdownBlocks, plainText, reportFileName,
+} from '@/lib/report';
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const ORDERED_LIST = 'report-ordered';
+
+export class ReportService {
+  downloadMarkdown(report: MeetingReport): void {
+    downloadBlob(new Blob([buildReportMarkdown(report)], { type: 'text/markdown;charset=utf-8' }), reportFileName(report, 'md'));
+  }
+
+  async downloadDocx(report: MeetingReport): Promise<void> {
+    // Loaded on demand so the library stays out of the main bundle
+    const docx = await import('docx');
+    const {
+      AlignmentType, Bookmark, Document, HeadingLevel, LevelFormat, Packer, PageBreak, Paragraph,
+      Table, TableCell, TableOfContents, TableRow, TextRun, WidthType,
+    } = docx;
+    const HEADINGS = [HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3, HeadingLevel.HEADING_4, HeadingLevel.HEADING_5, HeadingLevel.HEADING_6];
+    let listInstance = 0;
+
+    const runs = (text: string, extra: { italics?: boolean; color?: string } = {}) =>
+      parseInlineRuns(text).map(run => new TextRun({
+        text: run.text,
+        bold: run.bold,
+        italics: run.italic || extra.italics,
+        color: extra.color,
+        ...(run.code && { font: 'Consolas' }),
+      }));
+
+    const renderBlock = (block: ReportBlock): (DocxParagraph | DocxTable)[] => {
+      switch (block.type) {
+        case 'heading':
+          return [new Paragraph({ heading: HEADINGS[block.level - 1], children: runs(block.text) })];
+        case 'paragraph':
+          return [new Paragraph({ children: runs(block.text), spacing: { after: 120 } })];
+        case 'quote':
+          return [new Paragraph({ children: runs(block.text, { italics: true, color: '555555' }), indent: { left: 480 } })];
+        case 'rule':
+          return [new Paragraph({ border: { bottom: { style: 'single', size: 6, color: 'CCCCCC', space: 1 } }, children: [] })];
+        case 'list': {
+          // Each ordered list restarts its numbering
+          const instance = ++listInstance;
+          return block.items.map(item => new Paragraph({
+            children: runs(item.text),
+            ...(block.ordered
+              ? { numbering: { reference: ORDERED_LIST, level: item.depth, instance } }
+              : { bullet: { level: item.depth } }),
+          }));
+        }
+        case 'table': {
+          const row = (cells: string[], header: boolean) => new TableRow({
+            tableHeader: header,
+            children: cells.map(cell => new TableCell({
+              children: [new Paragraph({ children: header ? [new TextRun({ text: plainText(cell), bold: true })] : runs(cell) })],
+            })),
+          });
+          return [new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            rows: [row(block.header, true), ...block.rows.map(cells => row(cells, false))],
+          })];
+        }
+      }
+    };
+
+    const bookmarkId = (idx: number) => `section_${idx + 1}`;
+    const cover = [
+      new Paragraph({ spacing: { before: 3600, after: 600 }, children: [new TextRun({ text: report.title, bold: true, size: 52 })] }),
+      ...coverFields(report).map(([label, value]) => new Paragraph({
+        spacing: { after: 120 },
+        children: [new TextRun({ text: `${label}：`, bold: true, color: '666666' }), new TextRun(value)],
+      })),
+      new Paragraph({ children: [new PageBreak()] }),
+    ];
+    const toc = [
+      // Not a heading, so the contents page does not list itself
+      new Paragraph({ spacing: { after: 240 }, children: [new TextRun({ text: '目錄', bold: true, size: 32 })] }),
+      new TableOfContents('目錄', {
+        hyperlink: true,
+        headingStyleRange: '1-1',
+        cachedEntries: report.sections.map((section, idx) => ({ title: `${idx + 1}. ${section.title}`, level: 1, href: bookmarkId(idx) })),
+      }),
+    ];
+    const sections = report.sections.flatMap((section, idx) => [
+      new Paragraph({
+        heading: HeadingLevel.HEADING_1,
+        pageBreakBefore: true,
+        children: [new Bookmark({ id: bookmarkId(idx), children: [new TextRun(`${idx + 1}. ${section.title}`)] })],
+      }),
+      ...(section.caption ? [new Paragraph({ children: [new TextRun({ text: section.caption, color: '666666', size: 18 })], spacing: { after: 240 } })] : []),
+      ...nestHeadings(parseMarkdownBlocks(section.body), 1).flatMap(renderBlock),
+    ]);
+
+    const doc = new Document({
+      title: report.title,
+      // Asks Word to refresh the table of contents (page numbers) on open
+      features: { updateFields: true },
+      styles: {
+        default: {
+          document: {
+            run: {
+              font: { ascii: REPORT_FONTS.docx, hAnsi: REPORT_FONTS.docx, eastAsia: REPORT_FONTS.docx, cs: REPORT_FONTS.docx },
+              language: { value: 'zh-TW', eastAsia: 'zh-TW' },
+              size: 21,
+            },
+          },
+        },
+      },
+      numbering: {
+        config: [{
+          reference: ORDERED_LIST,
+          levels: [0, 1, 2, 3].map(level => ({
+            level,
+            format: LevelFormat.DECIMAL,
+            text: `%${level + 1}.`,
+            alignment: AlignmentType.START,
+            style: { paragraph: { indent: { left: 420 * (level + 1), hanging: 300 } } },
+          })),
+        }],
+      },
+      sections: [{ children: [...cover, ...toc, ...sections] }],
+    });
+    downloadBlob(await Packer.toBlob(doc), reportFileName(report, 'docx'));
+  }
+
+  /** Opens the report in a hidden frame and hands it to the browser's print dialog (「另存為 PDF」). */
+  printPdf(report: MeetingReport): void {
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    document.body.appendChild(frame);
+    const win = frame.contentWindow;
+    if (!win) {
+      frame.remove();
+      throw new Error('無法建立列印視窗');
+    }
+    win.document.open();
+    win.document.write(buildReportHtml(report));
+    win.document.close();
+    win.onafterprint = () => frame.remove();
+    // Give web fonts a moment to apply before the print snapshot is taken
+    setTimeout(() => {
+      win.focus();
+      win.print();
+    }, 250);
+  }
+}
+
+export const reportService = new ReportService();
@@ -0,0 +1,43 @@
+import { supabase } from '@/integrations/supabase/client';
+import { SearchMatchKind, parseSearchQuery } from '@/lib/search';
+
+export interface SearchResult {
+  recordId: string;
+  recordTitle: string;
+  recordCreatedAt: number;
+  kind: SearchMatchKind;
+  /** Set for corrected-transcript matches. */
+  transcriptVersion: number | null;
+  /** Set for module chat matches. */
+  moduleId: string | null;
+  moduleVersion: number | null;
+  snippet: string;
+  matchedAt: number;
+}
+
+const MAX_RESULTS = 50;
+
+export class SearchService {
+  async search(query: string): Promise<{ terms: string[]; results: SearchResult[] }> {
+    const terms = parseSearchQuery(query);
+    if (terms.length === 0) return { terms, results: [] };
+    const { data, error } = await supabase.rpc('search_meetings', { search_terms: terms, max_results: MAX_RESULTS });
+    if (error) throw new Error(error.message);
+    return {
+      terms,
+      results: (data || []).map(row => ({
+        recordId: row.record_id,
+        recordTitle: row.record_title,
+        recordCreatedAt: new Date(row.record_created_at).getTime(),
+        kind: row.match_kind as SearchMatchKind,
+        transcriptVersion: row.transcript_version_number,
+        moduleId: row.module_id,
+        moduleVersion: row.module_version_number,
+        snippet: row.snippet,
+        matchedAt: new Date(row.matched_at).getTime(),
+      })),
+    };
+  }
+}
+
+export const searchService = new SearchService();
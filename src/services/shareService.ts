@@ -0,0 +1,92 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { SharedReportPayload } from '@/lib/shareLinks';
+
+const FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/share-link`;
+const PUBLISHABLE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+export interface ShareLink {
+  id: string;
+  token: string;
+  transcriptVersionId: string | null;
+  moduleVersionIds: string[];
+  createdAt: number;
+  expiresAt: number | null;
+  revokedAt: number | null;
+  viewCount: number;
+  lastViewedAt: number | null;
+}
+
+export interface ShareLinkDraft {
+  transcriptVersionId: string | null;
+  moduleVersionIds: string[];
+  /** ISO timestamp, or null for a link that never expires. */
+  expiresAt: string | null;
+}
+
+/** Share links for a meeting report, and the public lookup behind /share/:token. */
+export class ShareService {
+  async listForRecord(recordId: string): Promise<ShareLink[]> {
+    const { data, error } = await supabase.from('share_links')
+      .select('*, share_link_views(viewed_at)')
+      .eq('record_id', recordId)
+      .order('created_at', { ascending: false });
+    if (error) throw new Error(error.message);
+    return (data || []).map(row => {
+      const views = (row.share_link_views || []).map(v => new Date(v.viewed_at).getTime());
+      return {
+        id: row.id,
+        token: row.token,
+        transcriptVersionId: row.transcript_version_id,
+        moduleVersionIds: row.module_version_ids,
+        createdAt: new Date(row.created_at).getTime(),
+        expiresAt: row.expires_at ? new Date(row.expires_at).getTime() : null,
+        revokedAt: row.revoked_at ? new Date(row.revoked_at).getTime() : null,
+        viewCount: views.length,
+        lastViewedAt: views.length > 0 ? Math.max(...views) : null,
+      };
+    });
+  }
+
+  async create(recordId: string, userId: string, draft: ShareLinkDraft): Promise<ShareLink> {
+    const { data, error } = await supabase.from('share_links').insert({
+      record_id: recordId,
+      created_by: userId,
+      transcript_version_id: draft.transcriptVersionId,
+      module_version_ids: draft.moduleVersionIds,
+      expires_at: draft.expiresAt,
+    }).select().single();
+    if (error || !data) throw new Error(error?.message || '建立分享連結失敗');
+    return {
+      id: data.id, token: data.token, transcriptVersionId: data.transcript_version_id, moduleVersionIds: data.module_version_ids,
+      createdAt: new Date(data.created_at).getTime(), expiresAt: data.expires_at ? new Date(data.expires_at).getTime() : null,
+      revokedAt: null, viewCount: 0, lastViewedAt: null,
+    };
+  }
+
+  /** Revoked links stay listed with their access log. */
+  async revoke(id: string): Promise<void> {
+    const { error } = await supabase.from('share_links').update({ revoked_at: new Date().toISOString() }).eq('id', id);
+    if (error) throw new Error(error.message);
+  }
+
+  /**
+   * Resolves a token through the share-link function. Called without a
+   * session; fetch is used so the function's error message reaches the page.
+   */
+  async fetchShared(token: string): Promise<SharedReportPayload> {
+    const response = await fetch(FUNCTION_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': PUBLISHABLE_KEY,
+        'Authorization': `Bearer ${PUBLISHABLE_KEY}`,
+      },
+      body: JSON.stringify({ token }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data?.error || `分享連結載入失敗（${response.status}）`);
+    return data as SharedReportPayload;
+  }
+}
+
+export const shareService = new ShareService();
@@ -0,0 +1,45 @@
+import { UsageRecord } from '../types';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+type UsageRow = Database['public']['Tables']['ai_usage']['Row'];
+
+/** A ledger row together with its meeting's title, for the usage dashboard. */
+export interface UsageWithMeeting extends UsageRecord {
+  meetingTitle: string | null;
+}
+
+export const toUsageRecord = (row: UsageRow): UsageRecord => ({
+  id: row.id,
+  userId: row.user_id,
+  workspaceId: row.workspace_id,
+  recordId: row.record_id,
+  action: row.action,
+  model: row.model,
+  calls: row.calls,
+  promptTokens: row.prompt_tokens,
+  completionTokens: row.completion_tokens,
+  totalTokens: row.total_tokens,
+  estimated: row.estimated,
+  cost: row.cost === null ? null : Number(row.cost),
+  createdAt: new Date(row.created_at).getTime(),
+});
+
+/** The AI usage ledger; rows are written by the gemini-proxy edge function. */
+export class UsageService {
+  /** The workspace's usage between two ISO timestamps; RLS limits members to their own rows and meetings. */
+  async listForWorkspace(workspaceId: string, start: string, end: string): Promise<UsageWithMeeting[]> {
+    const { data, error } = await supabase.from('ai_usage')
+      .select('*, meeting_records(title)')
+      .eq('workspace_id', workspaceId)
+      // Requests still running hold only a reservation
+      .eq('pending', false)
+      .gte('created_at', start)
+      .lt('created_at', end)
+      .order('created_at', { ascending: false });
+    if (error) throw new Error(error.message);
+    return (data || []).map(row => ({ ...toUsageRecord(row), meetingTitle: row.meeting_records?.title ?? null }));
+  }
+}
+
+export const usageService = new UsageService();
@@ -0,0 +1,131 @@
+import { Workspace, WorkspaceInvitation, WorkspaceMember, WorkspaceRole } from '../types';
+import { supabase } from '@/integrations/supabase/client';
+import { ModelChoice } from '@/lib/aiProviders';
+
+const ACTIVE_WORKSPACE_KEY = 'active_workspace_id';
+
+/** Workspaces, their members and invitation links. */
+export class WorkspaceService {
+  async listWorkspaces(userId: string): Promise<Workspace[]> {
+    const { data, error } = await supabase.from('workspace_members')
+      .select('role, workspaces(id, name, created_at, ai_provider, ai_model, monthly_token_quota, member_monthly_token_quota)')
+      .eq('user_id', userId);
+    if (error) throw new Error(error.message);
+    return (data || [])
+      .filter(row => row.workspaces)
+      .sort((a, b) => a.workspaces!.created_at.localeCompare(b.workspaces!.created_at))
+      .map(row => ({
+        id: row.workspaces!.id, name: row.workspaces!.name, role: row.role as WorkspaceRole,
+        aiProvider: row.workspaces!.ai_provider, aiModel: row.workspaces!.ai_model,
+        monthlyTokenQuota: row.workspaces!.monthly_token_quota, memberMonthlyTokenQuota: row.workspaces!.member_monthly_token_quota,
+      }));
+  }
+
+  async createWorkspace(name: string): Promise<Workspace> {
+    const { data, error } = await supabase.rpc('create_workspace', { workspace_name: name });
+    if (error || !data) throw new Error(error?.message || '建立工作區失敗');
+    return { id: data, name, role: 'owner' };
+  }
+
+  async renameWorkspace(id: string, name: string): Promise<void> {
+    const { error } = await supabase.from('workspaces').update({ name }).eq('id', id);
+    if (error) throw new Error(error.message);
+  }
+
+  /** Sets the provider and model the workspace's meetings use unless a meeting picks its own. */
+  async updateModel(id: string, choice: ModelChoice): Promise<void> {
+    const { error } = await supabase.from('workspaces').update({ ai_provider: choice.provider, ai_model: choice.model }).eq('id', id);
+    if (error) throw new Error(error.message);
+  }
+
+  /** Sets the monthly token caps for the workspace and for each member; null removes a cap. */
+  async updateQuotas(id: string, quotas: { monthlyTokenQuota: number | null; memberMonthlyTokenQuota: number | null }): Promise<void> {
+    const { error } = await supabase.from('workspaces')
+      .update({ monthly_token_quota: quotas.monthlyTokenQuota, member_monthly_token_quota: quotas.memberMonthlyTokenQuota })
+      .eq('id', id);
+    if (error) throw new Error(error.message);
+  }
+
+  /** Deletes the workspace together with all of its meetings. */
+  async deleteWorkspace(id: string): Promise<void> {
+    const { error } = await supabase.from('workspaces').delete().eq('id', id);
+    if (error) throw new Error(error.message);
+  }
+
+  async listMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    const { data, error } = await supabase.from('workspace_members')
+      .select('user_id, role, created_at')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: true });
+    if (error) throw new Error(error.message);
+    const rows = data || [];
+    const { data: profiles } = await supabase.from('profiles').select('user_id, display_name').in('user_id', rows.map(r => r.user_id));
+    const names = new Map((profiles || []).map(p => [p.user_id, p.display_name]));
+    return rows.map(row => ({
+      userId: row.user_id,
+      displayName: names.get(row.user_id) ?? null,
+      role: row.role as WorkspaceRole,
+      joinedAt: new Date(row.created_at).getTime(),
+    }));
+  }
+
+  async updateMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<void> {
+    const { error } = await supabase.from('workspace_members').update({ role }).eq('workspace_id', workspaceId).eq('user_id', userId);
+    if (error) throw new Error(error.message);
+  }
+
+  /** Removes a member; removing yourself leaves the workspace. */
+  async removeMember(workspaceId: string, userId: string): Promise<void> {
+    const { error } = await supabase.from('workspace_members').delete().eq('workspace_id', workspaceId).eq('user_id', userId);
+    if (error) throw new Error(error.message);
+  }
+
+  async listInvitations(workspaceId: string): Promise<WorkspaceInvitation[]> {
+    const { data, error } = await supabase.from('workspace_invitations')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: false });
+    if (error) throw new Error(error.message);
+    return (data || []).map(row => ({
+      id: row.id,
+      email: row.email,
+      role: row.role === 'editor' ? 'editor' : 'viewer',
+      token: row.token,
+      expiresAt: new Date(row.expires_at).getTime(),
+      acceptedAt: row.accepted_at ? new Date(row.accepted_at).getTime() : null,
+    }));
+  }
+
+  async createInvitation(workspaceId: string, userId: string, role: WorkspaceInvitation['role'], email: string | null): Promise<WorkspaceInvitation> {
+    const { data, error } = await supabase.from('workspace_invitations')
+      .insert({ workspace_id: workspaceId, invited_by: userId, role, email })
+      .select().single();
+    if (error || !data) throw new Error(error?.message || '建立邀請失敗');
+    return {
+      id: data.id, email: data.email, role, token: data.token,
+      expiresAt: new Date(data.expires_at).getTime(), acceptedAt: null,
+    };
+  }
+
+  async revokeInvitation(id: string): Promise<void> {
+    const { error } = await supabase.from('workspace_invitations').delete().eq('id', id);
+    if (error) throw new Error(error.message);
+  }
+
+  /** Joins the invitation's workspace and returns its id. */
+  async acceptInvitation(token: string): Promise<string> {
+    const { data, error } = await supabase.rpc('accept_workspace_invitation', { invite_token: token });
+    if (error || !data) throw new Error(error?.message || '加入工作區失敗');
+    return data;
+  }
+
+  getStoredWorkspaceId(): string | null {
+    return localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+  }
+
+  storeWorkspaceId(id: string) {
+    localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+  }
+}
+
+export const workspaceService = new WorkspaceService();
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { authErrorMessage, isGuestAccount, parseStoredCredentials, safeRedirect } from "@/lib/accounts";
+
+describe("parseStoredCredentials", () => {
+  it("reads the legacy JSON and ignores anything malformed", () => {
+    expect(parseStoredCredentials(JSON.stringify({ email: "u-1-a@local.app", password: "p" })))
+      .toEqual({ email: "u-1-a@local.app", password: "p" });
+    expect(parseStoredCredentials(null)).toBeNull();
+    expect(parseStoredCredentials("{not json")).toBeNull();
+    expect(parseStoredCredentials(JSON.stringify({ email: "x@y.z" }))).toBeNull();
+  });
+});
+
+describe("isGuestAccount", () => {
+  it("covers anonymous users and legacy throwaway accounts", () => {
+    expect(isGuestAccount({ is_anonymous: true, email: "" })).toBe(true);
+    expect(isGuestAccount({ email: null })).toBe(true);
+    expect(isGuestAccount({ email: "u-lq2x9k-ab12cd@local.app" })).toBe(true);
+    expect(isGuestAccount({ email: "amy@example.com", is_anonymous: false })).toBe(false);
+    expect(isGuestAccount(null)).toBe(false);
+  });
+});
+
+describe("safeRedirect", () => {
+  it("only follows in-app paths", () => {
+    expect(safeRedirect("/?record=abc")).toBe("/?record=abc");
+    expect(safeRedirect("//evil.example")).toBe("/");
+    expect(safeRedirect("https://evil.example")).toBe("/");
+    expect(safeRedirect(null)).toBe("/");
+  });
+});
+
+describe("authErrorMessage", () => {
+  it("translates known Supabase errors and passes others through", () => {
+    expect(authErrorMessage("Invalid login credentials")).toBe("帳號或密碼錯誤，請確認後重試");
+    expect(authErrorMessage("A user with this email address has already been registered")).toBe("此電子郵件已被使用");
+    expect(authErrorMessage("rate limited")).toBe("rate limited");
+    expect(authErrorMessage("")).toBe("操作失敗，請稍後再試");
+  });
+});
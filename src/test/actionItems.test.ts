@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { parseActionItems, extractJson, carryOverStatuses } from "@/lib/actionItems";
+
+const ITEM = {
+  task: "提供資遣費試算",
+  assigner: "王經理",
+  owner: "李律師",
+  due_date: "2026-03-20",
+  due_text: "下週五前",
+  source_quote: "李律師，麻煩下週五前把資遣費試算給我。",
+  ambiguous: false,
+  ambiguity_note: null,
+};
+
+describe("parseActionItems", () => {
+  it("reads the items object", () => {
+    expect(parseActionItems(JSON.stringify({ items: [ITEM] }))).toEqual([
+      {
+        task: "提供資遣費試算",
+        assigner: "王經理",
+        owner: "李律師",
+        dueDate: "2026-03-20",
+        dueText: "下週五前",
+        sourceQuote: "李律師，麻煩下週五前把資遣費試算給我。",
+        ambiguous: false,
+        ambiguityNote: null,
+      },
+    ]);
+  });
+
+  it("accepts fenced output and bare arrays", () => {
+    expect(parseActionItems("以下是結果：\n```json\n[" + JSON.stringify(ITEM) + "]\n```")).toHaveLength(1);
+  });
+
+  it("keeps unparseable deadlines as text and flags missing owners", () => {
+    const [item] = parseActionItems(JSON.stringify({ items: [{ ...ITEM, owner: null, due_date: "月底", due_text: null }] }));
+    expect(item.dueDate).toBeNull();
+    expect(item.dueText).toBe("月底");
+    expect(item.ambiguous).toBe(true);
+  });
+
+  it("rejects items without a source quote", () => {
+    expect(() => parseActionItems(JSON.stringify({ items: [{ ...ITEM, source_quote: "" }] }))).toThrow("第 1 筆行動項目缺少 source_quote");
+  });
+
+  it("rejects non-JSON replies", () => {
+    expect(() => extractJson("沒有交辦事項")).toThrow();
+    expect(() => parseActionItems('{"foo": 1}')).toThrow("items");
+  });
+});
+
+describe("carryOverStatuses", () => {
+  const item = (task: string, owner: string | null) => ({
+    task, owner, assigner: null, dueDate: null, dueText: null, sourceQuote: "q", ambiguous: false, ambiguityNote: null,
+  });
+
+  it("keeps the status of re-found items and opens new ones", () => {
+    const previous = [
+      { task: "整理  報價單", owner: "Amy", status: "done" as const },
+      { task: "寄送會議紀錄", owner: "Bob", status: "in_progress" as const },
+    ];
+    expect(carryOverStatuses(previous, [item("整理 報價單", "amy"), item("寄送會議紀錄", "Carol"), item("安排下次會議", null)]))
+      .toEqual(["done", "open", "open"]);
+  });
+
+  it("matches each tracked item once", () => {
+    const previous = [{ task: "回覆客戶", owner: null, status: "cancelled" as const }];
+    expect(carryOverStatuses(previous, [item("回覆客戶", null), item("回覆客戶", null)])).toEqual(["cancelled", "open"]);
+  });
+});
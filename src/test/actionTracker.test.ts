@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { findFollowUps, groupByOwner, isOverdue, statusCue, todayString, UNASSIGNED_OWNER } from "@/lib/actionTracker";
+import type { TrackedActionItem } from "@/types";
+
+const item = (overrides: Partial<TrackedActionItem>): TrackedActionItem => ({
+  id: "i1",
+  recordId: "r1",
+  task: "提供資遣費試算",
+  assigner: "王經理",
+  owner: "李律師",
+  dueDate: "2026-03-20",
+  dueText: null,
+  sourceQuote: "李律師，麻煩下週五前把資遣費試算給我。",
+  ambiguous: false,
+  ambiguityNote: null,
+  status: "open",
+  updatedAt: 0,
+  ...overrides,
+});
+
+describe("isOverdue", () => {
+  it("flags past due dates on items that are still open", () => {
+    expect(isOverdue(item({}), "2026-03-21")).toBe(true);
+    expect(isOverdue(item({}), "2026-03-20")).toBe(false);
+    expect(isOverdue(item({ status: "done" }), "2026-03-21")).toBe(false);
+    expect(isOverdue(item({ dueDate: null }), "2026-03-21")).toBe(false);
+  });
+
+  it("formats today as a local date", () => {
+    expect(todayString(new Date(2026, 2, 5))).toBe("2026-03-05");
+  });
+});
+
+describe("groupByOwner", () => {
+  it("groups owner spellings together and puts unassigned items last", () => {
+    const groups = groupByOwner([
+      item({ id: "a", owner: null }),
+      item({ id: "b", owner: "陳會計" }),
+      item({ id: "c", owner: "李律師" }),
+      item({ id: "d", owner: "李律師（顧問）" }),
+    ]);
+    expect(groups.map(g => [g.owner, g.items.map(i => i.id)])).toEqual([
+      ["李律師", ["c", "d"]],
+      ["陳會計", ["b"]],
+      [UNASSIGNED_OWNER, ["a"]],
+    ]);
+  });
+});
+
+describe("statusCue", () => {
+  it("reads 還沒完成 as in progress rather than done", () => {
+    expect(statusCue("試算還沒完成")).toBe("in_progress");
+    expect(statusCue("試算已經完成了")).toBe("done");
+    expect(statusCue("這項先不做")).toBe("cancelled");
+    expect(statusCue("我們來討論試算")).toBeNull();
+  });
+});
+
+describe("findFollowUps", () => {
+  const meetings = [
+    { recordId: "r1", createdAt: 100, transcript: "**王經理 00:00:01**\n李律師，麻煩下週五前把資遣費試算給我。" },
+    { recordId: "r2", createdAt: 200, transcript: "**李律師 00:00:05**\n資遣費的試算我已經寄給您了。\n\n**王經理 00:00:09**\n好，謝謝。" },
+  ];
+
+  it("suggests a new status when a later meeting mentions the item", () => {
+    expect(findFollowUps([item({})], meetings)).toEqual([
+      {
+        itemId: "i1",
+        recordId: "r2",
+        speaker: "李律師",
+        startTime: "00:00:05",
+        quote: "資遣費的試算我已經寄給您了。",
+        suggestedStatus: "done",
+      },
+    ]);
+  });
+
+  it("ignores the meeting the item came from and closed items", () => {
+    expect(findFollowUps([item({ recordId: "r2" })], meetings)).toEqual([]);
+    expect(findFollowUps([item({ status: "done" })], meetings)).toEqual([]);
+  });
+
+  it("stays quiet when the mention carries no status change", () => {
+    const later = [meetings[0], { ...meetings[1], transcript: "**李律師 00:00:05**\n資遣費試算正在處理中。" }];
+    expect(findFollowUps([item({ status: "in_progress" })], later)).toEqual([]);
+    expect(findFollowUps([item({ task: "整理離職面談紀錄" })], meetings)).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { AiError, aiErrorFromPayload, backoffDelay, classifyProviderError, parseRetryAfter, withRetry } from "@/lib/aiErrors";
+
+describe("classifyProviderError", () => {
+  it("sorts responses by status and error body", () => {
+    expect(classifyProviderError(429, {}, "7")).toMatchObject({ kind: "rate_limit", retryAfterMs: 7000, retryable: true });
+    expect(classifyProviderError(429, { error: { code: "insufficient_quota", message: "You exceeded your quota" } }).kind).toBe("quota");
+    expect(classifyProviderError(402, { error: "Payment required" }).kind).toBe("quota");
+    expect(classifyProviderError(400, { error: { message: "Blocked by content_filter" } }).kind).toBe("content_filter");
+    expect(classifyProviderError(504, null).kind).toBe("timeout");
+    expect(classifyProviderError(502, null)).toMatchObject({ kind: "upstream", detail: "HTTP 502" });
+    expect(classifyProviderError(404, { error: { message: "model not found" } })).toMatchObject({ kind: "invalid_request", retryable: false });
+  });
+
+  it("shows localized messages and keeps the raw one for logs", () => {
+    const error = classifyProviderError(429, { error: { message: "Gateway error 429" } });
+    expect(error.message).not.toContain("429");
+    expect(error.detail).toBe("Gateway error 429");
+    expect(error.response).toEqual({ status: 429, body: { error: { message: "Gateway error 429" } } });
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("reads seconds and HTTP dates", () => {
+    expect(parseRetryAfter("2")).toBe(2000);
+    expect(parseRetryAfter("Wed, 21 Oct 2015 07:28:10 GMT", Date.UTC(2015, 9, 21, 7, 28, 0))).toBe(10000);
+    expect(parseRetryAfter("soon")).toBeNull();
+    expect(parseRetryAfter(null)).toBeNull();
+  });
+});
+
+describe("aiErrorFromPayload", () => {
+  it("rebuilds classified errors and keeps plain messages from older deployments", () => {
+    const error = aiErrorFromPayload(new AiError("upstream").toPayload());
+    expect(error).toBeInstanceOf(AiError);
+    expect((error as AiError).retryable).toBe(true);
+    expect(aiErrorFromPayload({ error: "逐字稿內容不得為空" })).not.toBeInstanceOf(AiError);
+  });
+});
+
+describe("withRetry", () => {
+  const noSleep = async () => {};
+
+  it("doubles the delay per attempt and honours Retry-After", () => {
+    expect(backoffDelay(1, null, 1000, 30000, () => 1)).toBe(1000);
+    expect(backoffDelay(3, null, 1000, 30000, () => 1)).toBe(4000);
+    expect(backoffDelay(10, null, 1000, 30000, () => 0)).toBe(15000);
+    expect(backoffDelay(1, 9000, 1000, 30000, () => 1)).toBe(9000);
+  });
+
+  it("retries transient failures until one succeeds", async () => {
+    const retries: number[] = [];
+    const result = await withRetry(async attempt => {
+      if (attempt < 3) throw new AiError("upstream", "502");
+      return "ok";
+    }, { sleep: noSleep, onRetry: (_, attempt) => retries.push(attempt) });
+    expect(result).toBe("ok");
+    expect(retries).toEqual([1, 2]);
+  });
+
+  it("gives up on permanent errors, after the last attempt and on long Retry-After", async () => {
+    let calls = 0;
+    await expect(withRetry(async () => { calls++; throw new AiError("quota"); }, { sleep: noSleep })).rejects.toMatchObject({ kind: "quota" });
+    expect(calls).toBe(1);
+
+    calls = 0;
+    await expect(withRetry(async () => { calls++; throw new AiError("rate_limit"); }, { sleep: noSleep, maxAttempts: 3 })).rejects.toMatchObject({ kind: "rate_limit" });
+    expect(calls).toBe(3);
+
+    calls = 0;
+    await expect(withRetry(async () => { calls++; throw new AiError("rate_limit", null, 120000); }, { sleep: noSleep })).rejects.toBeInstanceOf(AiError);
+    expect(calls).toBe(1);
+  });
+});
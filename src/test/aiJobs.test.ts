@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { JOB_STALL_MS, activeJobFor, isJobActive, jobError, jobTarget, settledJobs, upsertJob } from "@/lib/aiJobs";
+import { AiError } from "@/lib/aiErrors";
+import type { AiJob } from "@/types";
+
+const NOW = 1_700_000_000_000;
+
+const job = (overrides: Partial<AiJob>): AiJob => ({
+  id: "j1", recordId: "r1", action: "analyzeTranscript", moduleId: "A", status: "running",
+  partialOutput: "", createdAt: NOW - 5000, updatedAt: NOW - 1000, ...overrides,
+});
+
+describe("jobTarget", () => {
+  it("uses the stream keys of the client", () => {
+    expect(jobTarget({ action: "correctTranscript" })).toBe("correction");
+    expect(jobTarget({ action: "analyzeTranscript", moduleId: "B" })).toBe("B");
+  });
+});
+
+describe("isJobActive", () => {
+  it("stops waiting for jobs that went silent", () => {
+    expect(isJobActive(job({ status: "queued" }), NOW)).toBe(true);
+    expect(isJobActive(job({ status: "succeeded" }), NOW)).toBe(false);
+    expect(isJobActive(job({ updatedAt: NOW - JOB_STALL_MS - 1 }), NOW)).toBe(false);
+  });
+});
+
+describe("activeJobFor", () => {
+  it("picks the newest live job for the target", () => {
+    const jobs = [
+      job({ id: "old", createdAt: NOW - 9000 }),
+      job({ id: "new", createdAt: NOW - 2000 }),
+      job({ id: "done", createdAt: NOW - 1000, status: "failed" }),
+      job({ id: "other", moduleId: "C" }),
+    ];
+    expect(activeJobFor(jobs, "A", NOW)?.id).toBe("new");
+    expect(activeJobFor(jobs, "correction", NOW)).toBeNull();
+  });
+});
+
+describe("upsertJob", () => {
+  it("replaces rows by id, keeps creation order and ignores stale updates", () => {
+    const first = job({ id: "a", createdAt: 1, updatedAt: 10 });
+    const second = job({ id: "b", createdAt: 2, updatedAt: 10 });
+    let jobs = upsertJob(upsertJob([], second), first);
+    expect(jobs.map(j => j.id)).toEqual(["a", "b"]);
+    jobs = upsertJob(jobs, { ...first, partialOutput: "新", updatedAt: 20 });
+    expect(jobs[0].partialOutput).toBe("新");
+    expect(upsertJob(jobs, { ...first, partialOutput: "舊", updatedAt: 15 })).toBe(jobs);
+  });
+});
+
+describe("settledJobs", () => {
+  it("reports watched jobs once they finish", () => {
+    const jobs = [job({ id: "a", status: "succeeded" }), job({ id: "b" }), job({ id: "c", status: "failed" })];
+    expect(settledJobs(jobs, new Set(["a", "b"])).map(j => j.id)).toEqual(["a"]);
+  });
+});
+
+describe("jobError", () => {
+  it("restores classified failures so transient ones can be retried", () => {
+    const error = jobError({ error: "AI 服務目前請求過多，請稍候再試", errorKind: "rate_limit" });
+    expect(error).toBeInstanceOf(AiError);
+    expect((error as AiError).retryable).toBe(true);
+    expect(jobError({ error: "儲存模組版本失敗", errorKind: undefined }).message).toBe("儲存模組版本失敗");
+  });
+});
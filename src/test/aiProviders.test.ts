@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_PROVIDER, createMockProvider, createOpenAiProvider, modelTag, parseModelTag, parseProviderConfigs, resolveModelChoice,
+} from "@/lib/aiProviders";
+
+const OLLAMA = { id: "ollama", label: "內部 Ollama", baseUrl: "http://10.0.0.5:11434/v1/", models: ["llama3.1:70b", "qwen2.5:32b"] };
+
+describe("parseProviderConfigs", () => {
+  it("adds configured providers after the built-in gateway", () => {
+    expect(parseProviderConfigs(undefined)).toEqual([DEFAULT_PROVIDER]);
+    const configs = parseProviderConfigs(JSON.stringify([OLLAMA]));
+    expect(configs.map(c => c.id)).toEqual(["lovable", "ollama"]);
+    expect(configs[1]).toMatchObject({ type: "openai", baseUrl: "http://10.0.0.5:11434/v1", apiKeyEnv: undefined });
+  });
+
+  it("lets the list redefine the gateway, which also makes the list order the default", () => {
+    const configs = parseProviderConfigs(JSON.stringify([OLLAMA, { id: "lovable", baseUrl: "https://gw.example/v1", models: ["m"] }]));
+    expect(configs.map(c => c.id)).toEqual(["ollama", "lovable"]);
+  });
+
+  it("rejects malformed entries", () => {
+    expect(() => parseProviderConfigs("{")).toThrow("JSON");
+    expect(() => parseProviderConfigs(JSON.stringify([{ ...OLLAMA, id: "Bad Id" }]))).toThrow("id");
+    expect(() => parseProviderConfigs(JSON.stringify([{ ...OLLAMA, baseUrl: undefined }]))).toThrow("baseUrl");
+    expect(() => parseProviderConfigs(JSON.stringify([{ ...OLLAMA, models: [] }]))).toThrow("模型");
+    expect(() => parseProviderConfigs(JSON.stringify([OLLAMA, OLLAMA]))).toThrow("重複");
+    expect(parseProviderConfigs(JSON.stringify([{ id: "mock", type: "mock", models: ["echo"] }]))[1].type).toBe("mock");
+  });
+
+  it("keeps valid model prices", () => {
+    const pricing = { "llama3.1:70b": { input: 0.5, output: 1.5 } };
+    expect(parseProviderConfigs(JSON.stringify([{ ...OLLAMA, pricing }]))[1].pricing).toEqual(pricing);
+    expect(() => parseProviderConfigs(JSON.stringify([{ ...OLLAMA, pricing: { m: { input: -1, output: 1 } } }]))).toThrow("pricing");
+  });
+
+  it("reads an optional reply cap", () => {
+    expect(parseProviderConfigs(JSON.stringify([{ ...OLLAMA, maxTokens: 4096 }]))[1].maxTokens).toBe(4096);
+    expect(parseProviderConfigs(JSON.stringify([OLLAMA]))[1]).not.toHaveProperty("maxTokens");
+    expect(() => parseProviderConfigs(JSON.stringify([{ ...OLLAMA, maxTokens: "4k" }]))).toThrow("maxTokens");
+  });
+});
+
+describe("resolveModelChoice", () => {
+  const configs = parseProviderConfigs(JSON.stringify([OLLAMA]));
+
+  it("prefers the meeting, then the workspace, then the default", () => {
+    const meeting = { provider: "ollama", model: "qwen2.5:32b" };
+    const workspace = { provider: "ollama", model: null };
+    expect(resolveModelChoice(configs, meeting, workspace).model).toBe("qwen2.5:32b");
+    expect(resolveModelChoice(configs, { provider: null, model: null }, workspace).model).toBe("llama3.1:70b");
+    expect(resolveModelChoice(configs, null, undefined)).toEqual({ config: DEFAULT_PROVIDER, model: DEFAULT_PROVIDER.models[0] });
+  });
+
+  it("never falls back when the pinned provider or model is gone", () => {
+    expect(() => resolveModelChoice(configs, { provider: "vllm", model: null })).toThrow("vllm");
+    expect(() => resolveModelChoice(configs, { provider: "ollama", model: "gpt-4o" })).toThrow("gpt-4o");
+  });
+});
+
+describe("modelTag", () => {
+  it("round-trips model names that contain colons", () => {
+    expect(modelTag("ollama", "llama3.1:70b")).toBe("ollama:llama3.1:70b");
+    expect(parseModelTag("ollama:llama3.1:70b")).toEqual({ provider: "ollama", model: "llama3.1:70b" });
+    expect(parseModelTag("ollama:")).toEqual({ provider: "ollama", model: null });
+    expect(parseModelTag("")).toEqual({ provider: null, model: null });
+  });
+});
+
+describe("createOpenAiProvider", () => {
+  const request = { model: "llama3.1:70b", system: "sys", messages: [{ role: "user" as const, content: "hi" }], temperature: 0.2 };
+
+  it("posts a chat completion and reads the reply", async () => {
+    const calls: { url: string; init: RequestInit }[] = [];
+    const provider = createOpenAiProvider({
+      id: "ollama", baseUrl: "http://local/v1",
+      fetch: async (url, init) => {
+        calls.push({ url: String(url), init: init! });
+        return new Response(JSON.stringify({ choices: [{ message: { content: "你好" } }] }));
+      },
+    });
+    expect(await provider.complete(request)).toBe("你好");
+    expect(calls[0].url).toBe("http://local/v1/chat/completions");
+    expect(new Headers(calls[0].init.headers).has("Authorization")).toBe(false);
+    expect(JSON.parse(String(calls[0].init.body))).toMatchObject({ model: "llama3.1:70b", stream: false, messages: [{ role: "system" }, { role: "user" }] });
+    expect(JSON.parse(String(calls[0].init.body))).not.toHaveProperty("max_tokens");
+  });
+
+  it("reports the usage the server returns, or an estimate", async () => {
+    const reply = (body: object) => createOpenAiProvider({ id: "x", baseUrl: "http://local/v1", fetch: async () => new Response(JSON.stringify(body)) });
+    const usages: object[] = [];
+    await reply({ choices: [{ message: { content: "ok" } }], usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 } })
+      .complete(request, { onUsage: u => usages.push(u) });
+    await reply({ choices: [{ message: { content: "你好" } }] }).complete(request, { onUsage: u => usages.push(u) });
+    expect(usages).toEqual([
+      { promptTokens: 12, completionTokens: 3, totalTokens: 15 },
+      { promptTokens: 2, completionTokens: 2, totalTokens: 4, estimated: true },
+    ]);
+  });
+
+  it("streams deltas and surfaces provider errors", async () => {
+    const sse = ["a", "b"].map(t => `data: ${JSON.stringify({ choices: [{ delta: { content: t } }] })}\n\n`).join("") + "data: [DONE]\n\n";
+    const streaming = createOpenAiProvider({ id: "x", baseUrl: "http://local/v1", apiKey: "k", fetch: async () => new Response(sse) });
+    const deltas: string[] = [];
+    expect(await streaming.complete(request, { onDelta: d => deltas.push(d) })).toBe("ab");
+    expect(deltas).toEqual(["a", "b"]);
+
+    const withUsage = sse.replace("data: [DONE]", `data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 5, completion_tokens: 2 } })}\n\ndata: [DONE]`);
+    let usage: object | null = null;
+    await createOpenAiProvider({ id: "x", baseUrl: "http://local/v1", fetch: async () => new Response(withUsage) })
+      .complete(request, { onDelta: () => {}, onUsage: u => { usage = u; } });
+    expect(usage).toEqual({ promptTokens: 5, completionTokens: 2, totalTokens: 7 });
+
+    const failing = createOpenAiProvider({
+      id: "x", baseUrl: "http://local/v1",
+      fetch: async () => new Response(JSON.stringify({ error: { message: "model not found" } }), { status: 404 }),
+    });
+    await expect(failing.complete(request)).rejects.toMatchObject({ kind: "invalid_request", detail: "model not found" });
+  });
+});
+
+describe("createMockProvider", () => {
+  it("records requests and streams its reply", async () => {
+    const provider = createMockProvider(req => `echo ${req.messages[0].content}`);
+    const deltas: string[] = [];
+    const text = await provider.complete({ model: "m", system: "s", messages: [{ role: "user", content: "hi there" }], temperature: 0 }, { onDelta: d => deltas.push(d) });
+    expect(text).toBe("echo hi there");
+    expect(deltas.join("")).toBe(text);
+    expect(provider.calls).toHaveLength(1);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import {
+  chunkTranscript,
+  mapWithConcurrency,
+  stitchCorrectedChunks,
+  harmonizeSpeakers,
+  mergeCorrectionLogs,
+  textSimilarity,
+} from "@/lib/chunking";
+import { createTurn, parseTranscript } from "@/lib/transcript";
+
+const turn = (speaker: string, seconds: number, text: string) =>
+  `**${speaker} ${new Date(seconds * 1000).toISOString().slice(11, 19)}**\n\n${text}`;
+
+const SENTENCES = [
+  "今天先確認上次會議的待辦事項，財務報表已經在週一寄出。",
+  "關於新進員工的試用期，人資建議維持三個月並安排導師。",
+  "法務這邊要提醒，合約第十二條的違約金比例需要重新議定。",
+  "行銷部門希望下一季把預算移到線上廣告，請大家表示意見。",
+  "資訊部回報機房搬遷延到月底，期間系統可能短暫中斷服務。",
+  "最後請各部門在週五前回覆年度教育訓練的報名名單給我。",
+];
+
+const LONG = Array.from({ length: 12 }, (_, i) => turn(i % 2 ? "李律師" : "王經理", i * 10, "內容".repeat(20))).join("\n\n");
+
+describe("chunkTranscript", () => {
+  it("returns a single chunk for short transcripts", () => {
+    expect(chunkTranscript("short", { maxChars: 100, overlapUnits: 2 })).toHaveLength(1);
+  });
+
+  it("splits at turn boundaries and carries overlap as context", () => {
+    const chunks = chunkTranscript(LONG, { maxChars: 300, overlapUnits: 1 });
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(parseTranscript(chunk.text).turns.length).toBeGreaterThan(0);
+      expect(chunk.text.length).toBeLessThanOrEqual(300);
+    }
+    const previousTurns = parseTranscript(chunks[0].text).turns;
+    expect(chunks[1].context).toContain(previousTurns[previousTurns.length - 1].startTime);
+    expect(chunks[1].startSeconds).toBe(parseTranscript(chunks[1].text).turns[0].startSeconds);
+  });
+
+  it("falls back to line boundaries for free text", () => {
+    const chunks = chunkTranscript("a".repeat(60) + "\n" + "b".repeat(60), { maxChars: 80, overlapUnits: 1 });
+    expect(chunks.map(c => c.text)).toEqual(["a".repeat(60), "b".repeat(60)]);
+  });
+});
+
+describe("stitchCorrectedChunks", () => {
+  it("drops turns repeated from the context and keeps order", () => {
+    const chunks = chunkTranscript(LONG, { maxChars: 300, overlapUnits: 1 });
+    const outputs = chunks.map(c => (c.context ? `${c.context}\n\n${c.text}` : c.text));
+    const stitched = parseTranscript(stitchCorrectedChunks(chunks, outputs));
+    expect(stitched.turns).toHaveLength(12);
+    expect(stitched.turns.map(t => t.startSeconds)).toEqual(Array.from({ length: 12 }, (_, i) => i * 10));
+  });
+
+  it("drops repeated context from untimed text spanning several chunks", () => {
+    const chunks = chunkTranscript(SENTENCES.join("\n\n"), { maxChars: 60, overlapUnits: 1 });
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks.every(c => c.startSeconds === null)).toBe(true);
+    // The model repeats the context, lightly corrected, before its own paragraphs
+    const outputs = chunks.map(c => (c.context ? `${c.context.replace("的", "之")}\n\n${c.text}` : c.text));
+    expect(stitchCorrectedChunks(chunks, outputs)).toBe(SENTENCES.join("\n\n"));
+  });
+
+  it("keeps a chunk's opening that the model merged into a context turn", () => {
+    const turns = SENTENCES.map((text, i) => turn(i % 2 ? "李律師" : "王經理", i * 10, text));
+    const chunks = chunkTranscript(turns.join("\n\n"), { maxChars: 150, overlapUnits: 1 });
+    const own = parseTranscript(chunks[1].text).turns;
+    const context = parseTranscript(chunks[1].context).turns[0];
+    const merged = `**${context.speaker} ${context.startTime}**\n\n${context.text}\n${own[0].text}`;
+    const rest = own.slice(1).map(t => `**${t.speaker} ${t.startTime}**\n\n${t.text}`);
+    const outputs = chunks.map((c, i) => (i === 1 ? [merged, ...rest].join("\n\n") : c.text));
+    const stitched = stitchCorrectedChunks(chunks, outputs);
+    expect(stitched.split(own[0].text)).toHaveLength(2);
+    expect(stitched.split(context.text)).toHaveLength(2);
+    expect(parseTranscript(stitched).turns.map(t => t.startSeconds)).toEqual([0, 10, 20, 30, 40, 50].slice(0, parseTranscript(stitched).turns.length));
+  });
+});
+
+describe("textSimilarity", () => {
+  it("scores shared character pairs", () => {
+    expect(textSimilarity("會議記錄", "會議記錄")).toBe(1);
+    expect(textSimilarity("今天先討論下一季的行銷預算分配", "今天先討論過下一季的行銷預算分配")).toBeGreaterThan(0.8);
+    expect(textSimilarity("今天討論預算", "明年的人事")).toBe(0);
+  });
+});
+
+describe("harmonizeSpeakers", () => {
+  it("unifies spelling variants onto the canonical name", () => {
+    const turns = [createTurn("王經理（主持人）", 0, "a"), createTurn("王 經理", 5, "b"), createTurn("Amy", 9, "c"), createTurn("amy", 12, "d")];
+    expect(harmonizeSpeakers(turns, ["王經理"]).map(t => t.speaker)).toEqual(["王經理", "王經理", "Amy", "Amy"]);
+  });
+});
+
+describe("mergeCorrectionLogs", () => {
+  it("combines sections and drops duplicate lines", () => {
+    const merged = mergeCorrectionLogs([
+      "**專有名詞統一**\n- 之前 → 資遣\n**不確定項**\n- 無",
+      "**專有名詞統一**\n- 之前 → 資遣\n- 勞基→勞基法",
+      null,
+    ]);
+    expect(merged).toBe("#### 專有名詞統一\n- 之前 → 資遣\n- 勞基→勞基法\n\n#### 不確定項\n- 無");
+  });
+
+  it("passes a single log through", () => {
+    expect(mergeCorrectionLogs([null, "only"])).toBe("only");
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("limits in-flight calls and preserves order", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async n => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(r => setTimeout(r, 5));
+      inFlight--;
+      return n * 2;
+    });
+    expect(results).toEqual([2, 4, 6, 8, 10]);
+    expect(peak).toBe(2);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { diffTexts, tokenize } from "@/lib/diff";
+
+const rebuild = (segments: { op: string; text: string }[], skip: string) =>
+  segments.filter(s => s.op !== skip).map(s => s.text).join("");
+
+describe("tokenize", () => {
+  it("splits CJK per character and Latin per word", () => {
+    expect(tokenize("資遣 plan's A1，ok")).toEqual(["資", "遣", " ", "plan's", " ", "A1", "，", "ok"]);
+  });
+});
+
+describe("diffTexts", () => {
+  it("finds character-level CJK changes", () => {
+    const { segments, changes } = diffTexts("今天討論之前方案", "今天討論資遣方案");
+    expect(changes).toEqual([{ deleted: "之前", inserted: "資遣" }]);
+    expect(rebuild(segments, "insert")).toBe("今天討論之前方案");
+    expect(rebuild(segments, "delete")).toBe("今天討論資遣方案");
+  });
+
+  it("diffs Latin text by whole words", () => {
+    const { changes } = diffTexts("the quick fox", "the quack fox");
+    expect(changes).toEqual([{ deleted: "quick", inserted: "quack" }]);
+  });
+
+  it("numbers separate changes for navigation", () => {
+    const { segments, changes } = diffTexts("甲乙丙丁戊", "甲X丙丁戊Y");
+    expect(changes).toHaveLength(2);
+    expect(segments.filter(s => s.op !== "equal").map(s => s.change)).toEqual([0, 0, 1]);
+  });
+
+  it("reports no changes for identical text", () => {
+    expect(diffTexts("相同", "相同").changes).toHaveLength(0);
+  });
+});
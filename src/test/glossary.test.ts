@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyGlossary,
+  mergeGlossaryTerms,
+  formatReplacementLog,
+  formatGlossaryForPrompt,
+  parseGlossaryText,
+  formatGlossaryText,
+} from "@/lib/glossary";
+
+const LEGAL = [
+  { term: "資遣", variants: ["之前", "知遣"] },
+  { term: "勞基法", variants: ["勞基", "老基法"] },
+];
+
+describe("applyGlossary", () => {
+  it("replaces exact variants and counts them", () => {
+    const result = applyGlossary("公司要之前他，依照老基法知遣。", LEGAL);
+    expect(result.text).toBe("公司要資遣他，依照勞基法資遣。");
+    expect(result.replacements).toEqual([
+      { from: "之前", to: "資遣", count: 1 },
+      { from: "老基法", to: "勞基法", count: 1 },
+      { from: "知遣", to: "資遣", count: 1 },
+    ]);
+  });
+
+  it("leaves correct terms containing a variant alone", () => {
+    expect(applyGlossary("勞基法與勞基", LEGAL).text).toBe("勞基法與勞基法");
+  });
+
+  it("matches Latin variants as whole words only", () => {
+    const terms = [{ term: "Kubernetes", variants: ["K8", "cube"] }];
+    expect(applyGlossary("cube and cubes on K8", terms).text).toBe("Kubernetes and cubes on Kubernetes");
+  });
+
+  it("does nothing without variants", () => {
+    expect(applyGlossary("之前", [{ term: "資遣", variants: [] }])).toEqual({ text: "之前", replacements: [] });
+  });
+});
+
+describe("mergeGlossaryTerms", () => {
+  it("unions variants of the same term across glossaries", () => {
+    expect(mergeGlossaryTerms([LEGAL, [{ term: "資遣", variants: ["之前", "私遣"], note: "勞動法" }]])[0]).toEqual({
+      term: "資遣",
+      variants: ["之前", "知遣", "私遣"],
+      note: "勞動法",
+    });
+  });
+});
+
+describe("formatting", () => {
+  it("describes the pre-pass in the correction log", () => {
+    expect(formatReplacementLog([{ from: "之前", to: "資遣", count: 2 }])).toBe("#### 詞彙表自動替換\n- 之前 → 資遣（2 處）");
+    expect(formatReplacementLog([])).toBeNull();
+  });
+
+  it("lists terms and variants for the prompt", () => {
+    expect(formatGlossaryForPrompt([{ term: "資遣", variants: ["之前"], note: "勞動法" }, { term: "SLA", variants: [] }])).toBe(
+      "- 資遣（常見誤植：之前；勞動法）\n- SLA",
+    );
+  });
+
+  it("round-trips the editor text format", () => {
+    const text = "資遣：之前、知遣 # 勞動法用語\nSLA\n\n勞基法: 勞基, 老基法";
+    const terms = parseGlossaryText(text);
+    expect(terms).toEqual([
+      { term: "資遣", variants: ["之前", "知遣"], note: "勞動法用語" },
+      { term: "SLA", variants: [] },
+      { term: "勞基法", variants: ["勞基", "老基法"] },
+    ]);
+    expect(parseGlossaryText(formatGlossaryText(terms))).toEqual(terms);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { BUSY_MODULE_ERROR, batchEntryStatus, planModuleBatch, summarizeBatch } from "@/lib/moduleBatch";
+import { BUILT_IN_MODULES, customModuleFromRow } from "@/lib/modules";
+import { JOB_STALL_MS } from "@/lib/aiJobs";
+import type { AiJob } from "@/types";
+
+const NOW = 1_700_000_000_000;
+const CUSTOM = customModuleFromRow({ id: "c1", name: "風險", icon: "shield", prompt: "p", output_format: "o", revision: 1 });
+const MODULES = [...BUILT_IN_MODULES, CUSTOM];
+const AMY = { name: "Amy", aliases: [] };
+
+const job = (id: string, overrides: Partial<AiJob> = {}): AiJob => ({
+  id, recordId: "r1", action: "analyzeTranscript", moduleId: "A", status: "running",
+  partialOutput: "", createdAt: NOW - 5000, updatedAt: NOW - 1000, ...overrides,
+});
+
+describe("planModuleBatch", () => {
+  it("runs every built-in module plus the picked custom ones", () => {
+    expect(planModuleBatch(MODULES, [], []).runs.map(r => r.moduleId)).toEqual(["A", "B", "C", "D", "E"]);
+    expect(planModuleBatch(MODULES, ["c1"], []).runs.map(r => r.moduleId)).toContain("c1");
+  });
+
+  it("needs a subject for module B once the meeting has a roster", () => {
+    const skipped = planModuleBatch(MODULES, [], [AMY]);
+    expect(skipped.runs.map(r => r.moduleId)).not.toContain("B");
+    expect(skipped.skipped).toEqual([{ moduleId: "B", error: expect.stringContaining("分析對象") }]);
+    expect(planModuleBatch(MODULES, [], [AMY], AMY).runs.find(r => r.moduleId === "B")?.focusSpeaker).toBe(AMY);
+  });
+
+  it("skips modules that are already being analysed", () => {
+    const plan = planModuleBatch(MODULES, ["c1"], [], undefined, id => id === "C" || id === "c1");
+    expect(plan.runs.map(r => r.moduleId)).toEqual(["A", "B", "D", "E"]);
+    expect(plan.skipped).toEqual([{ moduleId: "C", error: BUSY_MODULE_ERROR }, { moduleId: "c1", error: BUSY_MODULE_ERROR }]);
+  });
+});
+
+describe("batchEntryStatus", () => {
+  it("follows the module's job", () => {
+    const jobs = [job("j1"), job("j2", { status: "succeeded" }), job("j3", { status: "failed" }), job("j4", { updatedAt: NOW - JOB_STALL_MS - 1 })];
+    expect(batchEntryStatus({ moduleId: "A" }, jobs, NOW)).toBe("queueing");
+    expect(batchEntryStatus({ moduleId: "A", error: "x" }, jobs, NOW)).toBe("failed");
+    expect(batchEntryStatus({ moduleId: "A", jobId: "j1" }, jobs, NOW)).toBe("running");
+    expect(batchEntryStatus({ moduleId: "A", jobId: "unseen" }, jobs, NOW)).toBe("running");
+    expect(batchEntryStatus({ moduleId: "A", jobId: "j2" }, jobs, NOW)).toBe("succeeded");
+    expect(batchEntryStatus({ moduleId: "A", jobId: "j3" }, jobs, NOW)).toBe("failed");
+    expect(batchEntryStatus({ moduleId: "A", jobId: "j4" }, jobs, NOW)).toBe("failed");
+  });
+});
+
+describe("summarizeBatch", () => {
+  it("is finished once every module succeeded or failed", () => {
+    const jobs = [job("j1", { status: "succeeded" }), job("j2")];
+    const entries = [{ moduleId: "A", jobId: "j1" }, { moduleId: "B", error: "x" }, { moduleId: "C", jobId: "j2" }];
+    expect(summarizeBatch(entries, jobs, NOW)).toEqual({ total: 3, succeeded: 1, failed: 1, finished: false });
+    expect(summarizeBatch(entries.slice(0, 2), jobs, NOW).finished).toBe(true);
+  });
+});
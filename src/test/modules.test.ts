@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { BUILT_IN_MODULES, findBuiltInModule, buildModuleSystemPrompt, customModuleFromRow } from "@/lib/modules";
+
+describe("module definitions", () => {
+  it("ships the built-in modules A–E", () => {
+    expect(BUILT_IN_MODULES.map(m => m.id)).toEqual(["A", "B", "C", "D", "E"]);
+    expect(findBuiltInModule("E")?.name).toBe("會議摘要與結論重構");
+    expect(findBuiltInModule("some-uuid")).toBeNull();
+  });
+
+  it("maps custom module rows", () => {
+    const module = customModuleFromRow({ id: "m1", name: "業務異議分析", icon: "Target", prompt: "- 找出異議", output_format: "1. 異議清單", revision: 3 });
+    expect(module).toMatchObject({ id: "m1", task: "執行「自訂模組：業務異議分析」", outputFormat: "1. 異議清單", builtIn: false, version: 3 });
+  });
+});
+
+describe("buildModuleSystemPrompt", () => {
+  it("includes only the selected module's guidelines and output format", () => {
+    const prompt = buildModuleSystemPrompt(findBuiltInModule("A")!);
+    expect(prompt).toContain("【模組規範：氛圍與張力走勢分析】");
+    expect(prompt).toContain("【輸出格式】");
+    expect(prompt).not.toContain("權力結構");
+  });
+
+  it("omits empty sections", () => {
+    expect(buildModuleSystemPrompt(customModuleFromRow({ id: "m2", name: "自由分析", icon: "Sparkles", prompt: " ", output_format: "", revision: 1 }))).not.toContain("【");
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, it, expect } from "vitest";
+import { CORRECTION_PROMPT, PROMPT_REGISTRY, promptTag, modulePromptVersion } from "@/lib/prompts";
+import { findBuiltInModule, customModuleFromRow } from "@/lib/modules";
+
+describe("prompt registry", () => {
+  it("has unique ids", () => {
+    const ids = PROMPT_REGISTRY.map(p => p.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it("tags prompts with their version", () => {
+    expect(promptTag(CORRECTION_PROMPT)).toBe(`correction@${CORRECTION_PROMPT.version}`);
+  });
+
+  it("combines the base prompt and module versions", () => {
+    expect(modulePromptVersion(findBuiltInModule("A")!)).toBe("module@1+A@1");
+    const custom = customModuleFromRow({ id: "m1", name: "n", icon: "Target", prompt: "p", output_format: "", revision: 4 });
+    expect(modulePromptVersion(custom)).toBe("module@1+custom:m1@4");
+  });
+});
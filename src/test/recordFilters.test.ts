@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { EMPTY_RECORD_FILTER, UNFILED, countActiveFilters, listParticipants, matchesFilter } from "@/lib/recordFilters";
+import type { MeetingMetadata } from "@/types";
+
+const metadata = (speakers: string, roster?: MeetingMetadata["roster"]): MeetingMetadata =>
+  ({ subject: "", keywords: "", speakers, roster, terminology: "", length: "" });
+
+const record = (overrides: Partial<Parameters<typeof matchesFilter>[0]> = {}) => ({
+  createdAt: new Date(2026, 2, 10, 15, 0).getTime(),
+  metadata: metadata("", [{ name: "王大明", aliases: ["王經理"] }, { name: "李律師", aliases: [] }]),
+  folderId: "f1",
+  tagIds: ["t1", "t2"],
+  ...overrides,
+});
+
+describe("matchesFilter", () => {
+  it("matches everything with the empty filter", () => {
+    expect(matchesFilter(record(), EMPTY_RECORD_FILTER)).toBe(true);
+    expect(matchesFilter(record({ folderId: null, tagIds: [] }), EMPTY_RECORD_FILTER)).toBe(true);
+  });
+
+  it("filters by folder, including unfiled meetings", () => {
+    expect(matchesFilter(record(), { ...EMPTY_RECORD_FILTER, folderId: "f1" })).toBe(true);
+    expect(matchesFilter(record(), { ...EMPTY_RECORD_FILTER, folderId: "f2" })).toBe(false);
+    expect(matchesFilter(record(), { ...EMPTY_RECORD_FILTER, folderId: UNFILED })).toBe(false);
+    expect(matchesFilter(record({ folderId: null }), { ...EMPTY_RECORD_FILTER, folderId: UNFILED })).toBe(true);
+  });
+
+  it("requires every selected tag", () => {
+    expect(matchesFilter(record(), { ...EMPTY_RECORD_FILTER, tagIds: ["t1", "t2"] })).toBe(true);
+    expect(matchesFilter(record(), { ...EMPTY_RECORD_FILTER, tagIds: ["t1", "t3"] })).toBe(false);
+  });
+
+  it("treats the date range as inclusive local dates", () => {
+    expect(matchesFilter(record(), { ...EMPTY_RECORD_FILTER, from: "2026-03-10", to: "2026-03-10" })).toBe(true);
+    expect(matchesFilter(record(), { ...EMPTY_RECORD_FILTER, from: "2026-03-11" })).toBe(false);
+    expect(matchesFilter(record(), { ...EMPTY_RECORD_FILTER, to: "2026-03-09" })).toBe(false);
+  });
+
+  it("matches participants by name or alias", () => {
+    expect(matchesFilter(record(), { ...EMPTY_RECORD_FILTER, participant: "王經理" })).toBe(true);
+    expect(matchesFilter(record(), { ...EMPTY_RECORD_FILTER, participant: "陳主任" })).toBe(false);
+  });
+});
+
+describe("countActiveFilters", () => {
+  it("counts everything but the folder", () => {
+    expect(countActiveFilters({ folderId: "f1", tagIds: ["t1", "t2"], from: "2026-01-01", to: "", participant: "王大明" })).toBe(4);
+  });
+});
+
+describe("listParticipants", () => {
+  it("lists roster names once, most frequent first", () => {
+    expect(listParticipants([
+      record(),
+      record({ metadata: metadata("李律師、陳主任") }),
+    ])).toEqual(["李律師", "王大明", "陳主任"]);
+  });
+});
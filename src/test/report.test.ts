@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildReportHtml, buildReportMarkdown, coverFields, moduleSection, parseInlineRuns, parseMarkdownBlocks,
+  reportFileName, transcriptSection, MeetingReport,
+} from "@/lib/report";
+
+const report: MeetingReport = {
+  title: "勞資協商/第二次",
+  metadata: {
+    subject: "資遣方案",
+    keywords: "資遣費",
+    speakers: "",
+    roster: [{ name: "王經理", aliases: [], role: "主持人" }, { name: "李律師", aliases: [] }],
+    terminology: "",
+    length: "60 分鐘",
+  },
+  meetingDate: Date.UTC(2026, 2, 1, 4),
+  generatedAt: Date.UTC(2026, 2, 2, 4),
+  sections: [
+    transcriptSection({ versionNumber: 2, correctedTranscript: "**王經理 00:00:01**\n開始吧。", source: "ai", promptVersion: "correction@1" }),
+    moduleSection({ id: "A", name: "核心議題" }, {
+      versionNumber: 1,
+      messages: [
+        { role: "model", text: "# 議題\n- 資遣費 <計算>", timestamp: 0 },
+        { role: "user", text: "再詳細一點", timestamp: 0 },
+        { role: "model", text: "好的。", timestamp: 0 },
+      ],
+    }),
+  ],
+};
+
+describe("report sections", () => {
+  it("records provenance in the caption and appends follow-up questions", () => {
+    expect(report.sections[0].caption).toBe("版本 2 · AI 校正（提示詞 correction@1）");
+    expect(report.sections[1]).toMatchObject({ id: "module-A", caption: "版本 1" });
+    expect(report.sections[1].body).toContain("### 追問：再詳細一點\n\n好的。");
+  });
+
+  it("builds the cover from the metadata, skipping empty fields", () => {
+    const labels = coverFields(report).map(([label]) => label);
+    expect(labels).toEqual(["會議主題", "會議日期", "與會者", "關鍵字", "會議長度", "匯出時間"]);
+    expect(coverFields(report)[2][1]).toBe("王經理（主持人）、李律師");
+  });
+
+  it("makes file names safe", () => {
+    expect(reportFileName(report, "docx")).toBe("勞資協商_第二次_2026-03-01.docx");
+  });
+});
+
+describe("parseMarkdownBlocks", () => {
+  it("groups lists and tables and keeps nesting depth", () => {
+    expect(parseMarkdownBlocks("## 標題\n1. 一\n2. 二\n- a\n  - b\n\n| x | y |\n|---|---|\n| 1 | 2 |\n> 引言\n---")).toEqual([
+      { type: "heading", level: 2, text: "標題" },
+      { type: "list", ordered: true, items: [{ text: "一", depth: 0 }, { text: "二", depth: 0 }] },
+      { type: "list", ordered: false, items: [{ text: "a", depth: 0 }, { text: "b", depth: 1 }] },
+      { type: "table", header: ["x", "y"], rows: [["1", "2"]] },
+      { type: "quote", text: "引言" },
+      { type: "rule" },
+    ]);
+  });
+
+  it("splits inline emphasis", () => {
+    expect(parseInlineRuns("**王經理** 說 *可以* `code`")).toEqual([
+      { text: "王經理", bold: true },
+      { text: " 說 " },
+      { text: "可以", italic: true },
+      { text: " " },
+      { text: "code", code: true },
+    ]);
+  });
+});
+
+describe("report renderers", () => {
+  it("writes a table of contents and nests module headings in Markdown", () => {
+    const md = buildReportMarkdown(report);
+    expect(md).toContain("1. [校正逐字稿](#transcript)\n2. [核心議題](#module-A)");
+    expect(md).toContain("## 2. 核心議題");
+    expect(md).toContain("### 議題");
+    expect(md).toContain("| 與會者 | 王經理（主持人）、李律師 |");
+  });
+
+  it("escapes content in the print document", () => {
+    const html = buildReportHtml(report);
+    expect(html).toContain('<li><a href="#module-A">核心議題</a></li>');
+    expect(html).toContain("<h3>議題</h3>");
+    expect(html).toContain("資遣費 &lt;計算&gt;");
+    expect(html).toContain("Noto Sans TC");
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseSpeakerList,
+  rosterOf,
+  formatRosterForPrompt,
+  formatRosterSummary,
+  resolveSpeaker,
+  applyRoster,
+  mergeDetectedSpeakers,
+} from "@/lib/roster";
+
+const ROSTER = [
+  { name: "王大明", aliases: ["王大名", "Wang"], role: "經理", organization: "ABC 公司" },
+  { name: "李律師", aliases: [] },
+];
+
+describe("parseSpeakerList", () => {
+  it("reads the legacy free-text list with roles", () => {
+    expect(parseSpeakerList("王經理（主持人）、李律師, Amy")).toEqual([
+      { name: "王經理", aliases: [], role: "主持人" },
+      { name: "李律師", aliases: [] },
+      { name: "Amy", aliases: [] },
+    ]);
+  });
+
+  it("is used when a record has no structured roster", () => {
+    expect(rosterOf({ speakers: "李律師" })).toEqual([{ name: "李律師", aliases: [] }]);
+    expect(rosterOf({ speakers: "ignored", roster: ROSTER })[0].name).toBe("王大明");
+  });
+});
+
+describe("formatting", () => {
+  it("maps aliases explicitly for the prompt", () => {
+    expect(formatRosterForPrompt(ROSTER)).toBe(
+      "- 王大明：經理，ABC 公司；逐字稿中的「王大名」「Wang」皆指此人\n- 李律師",
+    );
+  });
+
+  it("summarises the roster as free text", () => {
+    expect(formatRosterSummary(ROSTER)).toBe("王大明（經理，ABC 公司）、李律師");
+  });
+});
+
+describe("resolveSpeaker", () => {
+  it("matches names and aliases ignoring case and spacing", () => {
+    expect(resolveSpeaker(ROSTER, "wang")?.name).toBe("王大明");
+    expect(resolveSpeaker(ROSTER, "王 大名")?.name).toBe("王大明");
+    expect(resolveSpeaker(ROSTER, "陳小姐")).toBeNull();
+  });
+});
+
+describe("applyRoster", () => {
+  it("renames alias speakers to the canonical name", () => {
+    const text = "**王大名 00:00:01**\n\n你好\n\n**陳小姐 00:00:05**\n\n嗨";
+    expect(applyRoster(text, ROSTER)).toBe("**王大明 00:00:01**\n\n你好\n\n**陳小姐 00:00:05**\n\n嗨");
+  });
+
+  it("leaves free text untouched", () => {
+    expect(applyRoster("no turns here", ROSTER)).toBe("no turns here");
+  });
+});
+
+describe("mergeDetectedSpeakers", () => {
+  it("adds only speakers the roster does not cover", () => {
+    const merged = mergeDetectedSpeakers(ROSTER, ["Wang", "陳小姐", "陳小姐"]);
+    expect(merged.map(p => p.name)).toEqual(["王大明", "李律師", "陳小姐"]);
+  });
+});
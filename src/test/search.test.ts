@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { cleanSnippet, highlightSegments, parseSearchQuery } from "@/lib/search";
+
+describe("parseSearchQuery", () => {
+  it("splits on whitespace and on switches between Chinese and Latin text", () => {
+    expect(parseSearchQuery("  法務討論NDA條款  保密 ")).toEqual(["法務討論", "NDA", "條款", "保密"]);
+  });
+
+  it("drops repeated terms regardless of case", () => {
+    expect(parseSearchQuery("NDA nda 資遣 資遣")).toEqual(["NDA", "資遣"]);
+    expect(parseSearchQuery("   ")).toEqual([]);
+  });
+});
+
+describe("highlightSegments", () => {
+  it("marks every occurrence case-insensitively", () => {
+    expect(highlightSegments("The nda clause and NDA 條款", ["NDA", "條款"])).toEqual([
+      { text: "The ", match: false },
+      { text: "nda", match: true },
+      { text: " clause and ", match: false },
+      { text: "NDA", match: true },
+      { text: " ", match: false },
+      { text: "條款", match: true },
+    ]);
+  });
+
+  it("prefers the longer term and escapes regex characters", () => {
+    expect(highlightSegments("資遣費(試算)", ["資遣", "資遣費", "(試算)"]).filter(s => s.match).map(s => s.text)).toEqual(["資遣費", "(試算)"]);
+    expect(highlightSegments("無符合", [])).toEqual([{ text: "無符合", match: false }]);
+  });
+});
+
+describe("cleanSnippet", () => {
+  it("flattens Markdown into a single line", () => {
+    expect(cleanSnippet("## 議題\n**王經理 00:01**\n談到 `NDA`")).toBe("議題 王經理 00:01 談到 NDA");
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { SharedReportPayload, shareExpiry, shareLinkStatus, shareLinkUrl, sharedReport } from "@/lib/shareLinks";
+
+describe("shareLinkStatus", () => {
+  it("treats revoked links as revoked even before they expire", () => {
+    expect(shareLinkStatus({ expiresAt: null, revokedAt: null }, 1000)).toBe("active");
+    expect(shareLinkStatus({ expiresAt: 2000, revokedAt: null }, 1000)).toBe("active");
+    expect(shareLinkStatus({ expiresAt: 2000, revokedAt: null }, 2000)).toBe("expired");
+    expect(shareLinkStatus({ expiresAt: 5000, revokedAt: 1500 }, 1000)).toBe("revoked");
+  });
+});
+
+describe("shareExpiry", () => {
+  it("counts whole days from now and leaves 0 open-ended", () => {
+    expect(shareExpiry(0, 0)).toBeNull();
+    expect(shareExpiry(7, Date.UTC(2026, 2, 1))).toBe("2026-03-08T00:00:00.000Z");
+  });
+
+  it("builds the public page URL", () => {
+    expect(shareLinkUrl("abc", "https://app.example")).toBe("https://app.example/share/abc");
+  });
+});
+
+describe("sharedReport", () => {
+  const payload: SharedReportPayload = {
+    title: "季度檢討",
+    metadata: { subject: "", keywords: "", speakers: "", terminology: "", length: "" },
+    meetingDate: 0,
+    transcript: { versionNumber: 2, correctedTranscript: "**王經理 00:01**\n開始", source: "manual" },
+    modules: [{ moduleId: "C", name: "決策分析", versionNumber: 1, messages: [{ role: "model", text: "結論", timestamp: 0 }] }],
+    expiresAt: null,
+  };
+
+  it("puts the transcript first and keeps the shared module order", () => {
+    const report = sharedReport(payload, 42);
+    expect(report.generatedAt).toBe(42);
+    expect(report.sections.map(s => s.id)).toEqual(["transcript", "module-C"]);
+    expect(report.sections[0].caption).toBe("版本 2 · 人工編輯");
+    expect(report.sections[1].body).toBe("結論");
+  });
+
+  it("works for links that share only module outputs", () => {
+    expect(sharedReport({ ...payload, transcript: null }).sections.map(s => s.title)).toEqual(["決策分析"]);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { readSseData, encodeSseEvent } from "@/lib/sse";
+
+const streamOf = (...parts: string[]) => {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      parts.forEach(p => controller.enqueue(encoder.encode(p)));
+      controller.close();
+    },
+  });
+};
+
+const collect = async (body: ReadableStream<Uint8Array>) => {
+  const out: string[] = [];
+  for await (const data of readSseData(body)) out.push(data);
+  return out;
+};
+
+describe("readSseData", () => {
+  it("reassembles events split across chunks", async () => {
+    const body = streamOf('data: {"a":', '1}\n\ndata: [DO', "NE]\n\n");
+    expect(await collect(body)).toEqual(['{"a":1}', "[DONE]"]);
+  });
+
+  it("ignores comments and handles CRLF and a trailing event", async () => {
+    const body = streamOf(": keep-alive\r\n\r\ndata: one\r\n\r\ndata: two");
+    expect(await collect(body)).toEqual(["one", "two"]);
+  });
+
+  it("round-trips encoded proxy events", async () => {
+    const event = { type: "delta" as const, text: "你好\n" };
+    const [data] = await collect(streamOf(encodeSseEvent(event)));
+    expect(JSON.parse(data)).toEqual(event);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseTranscript,
+  serializeTranscript,
+  normalizeTranscript,
+  parseTimestamp,
+  formatTimestamp,
+  listSpeakers,
+  countUncertainties,
+  splitCorrectionOutput,
+} from "@/lib/transcript";
+
+const SAMPLE = `**王經理 00:00:05**
+
+大家好，今天討論資遣方案。
+
+**李律師 00:01:12**
+
+依照勞基法[文字存疑]規定，需要提前通知。
+還有[語意存疑：可能是「預告期」]的問題。
+
+### 📝 重大修改記錄
+- 之前 → 資遣`;
+
+describe("parseTranscript", () => {
+  it("splits speaker turns with timestamps", () => {
+    const t = parseTranscript(SAMPLE);
+    expect(t.turns).toHaveLength(2);
+    expect(t.turns[0]).toMatchObject({ speaker: "王經理", startTime: "00:00:05", startSeconds: 5 });
+    expect(t.turns[1].text).toContain("需要提前通知。\n還有");
+    expect(listSpeakers(t)).toEqual(["王經理", "李律師"]);
+  });
+
+  it("keeps trailing headings as the appendix", () => {
+    const t = parseTranscript(SAMPLE);
+    expect(t.appendix.startsWith("### 📝 重大修改記錄")).toBe(true);
+    expect(t.turns[1].text).not.toContain("重大修改記錄");
+  });
+
+  it("extracts uncertainty markers with notes", () => {
+    const t = parseTranscript(SAMPLE);
+    expect(countUncertainties(t)).toBe(2);
+    expect(t.turns[1].uncertainties[1]).toMatchObject({ kinds: ["語意存疑"], note: "可能是「預告期」" });
+  });
+
+  it("accepts the **說話者** HH:MM:SS variant and MM:SS times", () => {
+    const t = parseTranscript("**Amy** 1:05\n\nhello");
+    expect(t.turns[0]).toMatchObject({ speaker: "Amy", startTime: "00:01:05" });
+  });
+
+  it("returns no turns for free text", () => {
+    const t = parseTranscript("just some notes");
+    expect(t.turns).toHaveLength(0);
+    expect(t.preamble).toBe("just some notes");
+  });
+});
+
+describe("serializeTranscript", () => {
+  it("round-trips the canonical format", () => {
+    expect(serializeTranscript(parseTranscript(SAMPLE))).toBe(SAMPLE);
+  });
+
+  it("normalizes header variants", () => {
+    expect(normalizeTranscript("**Amy** 1:05\nhello")).toBe("**Amy 00:01:05**\n\nhello");
+    expect(normalizeTranscript("plain text")).toBe("plain text");
+  });
+});
+
+describe("timestamps", () => {
+  it("parses and formats", () => {
+    expect(parseTimestamp("01:02:03")).toBe(3723);
+    expect(parseTimestamp("2:61")).toBeNull();
+    expect(formatTimestamp(3723)).toBe("01:02:03");
+  });
+});
+
+describe("splitCorrectionOutput", () => {
+  it("separates the change log from the transcript", () => {
+    const { transcript, correctionLog } = splitCorrectionOutput(SAMPLE.replace("### 📝", "---\n\n### 📝"));
+    expect(transcript.endsWith("的問題。")).toBe(true);
+    expect(correctionLog).toBe("- 之前 → 資遣");
+  });
+
+  it("returns a null log when there is none", () => {
+    expect(splitCorrectionOutput("**A 00:00:01**\n\nhi")).toEqual({ transcript: "**A 00:00:01**\n\nhi", correctionLog: null });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { detectTranscriptFormat, importTranscript, isSpeakerLabel, UNKNOWN_SPEAKER } from "@/lib/transcriptImport";
+
+const SRT = `1
+00:00:01,000 --> 00:00:04,500
+王經理：大家好
+
+2
+00:00:05,000 --> 00:01:10,200
+李律師: 我補充一下
+第二行`;
+
+const VTT = `WEBVTT
+
+00:01.000 --> 00:03.000
+<v Amy>Hello there</v>
+
+00:03.500 --> 00:07.000
+<v.loud Bob>Hi</v>`;
+
+const TIMESTAMPED = `[00:00:02] 王經理: 開始開會
+補充說明
+[00:01:30] 李律師: 收到`;
+
+const WHISPER = JSON.stringify({
+  text: "hello world",
+  segments: [
+    { start: 0.5, end: 2.4, text: " hello", speaker: "SPEAKER_00" },
+    { start: 2.5, end: 95.2, text: " world", speaker: "SPEAKER_01" },
+  ],
+});
+
+const ASSEMBLY = JSON.stringify({
+  utterances: [{ speaker: "A", start: 1000, end: 61000, text: "hi" }],
+});
+
+describe("detectTranscriptFormat", () => {
+  it("detects formats by extension and content", () => {
+    expect(detectTranscriptFormat("a.srt", SRT)).toBe("srt");
+    expect(detectTranscriptFormat("a.txt", SRT)).toBe("srt");
+    expect(detectTranscriptFormat("a.txt", VTT)).toBe("vtt");
+    expect(detectTranscriptFormat("a.txt", TIMESTAMPED)).toBe("timestamped");
+    expect(detectTranscriptFormat("a.json", WHISPER)).toBe("json");
+    expect(detectTranscriptFormat("a.txt", "**Amy 00:00:01**\n\nhi")).toBe("markdown");
+    expect(detectTranscriptFormat("a.txt", "隨手筆記")).toBe("plain");
+  });
+});
+
+describe("importTranscript", () => {
+  it("normalizes SRT cues with speaker prefixes", () => {
+    const result = importTranscript("meeting.srt", SRT);
+    expect(result.speakers).toEqual(["王經理", "李律師"]);
+    expect(result.durationSeconds).toBeCloseTo(70.2);
+    expect(result.text).toBe("**王經理 00:00:01**\n\n大家好\n\n**李律師 00:00:05**\n\n我補充一下\n第二行");
+  });
+
+  it("reads WebVTT voice spans", () => {
+    const result = importTranscript("meeting.vtt", VTT);
+    expect(result.speakers).toEqual(["Amy", "Bob"]);
+    expect(result.transcript.turns[1]).toMatchObject({ startTime: "00:00:03", text: "Hi" });
+  });
+
+  it("folds untimed lines into the previous timestamped line", () => {
+    const result = importTranscript("notes.txt", TIMESTAMPED);
+    expect(result.transcript.turns[0].text).toBe("開始開會\n補充說明");
+    expect(result.durationSeconds).toBe(90);
+  });
+
+  it("reads Whisper segments and AssemblyAI utterances", () => {
+    expect(importTranscript("w.json", WHISPER).speakers).toEqual(["SPEAKER_00", "SPEAKER_01"]);
+    const assembly = importTranscript("a.json", ASSEMBLY);
+    expect(assembly.durationSeconds).toBe(61);
+    expect(assembly.transcript.turns[0].startTime).toBe("00:00:01");
+  });
+
+  it("labels segments without a speaker", () => {
+    const result = importTranscript("a.srt", "1\n00:00:01,000 --> 00:00:02,000\n沒有說話者");
+    expect(result.speakers).toEqual([UNKNOWN_SPEAKER]);
+  });
+
+  it("merges consecutive cues of one speaker into a turn", () => {
+    const srt = [
+      "1\n00:00:01,000 --> 00:00:02,000\n王經理：第一句",
+      "2\n00:00:02,000 --> 00:00:03,000\n王經理：第二句",
+      "3\n00:00:03,000 --> 00:00:04,000\n李律師：好",
+      "4\n00:00:04,000 --> 00:00:09,000\n李律師：沒問題",
+    ].join("\n\n");
+    const result = importTranscript("a.srt", srt);
+    expect(result.transcript.turns.map(t => [t.speaker, t.startTime, t.text])).toEqual([
+      ["王經理", "00:00:01", "第一句\n第二句"],
+      ["李律師", "00:00:03", "好\n沒問題"],
+    ]);
+    expect(result.durationSeconds).toBe(9);
+  });
+
+  it("does not mistake field labels or sentences for speakers", () => {
+    expect(isSpeakerLabel("王經理")).toBe(true);
+    expect(isSpeakerLabel("Dr. Smith")).toBe(true);
+    expect(isSpeakerLabel("注意")).toBe(false);
+    expect(isSpeakerLabel("時間")).toBe(false);
+    expect(isSpeakerLabel("他說，今天的重點是")).toBe(false);
+    expect(isSpeakerLabel("根據上次會議的決議內容")).toBe(false);
+    const result = importTranscript("a.txt", "[00:00:01] 注意：明天停電\n[00:00:05] 時間：10點");
+    expect(result.speakers).toEqual([UNKNOWN_SPEAKER]);
+    expect(result.transcript.turns[0].text).toBe("注意：明天停電\n時間：10點");
+  });
+
+  it("reports malformed JSON in Chinese", () => {
+    expect(() => importTranscript("a.json", "{\"segments\": [")).toThrow("JSON 逐字稿格式錯誤");
+  });
+
+  it("keeps plain text as-is", () => {
+    const result = importTranscript("a.txt", "  隨手筆記  ");
+    expect(result.text).toBe("隨手筆記");
+    expect(result.durationSeconds).toBeNull();
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import {
+  EMPTY_USAGE, addUsage, costOf, estimateTokens, formatTokens, monthBounds, monthKey, parseUsage, reservedTokens, summarizeUsage,
+} from "@/lib/usage";
+import type { UsageRecord } from "@/types";
+
+const record = (overrides: Partial<UsageRecord>): UsageRecord => ({
+  id: "u1", userId: "amy", workspaceId: "w1", recordId: "r1", action: "analyzeTranscript", model: "lovable:m",
+  calls: 1, promptTokens: 100, completionTokens: 50, totalTokens: 150, estimated: false, cost: 0.01, createdAt: 0, ...overrides,
+});
+
+describe("token counting", () => {
+  it("reads OpenAI usage and adds requests up", () => {
+    expect(parseUsage({ prompt_tokens: 10, completion_tokens: 5 })).toEqual({ promptTokens: 10, completionTokens: 5, totalTokens: 15 });
+    expect(parseUsage(undefined)).toBeNull();
+    const total = addUsage(addUsage(EMPTY_USAGE, { promptTokens: 1, completionTokens: 2, totalTokens: 3 }), { promptTokens: 1, completionTokens: 1, totalTokens: 2, estimated: true });
+    expect(total).toEqual({ promptTokens: 2, completionTokens: 3, totalTokens: 5, estimated: true });
+  });
+
+  it("estimates a token per CJK character and four characters per token otherwise", () => {
+    expect(estimateTokens("會議記錄")).toBe(4);
+    expect(estimateTokens("hello world!")).toBe(3);
+  });
+
+  it("prices prompt and completion tokens separately", () => {
+    expect(costOf({ promptTokens: 1_000_000, completionTokens: 500_000, totalTokens: 1_500_000 }, { input: 0.5, output: 2 })).toBe(1.5);
+    expect(costOf({ promptTokens: 1, completionTokens: 1, totalTokens: 2 }, undefined)).toBeNull();
+  });
+});
+
+describe("reservedTokens", () => {
+  it("holds the input and as much again for the output", () => {
+    expect(reservedTokens("會議開始")).toBe(8);
+    expect(reservedTokens("abcdefgh")).toBe(4);
+  });
+});
+
+describe("months", () => {
+  it("uses UTC calendar months", () => {
+    expect(monthKey(Date.UTC(2026, 11, 31, 23))).toBe("2026-12");
+    expect(monthBounds("2026-12")).toEqual({ start: "2026-12-01T00:00:00.000Z", end: "2027-01-01T00:00:00.000Z" });
+  });
+});
+
+describe("summarizeUsage", () => {
+  it("groups rows and keeps unpriced rows out of the cost", () => {
+    const rows = [record({}), record({ id: "u2", cost: null, estimated: true }), record({ id: "u3", userId: "bob", totalTokens: 900 })];
+    const byUser = summarizeUsage(rows, r => r.userId);
+    expect(byUser.map(s => s.key)).toEqual(["bob", "amy"]);
+    expect(byUser[1]).toMatchObject({ calls: 2, totalTokens: 300, cost: 0.01, unpriced: 1, estimated: true });
+  });
+
+  it("formats token counts compactly", () => {
+    expect(formatTokens(950)).toBe("950");
+    expect(formatTokens(12_345)).toBe("12K");
+    expect(formatTokens(1_234)).toBe("1.2K");
+    expect(formatTokens(4_100_000)).toBe("4.1M");
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { canDeleteMeeting, canEditMeetings, canManageMembers, invitationStatus, inviteLink, pickWorkspace } from "@/lib/workspaces";
+import type { Workspace } from "@/types";
+
+describe("role permissions", () => {
+  it("lets owners and editors change meetings but only owners manage members", () => {
+    expect([canEditMeetings("owner"), canEditMeetings("editor"), canEditMeetings("viewer"), canEditMeetings(null)]).toEqual([true, true, false, false]);
+    expect([canManageMembers("owner"), canManageMembers("editor"), canManageMembers("viewer")]).toEqual([true, false, false]);
+  });
+
+  it("lets editors delete only the meetings they created", () => {
+    expect(canDeleteMeeting("owner", false)).toBe(true);
+    expect(canDeleteMeeting("editor", true)).toBe(true);
+    expect(canDeleteMeeting("editor", false)).toBe(false);
+    expect(canDeleteMeeting("viewer", true)).toBe(false);
+  });
+});
+
+describe("invitations", () => {
+  it("builds a link into the app", () => {
+    expect(inviteLink("abc-123", "https://app.example")).toBe("https://app.example/?invite=abc-123");
+  });
+
+  it("reports accepted before expired", () => {
+    expect(invitationStatus({ expiresAt: 2000, acceptedAt: null }, 1000)).toBe("pending");
+    expect(invitationStatus({ expiresAt: 2000, acceptedAt: null }, 3000)).toBe("expired");
+    expect(invitationStatus({ expiresAt: 2000, acceptedAt: 1500 }, 3000)).toBe("accepted");
+  });
+});
+
+describe("pickWorkspace", () => {
+  const workspaces: Workspace[] = [
+    { id: "personal", name: "個人工作區", role: "owner" },
+    { id: "team", name: "法務部", role: "viewer" },
+  ];
+
+  it("keeps the remembered workspace while the user still belongs to it", () => {
+    expect(pickWorkspace(workspaces, "team")?.id).toBe("team");
+    expect(pickWorkspace(workspaces, "gone")?.id).toBe("personal");
+    expect(pickWorkspace([], "team")).toBeNull();
+  });
+});
@@ -16,14 +16,191 @@ export interface MeetingRecord {
   insightsHistory: Record<string, ChatMessage[]>;
 }
 
+export interface CorrectionResult {
+  transcript: string;
+  correctionLog: string | null;
+  /** Prompt registry tag the result was produced with, when the function reports it. */
+  promptVersion: string | null;
+  /** `provider:model` that produced the result, when the function reports it. */
+  model: string | null;
+}
+
+export interface AnalysisResult {
+  text: string;
+  promptVersion: string | null;
+  model: string | null;
+}
+
+export interface SpeakerProfile {
+  /** Canonical spelling used in the corrected transcript. */
+  name: string;
+  /** Other names or ASR misspellings that refer to this person. */
+  aliases: string[];
+  role?: string;
+  organization?: string;
+}
+
+export interface GlossaryTerm {
+  /** Preferred spelling. */
+  term: string;
+  /** Known wrong variants, replaced verbatim before correction. */
+  variants: string[];
+  note?: string;
+}
+
+export interface Glossary {
+  id: string;
+  name: string;
+  description?: string;
+  terms: GlossaryTerm[];
+  /** Author; teammates see glossaries attached to shared meetings but only the author edits them. */
+  ownerId?: string;
+}
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+/** A workspace the current user belongs to, with their role in it. */
+export interface Workspace {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+  /** AI provider and model for the workspace's meetings; unset uses the default. */
+  aiProvider?: string | null;
+  aiModel?: string | null;
+  /** Monthly token caps for the whole workspace and for each member; null is unlimited. */
+  monthlyTokenQuota?: number | null;
+  memberMonthlyTokenQuota?: number | null;
+}
+
+export interface WorkspaceMember {
+  userId: string;
+  displayName: string | null;
+  role: WorkspaceRole;
+  joinedAt: number;
+}
+
+/** A single-use link that adds whoever opens it to a workspace. */
+export interface WorkspaceInvitation {
+  id: string;
+  /** Who the link was meant for; informational only. */
+  email: string | null;
+  role: Exclude<WorkspaceRole, 'owner'>;
+  token: string;
+  expiresAt: number;
+  acceptedAt: number | null;
+}
+
+/** A project folder; each meeting sits in at most one. */
+export interface Folder {
+  id: string;
+  name: string;
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  /** Key into TAG_COLORS. */
+  color: string;
+}
+
 export interface MeetingMetadata {
   subject: string;
   keywords: string;
+  /** Free-text attendee list; kept in sync with `roster` for older records and deployments. */
   speakers: string;
+  roster?: SpeakerProfile[];
   terminology: string;
   length: string;
 }
 
+export type ActionItemStatus = 'open' | 'in_progress' | 'done' | 'cancelled';
+
+/** A task handed out in a meeting, as extracted from module E. */
+export interface ActionItem {
+  task: string;
+  assigner: string | null;
+  owner: string | null;
+  /** YYYY-MM-DD when the deadline can be pinned down. */
+  dueDate: string | null;
+  /** The deadline as said in the meeting, e.g. 「下週五前」. */
+  dueText: string | null;
+  sourceQuote: string;
+  ambiguous: boolean;
+  ambiguityNote: string | null;
+}
+
+export interface TrackedActionItem extends ActionItem {
+  id: string;
+  recordId: string;
+  status: ActionItemStatus;
+  updatedAt: number;
+}
+
+export type AiJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+/** A correction or first module analysis running in the background. */
+export interface AiJob {
+  id: string;
+  recordId: string;
+  action: 'correctTranscript' | 'analyzeTranscript';
+  /** Analyses only. */
+  moduleId?: string;
+  transcriptVersionId?: string;
+  focusSpeaker?: SpeakerProfile;
+  status: AiJobStatus;
+  /** Model output received so far; empty for chunked corrections, which report progress instead. */
+  partialOutput: string;
+  progress?: { completed: number; total: number };
+  retryAttempt?: number;
+  error?: string;
+  /** An `AiErrorKind`; 'cancelled' when someone stopped the job. */
+  errorKind?: string;
+  /** The transcript or module version the job produced. */
+  resultId?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Tokens one AI request used, from the `ai_usage` ledger. */
+export interface UsageRecord {
+  id: string;
+  userId: string;
+  workspaceId: string | null;
+  /** Null for requests outside a meeting and for deleted meetings. */
+  recordId: string | null;
+  action: string;
+  /** `provider:model` tag. */
+  model: string;
+  /** Model calls the request made, e.g. one per correction chunk. */
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** The provider reported no usage and the counts were estimated from text length. */
+  estimated: boolean;
+  /** USD; null when the model has no configured price. */
+  cost: number | null;
+  createdAt: number;
+}
+
+export interface AnalysisModuleDefinition {
+  /** 'A'–'E' for built-in modules, the row id for custom ones. */
+  id: string;
+  name: string;
+  /** Key into the client's icon set. */
+  icon: string;
+  /** Task goal sent with the transcript. */
+  task: string;
+  /** Analysis guidelines for the system prompt. */
+  prompt: string;
+  outputFormat: string;
+  builtIn: boolean;
+  /** Revision of the module's own text; bumped when a custom module is edited. */
+  version: number;
+  /** Author of a custom module; workspace members can run it, only the author edits it. */
+  ownerId?: string;
+}
+
 export enum AnalysisModule {
   A = 'A',
   B = 'B',
@@ -31,3 +208,26 @@ export enum AnalysisModule {
   D = 'D',
   E = 'E'
 }
+
+export type UncertaintyKind = '文字存疑' | '語意存疑';
+
+export interface UncertaintyMarker {
+  kinds: UncertaintyKind[];
+  note?: string;
+  offset: number;
+  raw: string;
+}
+
+export interface TranscriptTurn {
+  speaker: string;
+  startTime: string | null;
+  startSeconds: number | null;
+  text: string;
+  uncertainties: UncertaintyMarker[];
+}
+
+export interface Transcript {
+  preamble: string;
+  turns: TranscriptTurn[];
+  appendix: string;
+}
@@ -1,4 +1,23 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import type { MeetingMetadata, GlossaryTerm, AnalysisModuleDefinition, ActionItem, SpeakerProfile } from '../../../src/types.ts';
+import { normalizeTranscript, splitCorrectionOutput } from '../../../src/lib/transcript.ts';
+import {
+  chunkTranscript, mapWithConcurrency, stitchCorrectedChunks, mergeCorrectionLogs, speakersOf,
+} from '../../../src/lib/chunking.ts';
+import { rosterOf, formatRosterForPrompt, formatSpeakerProfile, applyRoster } from '../../../src/lib/roster.ts';
+import { applyGlossary, formatGlossaryForPrompt, formatReplacementLog } from '../../../src/lib/glossary.ts';
+import { CORRECTION_PROMPT, ACTION_ITEMS_PROMPT, promptTag, modulePromptVersion } from '../../../src/lib/prompts.ts';
+import { parseActionItems } from '../../../src/lib/actionItems.ts';
+import { findBuiltInModule, customModuleFromRow, buildModuleSystemPrompt, UNKNOWN_MODULE_ERROR } from '../../../src/lib/modules.ts';
+import { encodeSseEvent, type ProxyStreamEvent } from '../../../src/lib/sse.ts';
+import {
+  createMockProvider, createOpenAiProvider, modelTag, parseProviderConfigs, providerInfo, resolveModelChoice,
+  type AiProvider, type ChatTurn, type CompletionOptions, type ModelChoice, type ProviderConfig,
+} from '../../../src/lib/aiProviders.ts';
+import { AiError, backoffDelay, withRetry } from '../../../src/lib/aiErrors.ts';
+import { JOB_FLUSH_INTERVAL_MS, JOB_HEARTBEAT_MS } from '../../../src/lib/aiJobs.ts';
+import { EMPTY_USAGE, addUsage, costOf, reservedTokens, type ModelPrice, type TokenUsage } from '../../../src/lib/usage.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -6,158 +25,473 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 };
 
-// ─── Lovable AI Gateway config ────────────────────────────────────────────────
-// Uses LOVABLE_API_KEY (pre-provisioned) → no external API key needed
-const LOVABLE_GATEWAY_URL = 'https://ai.gateway.lovable.dev/v1/chat/completions';
-const MODEL = 'google/gemini-3-flash-preview';
+// ─── Chunked correction config ────────────────────────────────────────────────
+// Transcripts longer than CHUNK_MAX_CHARS are corrected in turn-aligned chunks
+const CHUNK_MAX_CHARS = 12000;
+const CHUNK_OVERLAP_TURNS = 2;
+const CHUNK_CONCURRENCY = 3;
+/** Ledger writes are retried this many times before the request's usage counts as lost. */
+const USAGE_WRITE_ATTEMPTS = 4;
+
+// ─── Helper: model providers ──────────────────────────────────────────────────
+
+/** The provider and model one request runs on. */
+interface ModelTarget {
+  provider: AiProvider;
+  model: string;
+  /** Stored with every result, e.g. `lovable:google/gemini-3-flash-preview`. */
+  tag: string;
+  price: ModelPrice | null;
+}
 
-// ─── Embedded System Prompts ───────────────────────────────────────────────────
+function createProvider(config: ProviderConfig): AiProvider {
+  if (config.type === 'mock') return createMockProvider('（模擬回應）', config.id);
+  const apiKey = config.apiKeyEnv ? Deno.env.get(config.apiKeyEnv) : undefined;
+  if (config.apiKeyEnv && !apiKey) throw new Error(`${config.apiKeyEnv} not configured`);
+  return createOpenAiProvider({ id: config.id, baseUrl: config.baseUrl!, apiKey, maxTokens: config.maxTokens });
+}
 
-const CORRECTION_SYSTEM_PROMPT = `你是一位專業的「錄音逐字稿校正員」。你的任務是將原始、碎片化且充滿錯誤的逐字稿轉化為清晰、準確、可讀的完整記錄。
+/** Who is asking about which meeting, and the settings of its workspace. */
+interface CallerContext {
+  userId: string;
+  recordId: string;
+  workspaceId: string;
+  /** The meeting's provider and model, then its workspace's. */
+  choices: ModelChoice[];
+}
 
-【核心原則】
-1. 完整性優先：不刪除任何有意義的內容。
-2. 準確性為王：修正文字辨識錯誤（如同音異字、錯別字），置信度 > 90% 直接修正。
-3. 可讀性至上：優化斷句和結構，移除口吃。
-4. 保留口語感：不過度書面化，保留自然節奏（保留「喔」「嘛」等語氣詞）。
-5. 透明化標註：若不確定，請保留原文並標註 [文字存疑/語意存疑]。
+/** Read as the caller, so RLS keeps other people's meetings out and viewers from spending the workspace's tokens. */
+async function resolveCaller(req: Request, recordId: string): Promise<CallerContext> {
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('請先登入');
+  const { data } = await supabase.from('meeting_records')
+    .select('workspace_id, ai_provider, ai_model, workspaces(ai_provider, ai_model)')
+    .eq('id', recordId).maybeSingle();
+  if (!data) throw new Error('找不到會議記錄');
+  const { data: canEdit, error } = await supabase.rpc('can_edit_record', { target_record: recordId });
+  if (error) throw new Error(error.message);
+  if (!canEdit) throw new Error('檢視者無法使用 AI 功能');
+  return {
+    userId: user.id,
+    recordId,
+    workspaceId: data.workspace_id,
+    choices: [
+      { provider: data.ai_provider, model: data.ai_model },
+      { provider: data.workspaces?.ai_provider ?? null, model: data.workspaces?.ai_model ?? null },
+    ],
+  };
+}
 
-【五大優先級引擎】
-- 優先級 1：文字辨識錯誤修正。依據上下文修正同音異字（如：之前->資遣），參考領域特定詞彙。
-- 優先級 2：說話者整合與辨識。相鄰時間戳若為同一人且間隔 < 5 秒則自動合併，確保歸屬正確。
-- 優先級 3：斷句優化。根據語意邏輯重新斷句。
-- 優先級 4：口語贅字處理。移除「那那那」、「就是就是」等無意義重複與口吃，但保留關鍵語氣詞。
-- 優先級 5：時間戳記精簡。以「說話輪次」為單位標記起始時間。
+/** Uses the meeting's provider and model, else its workspace's, else the default. */
+function resolveModelTarget(configs: ProviderConfig[], caller: CallerContext): ModelTarget {
+  const { config, model } = resolveModelChoice(configs, ...caller.choices);
+  return { provider: createProvider(config), model, tag: modelTag(config.id, model), price: config.pricing?.[model] ?? null };
+}
 
-【輸出格式】
-1. 主輸出：校正後的 Markdown 逐字稿。
-   格式：**說話者 HH:MM:SS** (空行) 內容...
-2. 附加輸出：### 📝 重大修改記錄
-   包含：文字辨識修正統計、專有名詞統一、說話者更正、斷句優化說明、不確定項。`;
+interface CallOptions extends CompletionOptions {
+  /** Called when a transient failure is about to be retried. */
+  onRetry?: (error: AiError, attempt: number, delayMs: number) => void;
+}
 
-const MODULE_SYSTEM_PROMPT = `你是一位專業的會議洞察分析師。請根據模組任務深度分析逐字稿，以繁體中文回答，使用 Markdown 格式輸出。
+async function callModel(target: ModelTarget, systemPrompt: string, userMessage: string, temperature: number, options: CallOptions = {}): Promise<string> {
+  return callModelWithHistory(target, systemPrompt, [{ role: 'user', content: userMessage }], temperature, options);
+}
 
-【五大解讀模組規範】
+async function callModelWithHistory(
+  target: ModelTarget,
+  systemPrompt: string,
+  messages: ChatTurn[],
+  temperature: number,
+  { onDelta, signal, onRetry, onUsage }: CallOptions = {},
+): Promise<string> {
+  // Rate limits, timeouts and 5xx are retried with backoff, so one transient
+  // failure doesn't throw away a long correction run
+  return withRetry(() => target.provider.complete({ model: target.model, system: systemPrompt, messages, temperature }, { onDelta, signal, onUsage }), {
+    signal,
+    onRetry: (error, attempt, delayMs) => {
+      console.warn(`Retrying ${target.tag} in ${delayMs} ms (attempt ${attempt}, ${error.kind}):`, logDetail(error));
+      onRetry?.(error, attempt, delayMs);
+    },
+  });
+}
 
-模組 A（氛圍與張力走勢分析）：
-- 描述整場會議的情緒波動與張力變化（冷場、衝突、轉折點）。
-- 產出張力起伏時間軸（用 ASCII 符號）、識別能量消長與主導氣場轉移。
-- 標註衝突節點或冷場節點的具體時間點。
+/** What to log about a failure: the provider's status and body when it answered with an error. */
+const logDetail = (error: unknown) => error instanceof AiError ? error.response ?? error.detail : '';
 
-模組 B（指定人物建模）：
-- 套用九大觀察維度：性格傾向/決策風格/對話慣性/語用習慣/情緒管理/衝突處理/關係取向/操控傾向/語言斷裂。
-- 每項須明示：顯性觀察（逐字稿依據）與潛在假設（有無信度佐證）。
-- 如資料不足，須明確提示「此面向資料不足，建議補充觀察」。
-- 產出「角色設定背景資料 (Profile)」。
+// ─── Helper: SSE response ─────────────────────────────────────────────────────
 
-模組 C（潛台詞與 QBQ 解析）：
-- 抽取未明說的策略、問題背後的問題（QBQ）與態度暗示。
-- 分析結論是否明確、具體交辦、是否有模糊責任。
-- 提供結論歸納、交辦項目分層整理。
+/**
+ * Runs `work` while streaming its events to the browser. The final result is
+ * sent as a `done` event; cancelling the response aborts `signal`.
+ */
+function streamResponse(work: (send: (event: ProxyStreamEvent) => void, signal: AbortSignal) => Promise<ProxyStreamEvent>): Response {
+  const controller = new AbortController();
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(stream) {
+      const send = (event: ProxyStreamEvent) => {
+        if (!controller.signal.aborted) stream.enqueue(encoder.encode(encodeSseEvent(event)));
+      };
+      try {
+        send(await work(send, controller.signal));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error('Edge function stream error:', message, logDetail(error));
+        send(error instanceof AiError ? { type: 'error', ...error.toPayload() } : { type: 'error', error: message });
+      } finally {
+        if (!controller.signal.aborted) stream.close();
+      }
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+  return new Response(body, {
+    headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+  });
+}
 
-模組 D（權力結構流轉觀察）：
-- 評估誰在會議中主導話語與議題轉折。
-- 抽取「誰與誰結盟」「誰在帶風向」「誰被邊緣化」。
-- 整理發言權轉移圖與話語攻防節點。
+// ─── Helper: correction (single request or chunked) ──────────────────────────
 
-模組 E（會議摘要與結論重構）：
-- 限制：僅產出「事實整理、原句摘錄、任務交辦分層」，嚴禁編造結論或評論。
-- 每段摘要須對應來源語句，包含：【原文摘錄】【內容歸類】【任務分層（交辦人→負責人→時程）】。
-- 無法判讀時標記「⚠️ 模糊訊號：需人工確認」。`;
+interface ChunkGuidance {
+  glossary?: GlossaryTerm[];
+  context?: string;
+  speakers?: string[];
+  termLog?: string | null;
+}
 
-// ─── Helper: call Lovable AI Gateway (OpenAI-compatible) ─────────────────────
+function buildCorrectionMessage(metadata: Partial<MeetingMetadata> | undefined, transcript: string, guidance: ChunkGuidance = {}): string {
+  const roster = rosterOf(metadata);
+  const sections = [`現在請執行「逐字稿校正」任務。
 
-async function callGateway(systemPrompt: string, userMessage: string, temperature: number): Promise<string> {
-  const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
-  if (!lovableApiKey) throw new Error('LOVABLE_API_KEY not configured');
+【會議背景資訊】
+主題：${metadata?.subject || '（未提供）'}
+關鍵字：${metadata?.keywords || '（未提供）'}
+說話者：${roster.length > 0 ? '見下方出席名單' : '（未提供）'}
+術語：${metadata?.terminology || '（未提供）'}
+長度：${metadata?.length || '（未提供）'}`];
 
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 300000); // 5 min
+  if (roster.length > 0) {
+    sections.push(`【出席名單】\n請以下列標準名稱標示說話者，別名與辨識錯誤一律改為標準名稱：\n${formatRosterForPrompt(roster)}`);
+  }
 
-  try {
-    const response = await fetch(LOVABLE_GATEWAY_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${lovableApiKey}`,
-      },
-      body: JSON.stringify({
-        model: MODEL,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userMessage },
-        ],
-        temperature,
-        max_tokens: 65536,
-      }),
-      signal: controller.signal,
-    });
+  if (guidance.glossary?.length) {
+    sections.push(`【專業詞彙表】\n請一律使用下列標準寫法，並依上下文修正其他誤植：\n${formatGlossaryForPrompt(guidance.glossary)}`);
+  }
+  if (guidance.speakers?.length) {
+    sections.push(`【已確認的說話者名稱】\n請沿用以下寫法：${guidance.speakers.join('、')}`);
+  }
+  if (guidance.termLog) {
+    sections.push(`【前段校正記錄（專有名詞請保持一致）】\n${guidance.termLog}`);
+  }
+  if (guidance.context) {
+    sections.push(`【前文脈絡（僅供參考，請勿重複輸出；校正結果請從【原始逐字稿內容】的第一段開始）】\n${guidance.context}`);
+  }
+  sections.push(`【原始逐字稿內容】\n${transcript}`);
+  return sections.join('\n\n');
+}
 
-    clearTimeout(timeoutId);
+interface RunHooks extends CallOptions {
+  onProgress?: (completed: number, total: number) => void;
+}
 
-    if (!response.ok) {
-      const errData = await response.json().catch(() => ({}));
-      console.error('Gateway error:', errData);
-      throw new Error(errData?.error?.message || `Gateway error ${response.status}`);
-    }
+async function correctOnce(target: ModelTarget, metadata: Partial<MeetingMetadata> | undefined, transcript: string, guidance?: ChunkGuidance, options?: CallOptions) {
+  const message = buildCorrectionMessage(metadata, transcript, guidance);
+  return splitCorrectionOutput(await callModel(target, CORRECTION_PROMPT.text, message, 0.2, options));
+}
 
-    const data = await response.json();
-    const text = data.choices?.[0]?.message?.content || '';
-    if (!text) throw new Error('AI 回傳空白結果，請稍後重試');
-    return text;
+/**
+ * Corrects long transcripts chunk by chunk. The first chunk runs alone so its
+ * speaker names and term decisions can guide the rest, which then run with
+ * bounded concurrency before being stitched and their logs merged.
+ */
+async function correctTranscript(
+  target: ModelTarget,
+  metadata: Partial<MeetingMetadata> | undefined,
+  transcript: string,
+  glossary: GlossaryTerm[],
+  { onDelta, onProgress, onRetry, onUsage, signal }: RunHooks = {},
+) {
+  const chunks = chunkTranscript(transcript, { maxChars: CHUNK_MAX_CHARS, overlapUnits: CHUNK_OVERLAP_TURNS });
+  if (chunks.length === 1) return correctOnce(target, metadata, transcript, { glossary }, { onDelta, onRetry, onUsage, signal });
+
+  // Chunks finish out of order, so only progress (not tokens) is streamed
+  let completed = 0;
+  onProgress?.(completed, chunks.length);
+  const first = await correctOnce(target, metadata, chunks[0].text, { glossary }, { onRetry, onUsage, signal });
+  onProgress?.(++completed, chunks.length);
+  // Roster names win over whatever spelling the first chunk settled on
+  const speakers = Array.from(new Set([...rosterOf(metadata).map(p => p.name), ...speakersOf(first.transcript)]));
+  const rest = await mapWithConcurrency(chunks.slice(1), CHUNK_CONCURRENCY, async chunk => {
+    const output = await correctOnce(target, metadata, chunk.text, { glossary, context: chunk.context, speakers, termLog: first.correctionLog }, { onRetry, onUsage, signal });
+    onProgress?.(++completed, chunks.length);
+    return output;
+  });
+
+  const outputs = [first, ...rest];
+  return {
+    transcript: stitchCorrectedChunks(chunks, outputs.map(o => o.transcript), speakers),
+    correctionLog: mergeCorrectionLogs(outputs.map(o => o.correctionLog)),
+  };
+}
+
+// ─── Helper: resolve analysis modules ────────────────────────────────────────
+
+/**
+ * Built-in modules come from the shared definitions; anything else is looked
+ * up in `analysis_modules` as the caller, so RLS limits it to the modules of
+ * their workspaces. An id that resolves to nothing is an error.
+ */
+async function resolveModule(req: Request, moduleId?: string): Promise<AnalysisModuleDefinition> {
+  if (!moduleId) throw new Error(UNKNOWN_MODULE_ERROR);
+  const builtIn = findBuiltInModule(moduleId);
+  if (builtIn) return builtIn;
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+  const { data, error } = await supabase.from('analysis_modules').select('*').eq('id', moduleId).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error(UNKNOWN_MODULE_ERROR);
+  return customModuleFromRow(data);
+}
 
-  } catch (err: any) {
-    clearTimeout(timeoutId);
-    if (err.name === 'AbortError') throw new Error('請求超時（超過 300 秒），請嘗試縮短逐字稿長度後重試。');
-    throw err;
+// ─── Helper: action item extraction ──────────────────────────────────────────
+
+/** Asks for JSON action items and validates them, retrying once with the validation error. */
+async function extractActionItems(target: ModelTarget, transcript: string, options: CallOptions = {}): Promise<ActionItem[]> {
+  const messages: ChatTurn[] = [{
+    role: 'user',
+    content: `以下是已校正的會議逐字稿：\n---\n${transcript}\n---\n\n請擷取所有任務交辦事項，依規定輸出 JSON。`,
+  }];
+  const first = await callModelWithHistory(target, ACTION_ITEMS_PROMPT.text, messages, 0.1, options);
+  try {
+    return parseActionItems(first);
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    const retry = await callModelWithHistory(target, ACTION_ITEMS_PROMPT.text, [
+      ...messages,
+      { role: 'assistant', content: first },
+      { role: 'user', content: `上述輸出不符合規定（${reason}），請只輸出符合格式的 JSON 物件。` },
+    ], 0, options);
+    return parseActionItems(retry);
   }
 }
 
-// ─── Helper: call Gateway with multi-turn history ─────────────────────────────
+// ─── Helper: background jobs ──────────────────────────────────────────────────
+
+interface RunResult {
+  text: string;
+  correctionLog?: string | null;
+  promptVersion: string;
+  model: string;
+}
+
+/** The `ai_jobs` columns the worker needs. */
+interface QueuedJob {
+  id: string;
+  record_id: string;
+  created_by: string;
+  action: string;
+  module_id: string | null;
+  transcript_version_id: string | null;
+  focus_speaker: unknown;
+}
+
+interface JobPayload {
+  recordId: string;
+  moduleId?: string;
+  /** The version an analysis reads; stored on the module version it produces. */
+  transcriptVersionId?: string;
+  focusSpeaker?: SpeakerProfile;
+}
+
+/** Queues the job as the caller, so RLS decides who may start one. */
+async function enqueueJob(req: Request, action: string, payload: JobPayload, model: string): Promise<QueuedJob> {
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+  const { data, error } = await supabase.from('ai_jobs').insert({
+    record_id: payload.recordId,
+    action,
+    module_id: action === 'analyzeTranscript' ? payload.moduleId ?? null : null,
+    transcript_version_id: payload.transcriptVersionId ?? null,
+    focus_speaker: payload.focusSpeaker ?? null,
+    model,
+  }).select().single();
+  if (error || !data) throw new Error(error?.message || '無法建立背景工作');
+  return data;
+}
 
-async function callGatewayWithHistory(systemPrompt: string, messages: { role: string; content: string }[], temperature: number): Promise<string> {
-  const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
-  if (!lovableApiKey) throw new Error('LOVABLE_API_KEY not configured');
+/** Stores a finished run as a new transcript or module version, numbered by the database; returns its id. */
+async function saveJobResult(supabase: ReturnType<typeof createClient>, job: QueuedJob, result: RunResult): Promise<string> {
+  if (job.action === 'correctTranscript') {
+    const { data, error } = await supabase.from('transcript_versions').insert({
+      record_id: job.record_id, corrected_transcript: result.text,
+      correction_log: result.correctionLog ?? null, source: 'ai', author_id: job.created_by,
+      prompt_version: result.promptVersion, model: result.model,
+    }).select('id').single();
+    if (error || !data) throw new Error(error?.message || '儲存逐字稿版本失敗');
+    return data.id;
+  }
+
+  const { data, error } = await supabase.from('module_versions').insert({
+    record_id: job.record_id, module_id: job.module_id,
+    transcript_version_id: job.transcript_version_id, focus_speaker: job.focus_speaker,
+    prompt_version: result.promptVersion, model: result.model,
+  }).select('id').single();
+  if (error || !data) throw new Error(error?.message || '儲存模組版本失敗');
+  const { error: messageError } = await supabase.from('chat_messages').insert({ module_version_id: data.id, role: 'model', content: result.text });
+  if (messageError) throw new Error(messageError.message);
+  return data.id;
+}
 
+/** Jobs this worker is running; failed on shutdown instead of waiting for the client's stall check. */
+const runningJobs = new Set<string>();
+
+// The runtime ends `waitUntil` work at its wall-clock limit without unwinding
+// it, so `processJob` never gets to record the failure itself
+addEventListener('beforeunload', () => {
+  if (runningJobs.size === 0) return;
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const error = new AiError('timeout');
+  supabase.from('ai_jobs').update({ status: 'failed', error: error.message, error_kind: error.kind, finished_at: new Date().toISOString() })
+    .in('id', [...runningJobs]).eq('status', 'running')
+    .then(({ error: updateError }) => { if (updateError) console.error('Unfinished jobs not failed on shutdown:', updateError.message); });
+});
+
+/**
+ * Runs a queued job after the response has been sent. Output so far is saved
+ * every second, so clients following the row over Realtime see it stream in,
+ * and every save doubles as the cancellation check: once the row is no longer
+ * `running`, the model call is aborted.
+ */
+async function processJob(job: QueuedJob, execute: (hooks: RunHooks) => Promise<RunResult>) {
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
   const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 300000);
+  let pending: Record<string, unknown> = {};
+  let output = '';
+  let lastSavedAt = Date.now();
+
+  const flush = async (force = false) => {
+    const isIdle = Object.keys(pending).length === 0;
+    if (isIdle && !force && Date.now() - lastSavedAt < JOB_HEARTBEAT_MS) return;
+    const patch = isIdle ? { updated_at: new Date().toISOString() } : pending;
+    pending = {};
+    lastSavedAt = Date.now();
+    const { data, error } = await supabase.from('ai_jobs').update(patch).eq('id', job.id).eq('status', 'running').select('id');
+    if (error) {
+      pending = { ...patch, ...pending };
+      console.error(`Job ${job.id} progress not saved:`, error.message);
+    } else if (data.length === 0) {
+      controller.abort();
+    }
+  };
 
+  const { data: started } = await supabase.from('ai_jobs')
+    .update({ status: 'running', started_at: new Date().toISOString() })
+    .eq('id', job.id).eq('status', 'queued').select('id');
+  // Cancelled before it started
+  if (!started?.length) return;
+
+  runningJobs.add(job.id);
+  const timer = setInterval(() => flush(), JOB_FLUSH_INTERVAL_MS);
   try {
-    const response = await fetch(LOVABLE_GATEWAY_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${lovableApiKey}`,
-      },
-      body: JSON.stringify({
-        model: MODEL,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          ...messages,
-        ],
-        temperature,
-        max_tokens: 65536,
-      }),
+    const result = await execute({
       signal: controller.signal,
+      onDelta: text => {
+        output += text;
+        pending.partial_output = output;
+      },
+      onRetry: (_error, attempt) => {
+        output = '';
+        pending.partial_output = '';
+        pending.retry_attempt = attempt;
+      },
+      onProgress: (completed, total) => { pending.progress = { completed, total }; },
     });
+    clearInterval(timer);
+    // A job cancelled just as the model finished keeps no result
+    await flush(true);
+    if (controller.signal.aborted) return;
+
+    const resultId = await saveJobResult(supabase, job, result);
+    await supabase.from('ai_jobs')
+      .update({ status: 'succeeded', result_id: resultId, partial_output: null, model: result.model, finished_at: new Date().toISOString() })
+      .eq('id', job.id);
+  } catch (error) {
+    // Cancelled jobs were already marked failed by whoever cancelled them
+    if (controller.signal.aborted) return;
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Job ${job.id} failed:`, message, logDetail(error));
+    await supabase.from('ai_jobs').update({
+      status: 'failed', error: message, error_kind: error instanceof AiError ? error.kind : null, finished_at: new Date().toISOString(),
+    }).eq('id', job.id).eq('status', 'running');
+  } finally {
+    clearInterval(timer);
+    runningJobs.delete(job.id);
+  }
+}
 
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      const errData = await response.json().catch(() => ({}));
-      console.error('Gateway error:', errData);
-      throw new Error(errData?.error?.message || `Gateway error ${response.status}`);
-    }
+// ─── Helper: usage accounting ─────────────────────────────────────────────────
+
+/**
+ * Refuses new requests once the workspace or the caller has used this month's
+ * tokens, and otherwise reserves tokens for this one in the same database
+ * call, so parallel requests count against each other. The request that
+ * crosses a cap still finishes. Returns the reserved ledger row.
+ */
+async function reserveUsage(caller: CallerContext, action: string, target: ModelTarget, input: string): Promise<string> {
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const { data, error } = await supabase.rpc('reserve_ai_usage', {
+    target_workspace: caller.workspaceId,
+    target_user: caller.userId,
+    target_record: caller.recordId,
+    usage_action: action,
+    usage_model: target.tag,
+    reserved_tokens: reservedTokens(input),
+  });
+  if (error) throw new Error(error.message);
+  const [reservation] = data ?? [];
+  if (!reservation?.usage_id) {
+    throw new AiError('usage_limit', `${reservation?.exceeded_quota ?? 'unknown'} monthly token quota reached in workspace ${caller.workspaceId}`);
+  }
+  return reservation.usage_id;
+}
 
-    const data = await response.json();
-    const text = data.choices?.[0]?.message?.content || '';
-    if (!text) throw new Error('AI 回傳空白結果，請稍後重試');
-    return text;
+interface UsageEntry {
+  usageId: string;
+  target: ModelTarget;
+  usage: TokenUsage;
+  calls: number;
+  jobId?: string;
+}
 
-  } catch (err: any) {
-    clearTimeout(timeoutId);
-    if (err.name === 'AbortError') throw new Error('請求超時（超過 300 秒），請嘗試縮短逐字稿長度後重試。');
-    throw err;
+/**
+ * Replaces the reservation with the request's real usage; a request that never
+ * reached the model releases it. Retried with backoff, then thrown.
+ */
+async function settleUsage({ usageId, target, usage, calls, jobId }: UsageEntry) {
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  for (let attempt = 1; ; attempt++) {
+    const { error } = calls === 0
+      ? await supabase.from('ai_usage').delete().eq('id', usageId)
+      : await supabase.from('ai_usage').update({
+        pending: false,
+        job_id: jobId ?? null,
+        calls,
+        prompt_tokens: usage.promptTokens,
+        completion_tokens: usage.completionTokens,
+        total_tokens: usage.totalTokens,
+        estimated: !!usage.estimated,
+        cost: costOf(usage, target.price),
+      }).eq('id', usageId);
+    if (!error) return;
+    if (attempt >= USAGE_WRITE_ATTEMPTS) throw new Error(`用量紀錄寫入失敗：${error.message}`);
+    console.warn(`Usage ${usageId} not settled (attempt ${attempt}):`, error.message);
+    await new Promise(resolve => setTimeout(resolve, backoffDelay(attempt, null, 500, 5000)));
   }
 }
 
@@ -170,12 +504,20 @@ Deno.serve(async (req) => {
 
   try {
     const body = await req.json();
-    const { action, payload } = body;
+    const { action, payload = {}, stream = false, background = false } = body;
+    const providerConfigs = parseProviderConfigs(Deno.env.get('AI_PROVIDERS'));
 
-    let text: string;
+    // Lets the client offer the configured models; URLs and keys stay here
+    if (action === 'listProviders') {
+      return new Response(JSON.stringify({ providers: providerInfo(providerConfigs) }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    let run: (target: ModelTarget, hooks: RunHooks) => Promise<Omit<RunResult, 'model'>>;
 
     if (action === 'correctTranscript') {
-      const { transcript, metadata } = payload;
+      const { transcript, metadata, glossary = [] } = payload;
 
       if (!transcript || transcript.trim().length === 0) {
         return new Response(JSON.stringify({ error: '逐字稿內容不得為空' }), {
@@ -184,22 +526,22 @@ Deno.serve(async (req) => {
         });
       }
 
-      const userMessage = `現在請執行「逐字稿校正」任務。
-
-【會議背景資訊】
-主題：${metadata?.subject || '（未提供）'}
-關鍵字：${metadata?.keywords || '（未提供）'}
-說話者：${metadata?.speakers || '（未提供）'}
-術語：${metadata?.terminology || '（未提供）'}
-長度：${metadata?.length || '（未提供）'}
-
-【原始逐字稿內容】
-${transcript}`;
-
-      text = await callGateway(CORRECTION_SYSTEM_PROMPT, userMessage, 0.2);
+      // Known mis-transcriptions from the attached glossaries are fixed verbatim
+      // first. Store the change log apart from the transcript so module analyses
+      // never see it, re-emit speaker turns in the canonical **說話者 HH:MM:SS**
+      // format and map any roster alias the model kept onto the canonical name
+      run = async (target, hooks) => {
+        const prepass = applyGlossary(transcript, glossary);
+        const output = await correctTranscript(target, metadata, prepass.text, glossary, hooks);
+        return {
+          text: applyRoster(normalizeTranscript(output.transcript), rosterOf(metadata)),
+          correctionLog: mergeCorrectionLogs([formatReplacementLog(prepass.replacements), output.correctionLog]),
+          promptVersion: promptTag(CORRECTION_PROMPT),
+        };
+      };
 
     } else if (action === 'analyzeTranscript') {
-      const { transcript, moduleId, moduleName, history = [] } = payload;
+      const { transcript, moduleId, history = [], focusSpeaker } = payload;
 
       if (!transcript || transcript.trim().length === 0) {
         return new Response(JSON.stringify({ error: '逐字稿內容不得為空' }), {
@@ -208,20 +550,14 @@ ${transcript}`;
         });
       }
 
-      const moduleTaskMap: Record<string, string> = {
-        A: '執行「模組 A：氛圍與張力走勢分析」',
-        B: '執行「模組 B：指定人物建模（行為/決策/語用風格）」',
-        C: '執行「模組 C：潛台詞 / QBQ / 結論與行動點解析」',
-        D: '執行「模組 D：權力結構與角色流轉觀察」',
-        E: '執行「模組 E：會議摘要與結論重構」',
-      };
-
-      const moduleTask = moduleId
-        ? (moduleTaskMap[moduleId] || moduleName || '執行深度會議分析')
-        : (moduleName || '執行深度會議分析');
+      const module = await resolveModule(req, moduleId);
+      // Module B models the person picked from the roster
+      const moduleTask = focusSpeaker?.name
+        ? `${module.task}\n\n【分析對象】${formatSpeakerProfile(focusSpeaker)}${focusSpeaker.aliases?.length ? `（逐字稿中也可能標示為「${focusSpeaker.aliases.join('」「')}」）` : ''}`
+        : module.task;
 
       // Build message list for multi-turn
-      const messages: { role: string; content: string }[] = [];
+      const messages: ChatTurn[] = [];
 
       if (history.length === 0) {
         messages.push({
@@ -244,7 +580,26 @@ ${transcript}`;
         }
       }
 
-      text = await callGatewayWithHistory(MODULE_SYSTEM_PROMPT, messages, 0.5);
+      run = async (target, { onDelta, onRetry, onUsage, signal }) => ({
+        text: await callModelWithHistory(target, buildModuleSystemPrompt(module), messages, 0.5, { onDelta, onRetry, onUsage, signal }),
+        promptVersion: modulePromptVersion(module),
+      });
+
+    } else if (action === 'extractActionItems') {
+      const { transcript } = payload;
+
+      if (!transcript || transcript.trim().length === 0) {
+        return new Response(JSON.stringify({ error: '逐字稿內容不得為空' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Items are validated here, so the client only ever receives well-formed JSON
+      run = async (target, { onRetry, onUsage, signal }) => ({
+        text: JSON.stringify({ items: await extractActionItems(target, transcript, { onRetry, onUsage, signal }) }),
+        promptVersion: promptTag(ACTION_ITEMS_PROMPT),
+      });
 
     } else {
       return new Response(JSON.stringify({ error: 'Unknown action' }), {
@@ -253,14 +608,96 @@ ${transcript}`;
       });
     }
 
-    return new Response(JSON.stringify({ text }), {
+    // Usage is billed to the meeting's workspace, so every model request names one
+    if (!payload.recordId) {
+      return new Response(JSON.stringify({ error: '缺少會議記錄' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Whole runs can outlive the browser tab: the job is answered at once and
+    // processed after the response. Chat replies and action items stay interactive.
+    const queueable = action === 'correctTranscript' || (action === 'analyzeTranscript' && !payload.history?.length);
+    if (background && !queueable) {
+      return new Response(JSON.stringify({ error: '此操作無法在背景執行' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Resolved before streaming starts, so an unavailable provider or a spent
+    // quota fails the request outright
+    const caller = await resolveCaller(req, payload.recordId);
+    const target = resolveModelTarget(providerConfigs, caller);
+    const input = [payload.transcript, ...(payload.history ?? []).map((msg: { text: string }) => msg.text)].join('\n');
+    const usageId = await reserveUsage(caller, action, target, input);
+    const releaseUsage = () => settleUsage({ usageId, target, usage: EMPTY_USAGE, calls: 0 });
+    let executed = false;
+    const execute = async (hooks: RunHooks, jobId?: string): Promise<RunResult> => {
+      executed = true;
+      // Calls that succeeded are billed even when a later one fails the run
+      let usage = EMPTY_USAGE;
+      let calls = 0;
+      const onUsage = (callUsage: TokenUsage) => {
+        usage = addUsage(usage, callUsage);
+        calls++;
+      };
+      // A job whose usage goes unrecorded fails rather than finishing unbilled.
+      // Interactive replies are still returned: the pending reservation keeps
+      // counting against the caps in their place.
+      const settle = () => settleUsage({ usageId, target, usage, calls, jobId }).catch(error => {
+        if (jobId) throw error;
+        console.error(error instanceof Error ? error.message : String(error));
+      });
+      let result: RunResult;
+      try {
+        result = { ...await run(target, { ...hooks, onUsage }), model: target.tag };
+      } catch (error) {
+        await settle().catch(settleError => console.error(settleError instanceof Error ? settleError.message : String(settleError)));
+        throw error;
+      }
+      await settle();
+      return result;
+    };
+
+    if (background) {
+      const job = await enqueueJob(req, action, payload, target.tag).catch(async error => {
+        await releaseUsage();
+        throw error;
+      });
+      // A job cancelled before it started never runs
+      EdgeRuntime.waitUntil(processJob(job, hooks => execute(hooks, job.id))
+        .then(() => executed ? undefined : releaseUsage())
+        .catch(error => console.error(`Job ${job.id} usage not released:`, error instanceof Error ? error.message : String(error))));
+      return new Response(JSON.stringify({ jobId: job.id }), {
+        status: 202,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (stream) {
+      return streamResponse(async (send, signal) => ({
+        type: 'done',
+        ...await execute({
+          signal,
+          onDelta: text => send({ type: 'delta', text }),
+          onRetry: (error, attempt, delayMs) => send({ type: 'retry', attempt, delayMs, error: error.message }),
+          onProgress: (completed, total) => send({ type: 'progress', completed, total }),
+        }),
+      }));
+    }
+
+    const result = await execute({ signal: req.signal });
+    return new Response(JSON.stringify(result), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
-  } catch (error: any) {
-    console.error('Edge function error:', error.message);
-    return new Response(JSON.stringify({ error: error.message }), {
-      status: 500,
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('Edge function error:', message, logDetail(error));
+    return new Response(JSON.stringify(error instanceof AiError ? error.toPayload() : { error: message }), {
+      status: error instanceof AiError ? error.status : 500,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
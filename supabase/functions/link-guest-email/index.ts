@@ -0,0 +1,69 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { isLegacyGuestEmail } from '../../../src/lib/accounts.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const jsonResponse = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+  status,
+  headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+});
+
+// ─── Main Handler ─────────────────────────────────────────────────────────────
+// Legacy guests have placeholder `@local.app` addresses that cannot receive
+// mail, so a regular email change, which the old address must confirm too,
+// never completes for them. For these accounts only, the service role swaps
+// in the new address unconfirmed and mails its confirmation link; every other
+// account changes its email through Supabase Auth with both confirmations.
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const caller = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    });
+    const { data: { user } } = await caller.auth.getUser();
+    if (!user) return jsonResponse({ error: '請先登入' }, 401);
+    if (!isLegacyGuestEmail(user.email)) return jsonResponse({ error: '此帳號請直接變更電子郵件' }, 403);
+
+    const { email, displayName, redirectTo } = await req.json();
+    if (typeof email !== 'string' || !EMAIL_RE.test(email)) {
+      return jsonResponse({ error: '電子郵件格式不正確' }, 400);
+    }
+    const name = typeof displayName === 'string' && displayName.trim() ? displayName.trim() : email;
+
+    const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const { error: updateError } = await admin.auth.admin.updateUserById(user.id, {
+      email,
+      email_confirm: false,
+      user_metadata: { ...user.user_metadata, display_name: name },
+    });
+    if (updateError) return jsonResponse({ error: updateError.message }, 400);
+
+    const { error: profileError } = await admin.from('profiles').update({ display_name: name }).eq('user_id', user.id);
+    if (profileError) throw new Error(profileError.message);
+
+    const { error: mailError } = await admin.auth.resend({
+      type: 'signup',
+      email,
+      options: { emailRedirectTo: typeof redirectTo === 'string' ? redirectTo : undefined },
+    });
+    if (mailError) throw new Error(mailError.message);
+
+    return jsonResponse({ email });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('Edge function error:', message);
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -0,0 +1,125 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import type { MeetingMetadata, SpeakerProfile } from '../../../src/types.ts';
+import { findBuiltInModule, DELETED_MODULE_NAME } from '../../../src/lib/modules.ts';
+import { splitCorrectionOutput } from '../../../src/lib/transcript.ts';
+import type { SharedReportPayload } from '../../../src/lib/shareLinks.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const jsonResponse = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+  status,
+  headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+});
+
+// ─── Main Handler ─────────────────────────────────────────────────────────────
+// Public: viewers have no account, so the token is the only credential. Rows
+// are read with the service role and limited to what the link names.
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { token } = await req.json();
+    if (typeof token !== 'string' || !UUID_RE.test(token)) {
+      return jsonResponse({ error: '分享連結無效' }, 404);
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: link } = await supabase.from('share_links').select('*').eq('token', token).maybeSingle();
+    if (!link || link.revoked_at) {
+      return jsonResponse({ error: '分享連結無效或已被撤銷' }, 404);
+    }
+    if (link.expires_at && new Date(link.expires_at).getTime() <= Date.now()) {
+      return jsonResponse({ error: '分享連結已過期' }, 410);
+    }
+
+    const { data: record } = await supabase.from('meeting_records')
+      .select('title, metadata, created_at')
+      .eq('id', link.record_id)
+      .single();
+    if (!record) {
+      return jsonResponse({ error: '分享的會議已被刪除' }, 404);
+    }
+
+    let transcript: SharedReportPayload['transcript'] = null;
+    if (link.transcript_version_id) {
+      const { data: tv } = await supabase.from('transcript_versions')
+        .select('*')
+        .eq('id', link.transcript_version_id)
+        .eq('record_id', link.record_id)
+        .maybeSingle();
+      if (tv) {
+        // Versions saved before the log was stored separately still carry it inline
+        const correctedTranscript = tv.correction_log ? tv.corrected_transcript : splitCorrectionOutput(tv.corrected_transcript).transcript;
+        transcript = {
+          versionNumber: tv.version_number,
+          correctedTranscript,
+          source: tv.source === 'manual' ? 'manual' : 'ai',
+          promptVersion: tv.prompt_version || undefined,
+        };
+      }
+    }
+
+    const modules: SharedReportPayload['modules'] = [];
+    if (link.module_version_ids.length > 0) {
+      const { data: mvs } = await supabase.from('module_versions')
+        .select('*, chat_messages(*)')
+        .eq('record_id', link.record_id)
+        .in('id', link.module_version_ids);
+      const customIds = (mvs || []).map(mv => mv.module_id).filter(id => !findBuiltInModule(id));
+      const { data: customModules } = customIds.length > 0
+        ? await supabase.from('analysis_modules').select('id, name').in('id', customIds)
+        : { data: [] };
+      const customNames = new Map((customModules || []).map(m => [m.id, m.name]));
+
+      for (const id of link.module_version_ids) {
+        const mv = (mvs || []).find(v => v.id === id);
+        if (!mv) continue;
+        const messages = [...(mv.chat_messages || [])]
+          .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+          .map(m => ({ role: m.role as 'user' | 'model', text: m.content, timestamp: new Date(m.created_at).getTime() }));
+        modules.push({
+          moduleId: mv.module_id,
+          name: findBuiltInModule(mv.module_id)?.name ?? customNames.get(mv.module_id) ?? DELETED_MODULE_NAME,
+          versionNumber: mv.version_number,
+          messages,
+          promptVersion: mv.prompt_version || undefined,
+          focusSpeaker: (mv.focus_speaker as SpeakerProfile | null) || undefined,
+        });
+      }
+    }
+
+    // Every successful view is logged; a failed insert must not hide the report
+    const { error: logError } = await supabase.from('share_link_views').insert({
+      share_link_id: link.id,
+      ip_address: req.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+      user_agent: req.headers.get('user-agent'),
+    });
+    if (logError) console.error('Share link access log error:', logError.message);
+
+    const payload: SharedReportPayload = {
+      title: record.title,
+      metadata: record.metadata as MeetingMetadata,
+      meetingDate: new Date(record.created_at).getTime(),
+      transcript,
+      modules,
+      expiresAt: link.expires_at ? new Date(link.expires_at).getTime() : null,
+    };
+    return jsonResponse(payload);
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('Edge function error:', message);
+    return jsonResponse({ error: message }, 500);
+  }
+});
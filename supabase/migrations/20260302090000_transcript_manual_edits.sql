@@ -0,0 +1,18 @@
+-- Human edits of a corrected transcript are saved as new versions
+ALTER TABLE public.transcript_versions
+  ADD COLUMN source TEXT NOT NULL DEFAULT 'ai' CHECK (source IN ('ai', 'manual')),
+  ADD COLUMN author_id UUID DEFAULT auth.uid(),
+  ADD COLUMN based_on_version_id UUID REFERENCES public.transcript_versions(id) ON DELETE SET NULL;
+
+DROP POLICY "Users can insert own transcript versions" ON public.transcript_versions;
+
+CREATE POLICY "Users can insert own transcript versions"
+  ON public.transcript_versions FOR INSERT
+  WITH CHECK (
+    (author_id IS NULL OR author_id = auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM public.meeting_records
+      WHERE meeting_records.id = transcript_versions.record_id
+        AND meeting_records.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,5 @@
+-- Record which transcript version each module analysis was run against
+ALTER TABLE public.module_versions
+  ADD COLUMN transcript_version_id UUID REFERENCES public.transcript_versions(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_module_versions_transcript_version_id ON public.module_versions(transcript_version_id);
@@ -0,0 +1,4 @@
+-- Meeting rosters live in meeting_records.metadata.roster (JSON); module B
+-- versions keep a snapshot of the person they model
+ALTER TABLE public.module_versions
+  ADD COLUMN focus_speaker JSONB;
@@ -0,0 +1,130 @@
+-- Terminology glossaries shared across meetings
+CREATE TABLE public.glossaries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL DEFAULT '未命名詞彙表',
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.glossaries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own glossaries"
+  ON public.glossaries FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own glossaries"
+  ON public.glossaries FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own glossaries"
+  ON public.glossaries FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own glossaries"
+  ON public.glossaries FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_glossaries_updated_at
+  BEFORE UPDATE ON public.glossaries
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Terms: the preferred spelling and the wrong variants ASR tends to produce
+CREATE TABLE public.glossary_terms (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  glossary_id UUID NOT NULL REFERENCES public.glossaries(id) ON DELETE CASCADE,
+  term TEXT NOT NULL,
+  variants TEXT[] NOT NULL DEFAULT '{}',
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_glossary_terms_glossary_id ON public.glossary_terms(glossary_id);
+
+ALTER TABLE public.glossary_terms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own glossary terms"
+  ON public.glossary_terms FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.glossaries
+      WHERE glossaries.id = glossary_terms.glossary_id
+        AND glossaries.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own glossary terms"
+  ON public.glossary_terms FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.glossaries
+      WHERE glossaries.id = glossary_terms.glossary_id
+        AND glossaries.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own glossary terms"
+  ON public.glossary_terms FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.glossaries
+      WHERE glossaries.id = glossary_terms.glossary_id
+        AND glossaries.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own glossary terms"
+  ON public.glossary_terms FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.glossaries
+      WHERE glossaries.id = glossary_terms.glossary_id
+        AND glossaries.user_id = auth.uid()
+    )
+  );
+
+-- Glossaries attached to a meeting
+CREATE TABLE public.meeting_glossaries (
+  record_id UUID NOT NULL REFERENCES public.meeting_records(id) ON DELETE CASCADE,
+  glossary_id UUID NOT NULL REFERENCES public.glossaries(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (record_id, glossary_id)
+);
+
+ALTER TABLE public.meeting_glossaries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own meeting glossaries"
+  ON public.meeting_glossaries FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.meeting_records
+      WHERE meeting_records.id = meeting_glossaries.record_id
+        AND meeting_records.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can attach own glossaries"
+  ON public.meeting_glossaries FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.meeting_records
+      WHERE meeting_records.id = meeting_glossaries.record_id
+        AND meeting_records.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.glossaries
+      WHERE glossaries.id = meeting_glossaries.glossary_id
+        AND glossaries.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can detach own glossaries"
+  ON public.meeting_glossaries FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.meeting_records
+      WHERE meeting_records.id = meeting_glossaries.record_id
+        AND meeting_records.user_id = auth.uid()
+    )
+  );
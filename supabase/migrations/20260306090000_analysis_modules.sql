@@ -0,0 +1,33 @@
+-- User-defined analysis modules, shown in step 3 next to the built-in A–E
+CREATE TABLE public.analysis_modules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  icon TEXT NOT NULL DEFAULT 'Sparkles',
+  prompt TEXT NOT NULL DEFAULT '',
+  output_format TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.analysis_modules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own analysis modules"
+  ON public.analysis_modules FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own analysis modules"
+  ON public.analysis_modules FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own analysis modules"
+  ON public.analysis_modules FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own analysis modules"
+  ON public.analysis_modules FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_analysis_modules_updated_at
+  BEFORE UPDATE ON public.analysis_modules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
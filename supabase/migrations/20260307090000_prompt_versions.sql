@@ -0,0 +1,10 @@
+-- Record which prompt version produced each stored result
+ALTER TABLE public.transcript_versions
+  ADD COLUMN prompt_version TEXT;
+
+ALTER TABLE public.module_versions
+  ADD COLUMN prompt_version TEXT;
+
+-- Custom modules are versioned by a revision bumped on every text edit
+ALTER TABLE public.analysis_modules
+  ADD COLUMN revision INTEGER NOT NULL DEFAULT 1;
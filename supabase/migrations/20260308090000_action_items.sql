@@ -0,0 +1,67 @@
+-- Action items extracted from module E, tracked across meetings
+CREATE TABLE public.action_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  record_id UUID NOT NULL REFERENCES public.meeting_records(id) ON DELETE CASCADE,
+  transcript_version_id UUID REFERENCES public.transcript_versions(id) ON DELETE SET NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  task TEXT NOT NULL,
+  assigner TEXT,
+  owner TEXT,
+  due_date DATE,
+  due_text TEXT,
+  source_quote TEXT NOT NULL DEFAULT '',
+  ambiguous BOOLEAN NOT NULL DEFAULT false,
+  ambiguity_note TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'in_progress', 'done', 'cancelled')),
+  prompt_version TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_action_items_record_id ON public.action_items(record_id);
+
+ALTER TABLE public.action_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own action items"
+  ON public.action_items FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.meeting_records
+      WHERE meeting_records.id = action_items.record_id
+        AND meeting_records.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own action items"
+  ON public.action_items FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.meeting_records
+      WHERE meeting_records.id = action_items.record_id
+        AND meeting_records.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own action items"
+  ON public.action_items FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.meeting_records
+      WHERE meeting_records.id = action_items.record_id
+        AND meeting_records.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own action items"
+  ON public.action_items FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.meeting_records
+      WHERE meeting_records.id = action_items.record_id
+        AND meeting_records.user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_action_items_updated_at
+  BEFORE UPDATE ON public.action_items
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,78 @@
+-- Search across meeting titles, metadata, transcripts and module chats.
+-- Substring matching backed by trigram indexes works for Chinese text
+-- without word segmentation.
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- Searchable metadata fields as one string; the same expression is used by
+-- the index and by search_meetings
+CREATE OR REPLACE FUNCTION public.meeting_metadata_text(metadata JSONB)
+RETURNS TEXT AS $$
+  SELECT coalesce(metadata->>'subject', '') || ' ' || coalesce(metadata->>'keywords', '') || ' '
+    || coalesce(metadata->>'speakers', '') || ' ' || coalesce(metadata->>'terminology', '');
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+CREATE INDEX idx_meeting_records_title_trgm
+  ON public.meeting_records USING gin (title extensions.gin_trgm_ops);
+CREATE INDEX idx_meeting_records_metadata_trgm
+  ON public.meeting_records USING gin (public.meeting_metadata_text(metadata) extensions.gin_trgm_ops);
+CREATE INDEX idx_meeting_records_raw_transcript_trgm
+  ON public.meeting_records USING gin (raw_transcript extensions.gin_trgm_ops);
+CREATE INDEX idx_transcript_versions_corrected_trgm
+  ON public.transcript_versions USING gin (corrected_transcript extensions.gin_trgm_ops);
+CREATE INDEX idx_chat_messages_content_trgm
+  ON public.chat_messages USING gin (content extensions.gin_trgm_ops);
+
+-- Every term must appear in the same field. Runs with the caller's rights, so
+-- row level security limits results to the caller's own meetings. The snippet
+-- is cut around the first term; newest matches come first.
+CREATE OR REPLACE FUNCTION public.search_meetings(search_terms TEXT[], max_results INTEGER DEFAULT 50)
+RETURNS TABLE (
+  record_id UUID,
+  record_title TEXT,
+  record_created_at TIMESTAMP WITH TIME ZONE,
+  match_kind TEXT,
+  transcript_version_number INTEGER,
+  module_id TEXT,
+  module_version_number INTEGER,
+  snippet TEXT,
+  matched_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  WITH terms AS (
+    SELECT
+      array_agg('%' || replace(replace(replace(t, '\', '\\'), '%', '\%'), '_', '\_') || '%') AS patterns,
+      lower((array_agg(t))[1]) AS first_term
+    FROM unnest(search_terms) AS t
+    WHERE btrim(t) <> ''
+  ),
+  hits AS (
+    SELECT r.id, r.title, r.created_at, 'title' AS kind, NULL::INTEGER AS tv, NULL::TEXT AS module, NULL::INTEGER AS mv,
+      r.title AS content, r.updated_at AS at
+    FROM public.meeting_records r, terms
+    WHERE r.title ILIKE ALL (terms.patterns)
+    UNION ALL
+    SELECT r.id, r.title, r.created_at, 'metadata', NULL, NULL, NULL, public.meeting_metadata_text(r.metadata), r.updated_at
+    FROM public.meeting_records r, terms
+    WHERE public.meeting_metadata_text(r.metadata) ILIKE ALL (terms.patterns)
+    UNION ALL
+    SELECT r.id, r.title, r.created_at, 'raw', NULL, NULL, NULL, r.raw_transcript, r.updated_at
+    FROM public.meeting_records r, terms
+    WHERE r.raw_transcript ILIKE ALL (terms.patterns)
+    UNION ALL
+    SELECT r.id, r.title, r.created_at, 'transcript', tv.version_number, NULL, NULL, tv.corrected_transcript, tv.created_at
+    FROM public.transcript_versions tv
+    JOIN public.meeting_records r ON r.id = tv.record_id, terms
+    WHERE tv.corrected_transcript ILIKE ALL (terms.patterns)
+    UNION ALL
+    SELECT r.id, r.title, r.created_at, 'chat', NULL, mv.module_id, mv.version_number, cm.content, cm.created_at
+    FROM public.chat_messages cm
+    JOIN public.module_versions mv ON mv.id = cm.module_version_id
+    JOIN public.meeting_records r ON r.id = mv.record_id, terms
+    WHERE cm.content ILIKE ALL (terms.patterns)
+  )
+  SELECT hits.id, hits.title, hits.created_at, hits.kind, hits.tv, hits.module, hits.mv,
+    substr(hits.content, greatest(strpos(lower(hits.content), terms.first_term) - 60, 1), 200),
+    hits.at
+  FROM hits, terms
+  ORDER BY hits.at DESC
+  LIMIT max_results;
+$$ LANGUAGE sql STABLE SET search_path = public;
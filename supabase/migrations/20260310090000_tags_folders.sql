@@ -0,0 +1,156 @@
+-- Project folders and user-defined tags for organising meeting records
+CREATE TABLE public.folders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.folders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own folders"
+  ON public.folders FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own folders"
+  ON public.folders FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own folders"
+  ON public.folders FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own folders"
+  ON public.folders FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_folders_updated_at
+  BEFORE UPDATE ON public.folders
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Which of their own folders a user has filed a meeting under. Folders are
+-- personal, so the assignment is per user rather than a column on the
+-- meeting; deleting a folder leaves its meetings unfiled.
+CREATE TABLE public.meeting_folders (
+  user_id UUID NOT NULL,
+  record_id UUID NOT NULL REFERENCES public.meeting_records(id) ON DELETE CASCADE,
+  folder_id UUID NOT NULL REFERENCES public.folders(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, record_id)
+);
+
+CREATE INDEX idx_meeting_folders_folder_id ON public.meeting_folders(folder_id);
+
+ALTER TABLE public.meeting_folders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own meeting folders"
+  ON public.meeting_folders FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can file own meetings"
+  ON public.meeting_folders FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.meeting_records
+      WHERE meeting_records.id = meeting_folders.record_id
+        AND meeting_records.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.folders
+      WHERE folders.id = meeting_folders.folder_id
+        AND folders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can refile own meetings"
+  ON public.meeting_folders FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.folders
+      WHERE folders.id = meeting_folders.folder_id
+        AND folders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can unfile own meetings"
+  ON public.meeting_folders FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TABLE public.tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT 'slate',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own tags"
+  ON public.tags FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own tags"
+  ON public.tags FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own tags"
+  ON public.tags FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own tags"
+  ON public.tags FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Tags applied to a meeting
+CREATE TABLE public.meeting_tags (
+  record_id UUID NOT NULL REFERENCES public.meeting_records(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (record_id, tag_id)
+);
+
+CREATE INDEX idx_meeting_tags_tag_id ON public.meeting_tags(tag_id);
+
+ALTER TABLE public.meeting_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own meeting tags"
+  ON public.meeting_tags FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.meeting_records
+      WHERE meeting_records.id = meeting_tags.record_id
+        AND meeting_records.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can tag own meetings"
+  ON public.meeting_tags FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.meeting_records
+      WHERE meeting_records.id = meeting_tags.record_id
+        AND meeting_records.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.tags
+      WHERE tags.id = meeting_tags.tag_id
+        AND tags.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can untag own meetings"
+  ON public.meeting_tags FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.meeting_records
+      WHERE meeting_records.id = meeting_tags.record_id
+        AND meeting_records.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,444 @@
+-- Team workspaces: meetings belong to a workspace and members get access by
+-- role. Owners manage members and invitations, editors create and analyse
+-- meetings, viewers only read them.
+CREATE TABLE public.workspaces (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_by UUID NOT NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.workspace_members (
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('owner', 'editor', 'viewer')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX idx_workspace_members_user_id ON public.workspace_members(user_id);
+
+-- Single-use invitation links; the email only tells owners who a link was for
+CREATE TABLE public.workspace_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  email TEXT,
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('editor', 'viewer')),
+  token UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  invited_by UUID NOT NULL DEFAULT auth.uid(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '7 days',
+  accepted_by UUID,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_workspace_invitations_workspace_id ON public.workspace_invitations(workspace_id);
+
+-- Membership checks run with the owner's rights so policies on
+-- workspace_members can use them without recursing into themselves
+CREATE OR REPLACE FUNCTION public.workspace_role(target_workspace UUID)
+RETURNS TEXT AS $$
+  SELECT role FROM public.workspace_members
+  WHERE workspace_id = target_workspace AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.can_edit_workspace(target_workspace UUID)
+RETURNS BOOLEAN AS $$
+  SELECT coalesce(public.workspace_role(target_workspace) IN ('owner', 'editor'), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.can_view_record(target_record UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.meeting_records mr
+    JOIN public.workspace_members wm ON wm.workspace_id = mr.workspace_id
+    WHERE mr.id = target_record AND wm.user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.can_edit_record(target_record UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.meeting_records mr
+    JOIN public.workspace_members wm ON wm.workspace_id = mr.workspace_id
+    WHERE mr.id = target_record AND wm.user_id = auth.uid() AND wm.role IN ('owner', 'editor')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their workspaces"
+  ON public.workspaces FOR SELECT
+  USING (public.workspace_role(id) IS NOT NULL);
+
+CREATE POLICY "Owners can update their workspaces"
+  ON public.workspaces FOR UPDATE
+  USING (public.workspace_role(id) = 'owner');
+
+CREATE POLICY "Owners can delete their workspaces"
+  ON public.workspaces FOR DELETE
+  USING (public.workspace_role(id) = 'owner');
+
+CREATE TRIGGER update_workspaces_updated_at
+  BEFORE UPDATE ON public.workspaces
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Members join through create_workspace or accept_workspace_invitation
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view fellow members"
+  ON public.workspace_members FOR SELECT
+  USING (public.workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Owners can change member roles"
+  ON public.workspace_members FOR UPDATE
+  USING (public.workspace_role(workspace_id) = 'owner');
+
+CREATE POLICY "Owners can remove members and members can leave"
+  ON public.workspace_members FOR DELETE
+  USING (public.workspace_role(workspace_id) = 'owner' OR auth.uid() = user_id);
+
+-- A workspace that still exists keeps at least one owner
+CREATE OR REPLACE FUNCTION public.keep_workspace_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.role = 'owner'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+    AND EXISTS (SELECT 1 FROM public.workspaces WHERE id = OLD.workspace_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.workspace_members
+      WHERE workspace_id = OLD.workspace_id AND role = 'owner' AND user_id <> OLD.user_id
+    ) THEN
+    RAISE EXCEPTION '工作區至少需要一位擁有者';
+  END IF;
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER keep_workspace_owner
+  BEFORE UPDATE OR DELETE ON public.workspace_members
+  FOR EACH ROW EXECUTE FUNCTION public.keep_workspace_owner();
+
+ALTER TABLE public.workspace_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view invitations"
+  ON public.workspace_invitations FOR SELECT
+  USING (public.workspace_role(workspace_id) = 'owner');
+
+CREATE POLICY "Owners can create invitations"
+  ON public.workspace_invitations FOR INSERT
+  WITH CHECK (public.workspace_role(workspace_id) = 'owner' AND invited_by = auth.uid());
+
+CREATE POLICY "Owners can revoke invitations"
+  ON public.workspace_invitations FOR DELETE
+  USING (public.workspace_role(workspace_id) = 'owner');
+
+-- Creates a workspace owned by the caller
+CREATE OR REPLACE FUNCTION public.create_workspace(workspace_name TEXT)
+RETURNS UUID AS $$
+DECLARE
+  new_workspace_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION '請先登入';
+  END IF;
+  INSERT INTO public.workspaces (name, created_by) VALUES (workspace_name, auth.uid())
+  RETURNING id INTO new_workspace_id;
+  INSERT INTO public.workspace_members (workspace_id, user_id, role) VALUES (new_workspace_id, auth.uid(), 'owner');
+  RETURN new_workspace_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Joins the caller to the invitation's workspace. Existing members keep their
+-- role; the link stops working either way.
+CREATE OR REPLACE FUNCTION public.accept_workspace_invitation(invite_token UUID)
+RETURNS UUID AS $$
+DECLARE
+  invitation public.workspace_invitations;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION '請先登入';
+  END IF;
+  SELECT * INTO invitation FROM public.workspace_invitations WHERE token = invite_token FOR UPDATE;
+  IF NOT FOUND OR invitation.accepted_at IS NOT NULL OR invitation.expires_at < now() THEN
+    RAISE EXCEPTION '邀請連結無效或已過期';
+  END IF;
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (invitation.workspace_id, auth.uid(), invitation.role)
+  ON CONFLICT (workspace_id, user_id) DO NOTHING;
+  UPDATE public.workspace_invitations SET accepted_by = auth.uid(), accepted_at = now() WHERE id = invitation.id;
+  RETURN invitation.workspace_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Members see each other's display names
+CREATE POLICY "Members can view fellow members' profiles"
+  ON public.profiles FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.workspace_members mine
+      JOIN public.workspace_members theirs ON theirs.workspace_id = mine.workspace_id
+      WHERE mine.user_id = auth.uid()
+        AND theirs.user_id = profiles.user_id
+    )
+  );
+
+-- Every existing user gets a personal workspace holding their meetings
+ALTER TABLE public.meeting_records
+  ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+
+INSERT INTO public.workspaces (name, created_by)
+SELECT '個人工作區', user_id
+FROM (SELECT user_id FROM public.profiles UNION SELECT user_id FROM public.meeting_records) AS users;
+
+INSERT INTO public.workspace_members (workspace_id, user_id, role)
+SELECT id, created_by, 'owner' FROM public.workspaces;
+
+UPDATE public.meeting_records
+SET workspace_id = workspaces.id
+FROM public.workspaces
+WHERE workspaces.created_by = meeting_records.user_id;
+
+ALTER TABLE public.meeting_records
+  ALTER COLUMN workspace_id SET NOT NULL;
+
+CREATE INDEX idx_meeting_records_workspace_id ON public.meeting_records(workspace_id);
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  new_workspace_id UUID;
+BEGIN
+  INSERT INTO public.profiles (user_id, display_name)
+  VALUES (NEW.id, NEW.email);
+  INSERT INTO public.workspaces (name, created_by)
+  VALUES ('個人工作區', NEW.id)
+  RETURNING id INTO new_workspace_id;
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (new_workspace_id, NEW.id, 'owner');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Meeting access goes through workspace membership. Editors may delete the
+-- meetings they created; owners may delete any.
+DROP POLICY "Users can view own records" ON public.meeting_records;
+DROP POLICY "Users can insert own records" ON public.meeting_records;
+DROP POLICY "Users can update own records" ON public.meeting_records;
+DROP POLICY "Users can delete own records" ON public.meeting_records;
+
+CREATE POLICY "Members can view workspace records"
+  ON public.meeting_records FOR SELECT
+  USING (public.workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Editors can insert workspace records"
+  ON public.meeting_records FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.can_edit_workspace(workspace_id));
+
+CREATE POLICY "Editors can update workspace records"
+  ON public.meeting_records FOR UPDATE
+  USING (public.can_edit_workspace(workspace_id))
+  WITH CHECK (public.can_edit_workspace(workspace_id));
+
+CREATE POLICY "Owners and authors can delete workspace records"
+  ON public.meeting_records FOR DELETE
+  USING (
+    public.workspace_role(workspace_id) = 'owner'
+    OR (auth.uid() = user_id AND public.can_edit_workspace(workspace_id))
+  );
+
+-- Editors may update any workspace meeting, but not take it over: the author
+-- never changes, and only the author or the workspace owner moves a meeting
+-- to another workspace. Service-role writes carry no user and are trusted.
+CREATE OR REPLACE FUNCTION public.guard_meeting_record_ownership()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION '無法變更會議的建立者';
+  END IF;
+  IF NEW.workspace_id IS DISTINCT FROM OLD.workspace_id
+    AND OLD.user_id <> auth.uid()
+    AND public.workspace_role(OLD.workspace_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION '只有建立者或工作區擁有者可以移動會議';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER guard_meeting_record_ownership
+  BEFORE UPDATE OF user_id, workspace_id ON public.meeting_records
+  FOR EACH ROW EXECUTE FUNCTION public.guard_meeting_record_ownership();
+
+DROP POLICY "Users can view own transcript versions" ON public.transcript_versions;
+DROP POLICY "Users can insert own transcript versions" ON public.transcript_versions;
+
+CREATE POLICY "Members can view transcript versions"
+  ON public.transcript_versions FOR SELECT
+  USING (public.can_view_record(record_id));
+
+CREATE POLICY "Editors can insert transcript versions"
+  ON public.transcript_versions FOR INSERT
+  WITH CHECK (
+    (author_id IS NULL OR author_id = auth.uid())
+    AND public.can_edit_record(record_id)
+  );
+
+DROP POLICY "Users can view own module versions" ON public.module_versions;
+DROP POLICY "Users can insert own module versions" ON public.module_versions;
+
+CREATE POLICY "Members can view module versions"
+  ON public.module_versions FOR SELECT
+  USING (public.can_view_record(record_id));
+
+CREATE POLICY "Editors can insert module versions"
+  ON public.module_versions FOR INSERT
+  WITH CHECK (public.can_edit_record(record_id));
+
+DROP POLICY "Users can view own chat messages" ON public.chat_messages;
+DROP POLICY "Users can insert own chat messages" ON public.chat_messages;
+
+CREATE POLICY "Members can view chat messages"
+  ON public.chat_messages FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.module_versions mv
+      WHERE mv.id = chat_messages.module_version_id
+        AND public.can_view_record(mv.record_id)
+    )
+  );
+
+CREATE POLICY "Editors can insert chat messages"
+  ON public.chat_messages FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.module_versions mv
+      WHERE mv.id = chat_messages.module_version_id
+        AND public.can_edit_record(mv.record_id)
+    )
+  );
+
+DROP POLICY "Users can view own action items" ON public.action_items;
+DROP POLICY "Users can insert own action items" ON public.action_items;
+DROP POLICY "Users can update own action items" ON public.action_items;
+DROP POLICY "Users can delete own action items" ON public.action_items;
+
+CREATE POLICY "Members can view action items"
+  ON public.action_items FOR SELECT
+  USING (public.can_view_record(record_id));
+
+CREATE POLICY "Editors can insert action items"
+  ON public.action_items FOR INSERT
+  WITH CHECK (public.can_edit_record(record_id));
+
+CREATE POLICY "Editors can update action items"
+  ON public.action_items FOR UPDATE
+  USING (public.can_edit_record(record_id));
+
+CREATE POLICY "Editors can delete action items"
+  ON public.action_items FOR DELETE
+  USING (public.can_edit_record(record_id));
+
+-- Glossaries and tags stay personal, but the ones attached to a shared meeting
+-- are visible to everyone in its workspace, so teammates correct with the same
+-- glossaries and see the same tags. Editors attach any glossary they can see
+-- and their own tags.
+CREATE POLICY "Members can view glossaries attached to their meetings"
+  ON public.glossaries FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.meeting_glossaries mg
+      WHERE mg.glossary_id = glossaries.id
+        AND public.can_view_record(mg.record_id)
+    )
+  );
+
+CREATE POLICY "Members can view terms of glossaries attached to their meetings"
+  ON public.glossary_terms FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.meeting_glossaries mg
+      WHERE mg.glossary_id = glossary_terms.glossary_id
+        AND public.can_view_record(mg.record_id)
+    )
+  );
+
+DROP POLICY "Users can view own meeting glossaries" ON public.meeting_glossaries;
+DROP POLICY "Users can attach own glossaries" ON public.meeting_glossaries;
+DROP POLICY "Users can detach own glossaries" ON public.meeting_glossaries;
+
+CREATE POLICY "Members can view meeting glossaries"
+  ON public.meeting_glossaries FOR SELECT
+  USING (public.can_view_record(record_id));
+
+CREATE POLICY "Editors can attach glossaries"
+  ON public.meeting_glossaries FOR INSERT
+  WITH CHECK (
+    public.can_edit_record(record_id)
+    AND EXISTS (SELECT 1 FROM public.glossaries WHERE glossaries.id = meeting_glossaries.glossary_id)
+  );
+
+CREATE POLICY "Editors can detach glossaries"
+  ON public.meeting_glossaries FOR DELETE
+  USING (public.can_edit_record(record_id));
+
+CREATE POLICY "Members can view tags on their meetings"
+  ON public.tags FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.meeting_tags mt
+      WHERE mt.tag_id = tags.id
+        AND public.can_view_record(mt.record_id)
+    )
+  );
+
+DROP POLICY "Users can view own meeting tags" ON public.meeting_tags;
+DROP POLICY "Users can tag own meetings" ON public.meeting_tags;
+DROP POLICY "Users can untag own meetings" ON public.meeting_tags;
+
+CREATE POLICY "Members can view meeting tags"
+  ON public.meeting_tags FOR SELECT
+  USING (public.can_view_record(record_id));
+
+CREATE POLICY "Editors can tag meetings"
+  ON public.meeting_tags FOR INSERT
+  WITH CHECK (
+    public.can_edit_record(record_id)
+    AND EXISTS (SELECT 1 FROM public.tags WHERE tags.id = meeting_tags.tag_id AND tags.user_id = auth.uid())
+  );
+
+CREATE POLICY "Editors can untag meetings"
+  ON public.meeting_tags FOR DELETE
+  USING (public.can_edit_record(record_id));
+
+-- Anyone who can see a shared meeting may file it in their own folders
+DROP POLICY "Users can file own meetings" ON public.meeting_folders;
+
+CREATE POLICY "Members can file visible meetings"
+  ON public.meeting_folders FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND public.can_view_record(record_id)
+    AND EXISTS (SELECT 1 FROM public.folders WHERE folders.id = meeting_folders.folder_id AND folders.user_id = auth.uid())
+  );
+
+-- Custom modules are visible to everyone who shares a workspace with their
+-- author, so results in shared meetings can be read and re-run; only the
+-- author may edit them.
+CREATE OR REPLACE FUNCTION public.shares_workspace(target_user UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.workspace_members mine
+    JOIN public.workspace_members theirs ON theirs.workspace_id = mine.workspace_id
+    WHERE mine.user_id = auth.uid() AND theirs.user_id = target_user
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY "Users can view own analysis modules" ON public.analysis_modules;
+
+CREATE POLICY "Members can view their workspaces' analysis modules"
+  ON public.analysis_modules FOR SELECT
+  USING (auth.uid() = user_id OR public.shares_workspace(user_id));
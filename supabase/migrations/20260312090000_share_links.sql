@@ -0,0 +1,86 @@
+-- Read-only links to one meeting report for people outside the workspace.
+-- The share-link edge function resolves tokens with the service role, so
+-- RLS here only covers managing links from inside the workspace.
+CREATE TABLE public.share_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  record_id UUID NOT NULL REFERENCES public.meeting_records(id) ON DELETE CASCADE,
+  token UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  -- What the page shows: one transcript version and any module versions
+  transcript_version_id UUID REFERENCES public.transcript_versions(id) ON DELETE CASCADE,
+  module_version_ids UUID[] NOT NULL DEFAULT '{}',
+  created_by UUID NOT NULL DEFAULT auth.uid(),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_share_links_record_id ON public.share_links(record_id);
+
+ALTER TABLE public.share_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view share links"
+  ON public.share_links FOR SELECT
+  USING (public.can_view_record(record_id));
+
+CREATE POLICY "Editors can create share links"
+  ON public.share_links FOR INSERT
+  WITH CHECK (created_by = auth.uid() AND public.can_edit_record(record_id));
+
+CREATE POLICY "Editors can revoke share links"
+  ON public.share_links FOR UPDATE
+  USING (public.can_edit_record(record_id));
+
+CREATE POLICY "Editors can delete share links"
+  ON public.share_links FOR DELETE
+  USING (public.can_edit_record(record_id));
+
+-- The page is read with the service role, so a link may only point at
+-- versions of its own meeting
+CREATE OR REPLACE FUNCTION public.check_share_link_versions()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.transcript_version_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.transcript_versions
+    WHERE id = NEW.transcript_version_id AND record_id = NEW.record_id
+  ) THEN
+    RAISE EXCEPTION '分享的逐字稿版本不屬於此會議';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM unnest(NEW.module_version_ids) AS shared(id)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.module_versions
+      WHERE module_versions.id = shared.id AND module_versions.record_id = NEW.record_id
+    )
+  ) THEN
+    RAISE EXCEPTION '分享的分析版本不屬於此會議';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER check_share_link_versions
+  BEFORE INSERT OR UPDATE OF record_id, transcript_version_id, module_version_ids ON public.share_links
+  FOR EACH ROW EXECUTE FUNCTION public.check_share_link_versions();
+
+-- One row per view of a shared page, written by the edge function
+CREATE TABLE public.share_link_views (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  share_link_id UUID NOT NULL REFERENCES public.share_links(id) ON DELETE CASCADE,
+  ip_address TEXT,
+  user_agent TEXT,
+  viewed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_share_link_views_share_link_id ON public.share_link_views(share_link_id);
+
+ALTER TABLE public.share_link_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view share link access logs"
+  ON public.share_link_views FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.share_links
+      WHERE share_links.id = share_link_views.share_link_id
+        AND public.can_view_record(share_links.record_id)
+    )
+  );
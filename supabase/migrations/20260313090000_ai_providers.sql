@@ -0,0 +1,19 @@
+-- Provider and model selection; NULL inherits from the workspace, then the
+-- default provider configured on the gemini-proxy function
+ALTER TABLE public.workspaces
+  ADD COLUMN ai_provider TEXT,
+  ADD COLUMN ai_model TEXT;
+
+ALTER TABLE public.meeting_records
+  ADD COLUMN ai_provider TEXT,
+  ADD COLUMN ai_model TEXT;
+
+-- Record which model produced each stored result, as `provider:model`
+ALTER TABLE public.transcript_versions
+  ADD COLUMN model TEXT;
+
+ALTER TABLE public.module_versions
+  ADD COLUMN model TEXT;
+
+ALTER TABLE public.action_items
+  ADD COLUMN model TEXT;
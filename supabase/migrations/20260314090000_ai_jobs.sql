@@ -0,0 +1,113 @@
+-- Corrections and first module analyses run as background jobs. The
+-- gemini-proxy function queues a row as the caller, answers at once and keeps
+-- working after the browser leaves, writing the result straight into
+-- transcript_versions or module_versions. Clients follow their meeting's jobs
+-- through Realtime.
+CREATE TABLE public.ai_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  record_id UUID NOT NULL REFERENCES public.meeting_records(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL DEFAULT auth.uid(),
+  action TEXT NOT NULL CHECK (action IN ('correctTranscript', 'analyzeTranscript')),
+  -- Analyses only: the module, the transcript version it reads and Module B's subject
+  module_id TEXT,
+  transcript_version_id UUID REFERENCES public.transcript_versions(id) ON DELETE SET NULL,
+  focus_speaker JSONB,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  -- Written while running, so a client that opens the meeting mid-run sees the output so far
+  partial_output TEXT,
+  progress JSONB,
+  retry_attempt INTEGER,
+  model TEXT,
+  error TEXT,
+  error_kind TEXT,
+  -- The transcript or module version the job produced
+  result_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ai_jobs_record_id ON public.ai_jobs(record_id, created_at);
+
+ALTER TABLE public.ai_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view AI jobs"
+  ON public.ai_jobs FOR SELECT
+  USING (public.can_view_record(record_id));
+
+-- Progress and results are written by the function with the service role
+CREATE POLICY "Editors can queue AI jobs"
+  ON public.ai_jobs FOR INSERT
+  WITH CHECK (created_by = auth.uid() AND status = 'queued' AND public.can_edit_record(record_id));
+
+CREATE TRIGGER update_ai_jobs_updated_at
+  BEFORE UPDATE ON public.ai_jobs
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Stops an unfinished job. The function checks the status whenever it saves
+-- progress and aborts the model call once the job is no longer running.
+CREATE OR REPLACE FUNCTION public.cancel_ai_job(job_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.ai_jobs
+  SET status = 'failed', error_kind = 'cancelled', error = '請求已取消', finished_at = now()
+  WHERE id = job_id
+    AND status IN ('queued', 'running')
+    AND public.can_edit_record(record_id);
+  IF NOT FOUND THEN
+    RAISE EXCEPTION '找不到執行中的工作';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ai_jobs;
+
+-- Jobs and manual edits save versions concurrently, so numbers are allocated
+-- here rather than by the writers: each insert takes the next number of its
+-- meeting (or of its meeting's module), serialized per meeting. Earlier
+-- duplicates are renumbered in creation order.
+UPDATE public.transcript_versions AS tv
+SET version_number = numbered.n
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY record_id ORDER BY version_number, created_at) AS n
+  FROM public.transcript_versions
+) AS numbered
+WHERE numbered.id = tv.id AND tv.version_number <> numbered.n;
+
+UPDATE public.module_versions AS mv
+SET version_number = numbered.n
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY record_id, module_id ORDER BY version_number, created_at) AS n
+  FROM public.module_versions
+) AS numbered
+WHERE numbered.id = mv.id AND mv.version_number <> numbered.n;
+
+ALTER TABLE public.transcript_versions
+  ADD CONSTRAINT transcript_versions_record_version_key UNIQUE (record_id, version_number);
+
+ALTER TABLE public.module_versions
+  ADD CONSTRAINT module_versions_record_module_version_key UNIQUE (record_id, module_id, version_number);
+
+CREATE OR REPLACE FUNCTION public.assign_version_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.record_id::text));
+  IF TG_TABLE_NAME = 'transcript_versions' THEN
+    SELECT COALESCE(MAX(version_number), 0) + 1 INTO NEW.version_number
+    FROM public.transcript_versions WHERE record_id = NEW.record_id;
+  ELSE
+    SELECT COALESCE(MAX(version_number), 0) + 1 INTO NEW.version_number
+    FROM public.module_versions WHERE record_id = NEW.record_id AND module_id = NEW.module_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER assign_transcript_version_number
+  BEFORE INSERT ON public.transcript_versions
+  FOR EACH ROW EXECUTE FUNCTION public.assign_version_number();
+
+CREATE TRIGGER assign_module_version_number
+  BEFORE INSERT ON public.module_versions
+  FOR EACH ROW EXECUTE FUNCTION public.assign_version_number();
@@ -0,0 +1,94 @@
+-- Token ledger: one row per AI request (a correction, an analysis, a chat
+-- reply or an action item extraction), reserved by the gemini-proxy function
+-- with the service role before the model is called and settled once the
+-- request ends. Rows outlive their meeting so the month's totals never shrink.
+CREATE TABLE public.ai_usage (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  record_id UUID REFERENCES public.meeting_records(id) ON DELETE SET NULL,
+  job_id UUID REFERENCES public.ai_jobs(id) ON DELETE SET NULL,
+  action TEXT NOT NULL,
+  model TEXT NOT NULL,
+  -- Model calls the request made, e.g. one per correction chunk
+  calls INTEGER NOT NULL DEFAULT 1,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  -- The provider reported no usage and the counts were estimated from text length
+  estimated BOOLEAN NOT NULL DEFAULT false,
+  -- USD at the provider's configured price; NULL when the model has none
+  cost NUMERIC(14, 6),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ai_usage_workspace_id ON public.ai_usage(workspace_id, created_at);
+CREATE INDEX idx_ai_usage_user_id ON public.ai_usage(user_id, created_at);
+CREATE INDEX idx_ai_usage_record_id ON public.ai_usage(record_id);
+
+ALTER TABLE public.ai_usage ENABLE ROW LEVEL SECURITY;
+
+-- Members see their own usage and their meetings'; owners see the whole workspace
+CREATE POLICY "Members can view AI usage"
+  ON public.ai_usage FOR SELECT
+  USING (
+    user_id = auth.uid()
+    OR public.workspace_role(workspace_id) = 'owner'
+    OR (record_id IS NOT NULL AND public.can_view_record(record_id))
+  );
+
+-- Monthly token caps, set by workspace owners; NULL is unlimited. The
+-- function refuses new requests once this calendar month's usage reaches one.
+ALTER TABLE public.workspaces
+  ADD COLUMN monthly_token_quota BIGINT CHECK (monthly_token_quota > 0),
+  ADD COLUMN member_monthly_token_quota BIGINT CHECK (member_monthly_token_quota > 0);
+
+-- A request in flight holds a pending row whose tokens are a reservation,
+-- replaced by the real counts when it ends. Reservations left behind by a
+-- crashed worker stop counting after an hour.
+ALTER TABLE public.ai_usage
+  ADD COLUMN pending BOOLEAN NOT NULL DEFAULT false;
+
+-- Tokens used or reserved in a workspace this calendar month (UTC), optionally by one member
+CREATE OR REPLACE FUNCTION public.monthly_token_usage(target_workspace UUID, target_user UUID DEFAULT NULL)
+RETURNS BIGINT AS $$
+  SELECT coalesce(sum(total_tokens), 0)::BIGINT FROM public.ai_usage
+  WHERE workspace_id = target_workspace
+    AND (target_user IS NULL OR user_id = target_user)
+    AND (NOT pending OR created_at > now() - interval '1 hour')
+    AND created_at >= date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Checks the caps and reserves tokens for one request in a single step, with
+-- the workspace row locked, so parallel requests cannot all pass the check.
+-- Returns the pending row's id, or NULL with the cap that is spent.
+CREATE OR REPLACE FUNCTION public.reserve_ai_usage(
+  target_workspace UUID,
+  target_user UUID,
+  target_record UUID,
+  usage_action TEXT,
+  usage_model TEXT,
+  reserved_tokens INTEGER
+)
+RETURNS TABLE (usage_id UUID, exceeded_quota TEXT) AS $$
+DECLARE
+  workspace public.workspaces;
+  reservation UUID;
+BEGIN
+  SELECT * INTO workspace FROM public.workspaces WHERE id = target_workspace FOR UPDATE;
+  IF workspace.monthly_token_quota IS NOT NULL
+    AND public.monthly_token_usage(target_workspace) >= workspace.monthly_token_quota THEN
+    RETURN QUERY SELECT NULL::UUID, 'workspace'::TEXT;
+    RETURN;
+  END IF;
+  IF workspace.member_monthly_token_quota IS NOT NULL
+    AND public.monthly_token_usage(target_workspace, target_user) >= workspace.member_monthly_token_quota THEN
+    RETURN QUERY SELECT NULL::UUID, 'member'::TEXT;
+    RETURN;
+  END IF;
+  INSERT INTO public.ai_usage (user_id, workspace_id, record_id, action, model, calls, total_tokens, pending)
+  VALUES (target_user, target_workspace, target_record, usage_action, usage_model, 0, reserved_tokens, true)
+  RETURNING id INTO reservation;
+  RETURN QUERY SELECT reservation, NULL::TEXT;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,34 @@
+-- Re-extracting a meeting's action items swaps the whole list in one
+-- transaction, so a failed insert never leaves the meeting without its items.
+-- The client sends each item's status, carried over from the tracked item it
+-- re-finds.
+-- Runs as the caller: RLS still decides who may replace them.
+CREATE OR REPLACE FUNCTION public.replace_action_items(
+  target_record UUID,
+  items JSONB,
+  source_version UUID,
+  source_prompt_version TEXT,
+  source_model TEXT
+)
+RETURNS SETOF public.action_items AS $$
+BEGIN
+  IF NOT public.can_edit_record(target_record) THEN
+    RAISE EXCEPTION '沒有編輯此會議的權限';
+  END IF;
+  DELETE FROM public.action_items WHERE record_id = target_record;
+  RETURN QUERY
+  INSERT INTO public.action_items (
+    record_id, transcript_version_id, prompt_version, model, position, task, assigner, owner,
+    due_date, due_text, source_quote, ambiguous, ambiguity_note, status
+  )
+  SELECT
+    target_record, source_version, source_prompt_version, source_model, item.position, item.task, item.assigner, item.owner,
+    item.due_date, item.due_text, coalesce(item.source_quote, ''), coalesce(item.ambiguous, false), item.ambiguity_note,
+    coalesce(item.status, 'open')
+  FROM jsonb_to_recordset(items) AS item(
+    position INTEGER, task TEXT, assigner TEXT, owner TEXT, due_date DATE, due_text TEXT,
+    source_quote TEXT, ambiguous BOOLEAN, ambiguity_note TEXT, status TEXT
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
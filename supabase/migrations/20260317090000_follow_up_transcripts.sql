@@ -0,0 +1,23 @@
+-- The action tracker looks for open items mentioned again in later meetings.
+-- Returns only the latest transcript of each meeting held, in the same
+-- workspace, after the earliest of the given meetings. Runs with the caller's
+-- rights, so RLS limits it to meetings they can view.
+CREATE OR REPLACE FUNCTION public.follow_up_transcripts(source_records UUID[])
+RETURNS TABLE (
+  record_id UUID,
+  record_title TEXT,
+  record_created_at TIMESTAMP WITH TIME ZONE,
+  corrected_transcript TEXT
+) AS $$
+  WITH sources AS (
+    SELECT workspace_id, min(created_at) AS since
+    FROM public.meeting_records
+    WHERE id = ANY (source_records)
+    GROUP BY workspace_id
+  )
+  SELECT DISTINCT ON (r.id) r.id, r.title, r.created_at, tv.corrected_transcript
+  FROM sources
+  JOIN public.meeting_records r ON r.workspace_id = sources.workspace_id AND r.created_at > sources.since
+  JOIN public.transcript_versions tv ON tv.record_id = r.id
+  ORDER BY r.id, tv.version_number DESC;
+$$ LANGUAGE sql STABLE SET search_path = public;
@@ -0,0 +1,76 @@
+-- Editors may update shared meetings but not take them over. Run with `supabase test db`.
+BEGIN;
+SELECT plan(6);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'owner@example.com'),
+  ('00000000-0000-0000-0000-0000000000a2', 'author@example.com'),
+  ('00000000-0000-0000-0000-0000000000a3', 'editor@example.com');
+
+INSERT INTO public.workspaces (id, name, created_by)
+VALUES ('00000000-0000-0000-0000-0000000000b1', '共用工作區', '00000000-0000-0000-0000-0000000000a1');
+INSERT INTO public.workspace_members (workspace_id, user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1', 'owner'),
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a2', 'editor'),
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a3', 'editor');
+INSERT INTO public.meeting_records (id, user_id, workspace_id) VALUES
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000a2', '00000000-0000-0000-0000-0000000000b1'),
+  ('00000000-0000-0000-0000-0000000000c2', '00000000-0000-0000-0000-0000000000a2', '00000000-0000-0000-0000-0000000000b1');
+
+CREATE FUNCTION pg_temp.personal_workspace(member UUID) RETURNS UUID AS $$
+  SELECT id FROM public.workspaces WHERE created_by = member AND name = '個人工作區';
+$$ LANGUAGE sql;
+
+CREATE FUNCTION pg_temp.act_as(member UUID) RETURNS VOID AS $$
+  SELECT set_config('request.jwt.claims', json_build_object('sub', member, 'role', 'authenticated')::text, true);
+$$ LANGUAGE sql;
+
+SET LOCAL ROLE authenticated;
+
+-- Another editor
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a3');
+
+SELECT lives_ok(
+  $$UPDATE public.meeting_records SET title = '週會' WHERE id = '00000000-0000-0000-0000-0000000000c1'$$,
+  'editors can update shared meetings'
+);
+
+SELECT throws_ok(
+  $$UPDATE public.meeting_records SET user_id = '00000000-0000-0000-0000-0000000000a3' WHERE id = '00000000-0000-0000-0000-0000000000c1'$$,
+  '無法變更會議的建立者',
+  'editors cannot make themselves the author'
+);
+
+SELECT throws_ok(
+  format($$UPDATE public.meeting_records SET workspace_id = %L WHERE id = '00000000-0000-0000-0000-0000000000c1'$$,
+    pg_temp.personal_workspace('00000000-0000-0000-0000-0000000000a3')),
+  '只有建立者或工作區擁有者可以移動會議',
+  'editors cannot move a colleague''s meeting out of the workspace'
+);
+
+-- The author
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a2');
+
+SELECT throws_ok(
+  $$UPDATE public.meeting_records SET user_id = '00000000-0000-0000-0000-0000000000a1' WHERE id = '00000000-0000-0000-0000-0000000000c1'$$,
+  '無法變更會議的建立者',
+  'authors cannot hand the meeting to someone else'
+);
+
+SELECT lives_ok(
+  format($$UPDATE public.meeting_records SET workspace_id = %L WHERE id = '00000000-0000-0000-0000-0000000000c1'$$,
+    pg_temp.personal_workspace('00000000-0000-0000-0000-0000000000a2')),
+  'authors can move their meetings'
+);
+
+-- The workspace owner
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a1');
+
+SELECT lives_ok(
+  format($$UPDATE public.meeting_records SET workspace_id = %L WHERE id = '00000000-0000-0000-0000-0000000000c2'$$,
+    pg_temp.personal_workspace('00000000-0000-0000-0000-0000000000a1')),
+  'owners can move any workspace meeting'
+);
+
+SELECT * FROM finish();
+ROLLBACK;